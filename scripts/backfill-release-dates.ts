@@ -0,0 +1,44 @@
+/**
+ * Backfill Figure.firstReleaseDate (the earliest releases[].date)
+ * Usage: npx tsx scripts/backfill-release-dates.ts
+ *
+ * Figures keep firstReleaseDate in sync whenever their releases are
+ * written; figures saved before it existed need this once so that
+ * sortBy=releaseDate orders them. The update is mirrored to UserFigure
+ * like any other. Safe to run more than once.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Figure from '../src/models/Figure';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('ERROR: MONGODB_URI not set in environment');
+  process.exit(1);
+}
+
+async function backfillReleaseDates() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI!);
+    console.log('Connected.');
+
+    // $min skips missing dates; figures without any dated release get null
+    const result = await Figure.updateMany(
+      { 'releases.0': { $exists: true } },
+      [{ $set: { firstReleaseDate: { $min: '$releases.date' } } }]
+    );
+
+    await mongoose.disconnect();
+    console.log(`✅ Done. ${result.modifiedCount} of ${result.matchedCount} figures with releases updated.`);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+backfillReleaseDates();
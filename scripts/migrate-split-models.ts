@@ -0,0 +1,54 @@
+/**
+ * Backfill MFCItem + UserFigure from the combined Figure documents
+ * Usage: npx tsx scripts/migrate-split-models.ts
+ *
+ * Every figure with an MFC ID gets a shared MFCItem (existing items are
+ * kept as they are), and every figure gets a UserFigure holding its
+ * per-user data plus any catalog values that differ from the item.
+ * UserFigures whose figure no longer exists are removed.
+ *
+ * UserFigure indexes left from the baseline schema (the unique
+ * { userId, mfcItemId } index) are dropped and the current ones built.
+ *
+ * Run it once before switching FIGURE_MODEL_MODE to 'split'; new writes
+ * are mirrored as they happen. Safe to run more than once.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import '../src/models/Figure';
+import { backfillSplitModels } from '../src/services/figureSplitService';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('ERROR: MONGODB_URI not set in environment');
+  process.exit(1);
+}
+
+async function migrateSplitModels() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI!);
+    console.log('Connected.');
+
+    const { figures, mirrored, removed, droppedIndexes } = await backfillSplitModels();
+    if (droppedIndexes.length > 0) {
+      console.log(`Dropped outdated UserFigure indexes: ${droppedIndexes.join(', ')}`);
+    }
+
+    await mongoose.disconnect();
+    console.log(`✅ Done. ${mirrored} of ${figures} figures mirrored, ${removed} orphaned UserFigures removed.`);
+    if (mirrored < figures) {
+      console.log('Some figures could not be mirrored; see the errors above and run the script again.');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+migrateSplitModels();
@@ -0,0 +1,58 @@
+/**
+ * Build every user's storage hierarchy from the free-text location fields
+ * Usage: npx tsx scripts/migrate-storage-locations.ts
+ *
+ * For each user with figures, the distinct `location` / `storageDetail`
+ * values of figures not yet stored in a storage node become nodes
+ * (location → room, storageDetail split on "/" → cabinet → shelf → box),
+ * and the figures are linked to them. Spelling variants that only differ
+ * in case or whitespace ("Closet", "closet ") become one node.
+ *
+ * Safe to run more than once: existing nodes are reused and figures that
+ * already have a storage node are left alone.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Figure from '../src/models/Figure';
+import { migrateLocationsToStorageTree } from '../src/services/storageService';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('ERROR: MONGODB_URI not set in environment');
+  process.exit(1);
+}
+
+async function migrateStorageLocations() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI!);
+    console.log('Connected.');
+
+    const userIds = await Figure.distinct('userId', {
+      storageNodeId: null,
+      location: { $nin: [null, ''] }
+    });
+    console.log(`Found ${userIds.length} users with unmigrated locations.`);
+
+    let totalNodes = 0;
+    let totalFigures = 0;
+    for (const userId of userIds) {
+      const { nodesCreated, figuresLinked } = await migrateLocationsToStorageTree(userId);
+      console.log(`  ${userId}: ${nodesCreated} storage locations created, ${figuresLinked} figures linked`);
+      totalNodes += nodesCreated;
+      totalFigures += figuresLinked;
+    }
+
+    await mongoose.disconnect();
+    console.log(`✅ Done. ${totalNodes} storage locations created, ${totalFigures} figures linked.`);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+migrateStorageLocations();
@@ -369,6 +369,7 @@ export const getProfile = async (req: Request, res: Response): Promise<Response
         email: user.email,
         isAdmin: user.isAdmin,
         colorProfile: user.colorProfile,
+        preferredCurrency: user.preferredCurrency,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       }
@@ -388,7 +389,7 @@ export const updateProfile = async (req: Request, res: Response): Promise<Respon
       });
     }
 
-    const { colorProfile } = req.body;
+    const { colorProfile, preferredCurrency } = req.body;
 
     // Validate colorProfile if provided
     const validProfiles = ['light', 'dark', 'terminal', 'surprise'];
@@ -399,10 +400,21 @@ export const updateProfile = async (req: Request, res: Response): Promise<Respon
       });
     }
 
-    const updateData: { colorProfile?: string } = {};
+    // Validate preferredCurrency if provided (ISO 4217 code, e.g. JPY)
+    if (preferredCurrency && (typeof preferredCurrency !== 'string' || !/^[A-Za-z]{3}$/.test(preferredCurrency))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid preferred currency. Must be a 3-letter currency code (e.g. USD, JPY)'
+      });
+    }
+
+    const updateData: { colorProfile?: string; preferredCurrency?: string } = {};
     if (colorProfile) {
       updateData.colorProfile = colorProfile;
     }
+    if (preferredCurrency) {
+      updateData.preferredCurrency = preferredCurrency.toUpperCase();
+    }
 
     const user = await User.findByIdAndUpdate(
       req.user.id,
@@ -425,6 +437,7 @@ export const updateProfile = async (req: Request, res: Response): Promise<Respon
         email: user.email,
         isAdmin: user.isAdmin,
         colorProfile: user.colorProfile,
+        preferredCurrency: user.preferredCurrency,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       }
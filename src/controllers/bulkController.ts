@@ -0,0 +1,169 @@
+/**
+ * Bulk Controller
+ *
+ * Applies one partial update to many figures at once (shelf reorganization,
+ * tagging, status changes) instead of a full updateFigure call per figure.
+ */
+
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Figure from '../models/Figure';
+import { activeFigureFilter, buildFigureFilter, FigureFilterParams } from '../services/figureQueryService';
+import { recordBulkFigureHistory } from '../services/figureHistoryService';
+import { resolveStorageLocation } from '../services/storageService';
+import { createLogger } from '../utils/logger';
+import { serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('BULK');
+
+// Most figures one request may change, whether listed by ID or matched by a filter
+export const MAX_BULK_FIGURES = 500;
+
+// Everything buildBulkUpdatePipeline can change: all the history snapshots need
+const BULK_HISTORY_FIELDS =
+  'location storageDetail storageNodeId boxNumber tags collectionStatus figureCondition';
+
+export interface BulkFigureUpdate {
+  storageNodeId?: string | null;
+  location?: string;
+  storageDetail?: string;
+  boxNumber?: string;
+  addTags?: string[];
+  removeTags?: string[];
+  collectionStatus?: 'owned' | 'ordered' | 'wished' | 'sold' | 'traded';
+  figureCondition?: string;
+}
+
+// Wrap user input so values starting with '$' are never read as field paths
+const literal = (value: unknown) => ({ $literal: value });
+
+/**
+ * Build an update pipeline for the requested changes.
+ * A pipeline (rather than $set/$addToSet/$pull) lets tags be added and
+ * removed in the same single updateMany, keeping existing tag order.
+ */
+export const buildBulkUpdatePipeline = (update: BulkFigureUpdate): Record<string, any>[] => {
+  const set: Record<string, any> = {};
+
+  if (update.location !== undefined) set.location = literal(update.location);
+  if (update.storageDetail !== undefined) set.storageDetail = literal(update.storageDetail);
+  // Location text set by hand takes the figures out of their storage node
+  if (update.storageNodeId) {
+    set.storageNodeId = literal(new mongoose.Types.ObjectId(update.storageNodeId));
+  } else if (update.storageNodeId === null || update.location !== undefined || update.storageDetail !== undefined) {
+    set.storageNodeId = '$$REMOVE';
+  }
+  if (update.boxNumber !== undefined) set.boxNumber = literal(update.boxNumber);
+  if (update.collectionStatus !== undefined) set.collectionStatus = literal(update.collectionStatus);
+  if (update.figureCondition !== undefined) {
+    // Empty string clears the condition (same as updateFigure)
+    set.figureCondition = update.figureCondition ? literal(update.figureCondition) : '$$REMOVE';
+  }
+
+  const addTags = [...new Set(update.addTags || [])];
+  const removeTags = [...new Set(update.removeTags || [])];
+  if (addTags.length > 0 || removeTags.length > 0) {
+    const currentTags = { $ifNull: ['$tags', []] };
+    const keptTags = removeTags.length > 0
+      ? { $filter: { input: currentTags, as: 'tag', cond: { $not: [{ $in: ['$$tag', literal(removeTags)] }] } } }
+      : currentTags;
+    set.tags = addTags.length > 0
+      ? {
+        $concatArrays: [
+          keptTags,
+          { $filter: { input: literal(addTags), as: 'tag', cond: { $not: [{ $in: ['$$tag', currentTags] }] } } }
+        ]
+      }
+      : keptTags;
+  }
+
+  set.updatedAt = '$$NOW';
+  return [{ $set: set }];
+};
+
+/**
+ * PATCH /figures/bulk
+ * Body: { ids: string[] } or { filter: {...filterFigures params} }, plus { update: {...} }
+ * Returns a per-ID result (updated / not_found)
+ */
+export const bulkUpdateFigures = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { ids, filter, update } = req.body as {
+      ids?: string[];
+      filter?: FigureFilterParams;
+      update: BulkFigureUpdate;
+    };
+
+    // Moving figures into a storage node sets their location text from the node
+    if (update.storageNodeId) {
+      const storage = await resolveStorageLocation(userId, update.storageNodeId);
+      if (!storage) {
+        return validationError(res, ['Storage location not found']);
+      }
+      update.location = storage.location;
+      update.storageDetail = storage.storageDetail;
+    }
+
+    // Resolve the target set: explicit IDs, or everything the filter matches
+    const requestedIds: string[] = ids
+      ? [...new Set(ids)]
+      : (await Figure.find(buildFigureFilter(userId, filter || {}))
+        .select('_id')
+        .limit(MAX_BULK_FIGURES + 1)
+        .lean())
+        .map(f => f._id.toString());
+    if (requestedIds.length > MAX_BULK_FIGURES) {
+      return validationError(res, [
+        `filter matches more than ${MAX_BULK_FIGURES} figures; narrow it down or update in batches of ids`
+      ]);
+    }
+
+    if (requestedIds.length === 0) {
+      return res.status(200).json({
+        success: true,
+        data: { matched: 0, modified: 0, results: [] }
+      });
+    }
+
+    const ownedIds = (await Figure.find({
+      _id: { $in: requestedIds.map(id => new mongoose.Types.ObjectId(id)) },
+      ...activeFigureFilter(userId)
+    }).select('_id').lean()).map(f => f._id.toString());
+
+    // Single updateMany scoped to the user: every owned target gets the same change
+    const targetQuery = { _id: { $in: ownedIds }, userId };
+    let result = { matchedCount: 0, modifiedCount: 0 };
+    if (ownedIds.length > 0) {
+      const beforeDocs = await Figure.find(targetQuery).select(BULK_HISTORY_FIELDS).lean();
+      result = await Figure.updateMany(targetQuery, buildBulkUpdatePipeline(update));
+      const afterDocs = await Figure.find(targetQuery).select(BULK_HISTORY_FIELDS).lean();
+      await recordBulkFigureHistory(userId, beforeDocs, afterDocs);
+    }
+
+    const owned = new Set(ownedIds);
+    const results = requestedIds.map(id => ({
+      id,
+      status: owned.has(id) ? 'updated' : 'not_found'
+    }));
+
+    logger.info('Bulk updated', result.modifiedCount, 'figures for user', userId);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        matched: result.matchedCount,
+        modified: result.modifiedCount,
+        results
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Bulk Update', error);
+  }
+};
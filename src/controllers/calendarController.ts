@@ -0,0 +1,148 @@
+/**
+ * Calendar Controller
+ *
+ * Release dates of ordered and wished figures: a JSON calendar for the app
+ * and a tokenized iCalendar feed that calendar apps can subscribe to.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import User from '../models/User';
+import { activeFigureFilter } from '../services/figureQueryService';
+import {
+  buildReleaseCalendar,
+  CalendarFigure,
+  generateCalendarFeedToken,
+  hashCalendarFeedToken,
+  renderICalendar
+} from '../services/calendarService';
+import { createLogger } from '../utils/logger';
+import { serverError } from '../utils/responseUtils';
+
+const logger = createLogger('CALENDAR');
+
+const CALENDAR_STATUSES = ['ordered', 'wished'];
+
+const findCalendarFigures = (userId: string, status?: string) =>
+  Figure.find({
+    ...activeFigureFilter(userId),
+    collectionStatus: status ? status : { $in: CALENDAR_STATUSES },
+    'releases.date': { $ne: null }
+  })
+    .select('name manufacturer imageUrl mfcLink collectionStatus releases')
+    .lean();
+
+// Clients reach the API behind a proxy (nginx strips /api), so prefer the configured public URL
+const feedUrl = (req: Request, token: string) => {
+  const base = process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base.replace(/\/$/, '')}/figures/calendar/feed/${token}.ics`;
+};
+
+/**
+ * GET /figures/calendar?from=&to=&status=
+ * Releases of ordered and wished figures grouped by day (rereleases flagged)
+ */
+export const getReleaseCalendar = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+    const figures = await findCalendarFigures(req.user.id, req.query.status as string | undefined);
+    const days = buildReleaseCalendar(figures as CalendarFigure[], { from, to });
+
+    return res.status(200).json({
+      success: true,
+      count: days.reduce((sum, day) => sum + day.releases.length, 0),
+      data: days
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Release Calendar', error);
+  }
+};
+
+/**
+ * POST /figures/calendar/feed
+ * Create (or rotate) the secret calendar feed URL; the old URL stops working
+ */
+export const createCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const token = generateCalendarFeedToken();
+    await User.updateOne({ _id: req.user.id }, { $set: { calendarFeedTokenHash: hashCalendarFeedToken(token) } });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Calendar feed created. Keep this URL private; it is only shown once.',
+      data: { url: feedUrl(req, token) }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Create Calendar Feed', error);
+  }
+};
+
+/**
+ * DELETE /figures/calendar/feed
+ */
+export const revokeCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    await User.updateOne({ _id: req.user.id }, { $unset: { calendarFeedTokenHash: 1 } });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Calendar feed revoked'
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Revoke Calendar Feed', error);
+  }
+};
+
+/**
+ * GET /figures/calendar/feed/:token.ics
+ * Public: the token in the URL identifies the user
+ */
+export const getCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    const token = String(req.params.token || '');
+    const user = /^[a-f0-9]{48}$/.test(token)
+      ? await User.findOne({ calendarFeedTokenHash: hashCalendarFeedToken(token) }).select('_id username')
+      : null;
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar feed not found'
+      });
+    }
+
+    const figures = await findCalendarFigures(user._id.toString());
+    const calendar = renderICalendar(buildReleaseCalendar(figures as CalendarFigure[]), {
+      name: `${user.username}'s figure releases`
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="figure-releases.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    return res.status(200).send(calendar);
+  } catch (error: any) {
+    return serverError(res, logger, 'Calendar Feed', error);
+  }
+};
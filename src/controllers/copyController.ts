@@ -0,0 +1,182 @@
+/**
+ * Copy Controller
+ *
+ * Per-copy records for a figure owned more than once, each with its own
+ * condition, storage location, purchase and merchant details.
+ * The figure's quantity is kept equal to the number of copies.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import { applyCopyFields, CopyFields, seedCopiesFromFigure } from '../services/copyService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('COPIES');
+
+const findActiveFigure = (figureId: string, userId: string) =>
+  Figure.findOne({ _id: figureId, userId, deletedAt: null }); // NOSONAR - Mongoose ODM (parameterized)
+
+const copyNotFound = (res: Response) => res.status(404).json({
+  success: false,
+  message: 'Copy not found'
+});
+
+/**
+ * GET /figures/:id/copies
+ */
+export const getFigureCopies = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figure = await findActiveFigure(req.params.id as string, req.user.id);
+    if (!figure) return figureNotFound(res);
+
+    return res.status(200).json({
+      success: true,
+      count: figure.copies?.length || 0,
+      quantity: figure.quantity,
+      data: figure.copies || []
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Copies', error);
+  }
+};
+
+/**
+ * POST /figures/:id/copies
+ * Adds a copy. The first time, the copies the figure already counts in
+ * `quantity` are turned into records (inheriting its location, condition,
+ * purchase and merchant) so they are not lost.
+ */
+export const addFigureCopy = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await findActiveFigure(req.params.id as string, userId);
+    if (!figure) return figureNotFound(res);
+
+    const before = snapshotFigure(figure);
+
+    if (!figure.copies || figure.copies.length === 0) {
+      figure.copies!.push(...seedCopiesFromFigure(figure));
+    }
+    figure.copies!.push(applyCopyFields(req.body as CopyFields));
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(201).json({
+      success: true,
+      quantity: figure.quantity,
+      data: figure.copies![figure.copies!.length - 1]
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Add Copy', error);
+  }
+};
+
+/**
+ * PATCH /figures/:id/copies/:copyId
+ */
+export const updateFigureCopy = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await findActiveFigure(req.params.id as string, userId);
+    if (!figure) return figureNotFound(res);
+
+    const copy = figure.copies?.id(req.params.copyId);
+    if (!copy) return copyNotFound(res);
+
+    const before = snapshotFigure(figure);
+    copy.set(applyCopyFields(req.body as CopyFields, copy.toObject()));
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: copy
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Copy', error);
+  }
+};
+
+/**
+ * DELETE /figures/:id/copies/:copyId
+ * The last copy cannot be removed; delete the figure instead
+ */
+export const deleteFigureCopy = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await findActiveFigure(req.params.id as string, userId);
+    if (!figure) return figureNotFound(res);
+
+    const copy = figure.copies?.id(req.params.copyId);
+    if (!copy) return copyNotFound(res);
+
+    if (figure.copies!.length === 1) {
+      return validationError(res, ['Cannot remove the only copy of a figure; delete the figure instead']);
+    }
+
+    const before = snapshotFigure(figure);
+    figure.copies!.pull(copy._id);
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Copy removed',
+      quantity: figure.quantity,
+      data: figure.copies
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Delete Copy', error);
+  }
+};
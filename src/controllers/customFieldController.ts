@@ -0,0 +1,190 @@
+/**
+ * Custom Field Controller
+ *
+ * The user's own figure fields (text, number, date, enum, boolean). Values
+ * are set through the figure create/update endpoints under `customFields`.
+ */
+
+import { Request, Response } from 'express';
+import CustomField from '../models/CustomField';
+import Figure from '../models/Figure';
+import { customFieldKeyFromName, MAX_CUSTOM_FIELDS } from '../services/customFieldService';
+import { escapeRegex } from '../services/figureQueryService';
+import { recordBulkFigureHistory } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('CUSTOM_FIELDS');
+
+const fieldNotFound = (res: Response) => res.status(404).json({
+  success: false,
+  message: 'Custom field not found'
+});
+
+const duplicateName = (res: Response) => res.status(409).json({
+  success: false,
+  message: 'A custom field with this name already exists'
+});
+
+const findByName = (userId: string, name: string) =>
+  CustomField.findOne({ userId, name: new RegExp(`^${escapeRegex(name)}$`, 'i') });
+
+/**
+ * GET /figures/custom-fields
+ */
+export const getCustomFields = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const fields = await CustomField.find({ userId: req.user.id }).sort({ order: 1, createdAt: 1 });
+
+    return res.status(200).json({
+      success: true,
+      count: fields.length,
+      data: fields
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Custom Fields', error);
+  }
+};
+
+/**
+ * POST /figures/custom-fields
+ * The storage key is derived from the name and stays the same when the
+ * field is renamed later.
+ */
+export const createCustomField = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { name, type, options, order } = req.body;
+
+    const existing = await CustomField.find({ userId }).select('key name');
+    if (existing.length >= MAX_CUSTOM_FIELDS) {
+      return validationError(res, [`A user can define at most ${MAX_CUSTOM_FIELDS} custom fields`]);
+    }
+    if (existing.some(field => field.name.toLowerCase() === name.toLowerCase())) {
+      return duplicateName(res);
+    }
+
+    const field = await CustomField.create({
+      userId,
+      key: customFieldKeyFromName(name, existing.map(field => field.key)),
+      name,
+      type,
+      options: type === 'enum' ? options : undefined,
+      order: order ?? existing.length
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: field
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Create Custom Field', error);
+  }
+};
+
+/**
+ * PATCH /figures/custom-fields/:fieldId
+ * Name, order and enum options can change; the type and key cannot.
+ * Options still used by a figure cannot be removed.
+ */
+export const updateCustomField = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { name, options, order } = req.body;
+
+    const field = await CustomField.findOne({ _id: req.params.fieldId, userId }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!field) return fieldNotFound(res);
+
+    if (name !== undefined && name.toLowerCase() !== field.name.toLowerCase()) {
+      if (await findByName(userId, name)) return duplicateName(res);
+    }
+
+    if (options !== undefined) {
+      if (field.type !== 'enum') {
+        return validationError(res, ['Only enum fields have options']);
+      }
+
+      const removed = (field.options || []).filter(option => !options.includes(option));
+      if (removed.length > 0) {
+        const inUse = await Figure.distinct(`customFields.${field.key}`, {
+          userId,
+          [`customFields.${field.key}`]: { $in: removed }
+        });
+        if (inUse.length > 0) {
+          return res.status(409).json({
+            success: false,
+            message: 'Options are still used by figures',
+            errors: inUse.map(option => `"${option}" is still used`)
+          });
+        }
+      }
+      field.options = options;
+    }
+
+    if (name !== undefined) field.name = name;
+    if (order !== undefined) field.order = order;
+    await field.save();
+
+    return res.status(200).json({
+      success: true,
+      data: field
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Custom Field', error);
+  }
+};
+
+/**
+ * DELETE /figures/custom-fields/:fieldId
+ * Also removes the field's values from every figure, including trashed ones.
+ */
+export const deleteCustomField = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const field = await CustomField.findOneAndDelete({ _id: req.params.fieldId, userId }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!field) return fieldNotFound(res);
+
+    const path = `customFields.${field.key}`;
+    const withValue = await Figure.find({ userId, [path]: { $exists: true } }).lean();
+    const ids = withValue.map(figure => figure._id);
+    const result = await Figure.updateMany(
+      { _id: { $in: ids }, userId },
+      { $unset: { [path]: 1 } }
+    );
+    await recordBulkFigureHistory(userId, withValue, await Figure.find({ _id: { $in: ids }, userId }).lean());
+
+    return res.status(200).json({
+      success: true,
+      message: 'Custom field deleted',
+      data: { figuresUpdated: result.modifiedCount }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Delete Custom Field', error);
+  }
+};
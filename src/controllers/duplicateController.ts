@@ -0,0 +1,180 @@
+/**
+ * Duplicate Controller
+ *
+ * Surfaces figures that are probably entered more than once (manual entry,
+ * MFC sync and imports of the same item) and merges them into one.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import Shelf from '../models/Shelf';
+import { activeFigureFilter } from '../services/figureQueryService';
+import { DuplicateFigure, findDuplicateGroups } from '../services/duplicateService';
+import { MergeChoiceField, buildMergedFields } from '../services/mergeService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { computePurgeAt } from '../services/trashService';
+import { outstandingLoan } from '../services/loanService';
+import { MAX_PHOTOS_PER_FIGURE } from './photoController';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('DUPLICATES');
+
+/**
+ * GET /figures/duplicates
+ * Groups of likely duplicates, most certain first. Query: minConfidence (0–1)
+ */
+export const getDuplicates = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figures = await Figure.find(activeFigureFilter(req.user.id))
+      .select('name manufacturer scale mfcId jan releases.jan collectionStatus imageUrl createdAt')
+      .lean();
+
+    const groups = findDuplicateGroups(figures as DuplicateFigure[], {
+      minConfidence: req.query.minConfidence !== undefined ? Number(req.query.minConfidence) : undefined
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: groups,
+      total: groups.length
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Find Duplicates', error);
+  }
+};
+
+/**
+ * POST /figures/merge
+ * Merge secondary figures into the primary and move the secondaries to the trash.
+ * Body: { primaryId, secondaryIds, fields?: { [field]: figureId whose value wins } }
+ */
+export const mergeFigures = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { primaryId, secondaryIds, fields = {} } = req.body as {
+      primaryId: string;
+      secondaryIds: string[];
+      fields?: Partial<Record<MergeChoiceField, string>>;
+    };
+
+    const figureIds = [primaryId, ...secondaryIds];
+    const errors: string[] = [];
+    if (secondaryIds.includes(primaryId)) {
+      errors.push('primaryId cannot also be a secondary figure');
+    }
+    for (const [field, figureId] of Object.entries(fields)) {
+      if (!figureIds.includes(figureId as string)) {
+        errors.push(`fields.${field} must be one of the merged figures`);
+      }
+    }
+    if (errors.length > 0) {
+      return validationError(res, errors);
+    }
+
+    const found = await Figure.find({ // NOSONAR - Mongoose ODM (parameterized)
+      _id: { $in: figureIds },
+      userId,
+      deletedAt: null
+    });
+    const byId = new Map(found.map(figure => [figure._id.toString(), figure]));
+    if (figureIds.some(id => !byId.has(id))) {
+      return figureNotFound(res);
+    }
+
+    const primary = byId.get(primaryId)!;
+    const secondaries = secondaryIds.map(id => byId.get(id)!);
+    // The loan would be lost with the trashed copy; it has to be returned first
+    const onLoan = secondaries.filter(figure => outstandingLoan(figure.loans));
+    if (onLoan.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Figure is on loan: record its return before merging it',
+        figureIds: onLoan.map(figure => figure._id)
+      });
+    }
+    const merged = buildMergedFields(
+      [primary, ...secondaries].map(figure => figure.toObject()),
+      fields
+    );
+
+    if (merged.photos.length > MAX_PHOTOS_PER_FIGURE) {
+      return validationError(res, [
+        `A figure can have at most ${MAX_PHOTOS_PER_FIGURE} photos (the merge would give ${merged.photos.length})`
+      ]);
+    }
+
+    // The secondaries go to the trash before the primary takes their data, so
+    // a failure part-way never leaves them active next to a primary that
+    // already counts them (a retry would merge them twice). If the primary
+    // cannot be saved they are put back as they were.
+    // Photos now belong to the merged figure, so the trashed copies drop them
+    const deletedAt = new Date();
+    const purgeAt = computePurgeAt(deletedAt);
+    await Figure.updateMany(
+      { _id: { $in: secondaries.map(figure => figure._id) }, userId, deletedAt: null },
+      { $set: { deletedAt, purgeAt, photos: [] } }
+    );
+
+    const before = snapshotFigure(primary);
+    primary.set(merged);
+    try {
+      await primary.save();
+    } catch (error) {
+      for (const secondary of secondaries) {
+        await Figure.updateOne(
+          { _id: secondary._id, userId, deletedAt },
+          { $set: { photos: secondary.toObject().photos || [] }, $unset: { deletedAt: 1, purgeAt: 1 } }
+        );
+      }
+      throw error;
+    }
+
+    // Shelves showing a secondary now show the merged figure in its place
+    const shelves = await Shelf.find({ userId, figureIds: { $in: secondaryIds } });
+    for (const shelf of shelves) {
+      const ids = shelf.figureIds.map(id => (secondaryIds.includes(id.toString()) ? primary._id : id));
+      shelf.figureIds = ids.filter((id, index) => ids.findIndex(other => other.equals(id)) === index);
+      await shelf.save();
+    }
+
+    await recordFigureHistory({
+      figureId: primary._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(primary)
+    });
+    await recordFigureHistory(secondaries.map(figure => {
+      const secondaryBefore = snapshotFigure(figure);
+      return {
+        figureId: figure._id,
+        userId,
+        action: 'delete' as const,
+        before: secondaryBefore,
+        after: secondaryBefore && snapshotFigure({ ...secondaryBefore, deletedAt, purgeAt, photos: [] })
+      };
+    }));
+
+    return res.status(200).json({
+      success: true,
+      data: primary,
+      merged: secondaries.length
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Merge Figures', error);
+  }
+};
@@ -0,0 +1,258 @@
+/**
+ * Export Controller
+ *
+ * Streams the caller's collection as CSV or JSON, or as a printable HTML
+ * inventory report, honoring the same filters as filterFigures.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import Shelf from '../models/Shelf';
+import User from '../models/User';
+import { buildFigureFilter, FigureFilterParams } from '../services/figureQueryService';
+import {
+  ExportFormat,
+  FIGURE_EXPORT_COLUMNS,
+  customFieldExportColumns,
+  flattenFigure,
+  csvHeaderRow,
+  csvRecordRow
+} from '../services/exportService';
+import { buildCustomFieldConditions, loadCustomFieldDefinitions } from '../services/customFieldService';
+import {
+  addToTotals,
+  buildInventoryEntry,
+  InventoryFigure,
+  InventoryTotals,
+  primaryPhoto,
+  renderInventoryFooter,
+  renderInventoryHeader,
+  renderInventoryRow
+} from '../services/inventoryReportService';
+import { getPhotoStorage } from '../services/photoStorageService';
+import { buildShelfCondition } from '../services/shelfService';
+import { storageSubtreeCondition } from '../services/storageService';
+import { createConverter, loadExchangeRates } from '../services/valuationService';
+import { createLogger } from '../utils/logger';
+import { serverError } from '../utils/responseUtils';
+
+const logger = createLogger('EXPORT');
+
+// shelf= and storageNode= filters, resolved as in filterFigures
+const placementConditions = async (userId: string, params: Record<string, unknown>) => {
+  const conditions: Record<string, any>[] = [];
+  const errors: string[] = [];
+
+  if (params.shelf) {
+    const shelves = await Shelf.find({ userId }).select('figureIds').lean();
+    const { condition, errors: shelfErrors } = buildShelfCondition(shelves, params.shelf as string);
+    errors.push(...shelfErrors);
+    if (condition) conditions.push(condition);
+  }
+
+  if (params.storageNode) {
+    const condition = await storageSubtreeCondition(userId, params.storageNode as string);
+    if (condition) {
+      conditions.push(condition);
+    } else {
+      errors.push('Storage location not found');
+    }
+  }
+
+  return { conditions, errors };
+};
+
+/**
+ * Write a chunk, waiting for the socket to drain when its buffer is full so a
+ * slow client doesn't make the whole export pile up in memory.
+ * Resolves false once the client has gone away.
+ */
+const writeChunk = async (res: Response, chunk: string): Promise<boolean> => {
+  if (!res.destroyed && !res.write(chunk)) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+  return !res.destroyed;
+};
+
+/**
+ * GET /figures/export?format=csv|json
+ * Stream the user's figures (optionally filtered) as a file download
+ */
+export const exportFigures = async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'User not authenticated'
+    });
+  }
+  const userId = req.user.id;
+  const format: ExportFormat = req.query.format === 'json' ? 'json' : 'csv';
+  const filename = `figures-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  try {
+    // Custom fields add columns and may be used as filters
+    const params = req.query as Record<string, unknown>;
+    const definitions = await loadCustomFieldDefinitions(userId);
+    const customFields = buildCustomFieldConditions(definitions, params);
+    const placement = await placementConditions(userId, params);
+    const errors = [...customFields.errors, ...placement.errors];
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Filter validation failed',
+        errors
+      });
+    }
+    const query = buildFigureFilter(userId, req.query as FigureFilterParams, [
+      ...customFields.conditions,
+      ...placement.conditions
+    ]);
+    const columns = [...FIGURE_EXPORT_COLUMNS, ...customFieldExportColumns(definitions)];
+
+    const cursor = Figure.find(query)
+      .sort({ createdAt: 1, _id: 1 })
+      .lean()
+      .cursor();
+
+    res.status(200);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      // UTF-8 BOM so spreadsheet apps detect the encoding of Japanese names
+      await writeChunk(res, '\uFEFF' + csvHeaderRow(columns));
+      for await (const figure of cursor) {
+        if (!await writeChunk(res, csvRecordRow(flattenFigure(figure, columns), columns))) break;
+      }
+    } else {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      await writeChunk(res, '[');
+      let first = true;
+      for await (const figure of cursor) {
+        if (!await writeChunk(res, (first ? '' : ',') + JSON.stringify(flattenFigure(figure, columns)))) break;
+        first = false;
+      }
+      await writeChunk(res, ']');
+    }
+
+    return res.end();
+  } catch (error: any) {
+    // Once streaming has started the status line is gone; just terminate the body
+    if (res.headersSent) {
+      logger.error('Export Figures Error:', error.message);
+      return res.end();
+    }
+    return serverError(res, logger, 'Export Figures', error);
+  }
+};
+
+const INVENTORY_FIGURE_FIELDS = [
+  'name', 'manufacturer', 'companyRoles', 'scale', 'jan', 'releases', 'imageUrl', 'photos',
+  'quantity', 'copies', 'purchaseInfo', 'figureCondition', 'boxCondition', 'location', 'storageDetail'
+].join(' ');
+
+// The figure's own photo embedded as a data: URI, else its catalog image URL
+const inventoryImage = async (figure: InventoryFigure): Promise<string | null> => {
+  const photo = primaryPhoto(figure);
+  if (photo) {
+    try {
+      const data = await getPhotoStorage().read(photo.storageKey);
+      return `data:${photo.contentType};base64,${data.toString('base64')}`;
+    } catch (error: any) {
+      logger.warn('Inventory photo unavailable:', error.message);
+    }
+  }
+  return figure.imageUrl || null;
+};
+
+/**
+ * GET /figures/export/inventory
+ * Printable HTML inventory of owned figures (for insurers), with a value
+ * total in `currency` (default: the user's preferred currency).
+ * Accepts the /figures/filter filters; `status` defaults to owned.
+ * `images=false` leaves out the pictures.
+ */
+export const exportInventoryReport = async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'User not authenticated'
+    });
+  }
+  const userId = req.user.id;
+  const { currency: requestedCurrency, images, title, ...filters } = req.query as Record<string, string>;
+  const filename = `inventory-${new Date().toISOString().slice(0, 10)}.html`;
+
+  try {
+    const definitions = await loadCustomFieldDefinitions(userId);
+    const customFields = buildCustomFieldConditions(definitions, filters);
+    const placement = await placementConditions(userId, filters);
+    const errors = [...customFields.errors, ...placement.errors];
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Filter validation failed',
+        errors
+      });
+    }
+    const appliedFilters = { status: 'owned', ...filters };
+    const query = buildFigureFilter(userId, appliedFilters as FigureFilterParams, [
+      ...customFields.conditions,
+      ...placement.conditions
+    ]);
+
+    const [user, rates] = await Promise.all([
+      User.findById(userId).select('username preferredCurrency').lean(),
+      loadExchangeRates()
+    ]);
+    const currency = requestedCurrency || user?.preferredCurrency || 'USD';
+    const converter = createConverter(rates, currency);
+    const withImages = String(images) !== 'false';
+
+    const cursor = Figure.find(query)
+      .select(INVENTORY_FIGURE_FIELDS)
+      .sort({ name: 1, _id: 1 })
+      .lean()
+      .cursor();
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    await writeChunk(res, renderInventoryHeader({
+      title: title || 'Figure collection inventory',
+      owner: user?.username,
+      currency: currency.toUpperCase(),
+      generatedAt: new Date(),
+      filters: appliedFilters
+    }));
+
+    let totals: InventoryTotals = { count: 0, copies: 0, purchaseValue: 0, retailValue: 0 };
+    for await (const figure of cursor) {
+      const entry = buildInventoryEntry(figure as InventoryFigure, converter.convert);
+      totals = addToTotals(totals, entry);
+      const image = withImages ? await inventoryImage(figure as InventoryFigure) : null;
+      if (!await writeChunk(res, renderInventoryRow(totals.count, entry, currency.toUpperCase(), image))) break;
+    }
+
+    await writeChunk(res, renderInventoryFooter(totals, currency.toUpperCase(), converter.unconverted()));
+    return res.end();
+  } catch (error: any) {
+    // Once streaming has started the status line is gone; just terminate the body
+    if (res.headersSent) {
+      logger.error('Inventory Report Error:', error.message);
+      return res.end();
+    }
+    return serverError(res, logger, 'Inventory Report', error);
+  }
+};
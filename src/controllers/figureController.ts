@@ -1,10 +1,44 @@
 import { Request, Response } from 'express';
 import Figure, { IFigure } from '../models/Figure';
+import Shelf from '../models/Shelf';
 import mongoose from 'mongoose';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { createLogger } from '../utils/logger';
 import { figureSearch } from '../services/searchService';
+import {
+  activeFigureFilter,
+  buildFigureFilter,
+  cursorMatchesSort,
+  decodeFigureCursor,
+  encodeFigureCursor,
+  FigureCursor,
+  figureCursorCondition,
+  figureSortOptions,
+  FigureSortKey,
+  parseFigureSort,
+  FigureFilterParams,
+  PARTED_STATUSES
+} from '../services/figureQueryService';
+import { computePurgeAt } from '../services/trashService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import {
+  countSplitFigures,
+  findSplitFigure,
+  findSplitFigures,
+  readsFromSplitModels
+} from '../services/figureSplitService';
+import {
+  applyCustomFieldValues,
+  buildCustomFieldConditions,
+  CUSTOM_FIELD_PARAM_PREFIX,
+  customFieldSortPath,
+  CustomFieldValue,
+  loadCustomFieldDefinitions,
+  usesCustomFields
+} from '../services/customFieldService';
+import { buildShelfCondition } from '../services/shelfService';
+import { resolveStorageLocation, rollUpStorageStats, storageSubtreeCondition } from '../services/storageService';
 
 // Create secure logger instance for this controller
 const logger = createLogger('FIGURE');
@@ -330,9 +364,47 @@ export const scrapeMFCData = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Cursor pagination: the page after `cursor` (the first page without one)
+ * and the cursor of the page after it. Fetching one figure more than the
+ * limit tells whether there is a next page, without counting.
+ */
+const findFiguresAfterCursor = async (
+  query: Record<string, any>,
+  sortKeys: FigureSortKey[],
+  limit: number,
+  cursor: FigureCursor | null
+) => {
+  const pageQuery = cursor
+    ? { ...query, $and: [...(query.$and || []), figureCursorCondition(cursor)] }
+    : query;
+  const sort = figureSortOptions(sortKeys, true);
+
+  const found: any[] = readsFromSplitModels()
+    ? await findSplitFigures(pageQuery, { sort, limit: limit + 1 })
+    : await Figure.find(pageQuery).sort(sort).limit(limit + 1);
+  const figures = found.slice(0, limit);
+  return {
+    figures,
+    nextCursor: found.length > limit ? encodeFigureCursor(sortKeys, figures[figures.length - 1]) : null
+  };
+};
+
+// A cursor is only valid for the sort it was issued with
+const parseCursorParam = (cursorParam: string, sortKeys: FigureSortKey[]) => {
+  if (!cursorParam) return { cursor: null, error: null };
+  const cursor = decodeFigureCursor(cursorParam);
+  if (!cursor) return { cursor: null, error: 'cursor is invalid' };
+  if (!cursorMatchesSort(cursor, sortKeys)) {
+    return { cursor: null, error: 'cursor does not match sortBy and sortOrder' };
+  }
+  return { cursor, error: null };
+};
+
 // Get all figures for the logged-in user with pagination
 // Get all figures with optional status filter
 // Accepts optional ?status=owned|ordered|wished to filter by collection status
+// ?cursor= (empty for the first page) switches from page numbers to cursor pagination
 export const getFigures = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
@@ -358,26 +430,32 @@ export const getFigures = async (req: Request, res: Response) => {
       validationErrors.push('Limit must be between 1 and 100');
     }
 
-    // Validate sortBy parameter
-    const sortByParam = req.query.sortBy as string;
-    const validSortFields = ['createdAt', 'name', 'manufacturer', 'scale', 'price'];
-    if (sortByParam && !validSortFields.includes(sortByParam)) {
-      validationErrors.push(`sortBy must be one of: ${validSortFields.join(', ')}`);
-    }
-
     // Validate sortOrder parameter
     const sortOrderParam = req.query.sortOrder as string;
     if (sortOrderParam && !['asc', 'desc'].includes(sortOrderParam)) {
       validationErrors.push('sortOrder must be either asc or desc');
     }
 
+    // Validate sortBy parameter (comma-separated keys, "-" for descending)
+    const { keys: sortKeys, errors: sortErrors } = parseFigureSort(req.query.sortBy as string, sortOrderParam);
+    validationErrors.push(...sortErrors);
+
     // Validate status parameter (optional collection status filter)
     const statusParam = req.query.status as string;
-    const validStatuses = ['owned', 'ordered', 'wished'];
+    const validStatuses = ['owned', 'ordered', 'wished', 'sold', 'traded'];
     if (statusParam && !validStatuses.includes(statusParam)) {
       validationErrors.push(`status must be one of: ${validStatuses.join(', ')}`);
     }
 
+    // Validate cursor parameter (cursor pagination)
+    const cursorParam = req.query.cursor as string | undefined;
+    const { cursor, error: cursorError } = sortErrors.length > 0
+      ? { cursor: null, error: null }
+      : parseCursorParam(cursorParam || '', sortKeys);
+    if (cursorError) {
+      validationErrors.push(cursorError);
+    }
+
     // Return validation errors if any
     if (validationErrors.length > 0) {
       return res.status(422).json({
@@ -390,12 +468,10 @@ export const getFigures = async (req: Request, res: Response) => {
     // Use default values if not specified
     const validPage = page || 1;
     const validLimit = limit || 10;
-    const validSortBy = sortByParam || 'createdAt';
-    const validSortOrder = sortOrderParam === 'asc' ? 1 : -1;
     const skip = (validPage - 1) * validLimit;
 
-    // Build query filter with optional status
-    const query: Record<string, any> = { userId };
+    // Build query filter with optional status (trashed figures excluded)
+    const query: Record<string, any> = activeFigureFilter(userId);
     if (statusParam && validStatuses.includes(statusParam)) {
       // Handle legacy figures: null/undefined collectionStatus treated as 'owned'
       if (statusParam === 'owned') {
@@ -409,7 +485,20 @@ export const getFigures = async (req: Request, res: Response) => {
       }
     }
 
-    const total = await Figure.countDocuments(query);
+    if (cursorParam !== undefined) {
+      const { figures, nextCursor } = await findFiguresAfterCursor(query, sortKeys, validLimit, cursor);
+      return res.status(200).json({
+        success: true,
+        count: figures.length,
+        limit: validLimit,
+        nextCursor,
+        data: figures
+      });
+    }
+
+    const total = readsFromSplitModels()
+      ? await countSplitFigures(query)
+      : await Figure.countDocuments(query);
     const pages = Math.ceil(total / validLimit);
 
     // Additional page validation
@@ -421,15 +510,14 @@ export const getFigures = async (req: Request, res: Response) => {
       });
     }
 
-    // Build dynamic sort object - use allowlist guard for property injection safety
-    const allowedSortFields = ['createdAt', 'name', 'manufacturer', 'scale', 'price'];
-    const safeSortBy = allowedSortFields.includes(validSortBy) ? validSortBy : 'createdAt';
-    const sortOptions: Record<string, 1 | -1> = { [safeSortBy]: validSortOrder };
+    const sortOptions = figureSortOptions(sortKeys);
 
-    const figures = await Figure.find(query)
-      .sort(sortOptions)
-      .skip(skip)
-      .limit(validLimit);
+    const figures = readsFromSplitModels()
+      ? await findSplitFigures(query, { sort: sortOptions, skip, limit: validLimit })
+      : await Figure.find(query)
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(validLimit);
 
     return res.status(200).json({
       success: true,
@@ -460,10 +548,10 @@ export const getFigureById = async (req: Request, res: Response) => {
       });
     }
     const userId = req.user.id;
-    const figure = await Figure.findOne({ // NOSONAR - Mongoose ODM (parameterized)
-      _id: req.params.id,
-      userId
-    });
+    const filter = { _id: req.params.id, ...activeFigureFilter(userId) };
+    const figure = readsFromSplitModels()
+      ? await findSplitFigure(filter)
+      : await Figure.findOne(filter); // NOSONAR - Mongoose ODM (parameterized)
 
     if (!figure) {
       return res.status(404).json({
@@ -501,7 +589,7 @@ export const createFigure = async (req: Request, res: Response) => {
       // Core fields
       manufacturer, name, scale, mfcLink, mfcAuth, location, boxNumber, imageUrl,
       // v3.0 fields
-      storageDetail, jan, mfcId,
+      storageDetail, storageNodeId, jan, mfcId,
       // Schema v3: Array fields
       companyRoles, artistRoles, releases: releasesArray,
       // Schema v3: MFC-specific fields
@@ -510,14 +598,16 @@ export const createFigure = async (req: Request, res: Response) => {
       releaseDate, releasePrice, releaseCurrency,
       // Dimensions (flat form fields)
       heightMm, widthMm, depthMm,
-      // Collection status
-      collectionStatus, rating, wishRating, quantity, note,
+      // Collection status (statusNote is kept with the status change)
+      collectionStatus, statusNote, rating, wishRating, quantity, note,
       // Purchase info (flat form fields)
       purchaseDate, purchasePrice, purchaseCurrency,
       // Merchant info (flat form fields)
       merchantName, merchantUrl,
       // Condition
       figureCondition, figureConditionNotes, boxCondition, boxConditionNotes,
+      // User-defined custom fields, keyed by field key
+      customFields,
       // Legacy
       type, description
     } = req.body;
@@ -562,6 +652,25 @@ export const createFigure = async (req: Request, res: Response) => {
       }
     }
     
+    // Custom field values must match the user's field definitions
+    let customFieldValues: Record<string, CustomFieldValue> | undefined;
+    if (customFields) {
+      const { values, errors } = applyCustomFieldValues(await loadCustomFieldDefinitions(userId), customFields);
+      validationErrors.push(...errors);
+      customFieldValues = Object.keys(values).length > 0 ? values : undefined;
+    }
+
+    // A storage node determines location/storageDetail
+    let storageFields: Record<string, any> = {};
+    if (storageNodeId) {
+      const resolved = await resolveStorageLocation(userId, storageNodeId);
+      if (resolved) {
+        storageFields = resolved;
+      } else {
+        validationErrors.push('Storage location not found');
+      }
+    }
+
     // Return validation errors if any
     if (validationErrors.length > 0) {
       return res.status(422).json({
@@ -708,11 +817,13 @@ export const createFigure = async (req: Request, res: Response) => {
       classification: classification || undefined,
       materials: materials || undefined,
       tags: tags && tags.length > 0 ? tags : undefined,
+      customFields: customFieldValues,
 
       // Storage
       location: finalData.location,
       storageDetail: storageDetail || '',
       boxNumber: finalData.boxNumber,
+      ...storageFields,
 
       // Media
       imageUrl: finalData.imageUrl,
@@ -743,6 +854,15 @@ export const createFigure = async (req: Request, res: Response) => {
       type: type || 'action figure',
       description: description
     });
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'create',
+      before: null,
+      after: snapshotFigure(figure),
+      statusNote
+    });
     
     return res.status(201).json({
       success: true,
@@ -786,7 +906,7 @@ export const updateFigure = async (req: Request, res: Response) => {
       // Core fields
       manufacturer, name, scale, mfcLink, mfcAuth, location, boxNumber, imageUrl,
       // v3.0 fields
-      storageDetail, jan, mfcId,
+      storageDetail, storageNodeId, jan, mfcId,
       // Schema v3: Array fields
       companyRoles, artistRoles, releases: releasesArray,
       // Schema v3: MFC-specific fields
@@ -795,14 +915,18 @@ export const updateFigure = async (req: Request, res: Response) => {
       releaseDate, releasePrice, releaseCurrency,
       // Dimensions (flat form fields)
       heightMm, widthMm, depthMm,
-      // Collection status
-      collectionStatus, rating, wishRating, quantity, note,
+      // Collection status (statusNote is kept with the status change)
+      collectionStatus, statusNote, rating, wishRating, quantity, note,
       // Purchase info (flat form fields)
       purchaseDate, purchasePrice, purchaseCurrency,
       // Merchant info (flat form fields)
       merchantName, merchantUrl,
       // Condition
       figureCondition, figureConditionNotes, boxCondition, boxConditionNotes,
+      // User-defined custom fields, keyed by field key
+      customFields,
+      // Set purchaseInfo.date to today when the figure becomes owned without one
+      fillPurchaseDate,
       // Legacy
       type, description
     } = req.body;
@@ -816,10 +940,10 @@ export const updateFigure = async (req: Request, res: Response) => {
       resolvedManufacturer = manufacturerRole?.companyName || companyRoles[0]?.companyName || '';
     }
 
-    // Find figure and check ownership
+    // Find figure and check ownership (trashed figures are restored, not edited)
     let figure = await Figure.findOne({ // NOSONAR - Mongoose ODM (parameterized)
       _id: req.params.id,
-      userId
+      ...activeFigureFilter(userId)
     });
 
     if (!figure) {
@@ -829,6 +953,29 @@ export const updateFigure = async (req: Request, res: Response) => {
       });
     }
 
+    // Snapshot before any merging below edits the document in place
+    const before = snapshotFigure(figure);
+
+    // Custom fields are merged into the existing values; null clears them all
+    let customFieldUpdate: Record<string, any> = {};
+    if (customFields !== undefined) {
+      const { values, errors } = applyCustomFieldValues(
+        await loadCustomFieldDefinitions(userId),
+        customFields || {},
+        customFields === null ? {} : figure.customFields
+      );
+      if (errors.length > 0) {
+        return res.status(422).json({
+          success: false,
+          message: 'Validation Error',
+          errors
+        });
+      }
+      customFieldUpdate = Object.keys(values).length > 0
+        ? { customFields: values }
+        : { $unset: { customFields: 1 } };
+    }
+
     // Schema v3: Use resolvedManufacturer which can come from companyRoles[]
     let finalData = {
       manufacturer: resolvedManufacturer,
@@ -905,18 +1052,51 @@ export const updateFigure = async (req: Request, res: Response) => {
     } : figure.dimensions;
 
     // Build purchaseInfo object from flat form fields
-    const purchaseInfo = (purchaseDate !== undefined || purchasePrice !== undefined || purchaseCurrency !== undefined) ? {
+    let purchaseInfo: any = (purchaseDate !== undefined || purchasePrice !== undefined || purchaseCurrency !== undefined) ? {
       date: purchaseDate ? new Date(purchaseDate) : figure.purchaseInfo?.date,
       price: purchasePrice !== undefined ? purchasePrice : figure.purchaseInfo?.price,
       currency: purchaseCurrency || figure.purchaseInfo?.currency || 'USD'
     } : figure.purchaseInfo;
 
+    // A figure arriving (becoming owned) without a purchase date: fill it in
+    // with today when asked to, otherwise offer today in the response
+    let suggestedPurchaseDate: Date | undefined;
+    const becomesOwned = collectionStatus === 'owned' && (figure.collectionStatus || 'owned') !== 'owned';
+    if (becomesOwned && !purchaseInfo?.date) {
+      if (fillPurchaseDate) {
+        const current = typeof purchaseInfo?.toObject === 'function' ? purchaseInfo.toObject() : purchaseInfo;
+        purchaseInfo = { ...current, date: new Date() };
+      } else {
+        suggestedPurchaseDate = new Date();
+      }
+    }
+
     // Build merchant object from flat form fields
     const merchant = (merchantName !== undefined || merchantUrl !== undefined) ? {
       name: merchantName !== undefined ? merchantName : figure.merchant?.name,
       url: merchantUrl !== undefined ? merchantUrl : figure.merchant?.url
     } : figure.merchant;
 
+    // A storage node determines location/storageDetail; editing the text
+    // by hand takes the figure out of its node
+    let storageFields: Record<string, any> = {};
+    if (storageNodeId) {
+      const resolved = await resolveStorageLocation(userId, storageNodeId);
+      if (!resolved) {
+        return res.status(422).json({
+          success: false,
+          message: 'Validation Error',
+          errors: ['Storage location not found']
+        });
+      }
+      storageFields = resolved;
+    } else if (storageNodeId === null || (figure.storageNodeId && (
+      finalData.location !== (figure.location || '') ||
+      (storageDetail !== undefined && storageDetail !== (figure.storageDetail || ''))
+    ))) {
+      storageFields = { storageNodeId: null };
+    }
+
     // Extract mfcId from mfcLink if not provided, otherwise use existing
     const resolvedMfcId = mfcId ?? extractMfcId(mfcLink) ?? figure.mfcId;
     // Normalize mfcLink to just the ID for cleaner storage
@@ -946,11 +1126,13 @@ export const updateFigure = async (req: Request, res: Response) => {
         classification: classification !== undefined ? (classification || undefined) : figure.classification,
         materials: materials !== undefined ? (materials || undefined) : figure.materials,
         tags: tags !== undefined ? (tags && tags.length > 0 ? tags : undefined) : figure.tags,
+        ...customFieldUpdate,
 
         // Storage
         location: finalData.location,
         storageDetail: storageDetail !== undefined ? storageDetail : figure.storageDetail,
         boxNumber: finalData.boxNumber,
+        ...storageFields,
 
         // Media
         imageUrl: finalData.imageUrl,
@@ -961,7 +1143,8 @@ export const updateFigure = async (req: Request, res: Response) => {
 
         // User-specific data
         collectionStatus: collectionStatus !== undefined ? collectionStatus : figure.collectionStatus,
-        quantity: quantity !== undefined ? quantity : figure.quantity,
+        // With copy records, quantity is the number of copies
+        quantity: figure.copies?.length ? figure.copies.length : (quantity !== undefined ? quantity : figure.quantity),
         rating: rating !== undefined ? rating : figure.rating,
         wishRating: wishRating !== undefined ? wishRating : figure.wishRating,
         note: note !== undefined ? note : figure.note,
@@ -983,9 +1166,21 @@ export const updateFigure = async (req: Request, res: Response) => {
       { new: true }
     );
 
+    if (figure) {
+      await recordFigureHistory({
+        figureId: figure._id,
+        userId,
+        action: 'update',
+        before,
+        after: snapshotFigure(figure),
+        statusNote
+      });
+    }
+
     return res.status(200).json({
       success: true,
-      data: figure
+      data: figure,
+      ...(suggestedPurchaseDate ? { suggestedPurchaseDate } : {})
     });
   } catch (error: any) {
     return res.status(500).json({
@@ -996,7 +1191,7 @@ export const updateFigure = async (req: Request, res: Response) => {
   }
 };
 
-// Delete a figure
+// Delete a figure (moves it to the trash; purged after the retention period)
 export const deleteFigure = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
@@ -1010,7 +1205,8 @@ export const deleteFigure = async (req: Request, res: Response) => {
     // Find figure and check ownership
     const figure = await Figure.findOne({ // NOSONAR - Mongoose ODM (parameterized)
       _id: req.params.id,
-      userId
+      userId,
+      deletedAt: null
     });
 
     if (!figure) {
@@ -1020,12 +1216,27 @@ export const deleteFigure = async (req: Request, res: Response) => {
       });
     }
 
-    // Delete from MongoDB
-    await Figure.deleteOne({ _id: req.params.id }); // NOSONAR - Mongoose ODM (parameterized)
-    
+    // Soft delete: keep the document so it can be restored from the trash
+    const deletedAt = new Date();
+    const purgeAt = computePurgeAt(deletedAt);
+    await Figure.updateOne( // NOSONAR - Mongoose ODM (parameterized)
+      { _id: req.params.id },
+      { $set: { deletedAt, purgeAt } }
+    );
+
+    const before = snapshotFigure(figure);
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'delete',
+      before,
+      after: before && snapshotFigure({ ...before, deletedAt, purgeAt })
+    });
+
     return res.status(200).json({
       success: true,
-      message: 'Figure removed successfully'
+      message: 'Figure moved to trash',
+      data: { deletedAt, purgeAt }
     });
   } catch (error: any) {
     return res.status(500).json({
@@ -1108,137 +1319,6 @@ export const filterFigures = async (req: Request, res: Response) => {
       });
     }
     const userId = req.user.id;
-    const { manufacturer, scale, location, boxNumber, status, origin, category, distributor } = req.query;
-
-    const query: any = { userId };
-
-    // Collection status filter (owned/ordered/wished)
-    // Handle legacy figures: null/undefined collectionStatus treated as 'owned'
-    const validStatuses = ['owned', 'ordered', 'wished'];
-    if (status && validStatuses.includes(status as string)) {
-      if (status === 'owned') {
-        query.$or = [
-          { collectionStatus: 'owned' },
-          { collectionStatus: { $exists: false } },
-          { collectionStatus: null }
-        ];
-      } else {
-        query.collectionStatus = status;
-      }
-    }
-
-    // Escape regex special characters in filter values (e.g., "1/7" contains "/")
-    const escapeRegex = (str: string) => str.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
-
-    // Support comma-separated values for multi-select faceted filtering
-    // e.g., manufacturer=Good+Smile+Company,Alter → matches either manufacturer
-    // Search BOTH legacy manufacturer field AND companyRoles with Manufacturer role
-    if (manufacturer) {
-      const values = (manufacturer as string).split(',').map(v => v.trim()).filter(Boolean);
-      const manufacturerPatterns = values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'));
-
-      // Match either legacy manufacturer OR companyRoles with Manufacturer role
-      query.$and = query.$and || [];
-      query.$and.push({
-        $or: [
-          // Legacy manufacturer field
-          { manufacturer: values.length > 1 ? { $in: manufacturerPatterns } : manufacturerPatterns[0] },
-          // v3 companyRoles with Manufacturer role
-          {
-            companyRoles: {
-              $elemMatch: {
-                roleName: 'Manufacturer',
-                companyName: values.length > 1 ? { $in: manufacturerPatterns } : manufacturerPatterns[0]
-              }
-            }
-          }
-        ]
-      });
-    }
-
-    // Filter by distributor (Schema v3 companyRoles with Distributor role)
-    if (distributor) {
-      const values = (distributor as string).split(',').map(v => v.trim()).filter(Boolean);
-      const distributorPatterns = values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'));
-
-      query.$and = query.$and || [];
-      query.$and.push({
-        companyRoles: {
-          $elemMatch: {
-            roleName: 'Distributor',
-            companyName: values.length > 1 ? { $in: distributorPatterns } : distributorPatterns[0]
-          }
-        }
-      });
-    }
-    if (scale) {
-      const values = (scale as string).split(',').map(v => v.trim()).filter(Boolean);
-      // Handle special "__unspecified__" value for null/empty scales
-      const hasUnspecified = values.includes('__unspecified__');
-      const specifiedValues = values.filter(v => v !== '__unspecified__');
-
-      if (hasUnspecified && specifiedValues.length > 0) {
-        // Mix of unspecified and specified values: use $or
-        query.scale = {
-          $in: [
-            null,
-            '',
-            ...specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'))
-          ]
-        };
-      } else if (hasUnspecified) {
-        // Only unspecified: match null or empty string
-        query.scale = { $in: [null, ''] };
-      } else {
-        // Only specified values
-        query.scale = specifiedValues.length > 1
-          ? { $in: specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) }
-          : { $regex: `^${escapeRegex(specifiedValues[0])}$`, $options: 'i' };
-      }
-    }
-    if (location) {
-      const values = (location as string).split(',').map(v => v.trim()).filter(Boolean);
-      query.location = values.length > 1
-        ? { $in: values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) }
-        : { $regex: values[0], $options: 'i' };
-    }
-    if (boxNumber) query.boxNumber = { $regex: boxNumber as string, $options: 'i' };
-    if (origin) {
-      const values = (origin as string).split(',').map(v => v.trim()).filter(Boolean);
-      // Handle special "__unspecified__" value for null/empty origins
-      const hasUnspecified = values.includes('__unspecified__');
-      const specifiedValues = values.filter(v => v !== '__unspecified__');
-
-      if (hasUnspecified && specifiedValues.length > 0) {
-        query.origin = {
-          $in: [null, '', ...specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'))]
-        };
-      } else if (hasUnspecified) {
-        query.origin = { $in: [null, ''] };
-      } else {
-        query.origin = specifiedValues.length > 1
-          ? { $in: specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) }
-          : { $regex: `^${escapeRegex(specifiedValues[0])}$`, $options: 'i' };
-      }
-    }
-    if (category) {
-      const values = (category as string).split(',').map(v => v.trim()).filter(Boolean);
-      // Handle special "__unspecified__" value for null/empty categories
-      const hasUnspecified = values.includes('__unspecified__');
-      const specifiedValues = values.filter(v => v !== '__unspecified__');
-
-      if (hasUnspecified && specifiedValues.length > 0) {
-        query.category = {
-          $in: [null, '', ...specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'))]
-        };
-      } else if (hasUnspecified) {
-        query.category = { $in: [null, ''] };
-      } else {
-        query.category = specifiedValues.length > 1
-          ? { $in: specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) }
-          : { $regex: `^${escapeRegex(specifiedValues[0])}$`, $options: 'i' };
-      }
-    }
 
     const pageParam = req.query.page as string;
     const page = parseInt(pageParam, 10);
@@ -1260,34 +1340,109 @@ export const filterFigures = async (req: Request, res: Response) => {
       });
     }
 
-    // Validate sortBy parameter
-    const sortByParam = req.query.sortBy as string;
-    const validSortFields = ['createdAt', 'name', 'manufacturer', 'scale', 'price'];
-    if (sortByParam && !validSortFields.includes(sortByParam)) {
+    // Validate sortOrder parameter
+    const sortOrderParam = req.query.sortOrder as string;
+    if (sortOrderParam && !['asc', 'desc'].includes(sortOrderParam)) {
       return res.status(400).json({
         success: false,
         message: 'Sort validation failed',
-        errors: [`sortBy must be one of: ${validSortFields.join(', ')}`]
+        errors: ['sortOrder must be either asc or desc']
       });
     }
 
-    // Validate sortOrder parameter
-    const sortOrderParam = req.query.sortOrder as string;
-    if (sortOrderParam && !['asc', 'desc'].includes(sortOrderParam)) {
+    // Validate sortBy parameter (comma-separated keys, "-" for descending)
+    const { keys: sortKeys, errors: sortErrors } = parseFigureSort(
+      req.query.sortBy as string,
+      sortOrderParam,
+      { allowCustomFields: true }
+    );
+    if (sortErrors.length > 0) {
       return res.status(400).json({
         success: false,
         message: 'Sort validation failed',
-        errors: ['sortOrder must be either asc or desc']
+        errors: sortErrors
       });
     }
 
+    // Custom fields: cf.<key> filters and sortBy=cf.<key>
+    const params = req.query as Record<string, unknown>;
+    const extraConditions: Record<string, any>[] = [];
+    if (usesCustomFields(params)) {
+      const definitions = await loadCustomFieldDefinitions(userId);
+      const { conditions, errors } = buildCustomFieldConditions(definitions, params);
+      for (const key of sortKeys) {
+        if (key.field.startsWith(CUSTOM_FIELD_PARAM_PREFIX) && !customFieldSortPath(definitions, key.field)) {
+          errors.push(`Unknown custom field "${key.field.slice(CUSTOM_FIELD_PARAM_PREFIX.length)}"`);
+        }
+      }
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Filter validation failed',
+          errors
+        });
+      }
+      extraConditions.push(...conditions);
+    }
+
+    // Shelves / display groups: shelf=<id>[,<id>…] or __unspecified__ (on no shelf)
+    const shelfParam = req.query.shelf as string;
+    if (shelfParam) {
+      const shelves = await Shelf.find({ userId }).select('figureIds').lean();
+      const { condition, errors } = buildShelfCondition(shelves, shelfParam);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Filter validation failed',
+          errors
+        });
+      }
+      extraConditions.push(condition!);
+    }
+
+    // Storage location: storageNode=<id> includes everything stored below it
+    const storageNodeParam = req.query.storageNode as string;
+    if (storageNodeParam) {
+      const condition = await storageSubtreeCondition(userId, storageNodeParam);
+      if (!condition) {
+        return res.status(400).json({
+          success: false,
+          message: 'Filter validation failed',
+          errors: ['Storage location not found']
+        });
+      }
+      extraConditions.push(condition);
+    }
+    const query = buildFigureFilter(userId, req.query as FigureFilterParams, extraConditions);
+
     const validPage = page || 1;
     const validLimit = limit || 10;
-    const validSortBy = sortByParam || 'createdAt';
-    const validSortOrder = sortOrderParam === 'asc' ? 1 : -1;
     const skip = (validPage - 1) * validLimit;
 
-    const total = await Figure.countDocuments(query);
+    // Cursor pagination (?cursor=, empty for the first page): no count, no page numbers
+    const cursorParam = req.query.cursor as string | undefined;
+    if (cursorParam !== undefined) {
+      const { cursor, error } = parseCursorParam(cursorParam, sortKeys);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: 'Pagination validation failed',
+          errors: [error]
+        });
+      }
+      const { figures, nextCursor } = await findFiguresAfterCursor(query, sortKeys, validLimit, cursor);
+      return res.status(200).json({
+        success: true,
+        count: figures.length,
+        limit: validLimit,
+        nextCursor,
+        data: figures
+      });
+    }
+
+    const total = readsFromSplitModels()
+      ? await countSplitFigures(query)
+      : await Figure.countDocuments(query);
     const pages = Math.ceil(total / validLimit);
 
     // Validate page is within total pages
@@ -1299,15 +1454,14 @@ export const filterFigures = async (req: Request, res: Response) => {
       });
     }
 
-    // Build dynamic sort object - use allowlist guard for property injection safety
-    const allowedSortFields = ['createdAt', 'name', 'manufacturer', 'scale', 'price'];
-    const safeSortBy = allowedSortFields.includes(validSortBy) ? validSortBy : 'createdAt';
-    const sortOptions: Record<string, 1 | -1> = { [safeSortBy]: validSortOrder };
+    const sortOptions = figureSortOptions(sortKeys);
 
-    const figures = await Figure.find(query)
-      .sort(sortOptions)
-      .skip(skip)
-      .limit(validLimit);
+    const figures = readsFromSplitModels()
+      ? await findSplitFigures(query, { sort: sortOptions, skip, limit: validLimit })
+      : await Figure.find(query)
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(validLimit);
 
     return res.status(200).json({
       success: true,
@@ -1327,7 +1481,8 @@ export const filterFigures = async (req: Request, res: Response) => {
 };
 
 // Get statistics
-// Accepts optional ?status=owned|ordered|wished to filter stats by collection status
+// Accepts optional ?status=owned|ordered|wished|sold|traded to filter stats by collection status
+// Without it, sold and traded figures are left out of the totals and breakdowns
 export const getFigureStats = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
@@ -1351,12 +1506,12 @@ export const getFigureStats = async (req: Request, res: Response) => {
 
     // Optional collection status filter
     const statusFilter = req.query.status as string | undefined;
-    const validStatuses = ['owned', 'ordered', 'wished'];
+    const validStatuses = ['owned', 'ordered', 'wished', 'sold', 'traded'];
     const collectionStatus = statusFilter && validStatuses.includes(statusFilter) ? statusFilter : undefined;
 
     // Base match filter - always filter by user
     // Handle legacy figures: null/undefined collectionStatus treated as 'owned'
-    const baseMatch: Record<string, any> = { userId: userObjectId };
+    const baseMatch: Record<string, any> = activeFigureFilter(userObjectId);
     if (collectionStatus) {
       if (collectionStatus === 'owned') {
         baseMatch.$or = [
@@ -1367,31 +1522,51 @@ export const getFigureStats = async (req: Request, res: Response) => {
       } else {
         baseMatch.collectionStatus = collectionStatus;
       }
+    } else {
+      // Null matches $nin, so legacy figures stay in
+      baseMatch.collectionStatus = { $nin: PARTED_STATUSES };
     }
 
-    // Status counts (always return all three, unfiltered by status param)
+    // Status counts (always return every status, unfiltered by status param)
     // Legacy figures with null/undefined collectionStatus are counted as 'owned'
+    // Copies: one per copy record, otherwise the figure's quantity
     const statusCounts = await Figure.aggregate([
-      { $match: { userId: userObjectId } },
+      { $match: activeFigureFilter(userObjectId) },
       {
         $group: {
           _id: {
             $ifNull: ['$collectionStatus', 'owned']
           },
-          count: { $sum: 1 }
+          count: { $sum: 1 },
+          copies: {
+            $sum: {
+              $cond: [
+                { $gt: [{ $size: { $ifNull: ['$copies', []] } }, 0] },
+                { $size: '$copies' },
+                { $ifNull: ['$quantity', 1] }
+              ]
+            }
+          }
         }
       }
     ]);
     const statusCountsMap = {
       owned: 0,
       ordered: 0,
-      wished: 0
+      wished: 0,
+      sold: 0,
+      traded: 0
     };
-    statusCounts.forEach((s: { _id: string; count: number }) => {
+    const copyCountsMap = { ...statusCountsMap };
+    statusCounts.forEach((s: { _id: string; count: number; copies?: number }) => {
       if (s._id && validStatuses.includes(s._id)) {
         statusCountsMap[s._id as keyof typeof statusCountsMap] = s.count;
+        copyCountsMap[s._id as keyof typeof copyCountsMap] = s.copies || 0;
       }
     });
+    const totalCopies = collectionStatus
+      ? copyCountsMap[collectionStatus as keyof typeof copyCountsMap]
+      : copyCountsMap.owned + copyCountsMap.ordered + copyCountsMap.wished;
 
     // Total count (filtered by status if provided)
     const totalCount = await Figure.countDocuments(baseMatch);
@@ -1411,12 +1586,28 @@ export const getFigureStats = async (req: Request, res: Response) => {
     ]);
 
     // Count by location (filtered)
+    // Figures with copy records count once per copy, at each copy's location
     const locationStats = await Figure.aggregate([
       { $match: baseMatch },
-      { $group: { _id: '$location', count: { $sum: 1 } } },
+      {
+        $project: {
+          locations: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ['$copies', []] } }, 0] },
+              { $map: { input: '$copies', as: 'copy', in: '$$copy.location' } },
+              ['$location']
+            ]
+          }
+        }
+      },
+      { $unwind: '$locations' },
+      { $group: { _id: '$locations', count: { $sum: 1 } } },
       { $sort: { count: -1 } }
     ]);
 
+    // Figures per storage location, rolled up through the hierarchy (filtered)
+    const storageStats = await rollUpStorageStats(userObjectId, baseMatch);
+
     // Count by origin/franchise (filtered) - Schema v3
     const originStats = await Figure.aggregate([
       { $match: baseMatch },
@@ -1469,12 +1660,14 @@ export const getFigureStats = async (req: Request, res: Response) => {
       success: true,
       data: {
         totalCount,
+        totalCopies,
         statusCounts: statusCountsMap,
         manufacturerStats,
         v3ManufacturerStats,
         distributorStats,
         scaleStats,
         locationStats,
+        storageStats,
         originStats,
         categoryStats,
         activeStatus: collectionStatus || null
@@ -0,0 +1,66 @@
+/**
+ * History Controller
+ *
+ * Serves the per-figure audit trail recorded by figureHistoryService
+ * (form edits, MFC sync overwrites, imports, bulk updates, trash/restore).
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import FigureHistory from '../models/FigureHistory';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError } from '../utils/responseUtils';
+
+const logger = createLogger('HISTORY');
+
+/**
+ * GET /figures/:id/history
+ * History entries for one figure, newest first
+ * Query: page, limit, field (only entries that changed that field)
+ */
+export const getFigureHistory = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const field = req.query.field as string | undefined;
+
+    const query: Record<string, any> = { figureId: req.params.id, userId };
+    if (field) query['changes.field'] = field;
+
+    const total = await FigureHistory.countDocuments(query);
+
+    // History outlives purged figures, so only 404 when there is neither
+    if (total === 0 && !(await Figure.exists({ _id: req.params.id, userId }))) {
+      return figureNotFound(res);
+    }
+
+    const entries = await FigureHistory.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean();
+
+    // With a field filter, trim each entry down to that field's change
+    const data = field
+      ? entries.map(entry => ({ ...entry, changes: entry.changes.filter(c => c.field === field) }))
+      : entries;
+
+    return res.status(200).json({
+      success: true,
+      count: data.length,
+      page,
+      pages: Math.ceil(total / limit),
+      total,
+      data
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Figure History', error);
+  }
+};
@@ -0,0 +1,217 @@
+/**
+ * Import Controller
+ *
+ * Three-step generic CSV import: detect headers, dry-run a column mapping,
+ * then commit. The CSV is sent with every step (as with /sync/parse-csv),
+ * so no import state is kept on the server between calls.
+ */
+
+import { Request, Response } from 'express';
+import Figure, { IFigure } from '../models/Figure';
+import {
+  parseCsv,
+  suggestMapping,
+  analyzeImport,
+  buildFigureFromRow,
+  IMPORTABLE_FIELDS,
+  MAX_IMPORT_ROWS,
+  ImportInvalidRow,
+  ImportMapping
+} from '../services/importService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('IMPORT');
+
+interface ImportCandidate {
+  row: number;
+  figure: IFigure;
+}
+
+/**
+ * Insert the figures unordered, so a row the database rejects doesn't stop
+ * the rest; rejected rows are added to `failed`.
+ */
+const insertImportedFigures = async (
+  candidates: ImportCandidate[],
+  failed: ImportInvalidRow[]
+): Promise<IFigure[]> => {
+  if (candidates.length === 0) return [];
+  try {
+    return await Figure.insertMany(candidates.map(c => c.figure), { ordered: false });
+  } catch (error: any) {
+    if (!error.writeErrors) throw error;
+    // Mongoose maps the write error indexes back onto `candidates`
+    for (const writeError of error.writeErrors) {
+      failed.push({ row: candidates[writeError.index].row, errors: [writeError.err?.errmsg || 'Could not be saved'] });
+    }
+    return error.insertedDocs;
+  }
+};
+
+/**
+ * Validate the parsed CSV and the mapping shared by preview and commit.
+ * Returns an error message, or null when the request can proceed.
+ */
+const checkImportRequest = (csvContent: string, mapping?: ImportMapping): string | null => {
+  const rows = parseCsv(csvContent);
+  if (rows.length < 2) {
+    return 'CSV must contain a header row and at least one data row';
+  }
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    return `CSV exceeds the maximum of ${MAX_IMPORT_ROWS} rows`;
+  }
+  if (mapping) {
+    const targets = Object.values(mapping).filter(Boolean);
+    const unknown = targets.filter(field => !(IMPORTABLE_FIELDS as readonly string[]).includes(field));
+    if (unknown.length > 0) {
+      return `Unknown figure fields in mapping: ${unknown.join(', ')}`;
+    }
+    const duplicated = targets.filter((field, index) => targets.indexOf(field) !== index);
+    if (duplicated.length > 0) {
+      return `Fields mapped from more than one column: ${[...new Set(duplicated)].join(', ')}`;
+    }
+    if (targets.length === 0) {
+      return 'Mapping must assign at least one column to a figure field';
+    }
+  }
+  return null;
+};
+
+/**
+ * POST /figures/import/headers
+ * Detect the CSV header row and suggest a column → field mapping
+ */
+export const detectImportHeaders = async (req: Request, res: Response) => {
+  try {
+    const { csvContent } = req.body;
+
+    const problem = checkImportRequest(csvContent);
+    if (problem) {
+      return validationError(res, [problem]);
+    }
+
+    const [headers, ...dataRows] = parseCsv(csvContent);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        headers,
+        rowCount: dataRows.length,
+        sampleRows: dataRows.slice(0, 5),
+        suggestedMapping: suggestMapping(headers),
+        fields: IMPORTABLE_FIELDS
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Detect Import Headers', error);
+  }
+};
+
+/**
+ * POST /figures/import/preview
+ * Dry run: report rows to create, invalid rows and likely duplicates
+ */
+export const previewImport = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const { csvContent, mapping } = req.body;
+
+    const problem = checkImportRequest(csvContent, mapping);
+    if (problem) {
+      return validationError(res, [problem]);
+    }
+
+    const report = await analyzeImport(csvContent, mapping, req.user.id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        summary: {
+          totalRows: report.totalRows,
+          toCreate: report.toCreate.length,
+          invalid: report.invalid.length,
+          duplicates: report.duplicates.length
+        },
+        ...report
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Preview Import', error);
+  }
+};
+
+/**
+ * POST /figures/import/commit
+ * Create the figures from a mapping. Invalid rows are always skipped;
+ * duplicates are skipped unless includeDuplicates is set. Rows that fail
+ * to save are listed in failedRows; the others are still imported.
+ */
+export const commitImport = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { csvContent, mapping, includeDuplicates } = req.body;
+
+    const problem = checkImportRequest(csvContent, mapping);
+    if (problem) {
+      return validationError(res, [problem]);
+    }
+
+    const report = await analyzeImport(csvContent, mapping, userId);
+    const rowsToCreate = includeDuplicates
+      ? [...report.toCreate, ...report.duplicates].sort((a, b) => a.row - b.row)
+      : report.toCreate;
+
+    // Every row is reported as created or failed: rows that don't pass
+    // schema validation are left out up front, the rest inserted unordered
+    const failed: ImportInvalidRow[] = [];
+    const candidates = rowsToCreate
+      .map(r => ({ row: r.row, figure: new Figure(buildFigureFromRow(r.data, userId)) }))
+      .filter(({ row, figure }) => {
+        const invalid = figure.validateSync();
+        if (invalid) failed.push({ row, errors: Object.values(invalid.errors).map(err => err.message) });
+        return !invalid;
+      });
+    const created = await insertImportedFigures(candidates, failed);
+    failed.sort((a, b) => a.row - b.row);
+
+    await recordFigureHistory(created.map(figure => ({
+      figureId: figure._id,
+      userId,
+      action: 'create' as const,
+      source: 'import' as const,
+      before: null,
+      after: snapshotFigure(figure)
+    })));
+
+    logger.info('Imported', created.length, 'figures for user', userId,
+      failed.length > 0 ? `(${failed.length} failed)` : '');
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        created: created.length,
+        skippedInvalid: report.invalid.length,
+        skippedDuplicates: includeDuplicates ? 0 : report.duplicates.length,
+        failed: failed.length,
+        figureIds: created.map(f => f._id),
+        invalid: report.invalid,
+        failedRows: failed
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Commit Import', error);
+  }
+};
@@ -0,0 +1,168 @@
+/**
+ * JAN Controller
+ *
+ * Barcode (JAN/EAN/UPC) lookup and the add-by-barcode flow: scan a box,
+ * see whether it is already in the collection, and create the figure from
+ * the matching catalog item.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import {
+  figureDataFromCatalog,
+  findCatalogJanMatches,
+  findOwnedJanMatches,
+  isValidJan,
+  janVariants,
+  normalizeJan
+} from '../services/janService';
+import { resolveStorageLocation } from '../services/storageService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('JAN');
+
+const invalidJan = (res: Response) => res.status(422).json({
+  success: false,
+  message: 'Validation Error',
+  errors: ['Invalid JAN/EAN barcode: expected 8, 12, 13 or 14 digits with a valid check digit']
+});
+
+/**
+ * GET /figures/lookup/jan/:jan
+ * Figures in the collection with this barcode (`owned`) and catalog items to add (`catalog`)
+ */
+export const lookupJan = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const jan = normalizeJan(String(req.params.jan));
+    if (!isValidJan(jan)) return invalidJan(res);
+
+    const variants = janVariants(jan);
+    const [owned, catalog] = await Promise.all([
+      findOwnedJanMatches(req.user.id, variants),
+      findCatalogJanMatches(variants)
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      data: { jan, owned, catalog }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'JAN Lookup', error);
+  }
+};
+
+/**
+ * POST /figures/from-jan
+ * Body: { jan, mfcId?, collectionStatus?, storageNodeId? }. Creates the
+ * figure when exactly one catalog item (or the chosen `mfcId`) matches;
+ * with several matches, returns them as `candidates` to choose from.
+ */
+export const createFigureFromJan = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { mfcId, collectionStatus, storageNodeId } = req.body;
+    const jan = normalizeJan(req.body.jan);
+    if (!isValidJan(jan)) return invalidJan(res);
+
+    const variants = janVariants(jan);
+    const owned = await findOwnedJanMatches(userId, variants);
+    if (owned.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'A figure with this JAN is already in your collection',
+        data: { jan, owned }
+      });
+    }
+
+    const candidates = await findCatalogJanMatches(variants);
+    const chosen = mfcId !== undefined
+      ? candidates.filter(candidate => candidate.mfcId === mfcId)
+      : candidates;
+    if (chosen.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: mfcId !== undefined ? 'No catalog item with this JAN and mfcId' : 'No catalog item with this JAN',
+        data: { jan, candidates }
+      });
+    }
+    if (chosen.length > 1) {
+      return res.status(200).json({
+        success: true,
+        created: false,
+        data: { jan, candidates }
+      });
+    }
+
+    let storageFields: Record<string, any> = {};
+    if (storageNodeId) {
+      const resolved = await resolveStorageLocation(userId, storageNodeId);
+      if (!resolved) {
+        return validationError(res, ['Storage location not found']);
+      }
+      storageFields = resolved;
+    }
+
+    const figureData = await figureDataFromCatalog(variants, chosen[0].mfcId);
+    if (!figureData) {
+      return res.status(404).json({
+        success: false,
+        message: 'No catalog item with this JAN'
+      });
+    }
+    if (!figureData.manufacturer) {
+      return validationError(res, ['The catalog item has no manufacturer; add the figure manually']);
+    }
+
+    const existingFigure = await Figure.findOne({
+      userId,
+      manufacturer: figureData.manufacturer,
+      name: figureData.name
+    });
+    if (existingFigure) {
+      return res.status(409).json({
+        success: false,
+        message: 'A figure with the same name and manufacturer already exists'
+      });
+    }
+
+    const figure = await Figure.create({
+      ...figureData,
+      jan: figureData.jan || jan,
+      ...storageFields,
+      userId,
+      collectionStatus: collectionStatus || 'owned',
+      quantity: 1,
+      type: 'action figure'
+    });
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'create',
+      before: null,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(201).json({
+      success: true,
+      created: true,
+      data: figure
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Create Figure From JAN', error);
+  }
+};
@@ -0,0 +1,192 @@
+/**
+ * Label Controller
+ *
+ * Printable labels for storage boxes and `boxNumber` values: what is in the
+ * box, plus a QR code linking to those figures in the app. Single labels are
+ * SVG; `GET /figures/labels` is an HTML sheet of labels to print.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import { activeFigureFilter } from '../services/figureQueryService';
+import { loadStorageNodes, storagePath, STORAGE_PATH_SEPARATOR, StorageNodeLike } from '../services/storageService';
+import { BoxLabel, boxLabelUrl, LabelFigure, renderLabelSheet, renderLabelSvg } from '../services/labelService';
+import { createLogger } from '../utils/logger';
+import { serverError } from '../utils/responseUtils';
+
+const logger = createLogger('LABELS');
+
+const LABEL_FIGURE_FIELDS = 'name manufacturer scale';
+
+// The app is served from the same host as the API (nginx strips /api) unless configured otherwise
+const appUrl = (req: Request) => process.env.PUBLIC_APP_URL || `${req.protocol}://${req.get('host')}`;
+
+const sendSvg = (res: Response, svg: string) => {
+  res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="label.svg"');
+  return res.status(200).send(svg);
+};
+
+/**
+ * Labels for storage nodes, each listing the figures stored in it or below it.
+ */
+const storageLabels = async (
+  req: Request,
+  userId: string,
+  nodes: StorageNodeLike[],
+  targets: StorageNodeLike[]
+): Promise<BoxLabel[]> => {
+  const byId = new Map(nodes.map(node => [String(node._id), node]));
+  const subtrees = targets.map(target => nodes
+    .filter(node => String(node._id) === String(target._id) || node.ancestors.some(id => String(id) === String(target._id)))
+    .map(node => String(node._id)));
+
+  const figures = await Figure.find({
+    ...activeFigureFilter(userId),
+    storageNodeId: { $in: Array.from(new Set(subtrees.flat())) }
+  })
+    .select(`${LABEL_FIGURE_FIELDS} storageNodeId`)
+    .sort({ name: 1 })
+    .lean();
+
+  return targets.map((target, i) => {
+    const subtree = new Set(subtrees[i]);
+    return {
+      title: target.name,
+      subtitle: storagePath(target, byId).slice(0, -1).join(STORAGE_PATH_SEPARATOR) || undefined,
+      figures: figures.filter(figure => subtree.has(String(figure.storageNodeId))) as LabelFigure[],
+      url: boxLabelUrl(appUrl(req), { storageNodeId: String(target._id) })
+    };
+  });
+};
+
+/**
+ * Labels for `boxNumber` values, each listing the figures with that box number.
+ */
+const boxNumberLabels = async (req: Request, userId: string, boxNumbers: string[]): Promise<BoxLabel[]> => {
+  const figures = await Figure.find({ ...activeFigureFilter(userId), boxNumber: { $in: boxNumbers } })
+    .select(`${LABEL_FIGURE_FIELDS} boxNumber location`)
+    .sort({ name: 1 })
+    .lean();
+
+  return boxNumbers.map(boxNumber => {
+    const contents = figures.filter(figure => figure.boxNumber === boxNumber);
+    const locations = Array.from(new Set(contents.map(figure => figure.location).filter(Boolean)));
+    return {
+      title: boxNumber,
+      subtitle: locations.join(', ') || undefined,
+      figures: contents as LabelFigure[],
+      url: boxLabelUrl(appUrl(req), { boxNumber })
+    };
+  });
+};
+
+// A repeated query parameter arrives as an array
+const queryValues = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value]).map(v => String(v).trim()).filter(Boolean);
+
+/**
+ * GET /figures/labels
+ * HTML sheet of labels. Query: storageNodeId=<id>[,<id>…] and/or boxNumber
+ * (repeatable); without either, every storage box and every box number.
+ */
+export const getLabelSheet = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const nodeIds = Array.from(new Set(queryValues(req.query.storageNodeId).flatMap(value => value.split(','))));
+    // Box numbers may contain commas, so several are passed by repeating the parameter
+    let boxNumbers = queryValues(req.query.boxNumber);
+    const everything = nodeIds.length === 0 && boxNumbers.length === 0;
+
+    const nodes = await loadStorageNodes(userId);
+    let targets = everything
+      ? nodes.filter(node => node.kind === 'box')
+      : nodes.filter(node => nodeIds.includes(String(node._id)));
+    if (targets.length < nodeIds.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Storage location not found'
+      });
+    }
+    targets = targets.sort((a, b) => a.name.localeCompare(b.name));
+
+    if (everything) {
+      const values: string[] = await Figure.distinct('boxNumber', activeFigureFilter(userId));
+      boxNumbers = values.filter(value => value && value.trim()).sort((a, b) => a.localeCompare(b));
+    }
+
+    const labels = [
+      ...await storageLabels(req, userId, nodes, targets),
+      ...(boxNumbers.length > 0 ? await boxNumberLabels(req, userId, boxNumbers) : [])
+    ];
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    return res.status(200).send(renderLabelSheet(labels));
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Label Sheet', error);
+  }
+};
+
+/**
+ * GET /figures/labels/storage/:nodeId
+ * SVG label for one storage location
+ */
+export const getStorageLabel = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const nodes = await loadStorageNodes(userId);
+    const node = nodes.find(candidate => String(candidate._id) === req.params.nodeId);
+    if (!node) {
+      return res.status(404).json({
+        success: false,
+        message: 'Storage location not found'
+      });
+    }
+
+    const [label] = await storageLabels(req, userId, nodes, [node]);
+    return sendSvg(res, renderLabelSvg(label));
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Storage Label', error);
+  }
+};
+
+/**
+ * GET /figures/labels/box-number/:boxNumber
+ * SVG label for the figures with one `boxNumber`
+ */
+export const getBoxNumberLabel = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const [label] = await boxNumberLabels(req, userId, [String(req.params.boxNumber)]);
+    if (label.figures.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'No figures with this box number'
+      });
+    }
+
+    return sendSvg(res, renderLabelSvg(label));
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Box Number Label', error);
+  }
+};
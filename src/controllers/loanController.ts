@@ -0,0 +1,209 @@
+/**
+ * Loan Controller
+ *
+ * Figures lent to friends or exhibitions: who has them, since when and
+ * until when. Lending moves the figure to the loan's location; returning
+ * it puts the figure back where it was.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import { activeFigureFilter } from '../services/figureQueryService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { buildOutstandingLoans, LoanFigure, loanLocation, outstandingLoan } from '../services/loanService';
+import { resolveStorageLocation } from '../services/storageService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('LOANS');
+
+/**
+ * GET /figures/loans
+ * Outstanding loans across the collection, overdue ones first
+ * Query: overdue=true for only the overdue loans
+ */
+export const getOutstandingLoans = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figures = await Figure.find({
+      ...activeFigureFilter(req.user.id),
+      loans: { $elemMatch: { returnedAt: null } }
+    })
+      .select('name manufacturer imageUrl loans')
+      .lean();
+
+    let loans = buildOutstandingLoans(figures as LoanFigure[]);
+    if (String(req.query.overdue) === 'true') {
+      loans = loans.filter(loan => loan.overdue);
+    }
+
+    return res.status(200).json({
+      success: true,
+      count: loans.length,
+      overdueCount: loans.filter(loan => loan.overdue).length,
+      data: loans
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Outstanding Loans', error);
+  }
+};
+
+/**
+ * GET /figures/:id/loans
+ * The figure's loans, oldest first
+ */
+export const getFigureLoans = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(req.user.id) }) // NOSONAR - Mongoose ODM (parameterized)
+      .select('loans')
+      .lean();
+    if (!figure) return figureNotFound(res);
+
+    return res.status(200).json({
+      success: true,
+      count: figure.loans?.length || 0,
+      data: figure.loans || []
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Loans', error);
+  }
+};
+
+/**
+ * POST /figures/:id/loans
+ * Lends an owned figure out. Its location becomes the loan's location
+ * (or "On loan: <borrower>") until the loan is returned.
+ */
+export const lendFigure = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(userId) }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    if (figure.collectionStatus && figure.collectionStatus !== 'owned') {
+      return validationError(res, ['Only owned figures can be lent out']);
+    }
+    if (outstandingLoan(figure.loans)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Figure is already on loan'
+      });
+    }
+
+    const before = snapshotFigure(figure);
+    const { borrower, location, loanedAt, expectedReturnAt, note } = req.body;
+    figure.loans!.push({
+      borrower,
+      location: location || undefined,
+      loanedAt: loanedAt ? new Date(loanedAt) : new Date(),
+      expectedReturnAt: expectedReturnAt ? new Date(expectedReturnAt) : undefined,
+      note: note || undefined,
+      previousLocation: {
+        location: figure.location,
+        storageDetail: figure.storageDetail,
+        storageNodeId: figure.storageNodeId
+      }
+    });
+    figure.set({
+      location: loanLocation(borrower, location),
+      storageDetail: undefined,
+      storageNodeId: null
+    });
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: figure.loans![figure.loans!.length - 1]
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Lend Figure', error);
+  }
+};
+
+/**
+ * POST /figures/:id/loans/:loanId/return
+ * Marks the loan returned and restores the figure's previous location.
+ * A storage location that was deleted meanwhile leaves just its text.
+ */
+export const returnFigureLoan = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(userId) }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    const loan = figure.loans?.id(req.params.loanId as string);
+    if (!loan) {
+      return res.status(404).json({
+        success: false,
+        message: 'Loan not found'
+      });
+    }
+    if (loan.returnedAt) {
+      return validationError(res, ['Loan has already been returned']);
+    }
+
+    const before = snapshotFigure(figure);
+    loan.returnedAt = req.body?.returnedAt ? new Date(req.body.returnedAt) : new Date();
+
+    const previous = loan.previousLocation || {};
+    const resolved = previous.storageNodeId
+      ? await resolveStorageLocation(userId, previous.storageNodeId)
+      : null;
+    figure.set(resolved || {
+      location: previous.location,
+      storageDetail: previous.storageDetail,
+      storageNodeId: null
+    });
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: figure
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Return Loan', error);
+  }
+};
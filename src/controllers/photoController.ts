@@ -0,0 +1,329 @@
+/**
+ * Photo Controller
+ *
+ * User-uploaded photos of a figure (box damage, custom displays, proof of
+ * condition). Unlike imageUrl/imageUrls, which point at MFC, these are
+ * stored through the photo storage backend.
+ */
+
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Figure, { IFigure } from '../models/Figure';
+import { detectImageType, getPhotoStorage, PhotoNotFoundError } from '../services/photoStorageService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('PHOTOS');
+
+export const MAX_PHOTOS_PER_FIGURE = 30;
+
+const sortedPhotos = (figure: IFigure) =>
+  [...(figure.photos || [])].sort((a, b) => a.order - b.order);
+
+// Keep order contiguous and exactly one primary photo (when there are any)
+const normalizePhotos = (figure: IFigure) => {
+  const photos = sortedPhotos(figure);
+  photos.forEach((photo, index) => { photo.order = index; });
+  if (photos.length > 0 && !photos.some(photo => photo.isPrimary)) {
+    photos[0].isPrimary = true;
+  }
+};
+
+const findOwnedFigure = (figureId: string, userId: string) =>
+  Figure.findOne({ _id: figureId, userId }); // NOSONAR - Mongoose ODM (parameterized)
+
+const photoNotFound = (res: Response) => res.status(404).json({
+  success: false,
+  message: 'Photo not found'
+});
+
+/**
+ * POST /figures/:id/photos
+ * multipart/form-data: one or more `photos` files, optional `caption` per file
+ */
+export const uploadFigurePhotos = async (req: Request, res: Response) => {
+  const savedKeys: string[] = [];
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    if (files.length === 0) {
+      return validationError(res, ['At least one file is required in the "photos" field']);
+    }
+
+    const figure = await findOwnedFigure(req.params.id as string, userId);
+    if (!figure || figure.deletedAt) return figureNotFound(res);
+
+    const existingCount = figure.photos?.length || 0;
+    if (existingCount + files.length > MAX_PHOTOS_PER_FIGURE) {
+      return validationError(res, [
+        `A figure can have at most ${MAX_PHOTOS_PER_FIGURE} photos (${existingCount} already uploaded)`
+      ]);
+    }
+
+    const imageTypes = files.map(file => detectImageType(file.buffer));
+    const rejected = files.filter((_, i) => !imageTypes[i]).map(file => file.originalname);
+    if (rejected.length > 0) {
+      return validationError(res, [`Only JPEG, PNG, GIF and WebP images are supported: ${rejected.join(', ')}`]);
+    }
+
+    const captions = ([] as string[]).concat(req.body?.caption ?? []);
+    const before = snapshotFigure(figure);
+    const storage = getPhotoStorage();
+
+    for (const [i, file] of files.entries()) {
+      const imageType = imageTypes[i]!;
+      const photoId = new mongoose.Types.ObjectId();
+      const storageKey = `${userId}/${figure._id}/${photoId}.${imageType.extension}`;
+
+      await storage.save(storageKey, file.buffer, imageType.contentType);
+      savedKeys.push(storageKey);
+
+      figure.photos!.push({
+        _id: photoId,
+        storageKey,
+        contentType: imageType.contentType,
+        size: file.size,
+        originalName: file.originalname,
+        caption: captions[i]?.trim() || undefined,
+        isPrimary: false,
+        order: existingCount + i,
+        uploadedAt: new Date()
+      });
+    }
+
+    normalizePhotos(figure);
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: sortedPhotos(figure)
+    });
+  } catch (error: any) {
+    // Don't leave orphaned files behind when the figure could not be saved
+    await Promise.all(savedKeys.map(key => getPhotoStorage().remove(key).catch(() => undefined)));
+    return serverError(res, logger, 'Upload Photos', error);
+  }
+};
+
+/**
+ * GET /figures/:id/photos
+ * Photo metadata in display order
+ */
+export const getFigurePhotos = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figure = await findOwnedFigure(req.params.id as string, req.user.id);
+    if (!figure) return figureNotFound(res);
+
+    const photos = sortedPhotos(figure);
+    return res.status(200).json({
+      success: true,
+      count: photos.length,
+      data: photos
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Photos', error);
+  }
+};
+
+/**
+ * GET /figures/:id/photos/:photoId/file
+ * The image itself (accepts ?token= so it can be used in <img src>)
+ */
+export const getFigurePhotoFile = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figure = await findOwnedFigure(req.params.id as string, req.user.id);
+    if (!figure) return figureNotFound(res);
+
+    const photo = figure.photos?.id(req.params.photoId);
+    if (!photo) return photoNotFound(res);
+
+    const data = await getPhotoStorage().read(photo.storageKey);
+
+    res.setHeader('Content-Type', photo.contentType);
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return res.status(200).send(data);
+  } catch (error: any) {
+    if (error instanceof PhotoNotFoundError) {
+      logger.warn('Photo file missing from storage:', error.message);
+      return photoNotFound(res);
+    }
+    return serverError(res, logger, 'Get Photo File', error);
+  }
+};
+
+/**
+ * PATCH /figures/:id/photos/:photoId
+ * Body: { caption?: string, isPrimary?: true }
+ */
+export const updateFigurePhoto = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { caption, isPrimary } = req.body;
+
+    const figure = await findOwnedFigure(req.params.id as string, userId);
+    if (!figure || figure.deletedAt) return figureNotFound(res);
+
+    const photo = figure.photos?.id(req.params.photoId);
+    if (!photo) return photoNotFound(res);
+
+    const before = snapshotFigure(figure);
+
+    if (caption !== undefined) photo.caption = caption || undefined;
+    if (isPrimary) {
+      figure.photos!.forEach(p => { p.isPrimary = p._id.equals(photo._id); });
+    }
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: photo
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Photo', error);
+  }
+};
+
+/**
+ * PUT /figures/:id/photos/order
+ * Body: { photoIds: string[] } - every photo ID of the figure, in the new order
+ */
+export const reorderFigurePhotos = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const photoIds: string[] = req.body.photoIds;
+
+    const figure = await findOwnedFigure(req.params.id as string, userId);
+    if (!figure || figure.deletedAt) return figureNotFound(res);
+
+    const currentIds = (figure.photos || []).map(p => p._id.toString());
+    const isPermutation = photoIds.length === currentIds.length &&
+      new Set(photoIds).size === photoIds.length &&
+      photoIds.every(id => currentIds.includes(id));
+
+    if (!isPermutation) {
+      return validationError(res, ['photoIds must list every photo of the figure exactly once']);
+    }
+
+    const before = snapshotFigure(figure);
+    photoIds.forEach((id, index) => { figure.photos!.id(id)!.order = index; });
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: sortedPhotos(figure)
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Reorder Photos', error);
+  }
+};
+
+/**
+ * DELETE /figures/:id/photos/:photoId
+ * Removes the photo and its file; the next photo becomes primary if needed
+ */
+export const deleteFigurePhoto = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await findOwnedFigure(req.params.id as string, userId);
+    if (!figure || figure.deletedAt) return figureNotFound(res);
+
+    const photo = figure.photos?.id(req.params.photoId);
+    if (!photo) return photoNotFound(res);
+
+    const before = snapshotFigure(figure);
+    const { storageKey } = photo;
+
+    figure.photos!.pull(photo._id);
+    normalizePhotos(figure);
+    await figure.save();
+
+    // Remove the file after the figure no longer references it
+    try {
+      await getPhotoStorage().remove(storageKey);
+    } catch (error: any) {
+      logger.warn('Could not remove photo file:', storageKey, error.message);
+    }
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Photo deleted',
+      data: sortedPhotos(figure)
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Delete Photo', error);
+  }
+};
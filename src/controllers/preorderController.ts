@@ -0,0 +1,130 @@
+/**
+ * Pre-order Controller
+ *
+ * Deposits, balances, due dates, merchant order numbers and expected ship
+ * months for figures on order, plus the upcoming payments and arrivals
+ * across the collection.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import { activeFigureFilter } from '../services/figureQueryService';
+import { buildPreorderTimeline, PreorderFigure, summarizePreorder } from '../services/preorderService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('PREORDERS');
+
+/**
+ * GET /figures/preorders/upcoming
+ * Outstanding payments and expected arrivals of ordered figures in date order
+ */
+export const getUpcomingPreorders = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figures = await Figure.find({
+      ...activeFigureFilter(req.user.id),
+      collectionStatus: 'ordered'
+    })
+      .select('name manufacturer imageUrl merchant purchaseInfo releases preorder')
+      .lean();
+
+    const until = req.query.until ? new Date(req.query.until as string) : undefined;
+    const events = buildPreorderTimeline(figures as PreorderFigure[], { until });
+
+    return res.status(200).json({
+      success: true,
+      count: events.length,
+      data: events
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Upcoming Pre-orders', error);
+  }
+};
+
+/**
+ * GET /figures/:id/preorder
+ */
+export const getFigurePreorder = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(req.user.id) }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        preorder: figure.preorder || null,
+        summary: summarizePreorder(figure)
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Pre-order', error);
+  }
+};
+
+/**
+ * PUT /figures/:id/preorder
+ * Replaces the pre-order details, including the full payments list
+ * (payments keep their _id when it is sent back)
+ */
+export const updateFigurePreorder = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(userId) }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    if (figure.collectionStatus !== 'ordered') {
+      return validationError(res, ['Pre-order details can only be recorded for figures with collectionStatus "ordered"']);
+    }
+
+    const before = snapshotFigure(figure);
+    const { orderNumber, totalPrice, currency, expectedShipMonth, payments } = req.body;
+    figure.set('preorder', {
+      orderNumber: orderNumber || undefined,
+      totalPrice,
+      currency: currency || undefined,
+      expectedShipMonth: expectedShipMonth || undefined,
+      payments: payments || []
+    });
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        preorder: figure.preorder,
+        summary: summarizePreorder(figure)
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Pre-order', error);
+  }
+};
@@ -0,0 +1,165 @@
+/**
+ * Sale Controller
+ *
+ * Figures that left the collection by sale or trade: sale price, date,
+ * buyer/platform, fees and shipping, and the realized profit or loss
+ * against what they cost.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import { activeFigureFilter, PARTED_STATUSES } from '../services/figureQueryService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { computeRealizedProfit, SaleFigure, summarizeSales } from '../services/saleService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('SALES');
+
+/**
+ * GET /figures/sales
+ * Sold and traded figures, most recent sale first, with realized profit
+ * Query: status (sold or traded), year (of the sale date)
+ */
+export const getSales = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { status, year } = req.query as { status?: string; year?: string };
+    const query: Record<string, any> = {
+      ...activeFigureFilter(req.user.id),
+      collectionStatus: status || { $in: PARTED_STATUSES }
+    };
+    if (year) {
+      query['sale.date'] = {
+        $gte: new Date(Date.UTC(Number(year), 0, 1)),
+        $lt: new Date(Date.UTC(Number(year) + 1, 0, 1))
+      };
+    }
+
+    const figures = await Figure.find(query)
+      .select('name manufacturer imageUrl collectionStatus purchaseInfo sale')
+      .sort({ 'sale.date': -1, updatedAt: -1 })
+      .lean() as SaleFigure[];
+
+    return res.status(200).json({
+      success: true,
+      count: figures.length,
+      data: figures.map(figure => ({
+        ...figure,
+        realized: computeRealizedProfit(figure.sale, figure.purchaseInfo)
+      })),
+      summary: summarizeSales(figures)
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Sales', error);
+  }
+};
+
+/**
+ * PUT /figures/:id/sale
+ * Marks the figure sold (or traded) and replaces its sale details
+ */
+export const recordFigureSale = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(userId) }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    if (figure.collectionStatus === 'wished') {
+      return validationError(res, ['Only owned or ordered figures can be sold or traded']);
+    }
+
+    const before = snapshotFigure(figure);
+    const { status, price, currency, date, buyer, platform, fees, shipping, tradedFor, note } = req.body;
+    figure.collectionStatus = status || 'sold';
+    figure.set('sale', {
+      price,
+      // Without a currency the sale is taken to be in the purchase currency
+      currency: currency || (price !== undefined ? figure.purchaseInfo?.currency : undefined),
+      date: date ? new Date(date) : new Date(),
+      buyer: buyer || undefined,
+      platform: platform || undefined,
+      fees,
+      shipping,
+      tradedFor: tradedFor || undefined,
+      note: note || undefined
+    });
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        collectionStatus: figure.collectionStatus,
+        sale: figure.sale,
+        realized: computeRealizedProfit(figure.sale, figure.purchaseInfo)
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Record Sale', error);
+  }
+};
+
+/**
+ * DELETE /figures/:id/sale
+ * Undoes a sale or trade: the figure is owned again and its sale details
+ * are removed
+ */
+export const undoFigureSale = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await Figure.findOne({ _id: req.params.id, ...activeFigureFilter(userId) }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    if (!PARTED_STATUSES.includes(figure.collectionStatus as string)) {
+      return validationError(res, ['Figure has not been sold or traded']);
+    }
+
+    const before = snapshotFigure(figure);
+    figure.collectionStatus = 'owned';
+    figure.set('sale', undefined);
+    await figure.save();
+
+    await recordFigureHistory({
+      figureId: figure._id,
+      userId,
+      action: 'update',
+      before,
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: figure
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Undo Sale', error);
+  }
+};
@@ -0,0 +1,316 @@
+/**
+ * Shelf Controller
+ *
+ * Named shelves and display groups ("Glass case 2, top shelf"), separate
+ * from a figure's storage location. A figure can be on several shelves;
+ * each shelf keeps its own display order and optional capacity.
+ */
+
+import { Request, Response } from 'express';
+import Shelf, { IShelf } from '../models/Shelf';
+import Figure from '../models/Figure';
+import { activeFigureFilter, escapeRegex } from '../services/figureQueryService';
+import { capacityError, placeFigure } from '../services/shelfService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('SHELVES');
+
+const findShelf = (shelfId: string, userId: string) =>
+  Shelf.findOne({ _id: shelfId, userId }); // NOSONAR - Mongoose ODM (parameterized)
+
+const shelfNotFound = (res: Response) => res.status(404).json({
+  success: false,
+  message: 'Shelf not found'
+});
+
+const duplicateName = (res: Response) => res.status(409).json({
+  success: false,
+  message: 'A shelf with this name already exists'
+});
+
+const nameTaken = async (userId: string, name: string, exceptId?: string) =>
+  Boolean(await Shelf.exists({
+    userId,
+    name: new RegExp(`^${escapeRegex(name)}$`, 'i'),
+    ...(exceptId ? { _id: { $ne: exceptId } } : {})
+  }));
+
+// Drop figures that no longer exist (purged from the trash) so they don't take up capacity
+const pruneMissingFigures = async (shelf: IShelf, userId: string) => {
+  if (shelf.figureIds.length === 0) return;
+  const existing = await Figure.find({ _id: { $in: shelf.figureIds }, userId }).distinct('_id');
+  const kept = new Set(existing.map(String));
+  shelf.figureIds = shelf.figureIds.filter(id => kept.has(String(id)));
+};
+
+/**
+ * GET /figures/shelves
+ */
+export const getShelves = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const shelves = await Shelf.find({ userId: req.user.id }).sort({ name: 1 }).lean();
+
+    return res.status(200).json({
+      success: true,
+      count: shelves.length,
+      data: shelves.map(shelf => ({ ...shelf, figureCount: shelf.figureIds.length }))
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Shelves', error);
+  }
+};
+
+/**
+ * GET /figures/shelves/:shelfId
+ * The shelf with its figures in display order (trashed figures are left out)
+ */
+export const getShelf = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const shelf = await findShelf(req.params.shelfId as string, userId);
+    if (!shelf) return shelfNotFound(res);
+
+    const figures = await Figure.find({ _id: { $in: shelf.figureIds }, ...activeFigureFilter(userId) })
+      .select('name manufacturer scale imageUrl collectionStatus location storageDetail')
+      .lean();
+    const byId = new Map(figures.map(figure => [String(figure._id), figure]));
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...shelf.toObject(),
+        figures: shelf.figureIds.map(id => byId.get(String(id))).filter(Boolean)
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Shelf', error);
+  }
+};
+
+/**
+ * POST /figures/shelves
+ */
+export const createShelf = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { name, description, capacity } = req.body;
+
+    if (await nameTaken(userId, name)) return duplicateName(res);
+
+    const shelf = await Shelf.create({ userId, name, description, capacity });
+
+    return res.status(201).json({
+      success: true,
+      data: shelf
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Create Shelf', error);
+  }
+};
+
+/**
+ * PATCH /figures/shelves/:shelfId
+ * `capacity: null` removes the limit; it cannot drop below the figures already on the shelf
+ */
+export const updateShelf = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { name, description, capacity } = req.body;
+
+    const shelf = await findShelf(req.params.shelfId as string, userId);
+    if (!shelf) return shelfNotFound(res);
+
+    if (name !== undefined && await nameTaken(userId, name, shelf._id.toString())) {
+      return duplicateName(res);
+    }
+    if (name !== undefined) shelf.name = name;
+    if (description !== undefined) shelf.description = description;
+
+    if (capacity !== undefined) {
+      await pruneMissingFigures(shelf, userId);
+      const error = capacityError({ name: shelf.name, capacity }, shelf.figureIds.length);
+      if (error) {
+        return validationError(res, [`${error}; remove figures before lowering the capacity`]);
+      }
+      shelf.capacity = capacity;
+    }
+
+    await shelf.save();
+
+    return res.status(200).json({
+      success: true,
+      data: shelf
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Shelf', error);
+  }
+};
+
+/**
+ * DELETE /figures/shelves/:shelfId
+ * The figures themselves are not affected
+ */
+export const deleteShelf = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const shelf = await Shelf.findOneAndDelete({ _id: req.params.shelfId, userId: req.user.id }); // NOSONAR - Mongoose ODM (parameterized)
+    if (!shelf) return shelfNotFound(res);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Shelf deleted'
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Delete Shelf', error);
+  }
+};
+
+/**
+ * PUT /figures/shelves/:shelfId/figures
+ * Replace the shelf's figures; the order of `figureIds` is the display order
+ */
+export const setShelfFigures = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const figureIds: string[] = req.body.figureIds;
+
+    const shelf = await findShelf(req.params.shelfId as string, userId);
+    if (!shelf) return shelfNotFound(res);
+
+    const found = await Figure.find({ _id: { $in: figureIds }, ...activeFigureFilter(userId) }).distinct('_id');
+    const foundIds = new Set(found.map(String));
+    const missing = figureIds.filter(id => !foundIds.has(id));
+    if (missing.length > 0) {
+      return validationError(res, missing.map(id => `Figure not found: ${id}`));
+    }
+
+    const error = capacityError(shelf, figureIds.length);
+    if (error) return validationError(res, [error]);
+
+    shelf.set('figureIds', figureIds);
+    await shelf.save();
+
+    return res.status(200).json({
+      success: true,
+      data: shelf
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Set Shelf Figures', error);
+  }
+};
+
+/**
+ * POST /figures/shelves/:shelfId/figures
+ * Put a figure on the shelf at `position` (0-based; default: last).
+ * A figure already on the shelf is moved to that position.
+ */
+export const addShelfFigure = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { figureId, position } = req.body;
+
+    const shelf = await findShelf(req.params.shelfId as string, userId);
+    if (!shelf) return shelfNotFound(res);
+
+    const figure = await Figure.findOne({ _id: figureId, ...activeFigureFilter(userId) }).select('_id'); // NOSONAR - Mongoose ODM (parameterized)
+    if (!figure) return figureNotFound(res);
+
+    await pruneMissingFigures(shelf, userId);
+    const current = shelf.figureIds.map(String);
+    const alreadyOnShelf = current.includes(figureId);
+    if (!alreadyOnShelf) {
+      const error = capacityError(shelf, current.length + 1);
+      if (error) return validationError(res, [error]);
+    }
+
+    shelf.set('figureIds', placeFigure(current, figureId, position));
+    await shelf.save();
+
+    return res.status(alreadyOnShelf ? 200 : 201).json({
+      success: true,
+      data: shelf
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Add Shelf Figure', error);
+  }
+};
+
+/**
+ * DELETE /figures/shelves/:shelfId/figures/:figureId
+ */
+export const removeShelfFigure = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const shelf = await findShelf(req.params.shelfId as string, req.user.id);
+    if (!shelf) return shelfNotFound(res);
+
+    const figureId = req.params.figureId as string;
+    if (!shelf.figureIds.some(id => String(id) === figureId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Figure is not on this shelf'
+      });
+    }
+
+    shelf.set('figureIds', shelf.figureIds.filter(id => String(id) !== figureId));
+    await shelf.save();
+
+    return res.status(200).json({
+      success: true,
+      data: shelf
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Remove Shelf Figure', error);
+  }
+};
@@ -0,0 +1,154 @@
+/**
+ * Status History Controller
+ *
+ * Collection status timelines recorded by statusHistoryService: per figure,
+ * and how long figures take between two statuses across the collection.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import StatusChange from '../models/StatusChange';
+import { activeFigureFilter } from '../services/figureQueryService';
+import {
+  StatusDurationGroup,
+  buildStatusTimeline,
+  durationGroupValue,
+  summarizeDurations,
+  transitionDurations
+} from '../services/statusHistoryService';
+import { createLogger } from '../utils/logger';
+import { figureNotFound, serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('STATUS_HISTORY');
+
+/**
+ * GET /figures/:id/status-history
+ * The figure's collection status changes, oldest first
+ */
+export const getStatusTimeline = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const figure = await Figure.findOne({ _id: req.params.id, userId }) // NOSONAR - Mongoose ODM (parameterized)
+      .select('collectionStatus')
+      .lean();
+    if (!figure) return figureNotFound(res);
+
+    const changes = await StatusChange.find({ figureId: figure._id, userId }).lean();
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        currentStatus: figure.collectionStatus || 'owned',
+        timeline: buildStatusTimeline(changes)
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Status Timeline', error);
+  }
+};
+
+/**
+ * PATCH /figures/:id/status-history/:changeId
+ * Correct when a status change happened, or its note
+ */
+export const updateStatusChange = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { changedAt, note } = req.body as { changedAt?: string; note?: string };
+
+    const change = await StatusChange.findOne({ // NOSONAR - Mongoose ODM (parameterized)
+      _id: req.params.changeId,
+      figureId: req.params.id,
+      userId
+    });
+    if (!change) {
+      return res.status(404).json({
+        success: false,
+        message: 'Status change not found'
+      });
+    }
+
+    if (changedAt !== undefined) change.changedAt = new Date(changedAt);
+    if (note !== undefined) change.note = note || undefined;
+    await change.save();
+
+    return res.status(200).json({
+      success: true,
+      data: change
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Status Change', error);
+  }
+};
+
+/**
+ * GET /figures/status-history/durations
+ * Days figures took from one status to another (default: ordered → owned)
+ * Query: from, to, groupBy (manufacturer, category, origin, scale, merchant)
+ */
+export const getStatusDurations = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const from = (req.query.from as string) || 'ordered';
+    const to = (req.query.to as string) || 'owned';
+    const groupBy = req.query.groupBy as StatusDurationGroup | undefined;
+
+    if (from === to) {
+      return validationError(res, ['"to" must be a different status than "from"']);
+    }
+
+    // Trashed figures are left out
+    const figures = await Figure.find(activeFigureFilter(userId))
+      .select('manufacturer category origin scale merchant.name')
+      .lean();
+    const figuresById = new Map(figures.map(figure => [figure._id.toString(), figure]));
+
+    const changes = await StatusChange.find({ userId, toStatus: { $in: [from, to] } })
+      .select('figureId toStatus changedAt')
+      .lean();
+    const durations = transitionDurations(
+      changes.filter(change => figuresById.has(change.figureId.toString())),
+      from,
+      to
+    );
+
+    const [overall] = summarizeDurations(durations);
+    const groups = groupBy
+      ? summarizeDurations(durations, figureId => durationGroupValue(figuresById.get(figureId)!, groupBy))
+      : undefined;
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        from,
+        to,
+        count: durations.length,
+        averageDays: overall?.averageDays ?? null,
+        minDays: overall?.minDays ?? null,
+        maxDays: overall?.maxDays ?? null,
+        ...(groups ? { groupBy, groups } : {})
+      }
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Status Durations', error);
+  }
+};
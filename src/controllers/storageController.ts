@@ -0,0 +1,269 @@
+/**
+ * Storage Controller
+ *
+ * The user's storage hierarchy (room → cabinet → shelf → box). Figures are
+ * stored in a node through `storageNodeId`; renaming or moving a node
+ * updates the location text of every figure stored in or below it.
+ */
+
+import { Request, Response } from 'express';
+import StorageNode from '../models/StorageNode';
+import Figure from '../models/Figure';
+import { activeFigureFilter, escapeRegex } from '../services/figureQueryService';
+import {
+  migrateLocationsToStorageTree,
+  normalizeStorageName,
+  rollUpStorageStats,
+  syncFigureLocations
+} from '../services/storageService';
+import { createLogger } from '../utils/logger';
+import { serverError, validationError } from '../utils/responseUtils';
+
+const logger = createLogger('STORAGE');
+
+const findNode = (nodeId: string, userId: string) =>
+  StorageNode.findOne({ _id: nodeId, userId }); // NOSONAR - Mongoose ODM (parameterized)
+
+const nodeNotFound = (res: Response, message = 'Storage location not found') => res.status(404).json({
+  success: false,
+  message
+});
+
+const duplicateName = (res: Response) => res.status(409).json({
+  success: false,
+  message: 'A storage location with this name already exists here'
+});
+
+// Sibling names are unique (case-insensitively) so paths stay unambiguous
+const nameTaken = async (userId: string, parentId: unknown, name: string, exceptId?: unknown) =>
+  Boolean(await StorageNode.exists({
+    userId,
+    parentId: parentId || null,
+    name: new RegExp(`^${escapeRegex(name)}$`, 'i'),
+    ...(exceptId ? { _id: { $ne: exceptId } } : {})
+  }));
+
+/**
+ * GET /figures/storage
+ * The whole tree; `count` is the figures stored directly in a node and
+ * `total` includes everything below it
+ */
+export const getStorageTree = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const tree = await rollUpStorageStats(userId, activeFigureFilter(userId));
+
+    return res.status(200).json({
+      success: true,
+      data: tree
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Storage Tree', error);
+  }
+};
+
+/**
+ * POST /figures/storage
+ * Body: { name, kind, parentId? } (no parent: a top-level location)
+ */
+export const createStorageNode = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { kind, parentId } = req.body;
+    const name = normalizeStorageName(req.body.name);
+
+    const parent = parentId ? await findNode(parentId, userId) : null;
+    if (parentId && !parent) return nodeNotFound(res, 'Parent storage location not found');
+
+    if (await nameTaken(userId, parent?._id, name)) return duplicateName(res);
+
+    const node = await StorageNode.create({
+      userId,
+      name,
+      kind,
+      parentId: parent?._id || null,
+      ancestors: parent ? [...parent.ancestors, parent._id] : []
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: node
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Create Storage Node', error);
+  }
+};
+
+/**
+ * PATCH /figures/storage/:nodeId
+ * Body: { name?, kind? }; a new name is applied to the figures stored in or below the node
+ */
+export const updateStorageNode = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const node = await findNode(req.params.nodeId as string, userId);
+    if (!node) return nodeNotFound(res);
+
+    const name = req.body.name !== undefined ? normalizeStorageName(req.body.name) : undefined;
+    const renamed = name !== undefined && name !== node.name;
+    if (renamed && await nameTaken(userId, node.parentId, name, node._id)) return duplicateName(res);
+
+    if (name !== undefined) node.name = name;
+    if (req.body.kind !== undefined) node.kind = req.body.kind;
+    await node.save();
+
+    const figuresUpdated = renamed ? await syncFigureLocations(userId, node._id) : 0;
+
+    return res.status(200).json({
+      success: true,
+      data: node,
+      figuresUpdated
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Update Storage Node', error);
+  }
+};
+
+/**
+ * POST /figures/storage/:nodeId/move
+ * Body: { parentId: string | null }. Moves the node with everything in it
+ * (nodes below it and their figures); null makes it a top-level location.
+ */
+export const moveStorageNode = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+    const { parentId } = req.body;
+
+    const node = await findNode(req.params.nodeId as string, userId);
+    if (!node) return nodeNotFound(res);
+
+    const parent = parentId ? await findNode(parentId, userId) : null;
+    if (parentId && !parent) return nodeNotFound(res, 'Parent storage location not found');
+
+    if (parent && (parent._id.equals(node._id) || parent.ancestors.some(id => id.equals(node._id)))) {
+      return validationError(res, ['A storage location cannot be moved into itself or a location inside it']);
+    }
+    if (await nameTaken(userId, parent?._id, node.name, node._id)) return duplicateName(res);
+
+    // Replace the old ancestor prefix on the node and every node below it
+    const oldAncestorCount = node.ancestors.length;
+    const newAncestors = parent ? [...parent.ancestors, parent._id] : [];
+    const descendants = await StorageNode.find({ userId, ancestors: node._id });
+
+    node.parentId = parent?._id || null;
+    node.ancestors = newAncestors;
+    await node.save();
+
+    if (descendants.length > 0) {
+      await StorageNode.bulkWrite(descendants.map(descendant => ({
+        updateOne: {
+          filter: { _id: descendant._id, userId },
+          update: { $set: { ancestors: [...newAncestors, ...descendant.ancestors.slice(oldAncestorCount)] } }
+        }
+      })));
+    }
+
+    const figuresUpdated = await syncFigureLocations(userId, node._id);
+    logger.info('Moved storage node', node._id.toString(), 'with', descendants.length, 'nodes and', figuresUpdated, 'figures');
+
+    return res.status(200).json({
+      success: true,
+      data: node,
+      nodesMoved: descendants.length + 1,
+      figuresUpdated
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Move Storage Node', error);
+  }
+};
+
+/**
+ * DELETE /figures/storage/:nodeId
+ * Only empty locations can be deleted: move or remove what is inside first
+ */
+export const deleteStorageNode = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const node = await findNode(req.params.nodeId as string, userId);
+    if (!node) return nodeNotFound(res);
+
+    // Trashed figures count too: they return to this location when restored
+    const [children, figures] = await Promise.all([
+      StorageNode.countDocuments({ userId, parentId: node._id }),
+      Figure.countDocuments({ userId, storageNodeId: node._id })
+    ]);
+    if (children > 0 || figures > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Storage location is not empty',
+        errors: [`Contains ${children} storage locations and ${figures} figures`]
+      });
+    }
+
+    await node.deleteOne();
+
+    return res.status(200).json({
+      success: true,
+      message: 'Storage location deleted'
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Delete Storage Node', error);
+  }
+};
+
+/**
+ * POST /figures/storage/migrate
+ * Build the tree from the free-text locations of figures not stored in a node yet
+ */
+export const migrateStorageLocations = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const result = await migrateLocationsToStorageTree(req.user.id);
+
+    return res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Migrate Storage Locations', error);
+  }
+};
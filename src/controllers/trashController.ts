@@ -0,0 +1,104 @@
+/**
+ * Trash Controller
+ *
+ * Lists figures moved to the trash by deleteFigure and restores them
+ * before they are purged.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import { getTrashRetentionDays } from '../services/trashService';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { createLogger } from '../utils/logger';
+import { serverError } from '../utils/responseUtils';
+
+const logger = createLogger('TRASH');
+
+/**
+ * GET /figures/trash
+ * Trashed figures, most recently deleted first (supports page and limit)
+ */
+export const getTrash = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const page = parseInt(String(req.query.page ?? '1'), 10) || 1;
+    const limit = parseInt(String(req.query.limit ?? '10'), 10) || 10;
+    const query = { userId, deletedAt: { $ne: null } };
+
+    const total = await Figure.countDocuments(query);
+    const figures = await Figure.find(query)
+      .sort({ deletedAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    return res.status(200).json({
+      success: true,
+      count: figures.length,
+      page,
+      pages: Math.ceil(total / limit),
+      total,
+      retentionDays: getTrashRetentionDays(),
+      data: figures
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Get Trash', error);
+  }
+};
+
+/**
+ * POST /figures/:id/restore
+ * Move a trashed figure back into the collection
+ */
+export const restoreFigure = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+    const userId = req.user.id;
+
+    const trashed = await Figure.findOne({ // NOSONAR - Mongoose ODM (parameterized)
+      _id: req.params.id,
+      userId,
+      deletedAt: { $ne: null }
+    });
+
+    if (!trashed) {
+      return res.status(404).json({
+        success: false,
+        message: 'Figure not found in trash'
+      });
+    }
+
+    const figure = await Figure.findByIdAndUpdate(
+      trashed._id,
+      { $unset: { deletedAt: 1, purgeAt: 1 } },
+      { new: true }
+    );
+
+    await recordFigureHistory({
+      figureId: trashed._id,
+      userId,
+      action: 'restore',
+      before: snapshotFigure(trashed),
+      after: snapshotFigure(figure)
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Figure restored',
+      data: figure
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Restore Figure', error);
+  }
+};
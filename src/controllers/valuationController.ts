@@ -0,0 +1,106 @@
+/**
+ * Valuation Controller
+ *
+ * What the collection cost and what it retailed for, and where the money
+ * went, converted into the user's preferred currency with the
+ * admin-maintained exchange rates.
+ */
+
+import { Request, Response } from 'express';
+import Figure from '../models/Figure';
+import User from '../models/User';
+import { buildFigureFilter, FigureFilterParams, PARTED_STATUSES } from '../services/figureQueryService';
+import { loadExchangeRates, valueCollection, ValuationFigure } from '../services/valuationService';
+import { summarizeSpending } from '../services/spendingService';
+import { createLogger } from '../utils/logger';
+import { serverError } from '../utils/responseUtils';
+
+const logger = createLogger('VALUATION');
+
+// Target currency, exchange rates and the filtered figures for a money report
+const loadValuationInput = async (
+  userId: string,
+  query: FigureFilterParams & { currency?: string },
+  extraConditions: Record<string, any>[] = []
+) => {
+  const { currency, ...filters } = query;
+
+  const [user, rates, figures] = await Promise.all([
+    currency ? null : User.findById(userId).select('preferredCurrency').lean(),
+    loadExchangeRates(),
+    Figure.find(buildFigureFilter(userId, filters, extraConditions))
+      .select('collectionStatus manufacturer companyRoles origin quantity purchaseInfo merchant releases copies')
+      .lean()
+  ]);
+
+  return {
+    currency: currency || user?.preferredCurrency || 'USD',
+    rates,
+    figures: figures as ValuationFigure[]
+  };
+};
+
+const warnUnconverted = (unconverted: { currency: string }[], currency: string) => {
+  if (unconverted.length > 0) {
+    logger.warn('No exchange rate for', unconverted.map(u => u.currency).join(', '), '->', currency);
+  }
+};
+
+/**
+ * GET /figures/stats/value
+ * Accepts the /figures/filter filters plus `currency` (defaults to the
+ * user's preferred currency)
+ */
+export const getCollectionValue = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const query = req.query as FigureFilterParams & { currency?: string };
+    // Sold and traded figures are no longer in the collection unless asked for,
+    // as in getFigureStats (null matches $nin, so legacy figures stay in).
+    // Spending keeps them: their purchases were still made.
+    const extraConditions = query.status ? [] : [{ collectionStatus: { $nin: PARTED_STATUSES } }];
+    const { currency, rates, figures } = await loadValuationInput(req.user.id, query, extraConditions);
+    const valuation = valueCollection(figures, rates, currency);
+    warnUnconverted(valuation.unconverted, currency);
+
+    return res.status(200).json({
+      success: true,
+      data: valuation
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Collection Value', error);
+  }
+};
+
+/**
+ * GET /figures/stats/spending
+ * Same query as /figures/stats/value plus `year` (defaults to the current year)
+ */
+export const getSpendingReport = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { year, ...query } = req.query as FigureFilterParams & { year?: number };
+    const { currency, rates, figures } = await loadValuationInput(req.user.id, query);
+    const report = summarizeSpending(figures, rates, currency, Number(year) || new Date().getUTCFullYear());
+    warnUnconverted(report.unconverted, currency);
+
+    return res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error: any) {
+    return serverError(res, logger, 'Spending Report', error);
+  }
+};
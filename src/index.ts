@@ -11,6 +11,7 @@ import adminRoutes, { publicConfigRouter } from './routes/adminRoutes';
 import syncRoutes from './routes/syncRoutes';
 import lookupRoutes from './routes/lookupRoutes';
 import { connectDB } from './config/db';
+import { startTrashPurgeJob } from './services/trashService';
 import { globalErrorHandler } from './middleware/validationMiddleware';
 import * as packageJson from '../package.json';
 import { createLogger } from './utils/logger';
@@ -129,6 +130,7 @@ app.use((req, res) => {
 
 // Graceful shutdown handling
 let server: ReturnType<typeof app.listen>;
+let stopTrashPurge: (() => void) | null = null;
 
 const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
@@ -140,6 +142,8 @@ const gracefulShutdown = async (signal: string) => {
     });
   }
 
+  stopTrashPurge?.();
+
   // Close MongoDB connection
   try {
     await mongoose.connection.close();
@@ -162,6 +166,9 @@ const startServer = async () => {
     await connectDB();
     logger.info('MongoDB connected successfully');
 
+    // Permanently remove figures (and their photos) whose trash retention ended
+    stopTrashPurge = startTrashPurgeJob();
+
     // Now start the HTTP server
     server = app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
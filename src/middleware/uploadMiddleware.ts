@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;  // 10 MB per photo
+export const MAX_PHOTOS_PER_UPLOAD = 10;
+
+// Photos are buffered in memory, checked, then handed to the photo storage backend
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_PHOTO_BYTES,
+    files: MAX_PHOTOS_PER_UPLOAD
+  }
+}).array('photos', MAX_PHOTOS_PER_UPLOAD);
+
+/**
+ * Parse a multipart/form-data upload with one or more `photos` file fields.
+ * Multer limit errors become 413/422 responses in the API's error format.
+ */
+export const uploadPhotos = (req: Request, res: Response, next: NextFunction): void => {
+  photoUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      let message = err.message;
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        message = `Photos must be ${MAX_PHOTO_BYTES / (1024 * 1024)} MB or smaller`;
+      } else if (err.code === 'LIMIT_FILE_COUNT' || (err.code === 'LIMIT_UNEXPECTED_FILE' && err.field === 'photos')) {
+        message = `At most ${MAX_PHOTOS_PER_UPLOAD} photos can be uploaded at once`;
+      } else if (err.code === 'LIMIT_UNEXPECTED_FILE') {
+        message = `Unexpected file field "${err.field}"; upload files in the "photos" field`;
+      }
+      res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 422).json({
+        success: false,
+        message: 'Upload Error',
+        errors: [message]
+      });
+      return;
+    }
+    if (err) {
+      next(err);
+      return;
+    }
+    next();
+  });
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import mongoose from 'mongoose';
+import { MERGE_CHOICE_FIELDS } from '../services/mergeService';
 
 export const validateRequest = (schema: Joi.ObjectSchema, source: 'body' | 'query' = 'body') => {
   return (req: Request, res: Response, next: NextFunction): void | Response => {
@@ -91,6 +92,84 @@ export const validateRequest = (schema: Joi.ObjectSchema, source: 'body' | 'quer
   };
 };
 
+// Filter fields shared by every endpoint that honors the /figures/filter query
+// Note: max lengths increased to accommodate comma-separated multi-select values
+const figureFilterFields = {
+  manufacturer: Joi.string().min(1).max(500).optional(),
+  distributor: Joi.string().min(1).max(500).optional(),
+  type: Joi.string().valid('action figure', 'statue', 'collectible').optional(),
+  scale: Joi.string().min(1).max(200).optional(),
+  location: Joi.string().min(1).max(500).optional(),
+  origin: Joi.string().min(1).max(500).optional(),
+  category: Joi.string().min(1).max(500).optional(),
+  boxNumber: Joi.string().min(1).max(50).optional(),
+  figureCondition: Joi.string().min(1).max(200).optional(),
+  status: Joi.string().valid('owned', 'ordered', 'wished', 'sold', 'traded').optional()
+};
+
+// Shelf and storage location filters (resolved against the user's shelves/locations)
+const figurePlacementFields = {
+  // Comma-separated shelf IDs, or __unspecified__ for figures on no shelf
+  shelf: Joi.string().pattern(/^(__unspecified__|[0-9a-fA-F]{24})(,(__unspecified__|[0-9a-fA-F]{24}))*$/).max(2000)
+    .messages({ 'string.pattern.base': 'shelf must be a comma-separated list of shelf IDs' }),
+  // Storage location ID: figures stored in it or anywhere below it
+  storageNode: Joi.string().hex().length(24)
+};
+
+// Opaque cursor-pagination cursor (base64url); empty asks for the first page
+const figureCursor = Joi.string().pattern(/^[A-Za-z0-9_-]*$/).max(1000).allow('')
+  .messages({ 'string.pattern.base': 'cursor is invalid' });
+
+// Custom field filters and sortBy address a user-defined field as "cf.<key>"
+const customFieldParam = /^cf\.[a-z][a-z0-9_]*$/;
+
+// Figure list sort: up to 3 comma-separated keys, "-" sorts a key descending
+const figureSortKey = '-?(createdAt|updatedAt|name|manufacturer|scale|origin|rating|wishRating|quantity|' +
+  'releaseDate|purchaseDate|purchasePrice|price)';
+const figureSortKeyOrCustomField = `(${figureSortKey}|-?cf\\.[a-z][a-z0-9_]*)`;
+const figureSortBy = (key: string) => Joi.string()
+  .pattern(new RegExp(`^${key}(,${key}){0,2}$`))
+  .max(200)
+  .messages({ 'string.pattern.base': 'sortBy must be a comma-separated list of up to 3 sort keys' });
+
+// Custom field values keyed by field key; types are checked against the
+// user's field definitions by the controller (null/'' removes a value)
+const customFieldValues = Joi.object().pattern(
+  /^[a-z][a-z0-9_]*$/,
+  Joi.alternatives()
+    .try(Joi.string().max(1000).allow(''), Joi.number(), Joi.boolean())
+    .allow(null)
+);
+
+// Allowed values of an enum custom field
+const customFieldOptions = Joi.array()
+  .items(Joi.string().trim().min(1).max(100))
+  .unique((a: string, b: string) => a.toLowerCase() === b.toLowerCase())
+  .min(1)
+  .max(100);
+
+// Per-copy fields; same flat purchase/merchant form fields as the figure form
+const copyFields = {
+  location: Joi.string().trim().max(100).allow('').optional(),
+  storageDetail: Joi.string().trim().max(100).allow('').optional(),
+  figureCondition: Joi.string()
+    .valid('sealed', 'likenew', 'verygood', 'good', 'fair', 'poor', '')
+    .optional(),
+  figureConditionNotes: Joi.string().max(500).allow('').optional(),
+  boxCondition: Joi.string()
+    .valid('mint', 'verygood', 'good', 'fair', 'poor', '')
+    .optional(),
+  boxConditionNotes: Joi.string().max(500).allow('').optional(),
+  purchaseDate: Joi.alternatives()
+    .try(Joi.date(), Joi.string().allow(''))
+    .optional(),
+  purchasePrice: Joi.number().min(0).optional(),
+  purchaseCurrency: Joi.string().max(10).allow('').optional(),
+  merchantName: Joi.string().max(100).allow('').optional(),
+  merchantUrl: Joi.string().uri().allow('').optional(),
+  note: Joi.string().max(2000).allow('').optional()
+};
+
 // Validation schemas
 export const schemas = {
 
@@ -165,18 +244,18 @@ export const schemas = {
         Joi.number().integer().min(0).optional(),
         Joi.string().trim().pattern(/^\d+$/).optional()
       ).optional(),
-    sortBy: Joi.string()
-      .valid('createdAt', 'updatedAt', 'name', 'manufacturer', 'scale')
+    sortBy: figureSortBy(figureSortKey)
       .default('createdAt')
       .optional(),
     sortOrder: Joi.string()
       .valid('asc', 'desc')
       .default('desc')
       .optional(),
-    // Collection status filter for owned/ordered/wished views
+    // Collection status filter for owned/ordered/wished/sold/traded views
     status: Joi.string()
-      .valid('owned', 'ordered', 'wished')
-      .optional()
+      .valid('owned', 'ordered', 'wished', 'sold', 'traded')
+      .optional(),
+    cursor: figureCursor
   }).allow(null),
 
   // Schema v3.0 - Enhanced figure creation schema
@@ -205,6 +284,7 @@ export const schemas = {
     scale: Joi.string().allow('').max(50).optional(),
     location: Joi.string().trim().max(100).allow('').optional(),
     storageDetail: Joi.string().trim().max(100).allow('').optional(),
+    storageNodeId: Joi.string().hex().length(24).optional(),
     boxNumber: Joi.string().allow('').max(50).optional(), // Legacy alias
     imageUrl: Joi.string().uri().allow('').optional(),
 
@@ -228,6 +308,7 @@ export const schemas = {
     classification: Joi.string().max(100).allow('').optional(),
     materials: Joi.string().max(200).allow('').optional(),
     tags: Joi.array().items(Joi.string().max(50)).optional(),
+    customFields: customFieldValues.optional(),
 
     // Schema v3: Company roles array
     companyRoles: Joi.array().items(Joi.object({
@@ -268,9 +349,10 @@ export const schemas = {
 
     // User-specific collection data
     collectionStatus: Joi.string()
-      .valid('owned', 'ordered', 'wished')
+      .valid('owned', 'ordered', 'wished', 'sold', 'traded')
       .default('owned')
       .optional(),
+    statusNote: Joi.string().max(500).allow('').optional(),
     rating: Joi.number().integer().min(1).max(10).optional(),
     wishRating: Joi.number().integer().min(1).max(5).optional(),
     quantity: Joi.number().integer().min(1).default(1).optional(),
@@ -328,6 +410,7 @@ export const schemas = {
     scale: Joi.string().allow('').max(50).optional(),
     location: Joi.string().trim().max(100).allow('').optional(),
     storageDetail: Joi.string().trim().max(100).allow('').optional(),
+    storageNodeId: Joi.string().hex().length(24).allow(null).optional(),
     boxNumber: Joi.string().allow('').max(50).optional(),
     imageUrl: Joi.string().uri().allow('').optional(),
 
@@ -350,6 +433,7 @@ export const schemas = {
     classification: Joi.string().max(100).allow('').optional(),
     materials: Joi.string().max(200).allow('').optional(),
     tags: Joi.array().items(Joi.string().max(50)).optional(),
+    customFields: customFieldValues.allow(null).optional(),
 
     // Schema v3: Company roles array
     companyRoles: Joi.array().items(Joi.object({
@@ -390,8 +474,10 @@ export const schemas = {
 
     // User-specific collection data
     collectionStatus: Joi.string()
-      .valid('owned', 'ordered', 'wished')
+      .valid('owned', 'ordered', 'wished', 'sold', 'traded')
       .optional(),
+    statusNote: Joi.string().max(500).allow('').optional(),
+    fillPurchaseDate: Joi.boolean().optional(),
     rating: Joi.number().integer().min(1).max(10).optional(),
     wishRating: Joi.number().integer().min(1).max(5).optional(),
     quantity: Joi.number().integer().min(1).optional(),
@@ -482,18 +568,10 @@ export const schemas = {
   }),
 
   // Filter validation schema
-  // Note: max lengths increased to accommodate comma-separated multi-select values
   filter: Joi.object({
-    manufacturer: Joi.string().min(1).max(500).optional(),
-    distributor: Joi.string().min(1).max(500).optional(),
-    type: Joi.string().valid('action figure', 'statue', 'collectible').optional(),
-    scale: Joi.string().min(1).max(200).optional(),
-    location: Joi.string().min(1).max(500).optional(),
-    origin: Joi.string().min(1).max(500).optional(),
-    category: Joi.string().min(1).max(500).optional(),
-    boxNumber: Joi.string().min(1).max(50).optional(),
-    status: Joi.string().valid('owned', 'ordered', 'wished').optional(),
-    sortBy: Joi.string().valid('createdAt', 'updatedAt', 'name', 'manufacturer', 'paidPrice').optional(),
+    ...figureFilterFields,
+    ...figurePlacementFields,
+    sortBy: figureSortBy(figureSortKeyOrCustomField).optional(),
     sortOrder: Joi.string().valid('asc', 'desc').optional(),
     page: Joi.alternatives()
       .try(
@@ -504,7 +582,252 @@ export const schemas = {
       .try(
         Joi.number().integer().min(1).max(100).default(10),
         Joi.string().trim().pattern(/^\d+$/).min(1).max(3).default('10')
-      ).default(10)
+      ).default(10),
+    cursor: figureCursor
+  }).pattern(customFieldParam, Joi.string().min(1).max(500)),
+
+  // Bulk update: target by explicit IDs or by a filterFigures-style filter
+  figureBulkUpdate: Joi.object({
+    ids: Joi.array().items(Joi.string().hex().length(24)).min(1).max(500),
+    filter: Joi.object(figureFilterFields),
+    update: Joi.object({
+      storageNodeId: Joi.string().hex().length(24).allow(null).optional(),
+      location: Joi.string().trim().max(100).allow('').optional(),
+      storageDetail: Joi.string().trim().max(100).allow('').optional(),
+      boxNumber: Joi.string().allow('').max(50).optional(),
+      addTags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(50).optional(),
+      removeTags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(50).optional(),
+      collectionStatus: Joi.string().valid('owned', 'ordered', 'wished', 'sold', 'traded').optional(),
+      figureCondition: Joi.string()
+        .valid('sealed', 'likenew', 'verygood', 'good', 'fair', 'poor', '')
+        .optional()
+    }).min(1).required()
+      .custom((value, helpers) => {
+        const removed = new Set(value.removeTags || []);
+        const conflicting = (value.addTags || []).filter((tag: string) => removed.has(tag));
+        if (conflicting.length > 0) {
+          return helpers.message({ custom: `Tags cannot be both added and removed: ${conflicting.join(', ')}` });
+        }
+        return value;
+      })
+  }).xor('ids', 'filter'),
+
+  // Generic CSV import (column → figure field mapping is checked by the controller)
+  importHeaders: Joi.object({
+    csvContent: Joi.string().min(1).required()
+  }),
+
+  importMapping: Joi.object({
+    csvContent: Joi.string().min(1).required(),
+    mapping: Joi.object().pattern(Joi.string().max(200), Joi.string().max(50).allow('')).required(),
+    includeDuplicates: Joi.boolean().default(false)
+  }),
+
+  // Collection export: same filters as /figures/filter, no pagination
+  figureExport: Joi.object({
+    ...figureFilterFields,
+    ...figurePlacementFields,
+    format: Joi.string().valid('csv', 'json').default('csv')
+  }).pattern(customFieldParam, Joi.string().min(1).max(500)),
+
+  // Inventory report: same filters as /figures/filter (status defaults to owned)
+  inventoryReport: Joi.object({
+    ...figureFilterFields,
+    ...figurePlacementFields,
+    currency: Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/),
+    images: Joi.boolean().default(true),
+    title: Joi.string().trim().max(200)
+  }).pattern(customFieldParam, Joi.string().min(1).max(500)),
+
+  // Collection valuation: same filters as /figures/filter
+  figureValuation: Joi.object({
+    ...figureFilterFields,
+    currency: Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/)
+  }),
+
+  figureSpending: Joi.object({
+    ...figureFilterFields,
+    currency: Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/),
+    year: Joi.number().integer().min(1970).max(2100)
+  }),
+
+  preorderUpdate: Joi.object({
+    orderNumber: Joi.string().trim().max(100).allow(''),
+    totalPrice: Joi.number().min(0),
+    currency: Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/).allow(''),
+    expectedShipMonth: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).allow('')
+      .messages({ 'string.pattern.base': 'expectedShipMonth must be in YYYY-MM format' }),
+    payments: Joi.array().items(Joi.object({
+      _id: Joi.string().hex().length(24),
+      kind: Joi.string().valid('deposit', 'balance', 'shipping', 'other').default('other'),
+      amount: Joi.number().min(0).required(),
+      dueDate: Joi.date().allow(null),
+      paidAt: Joi.date().allow(null),
+      note: Joi.string().max(500).allow('')
+    })).max(50)
+  }),
+
+  releaseCalendar: Joi.object({
+    from: Joi.date(),
+    to: Joi.date().when('from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('from')) }),
+    status: Joi.string().valid('ordered', 'wished')
+  }),
+
+  preorderTimeline: Joi.object({
+    until: Joi.date()
+  }),
+
+  figureSale: Joi.object({
+    status: Joi.string().valid('sold', 'traded').default('sold'),
+    price: Joi.number().min(0),
+    currency: Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/),
+    date: Joi.date().max('now'),
+    buyer: Joi.string().trim().max(200).allow(''),
+    platform: Joi.string().trim().max(100).allow(''),
+    fees: Joi.number().min(0),
+    shipping: Joi.number().min(0),
+    tradedFor: Joi.string().trim().max(500).allow(''),
+    note: Joi.string().trim().max(1000).allow('')
+  }),
+
+  salesReport: Joi.object({
+    status: Joi.string().valid('sold', 'traded'),
+    year: Joi.number().integer().min(1970).max(2100)
+  }),
+
+  loanCreate: Joi.object({
+    borrower: Joi.string().trim().max(200).required(),
+    // Where the figure is while away (e.g. a convention display)
+    location: Joi.string().trim().max(200).allow(''),
+    loanedAt: Joi.date().max('now'),
+    expectedReturnAt: Joi.date().when('loanedAt', { is: Joi.exist(), then: Joi.date().min(Joi.ref('loanedAt')) }),
+    note: Joi.string().trim().max(1000).allow('')
+  }),
+
+  loanReturn: Joi.object({
+    returnedAt: Joi.date().max('now')
+  }),
+
+  loanList: Joi.object({
+    overdue: Joi.boolean()
+  }),
+
+  photoUpdate: Joi.object({
+    caption: Joi.string().trim().max(500).allow(''),
+    isPrimary: Joi.boolean().valid(true)
+  }).min(1),
+
+  photoReorder: Joi.object({
+    photoIds: Joi.array().items(Joi.string().hex().length(24)).unique().max(100).required()
+  }),
+
+  customFieldCreate: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    type: Joi.string().valid('text', 'number', 'date', 'enum', 'boolean').required(),
+    options: Joi.when('type', {
+      is: 'enum',
+      then: customFieldOptions.required(),
+      otherwise: Joi.forbidden()
+    }),
+    order: Joi.number().integer().min(0)
+  }),
+
+  // The type (and the key derived from the name) cannot change
+  customFieldUpdate: Joi.object({
+    name: Joi.string().trim().min(1).max(100),
+    options: customFieldOptions,
+    order: Joi.number().integer().min(0)
+  }).min(1),
+
+  shelfCreate: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    description: Joi.string().trim().max(500).allow(''),
+    capacity: Joi.number().integer().min(1).max(10000)
+  }),
+
+  shelfUpdate: Joi.object({
+    name: Joi.string().trim().min(1).max(100),
+    description: Joi.string().trim().max(500).allow(''),
+    capacity: Joi.number().integer().min(1).max(10000).allow(null)
+  }).min(1),
+
+  // Display order is the order of figureIds
+  shelfFigures: Joi.object({
+    figureIds: Joi.array().items(Joi.string().hex().length(24)).unique().max(10000).required()
+  }),
+
+  shelfFigureAdd: Joi.object({
+    figureId: Joi.string().hex().length(24).required(),
+    position: Joi.number().integer().min(0)
+  }),
+
+  storageNodeCreate: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    kind: Joi.string().valid('room', 'cabinet', 'shelf', 'box').required(),
+    parentId: Joi.string().hex().length(24).allow(null)
+  }),
+
+  storageNodeUpdate: Joi.object({
+    name: Joi.string().trim().min(1).max(100),
+    kind: Joi.string().valid('room', 'cabinet', 'shelf', 'box')
+  }).min(1),
+
+  storageNodeMove: Joi.object({
+    parentId: Joi.string().hex().length(24).allow(null).required()
+  }),
+
+  duplicates: Joi.object({
+    minConfidence: Joi.number().min(0).max(1)
+  }),
+
+  figureMerge: Joi.object({
+    primaryId: Joi.string().hex().length(24).required(),
+    secondaryIds: Joi.array().items(Joi.string().hex().length(24)).min(1).max(20).unique().required(),
+    // Field name -> ID of the merged figure whose value wins
+    fields: Joi.object().pattern(
+      Joi.string().valid(...MERGE_CHOICE_FIELDS),
+      Joi.string().hex().length(24)
+    )
+  }),
+
+  figureFromJan: Joi.object({
+    // Digits, optionally separated by spaces or dashes as printed under the barcode
+    jan: Joi.string().trim().pattern(/^[\d\s-]+$/).max(20).required()
+      .messages({ 'string.pattern.base': 'jan must contain only digits' }),
+    mfcId: Joi.number().integer().positive(),
+    collectionStatus: Joi.string().valid('owned', 'ordered', 'wished'),
+    storageNodeId: Joi.string().hex().length(24)
+  }),
+
+  labelSheet: Joi.object({
+    storageNodeId: Joi.string().pattern(/^[0-9a-fA-F]{24}(,[0-9a-fA-F]{24})*$/).max(2500)
+      .messages({ 'string.pattern.base': 'storageNodeId must be a comma-separated list of storage location IDs' }),
+    boxNumber: Joi.alternatives().try(
+      Joi.string().trim().max(100),
+      Joi.array().items(Joi.string().trim().max(100)).max(100)
+    )
+  }),
+
+  copyCreate: Joi.object(copyFields),
+
+  copyUpdate: Joi.object(copyFields).min(1),
+
+  figureHistory: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    // Only entries that changed this field (e.g. collectionStatus, location)
+    field: Joi.string().trim().pattern(/^[A-Za-z][A-Za-z0-9]*$/).max(50)
+  }),
+
+  statusChangeUpdate: Joi.object({
+    changedAt: Joi.date().iso().max('now'),
+    note: Joi.string().trim().max(500).allow('')
+  }).min(1),
+
+  statusDurations: Joi.object({
+    from: Joi.string().valid('owned', 'ordered', 'wished', 'sold', 'traded').default('ordered'),
+    to: Joi.string().valid('owned', 'ordered', 'wished', 'sold', 'traded').default('owned'),
+    groupBy: Joi.string().valid('manufacturer', 'category', 'origin', 'scale', 'merchant')
   })
 };
 
@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A user-defined figure field (e.g. "Display lighting", "Signed").
+ *
+ * Values live on each figure under `customFields.<key>`; the key is derived
+ * from the name when the field is created and never changes afterwards, so
+ * renaming a field keeps its values.
+ */
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'enum' | 'boolean';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'enum', 'boolean'];
+
+export interface ICustomField extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  key: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[];  // Allowed values of an enum field
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomFieldSchema = new Schema<ICustomField>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    key: {
+      type: String,
+      required: true,
+      match: /^[a-z][a-z0-9_]*$/,
+      maxlength: 40
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    type: {
+      type: String,
+      enum: CUSTOM_FIELD_TYPES,
+      required: true
+    },
+    options: {
+      type: [String],
+      default: undefined
+    },
+    order: {
+      type: Number,
+      default: 0
+    }
+  },
+  { timestamps: true }
+);
+
+CustomFieldSchema.index({ userId: 1, key: 1 }, { unique: true });
+
+export default mongoose.model<ICustomField>('CustomField', CustomFieldSchema);
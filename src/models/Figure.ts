@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { isDualWriteEnabled, mirrorFigures, syncFigureMirrors } from '../services/figureSplitService';
 
 /**
  * Schema v3.0 - Enhanced Figure Model
@@ -8,7 +9,8 @@ import mongoose, { Document, Schema } from 'mongoose';
  * - MFCItem: Shared catalog data (from MFC)
  * - UserFigure: User-specific data (ownership, purchase info, ratings)
  *
- * This unified model supports the existing API while allowing gradual migration.
+ * This unified model supports the existing API while allowing gradual migration:
+ * every write is mirrored to MFCItem + UserFigure (see figureSplitService).
  */
 
 // Subdocument interfaces
@@ -40,6 +42,97 @@ export interface IMerchant {
   url?: string;
 }
 
+export interface IPhoto {
+  _id: mongoose.Types.ObjectId;
+  storageKey: string;       // Key in the photo storage backend
+  contentType: string;
+  size: number;
+  originalName?: string;
+  caption?: string;
+  isPrimary: boolean;
+  order: number;
+  uploadedAt: Date;
+}
+
+/**
+ * One physical copy of a figure (e.g. one sealed in the closet, one displayed).
+ * When a figure has copies, its quantity is the number of copies.
+ */
+export interface ICopy {
+  _id: mongoose.Types.ObjectId;
+  location?: string;
+  storageDetail?: string;
+  figureCondition?: 'sealed' | 'likenew' | 'verygood' | 'good' | 'fair' | 'poor';
+  figureConditionNotes?: string;
+  boxCondition?: 'mint' | 'verygood' | 'good' | 'fair' | 'poor';
+  boxConditionNotes?: string;
+  purchaseInfo?: IPurchaseInfo;
+  merchant?: IMerchant;
+  note?: string;
+  addedAt: Date;
+}
+
+/**
+ * A scheduled or completed pre-order payment (deposit, balance, ...).
+ * A payment is outstanding until paidAt is set.
+ */
+export interface IPreorderPayment {
+  _id: mongoose.Types.ObjectId;
+  kind: 'deposit' | 'balance' | 'shipping' | 'other';
+  amount: number;  // In the pre-order's currency
+  dueDate?: Date;
+  paidAt?: Date;
+  note?: string;
+}
+
+/**
+ * Pre-order details for figures with collectionStatus 'ordered'.
+ * The remaining balance is totalPrice minus the paid payments.
+ */
+export interface IPreorder {
+  orderNumber?: string;          // Merchant order number
+  totalPrice?: number;
+  currency?: string;
+  expectedShipMonth?: string;    // YYYY-MM
+  payments: mongoose.Types.DocumentArray<IPreorderPayment>;
+}
+
+/**
+ * How a figure left the collection (collectionStatus 'sold' or 'traded').
+ * Realized profit is price minus fees and shipping, less purchaseInfo.price.
+ */
+export interface ISale {
+  price?: number;      // Sale price; for trades, the value agreed for the trade
+  currency?: string;
+  date?: Date;
+  buyer?: string;
+  platform?: string;   // Where it was sold (e.g. "Mercari", "eBay")
+  fees?: number;       // Platform and payment fees, in the sale currency
+  shipping?: number;   // Shipping paid by the seller, in the sale currency
+  tradedFor?: string;  // What the figure was traded for
+  note?: string;
+}
+
+/**
+ * A figure lent out (to a friend, a convention display, ...). While it is
+ * outstanding the figure's location names the loan; returnedAt restores
+ * previousLocation.
+ */
+export interface ILoan {
+  _id: mongoose.Types.ObjectId;
+  borrower: string;
+  location?: string;          // Where the figure is while on loan
+  loanedAt: Date;
+  expectedReturnAt?: Date;
+  returnedAt?: Date;
+  note?: string;
+  previousLocation?: {
+    location?: string;
+    storageDetail?: string;
+    storageNodeId?: mongoose.Types.ObjectId | null;
+  };
+}
+
 export interface ICompanyRole {
   companyId?: mongoose.Types.ObjectId;
   companyName?: string;
@@ -74,6 +167,8 @@ export interface IFigure extends Document {
   materials?: string;       // Materials (e.g., "PVC, ABS")
 
   // Storage/location
+  // With a storage node, location/storageDetail are derived from the node's path
+  storageNodeId?: mongoose.Types.ObjectId | null;
   location?: string;
   storageDetail?: string;
   boxNumber?: string; // Legacy alias for storageDetail
@@ -81,9 +176,11 @@ export interface IFigure extends Document {
   // Media
   imageUrl?: string;
   imageUrls?: string[];
+  photos?: mongoose.Types.DocumentArray<IPhoto>;  // User-uploaded photos of their own copy
 
   // Releases (supports multiple releases/rereleases)
   releases?: IRelease[];
+  firstReleaseDate?: Date | null;  // Earliest releases[].date, kept for sorting
 
   // Physical dimensions
   dimensions?: IDimensions;
@@ -94,8 +191,9 @@ export interface IFigure extends Document {
 
   // User-specific collection data
   userId: mongoose.Types.ObjectId;
-  collectionStatus?: 'owned' | 'ordered' | 'wished';
-  quantity?: number;
+  collectionStatus?: 'owned' | 'ordered' | 'wished' | 'sold' | 'traded';
+  quantity?: number;  // Derived from copies.length when copies exist
+  copies?: mongoose.Types.DocumentArray<ICopy>;
   rating?: number;
   wishRating?: number;
   note?: string;
@@ -103,6 +201,9 @@ export interface IFigure extends Document {
   // Purchase information
   purchaseInfo?: IPurchaseInfo;
   merchant?: IMerchant;
+  preorder?: IPreorder;
+  sale?: ISale;
+  loans?: mongoose.Types.DocumentArray<ILoan>;  // Newest last; at most one outstanding
 
   // Condition tracking
   figureCondition?: 'sealed' | 'likenew' | 'verygood' | 'good' | 'fair' | 'poor';
@@ -112,11 +213,17 @@ export interface IFigure extends Document {
 
   // Tags and metadata
   tags?: string[];
+  // Values of the user's custom fields, keyed by field key (see CustomField)
+  customFields?: Record<string, string | number | boolean | Date>;
 
   // Legacy fields
   type?: string;
   description?: string;
 
+  // Trash (soft delete)
+  deletedAt?: Date | null;  // Set when moved to the trash
+  purgeAt?: Date | null;    // Permanently removed by the trash purge job after this time
+
   // Timestamps
   createdAt: Date;
   updatedAt: Date;
@@ -163,6 +270,88 @@ const MerchantSchema = new Schema<IMerchant>(
   { _id: false }
 );
 
+const PhotoSchema = new Schema<IPhoto>({
+  storageKey: { type: String, required: true },
+  contentType: { type: String, required: true },
+  size: { type: Number, required: true },
+  originalName: { type: String },
+  caption: { type: String },
+  isPrimary: { type: Boolean, default: false },
+  order: { type: Number, default: 0 },
+  uploadedAt: { type: Date, default: Date.now }
+});
+
+const CopySchema = new Schema<ICopy>({
+  location: { type: String },
+  storageDetail: { type: String },
+  figureCondition: {
+    type: String,
+    enum: ['sealed', 'likenew', 'verygood', 'good', 'fair', 'poor']
+  },
+  figureConditionNotes: { type: String },
+  boxCondition: {
+    type: String,
+    enum: ['mint', 'verygood', 'good', 'fair', 'poor']
+  },
+  boxConditionNotes: { type: String },
+  purchaseInfo: { type: PurchaseInfoSchema },
+  merchant: { type: MerchantSchema },
+  note: { type: String },
+  addedAt: { type: Date, default: Date.now }
+});
+
+const PreorderPaymentSchema = new Schema<IPreorderPayment>({
+  kind: {
+    type: String,
+    enum: ['deposit', 'balance', 'shipping', 'other'],
+    default: 'other'
+  },
+  amount: { type: Number, required: true, min: 0 },
+  dueDate: { type: Date },
+  paidAt: { type: Date },
+  note: { type: String }
+});
+
+const PreorderSchema = new Schema<IPreorder>(
+  {
+    orderNumber: { type: String },
+    totalPrice: { type: Number, min: 0 },
+    currency: { type: String },
+    expectedShipMonth: { type: String, match: /^\d{4}-(0[1-9]|1[0-2])$/ },
+    payments: { type: [PreorderPaymentSchema], default: [] }
+  },
+  { _id: false }
+);
+
+const SaleSchema = new Schema<ISale>(
+  {
+    price: { type: Number, min: 0 },
+    currency: { type: String },
+    date: { type: Date },
+    buyer: { type: String },
+    platform: { type: String },
+    fees: { type: Number, min: 0 },
+    shipping: { type: Number, min: 0 },
+    tradedFor: { type: String },
+    note: { type: String }
+  },
+  { _id: false }
+);
+
+const LoanSchema = new Schema<ILoan>({
+  borrower: { type: String, required: true },
+  location: { type: String },
+  loanedAt: { type: Date, default: Date.now },
+  expectedReturnAt: { type: Date },
+  returnedAt: { type: Date },
+  note: { type: String },
+  previousLocation: {
+    location: { type: String },
+    storageDetail: { type: String },
+    storageNodeId: { type: Schema.Types.ObjectId, ref: 'StorageNode' }
+  }
+});
+
 const CompanyRoleSchema = new Schema<ICompanyRole>(
   {
     companyId: { type: Schema.Types.ObjectId, ref: 'Company' },
@@ -203,6 +392,7 @@ const FigureSchema = new Schema<IFigure>(
     materials: { type: String },       // Materials
 
     // Storage/location
+    storageNodeId: { type: Schema.Types.ObjectId, ref: 'StorageNode' },
     location: { type: String },
     storageDetail: { type: String },
     boxNumber: { type: String }, // Legacy
@@ -210,9 +400,11 @@ const FigureSchema = new Schema<IFigure>(
     // Media
     imageUrl: { type: String },
     imageUrls: { type: [String], default: [] },
+    photos: { type: [PhotoSchema], default: [] },
 
     // Releases
     releases: { type: [ReleaseSchema], default: [] },
+    firstReleaseDate: { type: Date },
 
     // Dimensions
     dimensions: { type: DimensionsSchema },
@@ -230,10 +422,11 @@ const FigureSchema = new Schema<IFigure>(
     },
     collectionStatus: {
       type: String,
-      enum: ['owned', 'ordered', 'wished'],
+      enum: ['owned', 'ordered', 'wished', 'sold', 'traded'],
       default: 'owned'
     },
     quantity: { type: Number, default: 1, min: 1 },
+    copies: { type: [CopySchema], default: [] },
     rating: { type: Number, min: 1, max: 10 },
     wishRating: { type: Number, min: 1, max: 5 },
     note: { type: String },
@@ -241,6 +434,9 @@ const FigureSchema = new Schema<IFigure>(
     // Purchase info
     purchaseInfo: { type: PurchaseInfoSchema },
     merchant: { type: MerchantSchema },
+    preorder: { type: PreorderSchema },
+    sale: { type: SaleSchema },
+    loans: { type: [LoanSchema], default: [] },
 
     // Condition
     figureCondition: {
@@ -256,10 +452,15 @@ const FigureSchema = new Schema<IFigure>(
 
     // Tags
     tags: { type: [String], default: [], index: true },
+    customFields: { type: Schema.Types.Mixed },
 
     // Legacy
     type: { type: String, default: 'action figure' },
-    description: { type: String }
+    description: { type: String },
+
+    // Trash (soft delete)
+    deletedAt: { type: Date },
+    purgeAt: { type: Date }
   },
   { timestamps: true }
 );
@@ -267,8 +468,31 @@ const FigureSchema = new Schema<IFigure>(
 // Indexes for performance
 FigureSchema.index({ manufacturer: 1, name: 1 });
 FigureSchema.index({ location: 1, storageDetail: 1 });
+FigureSchema.index({ userId: 1, storageNodeId: 1 });
 FigureSchema.index({ userId: 1, collectionStatus: 1 });
 FigureSchema.index({ userId: 1, rating: -1 });
+FigureSchema.index({ userId: 1, deletedAt: 1 });
+FigureSchema.index({ userId: 1, jan: 1 });
+FigureSchema.index({ userId: 1, 'releases.jan': 1 });
+FigureSchema.index({ userId: 1, 'copies.location': 1 });
+FigureSchema.index({ userId: 1, 'loans.returnedAt': 1 });
+
+// Figure list sorts (the _id tiebreaker keeps cursor pagination on the index)
+FigureSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+FigureSchema.index({ userId: 1, updatedAt: -1, _id: -1 });
+FigureSchema.index({ userId: 1, name: 1, _id: 1 });
+FigureSchema.index({ userId: 1, manufacturer: 1, _id: 1 });
+FigureSchema.index({ userId: 1, firstReleaseDate: 1, _id: 1 });
+FigureSchema.index({ userId: 1, 'purchaseInfo.date': 1, _id: 1 });
+FigureSchema.index({ userId: 1, 'purchaseInfo.price': 1, _id: 1 });
+FigureSchema.index({ userId: 1, rating: 1, _id: 1 });
+FigureSchema.index({ userId: 1, wishRating: 1, _id: 1 });
+FigureSchema.index({ userId: 1, scale: 1, _id: 1 });
+FigureSchema.index({ userId: 1, origin: 1, _id: 1 });
+FigureSchema.index({ userId: 1, quantity: 1, _id: 1 });
+
+// Trashed figures due for the purge job (see trashService)
+FigureSchema.index({ purgeAt: 1 });
 
 // Text index for search
 FigureSchema.index({ name: 'text', manufacturer: 'text', tags: 'text' });
@@ -289,4 +513,79 @@ FigureSchema.pre('save', function (next) {
   next();
 });
 
+// Quantity follows the per-copy records once a figure has any
+FigureSchema.pre('save', function (next) {
+  if (this.copies && this.copies.length > 0) {
+    this.quantity = this.copies.length;
+  }
+  next();
+});
+
+// Earliest release date, or null without dated releases
+const earliestReleaseDate = (releases: { date?: Date | string | null }[] | undefined): Date | null => {
+  const times = (releases || [])
+    .filter(release => release?.date)
+    .map(release => new Date(release.date!).getTime())
+    .filter(time => !Number.isNaN(time));
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+};
+
+// firstReleaseDate follows releases on every write that sets them
+FigureSchema.pre('save', function (next) {
+  this.firstReleaseDate = earliestReleaseDate(this.releases) ?? undefined;
+  next();
+});
+
+FigureSchema.pre('insertMany', function (next, docs: Record<string, any>[]) {
+  for (const doc of Array.isArray(docs) ? docs : [docs]) {
+    if (doc?.releases) doc.firstReleaseDate = earliestReleaseDate(doc.releases) ?? undefined;
+  }
+  next();
+});
+
+const RELEASE_UPDATE_QUERIES: mongoose.MongooseQueryMiddleware[] = [
+  'updateOne', 'updateMany', 'replaceOne', 'findOneAndUpdate', 'findOneAndReplace'
+];
+
+FigureSchema.pre(RELEASE_UPDATE_QUERIES, function (this: mongoose.Query<unknown, IFigure>) {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (!update || Array.isArray(update)) return;
+  const target = 'releases' in update ? update : update.$set && 'releases' in update.$set ? update.$set : null;
+  if (target) target.firstReleaseDate = earliestReleaseDate(target.releases);
+});
+
+// Schema v3 transition: mirror every write to MFCItem + UserFigure
+const MIRRORED_QUERIES: mongoose.MongooseQueryMiddleware[] = [
+  'updateOne', 'updateMany', 'replaceOne', 'findOneAndUpdate', 'findOneAndReplace',
+  'deleteOne', 'deleteMany', 'findOneAndDelete'
+];
+
+// Figures a pending query matched before it ran (it may change what its filter matches)
+const pendingMirrors = new WeakMap<object, mongoose.Types.ObjectId[]>();
+
+FigureSchema.post('save', async function (doc) {
+  if (isDualWriteEnabled()) await mirrorFigures([doc.toObject()]);
+});
+
+FigureSchema.post('insertMany', async function (docs: IFigure[]) {
+  if (isDualWriteEnabled()) await mirrorFigures(docs.map(doc => doc.toObject()));
+});
+
+FigureSchema.pre(MIRRORED_QUERIES, async function (this: mongoose.Query<unknown, IFigure>) {
+  if (!isDualWriteEnabled()) return;
+  // An unusable filter fails the query itself; the mirror just skips it
+  const ids = await this.model.find(this.getFilter()).distinct('_id').catch(() => []);
+  pendingMirrors.set(this, ids);
+});
+
+FigureSchema.post(MIRRORED_QUERIES, async function (this: mongoose.Query<unknown, IFigure>, result: any) {
+  if (!isDualWriteEnabled()) return;
+  const ids = [...(pendingMirrors.get(this) || [])];
+  pendingMirrors.delete(this);
+  // Upserted figures weren't matched beforehand
+  if (result?.upsertedId) ids.push(result.upsertedId);
+  if (result?._id) ids.push(result._id);
+  await syncFigureMirrors(this.model as mongoose.Model<IFigure>, ids);
+});
+
 export default mongoose.model<IFigure>('Figure', FigureSchema);
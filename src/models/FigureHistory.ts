@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Audit trail for Figure documents.
+ *
+ * One entry per create/update/delete/restore, listing the fields that changed
+ * with their old and new values. Entries outlive the figure so the history
+ * of a purged figure is still available.
+ */
+
+export type FigureHistoryAction = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * Where the change came from: the figure form/API, the MFC sync webhook,
+ * a CSV import or a bulk update.
+ */
+export type FigureHistorySource = 'user' | 'sync' | 'import' | 'bulk';
+
+export interface IFieldChange {
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface IFigureHistory extends Document {
+  _id: mongoose.Types.ObjectId;
+  figureId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;      // Owner of the figure
+  changedBy?: mongoose.Types.ObjectId;  // User who made the change
+  action: FigureHistoryAction;
+  source: FigureHistorySource;
+  changes: IFieldChange[];
+  createdAt: Date;
+}
+
+const FieldChangeSchema = new Schema<IFieldChange>(
+  {
+    field: { type: String, required: true },
+    oldValue: { type: Schema.Types.Mixed },
+    newValue: { type: Schema.Types.Mixed }
+  },
+  { _id: false }
+);
+
+const FigureHistorySchema = new Schema<IFigureHistory>(
+  {
+    figureId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Figure',
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    action: {
+      type: String,
+      enum: ['create', 'update', 'delete', 'restore'],
+      required: true
+    },
+    source: {
+      type: String,
+      enum: ['user', 'sync', 'import', 'bulk'],
+      default: 'user'
+    },
+    changes: { type: [FieldChangeSchema], default: [] }
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+FigureHistorySchema.index({ figureId: 1, createdAt: -1 });
+FigureHistorySchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<IFigureHistory>('FigureHistory', FigureHistorySchema);
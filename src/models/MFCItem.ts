@@ -219,6 +219,9 @@ const MFCItemSchema = new Schema<IMFCItem>(
 // Text index for full-text search
 MFCItemSchema.index({ name: 'text', tags: 'text' });
 
+// Barcode lookup (GET /figures/lookup/jan/:jan)
+MFCItemSchema.index({ 'releases.jan': 1 });
+
 const MFCItem: Model<IMFCItem> = mongoose.model<IMFCItem>('MFCItem', MFCItemSchema);
 
 export default MFCItem;
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A user-owned shelf or display group (e.g. "Glass case 2, top shelf").
+ *
+ * Independent of a figure's storage `location`: a figure can be on any
+ * number of shelves. `figureIds` is kept in display order.
+ */
+
+export interface IShelf extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  capacity?: number | null;  // Maximum number of figures; unlimited when unset
+  figureIds: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShelfSchema = new Schema<IShelf>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    },
+    capacity: {
+      type: Number,
+      min: 1
+    },
+    figureIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Figure' }],
+      default: []
+    }
+  },
+  { timestamps: true }
+);
+
+ShelfSchema.index({ userId: 1, name: 1 });
+// Shelves a figure is on
+ShelfSchema.index({ userId: 1, figureIds: 1 });
+
+export default mongoose.model<IShelf>('Shelf', ShelfSchema);
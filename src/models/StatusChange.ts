@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * One collectionStatus transition of a figure (e.g. wished → ordered,
+ * ordered → owned). The first entry of a figure has no fromStatus: it is
+ * the status the figure was added with.
+ *
+ * Recorded with the figure history (see statusHistoryService); changedAt
+ * and note can be corrected afterwards, e.g. to backdate an arrival.
+ */
+
+export interface IStatusChange extends Document {
+  _id: mongoose.Types.ObjectId;
+  figureId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  fromStatus?: string | null;
+  toStatus: string;
+  changedAt: Date;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StatusChangeSchema = new Schema<IStatusChange>(
+  {
+    figureId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Figure',
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    fromStatus: { type: String },
+    toStatus: { type: String, required: true },
+    changedAt: { type: Date, required: true, default: Date.now },
+    note: { type: String, trim: true, maxlength: 500 }
+  },
+  { timestamps: true }
+);
+
+// A figure's timeline
+StatusChangeSchema.index({ figureId: 1, changedAt: 1 });
+// Durations across a collection
+StatusChangeSchema.index({ userId: 1, changedAt: 1 });
+
+export default mongoose.model<IStatusChange>('StatusChange', StatusChangeSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A place in the user's storage hierarchy: room → cabinet → shelf → box.
+ *
+ * Figures reference a node through `storageNodeId`; their `location` and
+ * `storageDetail` text is derived from the node's path. `ancestors` lists
+ * the node's ancestors from the root down so a whole subtree can be found
+ * (and moved) with one query.
+ *
+ * Not to be confused with Shelf, which is a display group that figures can
+ * belong to regardless of where they are stored.
+ */
+
+export type StorageNodeKind = 'room' | 'cabinet' | 'shelf' | 'box';
+
+export const STORAGE_NODE_KINDS: StorageNodeKind[] = ['room', 'cabinet', 'shelf', 'box'];
+
+export interface IStorageNode extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  kind: StorageNodeKind;
+  parentId: mongoose.Types.ObjectId | null;
+  ancestors: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StorageNodeSchema = new Schema<IStorageNode>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    kind: {
+      type: String,
+      enum: STORAGE_NODE_KINDS,
+      required: true
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'StorageNode',
+      default: null
+    },
+    ancestors: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'StorageNode' }],
+      default: []
+    }
+  },
+  { timestamps: true }
+);
+
+StorageNodeSchema.index({ userId: 1, parentId: 1, name: 1 });
+StorageNodeSchema.index({ userId: 1, ancestors: 1 });
+
+export default mongoose.model<IStorageNode>('StorageNode', StorageNodeSchema);
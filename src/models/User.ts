@@ -10,6 +10,8 @@ export interface IUser extends Document {
   password: string;
   isAdmin: boolean;
   colorProfile: ColorProfile;
+  preferredCurrency: string;  // ISO 4217 code used for collection valuation
+  calendarFeedTokenHash?: string;  // SHA-256 of the release calendar feed token
   comparePassword(candidatePassword: string): Promise<boolean>;
   createdAt: Date;
   updatedAt: Date;
@@ -39,11 +41,24 @@ const UserSchema = new Schema<IUser>(
       type: String,
       enum: ['light', 'dark', 'terminal', 'surprise'],
       default: 'light'
+    },
+    preferredCurrency: {
+      type: String,
+      uppercase: true,
+      match: /^[A-Z]{3}$/,
+      default: 'USD'
+    },
+    calendarFeedTokenHash: {
+      type: String,
+      select: false
     }
   },
   { timestamps: true }
 );
 
+// Calendar feed lookups by token hash
+UserSchema.index({ calendarFeedTokenHash: 1 }, { unique: true, sparse: true });
+
 // Hash password before saving
 UserSchema.pre('save', async function(next) {
   if (!this.isModified('password')) {
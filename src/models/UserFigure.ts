@@ -7,7 +7,9 @@ export enum CollectionStatus {
   OWNED = 'owned',
   WISHED = 'wished',
   ORDERED = 'ordered',
-  PREORDERED = 'preordered'
+  PREORDERED = 'preordered',
+  SOLD = 'sold',
+  TRADED = 'traded'
 }
 
 /**
@@ -26,8 +28,9 @@ export enum FigureCondition {
  */
 export interface IUserFigureData {
   userId: mongoose.Types.ObjectId;
-  mfcItemId: mongoose.Types.ObjectId;
-  collectionStatus: 'owned' | 'wished' | 'ordered' | 'preordered';
+  mfcItemId?: mongoose.Types.ObjectId | null;
+  figureId?: mongoose.Types.ObjectId;
+  collectionStatus: 'owned' | 'wished' | 'ordered' | 'preordered' | 'sold' | 'traded';
   quantity?: number;
   purchasePrice?: number;
   purchaseCurrency?: string;
@@ -42,12 +45,17 @@ export interface IUserFigureData {
  * Full interface for UserFigure Mongoose documents.
  * Represents user-specific data about a figure in their collection.
  * References MFCItem for shared catalog data.
+ *
+ * While Figure is being split (see figureSplitService), each Figure is
+ * mirrored to one UserFigure under the Figure's field names. Figures
+ * without an MFC ID have no MFCItem and keep all their catalog fields here.
  */
 export interface IUserFigure extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
-  mfcItemId: mongoose.Types.ObjectId;
-  collectionStatus: 'owned' | 'wished' | 'ordered' | 'preordered';
+  mfcItemId?: mongoose.Types.ObjectId | null;
+  figureId?: mongoose.Types.ObjectId;  // The mirrored Figure; its _id is the figure's API ID
+  collectionStatus: 'owned' | 'wished' | 'ordered' | 'preordered' | 'sold' | 'traded';
   quantity: number;
   purchasePrice?: number;
   purchaseCurrency?: string;
@@ -56,6 +64,52 @@ export interface IUserFigure extends Document {
   customTags: string[];
   rating?: number;
   condition?: 'mint' | 'good' | 'fair' | 'poor';
+
+  // Mirrored from Figure (validated there)
+  manufacturer?: string;
+  jan?: string;
+  mfcTitle?: string;
+  origin?: string;
+  version?: string;
+  category?: string;
+  classification?: string;
+  materials?: string;
+  storageNodeId?: mongoose.Types.ObjectId | null;
+  location?: string;
+  storageDetail?: string;
+  boxNumber?: string;
+  imageUrl?: string;
+  photos?: Record<string, any>[];
+  companyRoles?: Record<string, any>[];
+  artistRoles?: Record<string, any>[];
+  copies?: Record<string, any>[];
+  wishRating?: number;
+  note?: string;
+  purchaseInfo?: Record<string, any>;
+  merchant?: Record<string, any>;
+  preorder?: Record<string, any>;
+  sale?: Record<string, any>;
+  loans?: Record<string, any>[];
+  firstReleaseDate?: Date | null;
+  figureCondition?: string;
+  figureConditionNotes?: string;
+  boxCondition?: string;
+  boxConditionNotes?: string;
+  tags?: string[];
+  customFields?: Record<string, any>;
+  type?: string;
+  description?: string;
+  deletedAt?: Date | null;
+  purgeAt?: Date | null;
+
+  // Overrides of the MFCItem's values (unset: the item's value applies)
+  name?: string | null;
+  scale?: string | null;
+  mfcLink?: string | null;
+  imageUrls?: string[] | null;
+  releases?: Record<string, any>[] | null;
+  dimensions?: Record<string, any> | null;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -68,16 +122,20 @@ const UserFigureSchema = new Schema<IUserFigure>(
       required: true,
       index: true
     },
+    // Unset for figures entered without an MFC ID
     mfcItemId: {
       type: Schema.Types.ObjectId,
       ref: 'MFCItem',
-      required: true,
       index: true
     },
+    figureId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Figure'
+    },
     collectionStatus: {
       type: String,
       required: true,
-      enum: ['owned', 'wished', 'ordered', 'preordered'],
+      enum: ['owned', 'wished', 'ordered', 'preordered', 'sold', 'traded'],
       index: true
     },
     quantity: {
@@ -105,18 +163,65 @@ const UserFigureSchema = new Schema<IUserFigure>(
     rating: {
       type: Number,
       min: [1, 'Rating must be at least 1'],
-      max: [5, 'Rating must be at most 5']
+      max: [10, 'Rating must be at most 10']
     },
     condition: {
       type: String,
       enum: ['mint', 'good', 'fair', 'poor']
-    }
+    },
+
+    // Mirrored from Figure (validated there)
+    manufacturer: { type: String },
+    jan: { type: String },
+    mfcTitle: { type: String },
+    origin: { type: String },
+    version: { type: String },
+    category: { type: String },
+    classification: { type: String },
+    materials: { type: String },
+    storageNodeId: { type: Schema.Types.ObjectId, ref: 'StorageNode' },
+    location: { type: String },
+    storageDetail: { type: String },
+    boxNumber: { type: String },
+    imageUrl: { type: String },
+    photos: { type: [Schema.Types.Mixed], default: undefined },
+    companyRoles: { type: [Schema.Types.Mixed], default: undefined },
+    artistRoles: { type: [Schema.Types.Mixed], default: undefined },
+    copies: { type: [Schema.Types.Mixed], default: undefined },
+    wishRating: { type: Number },
+    note: { type: String },
+    purchaseInfo: { type: Schema.Types.Mixed },
+    merchant: { type: Schema.Types.Mixed },
+    preorder: { type: Schema.Types.Mixed },
+    sale: { type: Schema.Types.Mixed },
+    loans: { type: [Schema.Types.Mixed], default: undefined },
+    firstReleaseDate: { type: Date },
+    figureCondition: { type: String },
+    figureConditionNotes: { type: String },
+    boxCondition: { type: String },
+    boxConditionNotes: { type: String },
+    tags: { type: [String], default: undefined },
+    customFields: { type: Schema.Types.Mixed },
+    type: { type: String },
+    description: { type: String },
+    deletedAt: { type: Date },
+    purgeAt: { type: Date },
+
+    // Overrides of the MFCItem's values (unset: the item's value applies)
+    name: { type: String },
+    scale: { type: String },
+    mfcLink: { type: String },
+    imageUrls: { type: [String], default: undefined },
+    releases: { type: [Schema.Types.Mixed], default: undefined },
+    dimensions: { type: Schema.Types.Mixed }
   },
   { timestamps: true }
 );
 
-// Compound unique index: one user can only have one entry per MFCItem
-UserFigureSchema.index({ userId: 1, mfcItemId: 1 }, { unique: true });
+// One entry per mirrored Figure. A user may hold the same MFCItem in
+// several entries, as with Figure (e.g. duplicates not merged yet).
+UserFigureSchema.index({ figureId: 1 }, { unique: true, sparse: true });
+UserFigureSchema.index({ userId: 1, mfcItemId: 1 });
 
 // Index for querying user's collection by status
 UserFigureSchema.index({ userId: 1, collectionStatus: 1 });
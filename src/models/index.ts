@@ -36,3 +36,24 @@ export {
   SyncPhase,
   SyncItemStatus
 } from './SyncJob';
+export {
+  default as FigureHistory,
+  IFigureHistory,
+  IFieldChange,
+  FigureHistoryAction,
+  FigureHistorySource
+} from './FigureHistory';
+export {
+  default as CustomField,
+  ICustomField,
+  CustomFieldType,
+  CUSTOM_FIELD_TYPES
+} from './CustomField';
+export { default as Shelf, IShelf } from './Shelf';
+export {
+  default as StorageNode,
+  IStorageNode,
+  StorageNodeKind,
+  STORAGE_NODE_KINDS
+} from './StorageNode';
+export { default as StatusChange, IStatusChange } from './StatusChange';
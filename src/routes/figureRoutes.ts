@@ -11,7 +11,80 @@ import {
   filterFigures,
   getFigureStats
 } from '../controllers/figureController';
+import { exportFigures, exportInventoryReport } from '../controllers/exportController';
+import { detectImportHeaders, previewImport, commitImport } from '../controllers/importController';
+import { bulkUpdateFigures } from '../controllers/bulkController';
+import {
+  getCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField
+} from '../controllers/customFieldController';
+import { getTrash, restoreFigure } from '../controllers/trashController';
+import { getFigureHistory } from '../controllers/historyController';
+import {
+  getStatusDurations,
+  getStatusTimeline,
+  updateStatusChange
+} from '../controllers/statusHistoryController';
+import { getCollectionValue, getSpendingReport } from '../controllers/valuationController';
+import {
+  getReleaseCalendar,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeed
+} from '../controllers/calendarController';
+import {
+  getUpcomingPreorders,
+  getFigurePreorder,
+  updateFigurePreorder
+} from '../controllers/preorderController';
+import { getSales, recordFigureSale, undoFigureSale } from '../controllers/saleController';
+import { getOutstandingLoans, getFigureLoans, lendFigure, returnFigureLoan } from '../controllers/loanController';
+import {
+  uploadFigurePhotos,
+  getFigurePhotos,
+  getFigurePhotoFile,
+  updateFigurePhoto,
+  reorderFigurePhotos,
+  deleteFigurePhoto
+} from '../controllers/photoController';
+import {
+  getFigureCopies,
+  addFigureCopy,
+  updateFigureCopy,
+  deleteFigureCopy
+} from '../controllers/copyController';
+import {
+  getShelves,
+  getShelf,
+  createShelf,
+  updateShelf,
+  deleteShelf,
+  setShelfFigures,
+  addShelfFigure,
+  removeShelfFigure
+} from '../controllers/shelfController';
+import {
+  getStorageTree,
+  createStorageNode,
+  updateStorageNode,
+  moveStorageNode,
+  deleteStorageNode,
+  migrateStorageLocations
+} from '../controllers/storageController';
+import {
+  getLabelSheet,
+  getStorageLabel,
+  getBoxNumberLabel
+} from '../controllers/labelController';
+import {
+  lookupJan,
+  createFigureFromJan
+} from '../controllers/janController';
+import { getDuplicates, mergeFigures } from '../controllers/duplicateController';
 import { protect } from '../middleware/authMiddleware';
+import { uploadPhotos } from '../middleware/uploadMiddleware';
 import {
   validateRequest,
   schemas,
@@ -50,6 +123,9 @@ router.post('/scrape-mfc', scrapeLimiter, scrapeMFCData);
 // Apply rate limiting to all protected routes
 router.use(figureApiLimiter);
 
+// Calendar feed for calendar apps: authenticated by the secret token in the URL
+router.get('/calendar/feed/:token.ics', getCalendarFeed);
+
 // Protected routes
 router.use(protect);
 
@@ -69,6 +145,277 @@ router.get('/filter',
   filterFigures
 );
 router.get('/stats', getFigureStats);
+router.get('/stats/value',
+  validateRequest(schemas.figureValuation, 'query'),
+  getCollectionValue
+);
+router.get('/stats/spending',
+  validateRequest(schemas.figureSpending, 'query'),
+  getSpendingReport
+);
+router.get('/export',
+  validateRequest(schemas.figureExport, 'query'),
+  exportFigures
+);
+router.get('/export/inventory',
+  validateRequest(schemas.inventoryReport, 'query'),
+  exportInventoryReport
+);
+
+router.patch('/bulk',
+  validateContentType(['application/json']),
+  validateRequest(schemas.figureBulkUpdate),
+  bulkUpdateFigures
+);
+
+// Generic CSV import: detect headers → dry-run preview → commit
+router.post('/import/headers',
+  validateContentType(['application/json']),
+  validateRequest(schemas.importHeaders),
+  detectImportHeaders
+);
+router.post('/import/preview',
+  validateContentType(['application/json']),
+  validateRequest(schemas.importMapping),
+  previewImport
+);
+router.post('/import/commit',
+  validateContentType(['application/json']),
+  validateRequest(schemas.importMapping),
+  commitImport
+);
+
+// User-defined custom fields (values are set on the figure itself)
+router.route('/custom-fields')
+  .get(getCustomFields)
+  .post(
+    validateContentType(['application/json']),
+    validateRequest(schemas.customFieldCreate),
+    createCustomField
+  );
+router.route('/custom-fields/:fieldId')
+  .patch(
+    validateObjectId('fieldId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.customFieldUpdate),
+    updateCustomField
+  )
+  .delete(validateObjectId('fieldId'), deleteCustomField);
+
+// Shelves / display groups, independent of storage location
+router.route('/shelves')
+  .get(getShelves)
+  .post(
+    validateContentType(['application/json']),
+    validateRequest(schemas.shelfCreate),
+    createShelf
+  );
+router.route('/shelves/:shelfId')
+  .get(validateObjectId('shelfId'), getShelf)
+  .patch(
+    validateObjectId('shelfId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.shelfUpdate),
+    updateShelf
+  )
+  .delete(validateObjectId('shelfId'), deleteShelf);
+router.route('/shelves/:shelfId/figures')
+  .put(
+    validateObjectId('shelfId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.shelfFigures),
+    setShelfFigures
+  )
+  .post(
+    validateObjectId('shelfId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.shelfFigureAdd),
+    addShelfFigure
+  );
+router.delete('/shelves/:shelfId/figures/:figureId',
+  validateObjectId('shelfId'),
+  validateObjectId('figureId'),
+  removeShelfFigure
+);
+
+// Storage hierarchy (room → cabinet → shelf → box)
+router.route('/storage')
+  .get(getStorageTree)
+  .post(
+    validateContentType(['application/json']),
+    validateRequest(schemas.storageNodeCreate),
+    createStorageNode
+  );
+router.post('/storage/migrate', migrateStorageLocations);
+router.route('/storage/:nodeId')
+  .patch(
+    validateObjectId('nodeId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.storageNodeUpdate),
+    updateStorageNode
+  )
+  .delete(validateObjectId('nodeId'), deleteStorageNode);
+router.post('/storage/:nodeId/move',
+  validateObjectId('nodeId'),
+  validateContentType(['application/json']),
+  validateRequest(schemas.storageNodeMove),
+  moveStorageNode
+);
+
+// Printable labels with QR codes for storage boxes and box numbers
+router.get('/labels',
+  validateRequest(schemas.labelSheet, 'query'),
+  getLabelSheet
+);
+router.get('/labels/storage/:nodeId', validateObjectId('nodeId'), getStorageLabel);
+router.get('/labels/box-number/:boxNumber', getBoxNumberLabel);
+
+// Barcode (JAN/EAN) lookup and add-by-barcode
+router.get('/lookup/jan/:jan', lookupJan);
+router.post('/from-jan',
+  validateContentType(['application/json']),
+  validateRequest(schemas.figureFromJan),
+  createFigureFromJan
+);
+
+// Likely duplicate figures and merging them
+router.get('/duplicates',
+  validateRequest(schemas.duplicates, 'query'),
+  getDuplicates
+);
+router.post('/merge',
+  validateContentType(['application/json']),
+  validateRequest(schemas.figureMerge),
+  mergeFigures
+);
+
+// Release calendar of ordered and wished figures
+router.get('/calendar',
+  validateRequest(schemas.releaseCalendar, 'query'),
+  getReleaseCalendar
+);
+router.route('/calendar/feed')
+  .post(createCalendarFeed)
+  .delete(revokeCalendarFeed);
+
+// Pre-orders: payments and expected arrivals of ordered figures
+router.get('/preorders/upcoming',
+  validateRequest(schemas.preorderTimeline, 'query'),
+  getUpcomingPreorders
+);
+router.route('/:id/preorder')
+  .get(validateObjectId(), getFigurePreorder)
+  .put(
+    validateObjectId(),
+    validateContentType(['application/json']),
+    validateRequest(schemas.preorderUpdate),
+    updateFigurePreorder
+  );
+
+// Sold and traded figures with realized profit
+router.get('/sales',
+  validateRequest(schemas.salesReport, 'query'),
+  getSales
+);
+router.route('/:id/sale')
+  .put(
+    validateObjectId(),
+    validateContentType(['application/json']),
+    validateRequest(schemas.figureSale),
+    recordFigureSale
+  )
+  .delete(validateObjectId(), undoFigureSale);
+
+// Loans to friends or exhibitions
+router.get('/loans',
+  validateRequest(schemas.loanList, 'query'),
+  getOutstandingLoans
+);
+router.route('/:id/loans')
+  .get(validateObjectId(), getFigureLoans)
+  .post(
+    validateObjectId(),
+    validateContentType(['application/json']),
+    validateRequest(schemas.loanCreate),
+    lendFigure
+  );
+router.post('/:id/loans/:loanId/return',
+  validateObjectId(),
+  validateObjectId('loanId'),
+  validateRequest(schemas.loanReturn),
+  returnFigureLoan
+);
+
+// Trash: soft-deleted figures awaiting purge
+router.get('/trash',
+  validateRequest(schemas.pagination, 'query'),
+  getTrash
+);
+router.post('/:id/restore', validateObjectId(), restoreFigure);
+
+router.get('/:id/history',
+  validateObjectId(),
+  validateRequest(schemas.figureHistory, 'query'),
+  getFigureHistory
+);
+
+// Collection status timeline (wished → ordered → owned)
+router.get('/status-history/durations',
+  validateRequest(schemas.statusDurations, 'query'),
+  getStatusDurations
+);
+router.get('/:id/status-history', validateObjectId(), getStatusTimeline);
+router.patch('/:id/status-history/:changeId',
+  validateObjectId(),
+  validateObjectId('changeId'),
+  validateContentType(['application/json']),
+  validateRequest(schemas.statusChangeUpdate),
+  updateStatusChange
+);
+
+// User-uploaded photos (multipart upload, field name "photos")
+router.route('/:id/photos')
+  .get(validateObjectId(), getFigurePhotos)
+  .post(validateObjectId(), uploadPhotos, uploadFigurePhotos);
+router.put('/:id/photos/order',
+  validateObjectId(),
+  validateContentType(['application/json']),
+  validateRequest(schemas.photoReorder),
+  reorderFigurePhotos
+);
+router.get('/:id/photos/:photoId/file',
+  validateObjectId(),
+  validateObjectId('photoId'),
+  getFigurePhotoFile
+);
+router.route('/:id/photos/:photoId')
+  .patch(
+    validateObjectId(),
+    validateObjectId('photoId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.photoUpdate),
+    updateFigurePhoto
+  )
+  .delete(validateObjectId(), validateObjectId('photoId'), deleteFigurePhoto);
+
+// Individual copies of a figure owned more than once
+router.route('/:id/copies')
+  .get(validateObjectId(), getFigureCopies)
+  .post(
+    validateObjectId(),
+    validateContentType(['application/json']),
+    validateRequest(schemas.copyCreate),
+    addFigureCopy
+  );
+router.route('/:id/copies/:copyId')
+  .patch(
+    validateObjectId(),
+    validateObjectId('copyId'),
+    validateContentType(['application/json']),
+    validateRequest(schemas.copyUpdate),
+    updateFigureCopy
+  )
+  .delete(validateObjectId(), validateObjectId('copyId'), deleteFigureCopy);
 
 router.route('/:id')
   .get(validateObjectId(), getFigureById)
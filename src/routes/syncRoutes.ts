@@ -16,6 +16,8 @@ import rateLimit from 'express-rate-limit';
 import { SyncJob, ISyncJob, SyncItemStatus, Figure, Company, Artist, RoleType } from '../models';
 import mongoose from 'mongoose';
 import { syncLogger } from '../utils/logger';
+import { recordFigureHistory, snapshotFigure } from '../services/figureHistoryService';
+import { refreshCatalogItem } from '../services/figureSplitService';
 
 // Interface for scraped company/artist data from scraper
 interface IScrapedCompany {
@@ -518,13 +520,30 @@ router.post('/webhook/item-complete', async (req, res) => {
           console.log(`[WEBHOOK] Processed ${artistRoles.length} artist roles for ${JSON.stringify(mfcId)}`);
         }
 
-        // Upsert: Update if exists for this user+mfcId, otherwise create
+        // Shared catalog first, so the user's mirrored figure is compared with fresh data
+        await refreshCatalogItem(figureData);
+
+        // Upsert: Update if exists for this user+mfcId, otherwise create.
+        // A figure in the collection wins over a trashed one (null sorts first);
+        // a trashed figure is updated but stays in the trash until the user restores it.
+        const figureQuery = { userId: job.userId, mfcId: parseInt(mfcId, 10) };
+        const existingFigure = await Figure.findOne(figureQuery).sort({ deletedAt: 1 }).lean();
         const result = await Figure.findOneAndUpdate(
-          { userId: job.userId, mfcId: parseInt(mfcId, 10) },
+          existingFigure ? { _id: existingFigure._id } : figureQuery,
           { $set: figureData, $setOnInsert: { userId: job.userId } },
           { upsert: true, new: true }
         );
 
+        // Audit what the sync created or overwrote
+        await recordFigureHistory({
+          figureId: result._id,
+          userId: job.userId,
+          action: existingFigure ? 'update' : 'create',
+          source: 'sync',
+          before: snapshotFigure(existingFigure),
+          after: snapshotFigure(result)
+        });
+
         console.log(`[WEBHOOK] Figure ${JSON.stringify(mfcId)} saved/updated: ${result._id}`);
         syncLogger.itemSaved(sessionId, mfcId);
       } catch (saveError: any) {
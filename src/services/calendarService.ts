@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IRelease } from '../models/Figure';
+
+/**
+ * Release calendar for ordered and wished figures, as JSON grouped by day
+ * and as an iCalendar (RFC 5545) feed for calendar apps.
+ */
+
+/** Fields of a figure the calendar reads (a lean Figure document). */
+export interface CalendarFigure {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  mfcLink?: string;
+  collectionStatus?: string;
+  releases?: IRelease[];
+}
+
+export interface CalendarRelease {
+  figureId: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  mfcLink?: string;
+  collectionStatus?: string;
+  isRerelease: boolean;
+  variant?: string;
+  price?: number;
+  currency?: string;
+  jan?: string;
+}
+
+export interface CalendarDay {
+  date: string;  // YYYY-MM-DD (UTC)
+  releases: CalendarRelease[];
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Every dated release of the figures within [from, to], grouped by day.
+ */
+export const buildReleaseCalendar = (
+  figures: CalendarFigure[],
+  range: { from?: Date; to?: Date } = {}
+): CalendarDay[] => {
+  const days = new Map<string, CalendarRelease[]>();
+
+  for (const figure of figures) {
+    for (const release of figure.releases || []) {
+      if (!release.date) continue;
+      const date = new Date(release.date);
+      if ((range.from && date < range.from) || (range.to && date > range.to)) continue;
+
+      const day = toDay(date);
+      if (!days.has(day)) days.set(day, []);
+      days.get(day)!.push({
+        figureId: figure._id,
+        name: figure.name,
+        manufacturer: figure.manufacturer,
+        imageUrl: figure.imageUrl,
+        mfcLink: figure.mfcLink,
+        collectionStatus: figure.collectionStatus,
+        isRerelease: Boolean(release.isRerelease),
+        variant: release.variant,
+        price: release.price,
+        currency: release.currency,
+        jan: release.jan
+      });
+    }
+  }
+
+  return Array.from(days, ([date, releases]) => ({
+    date,
+    releases: releases.sort((a, b) => a.name.localeCompare(b.name))
+  })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * A new secret for a user's calendar feed URL. Only the hash is stored;
+ * the token itself is shown once.
+ */
+export const generateCalendarFeedToken = (): string => crypto.randomBytes(24).toString('hex');
+
+export const hashCalendarFeedToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// RFC 5545 TEXT escaping
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 line folding: at most 75 octets per line, continuation lines start with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (day: string) => day.replace(/-/g, '');
+
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (day: string) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return toDay(date);
+};
+
+/**
+ * Render the calendar as an iCalendar feed with one all-day event per release.
+ */
+export const renderICalendar = (days: CalendarDay[], options: { now?: Date; name?: string } = {}): string => {
+  const stamp = formatTimestamp(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Figure Collector//Release Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name || 'Figure releases')}`
+  ];
+
+  for (const day of days) {
+    // UIDs must stay stable between fetches: figure + day (+ n for repeats)
+    const seen = new Map<string, number>();
+    day.releases.forEach(release => {
+      const figureId = String(release.figureId);
+      const repeat = seen.get(figureId) || 0;
+      seen.set(figureId, repeat + 1);
+      const label = release.isRerelease ? 'Rerelease' : 'Release';
+      const title = release.manufacturer ? `${release.name} (${release.manufacturer})` : release.name;
+      const details = [
+        release.variant,
+        typeof release.price === 'number' ? `${release.price} ${release.currency || ''}`.trim() : undefined,
+        release.collectionStatus ? `Status: ${release.collectionStatus}` : undefined,
+        release.jan ? `JAN: ${release.jan}` : undefined
+      ].filter(Boolean).join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${figureId}-${formatDate(day.date)}${repeat ? `-${repeat}` : ''}@figure-collector`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(day.date)}`,
+        `DTEND;VALUE=DATE:${formatDate(nextDay(day.date))}`,
+        `SUMMARY:${escapeText(`${label}: ${title}`)}`
+      );
+      if (details) lines.push(`DESCRIPTION:${escapeText(details)}`);
+      if (release.mfcLink) lines.push(`URL:${release.mfcLink}`);
+      lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    });
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
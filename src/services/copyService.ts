@@ -0,0 +1,98 @@
+import { ICopy, IFigure } from '../models/Figure';
+
+/**
+ * Per-copy records for figures owned more than once.
+ *
+ * Copies use the same flat form fields as the figure form
+ * (purchaseDate/purchasePrice/purchaseCurrency, merchantName/merchantUrl).
+ */
+export interface CopyFields {
+  location?: string;
+  storageDetail?: string;
+  figureCondition?: string;
+  figureConditionNotes?: string;
+  boxCondition?: string;
+  boxConditionNotes?: string;
+  purchaseDate?: string | Date;
+  purchasePrice?: number;
+  purchaseCurrency?: string;
+  merchantName?: string;
+  merchantUrl?: string;
+  note?: string;
+}
+
+type CopyData = Omit<ICopy, '_id' | 'addedAt'>;
+
+const TEXT_FIELDS = [
+  'location', 'storageDetail', 'figureConditionNotes', 'boxConditionNotes', 'note'
+] as const;
+
+/**
+ * Apply flat copy fields on top of an existing copy (or an empty one).
+ * Only fields present in `fields` change; empty strings clear a value.
+ */
+export const applyCopyFields = (fields: CopyFields, existing: Partial<CopyData> = {}): CopyData => {
+  const copy: CopyData = {
+    location: existing.location,
+    storageDetail: existing.storageDetail,
+    figureCondition: existing.figureCondition,
+    figureConditionNotes: existing.figureConditionNotes,
+    boxCondition: existing.boxCondition,
+    boxConditionNotes: existing.boxConditionNotes,
+    purchaseInfo: existing.purchaseInfo,
+    merchant: existing.merchant,
+    note: existing.note
+  };
+
+  for (const field of TEXT_FIELDS) {
+    if (fields[field] !== undefined) copy[field] = fields[field] || undefined;
+  }
+  // Empty string clears the condition (same as updateFigure)
+  if (fields.figureCondition !== undefined) {
+    copy.figureCondition = (fields.figureCondition || undefined) as CopyData['figureCondition'];
+  }
+  if (fields.boxCondition !== undefined) {
+    copy.boxCondition = (fields.boxCondition || undefined) as CopyData['boxCondition'];
+  }
+
+  const { purchaseDate, purchasePrice, purchaseCurrency, merchantName, merchantUrl } = fields;
+  if (purchaseDate !== undefined || purchasePrice !== undefined || purchaseCurrency !== undefined) {
+    copy.purchaseInfo = {
+      date: purchaseDate !== undefined ? (purchaseDate ? new Date(purchaseDate) : undefined) : existing.purchaseInfo?.date,
+      price: purchasePrice !== undefined ? purchasePrice : existing.purchaseInfo?.price,
+      currency: purchaseCurrency || existing.purchaseInfo?.currency || 'USD',
+      source: existing.purchaseInfo?.source
+    };
+  }
+  if (merchantName !== undefined || merchantUrl !== undefined) {
+    copy.merchant = {
+      name: merchantName !== undefined ? (merchantName || undefined) : existing.merchant?.name,
+      url: merchantUrl !== undefined ? (merchantUrl || undefined) : existing.merchant?.url
+    };
+  }
+
+  return copy;
+};
+
+// Detach mongoose subdocuments before copying them into another array
+const plain = <T>(value: T): T =>
+  value && typeof (value as any).toObject === 'function' ? (value as any).toObject() : value;
+
+/**
+ * Copies describing what a figure without copy records already holds:
+ * `quantity` copies sharing its location and condition, with the purchase
+ * and merchant details on the first one.
+ */
+export const seedCopiesFromFigure = (figure: IFigure): CopyData[] => {
+  const count = Math.max(figure.quantity || 1, 1);
+  return Array.from({ length: count }, (_, i) => ({
+    location: figure.location || undefined,
+    storageDetail: figure.storageDetail || undefined,
+    figureCondition: figure.figureCondition,
+    figureConditionNotes: figure.figureConditionNotes || undefined,
+    boxCondition: figure.boxCondition,
+    boxConditionNotes: figure.boxConditionNotes || undefined,
+    purchaseInfo: i === 0 ? plain(figure.purchaseInfo) : undefined,
+    merchant: i === 0 ? plain(figure.merchant) : undefined
+  }));
+};
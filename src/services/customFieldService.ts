@@ -0,0 +1,278 @@
+import mongoose from 'mongoose';
+import CustomField, { CustomFieldType } from '../models/CustomField';
+import { escapeRegex } from './figureQueryService';
+
+/**
+ * User-defined custom fields: value validation against the user's field
+ * definitions, plus the `cf.<key>` query parameters that filter and sort
+ * figures by those values.
+ */
+
+export type CustomFieldValue = string | number | boolean | Date;
+
+export interface CustomFieldDefinition {
+  key: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+}
+
+// Query parameters (filters and sortBy) address a custom field as "cf.<key>"
+export const CUSTOM_FIELD_PARAM_PREFIX = 'cf.';
+export const CUSTOM_FIELD_PARAM_PATTERN = /^cf\.[a-z][a-z0-9_]*$/;
+
+export const MAX_CUSTOM_FIELDS = 50;
+export const MAX_CUSTOM_FIELD_KEY_LENGTH = 40;
+export const MAX_CUSTOM_TEXT_LENGTH = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The user's field definitions in display order.
+ */
+export const loadCustomFieldDefinitions = async (
+  userId: string | mongoose.Types.ObjectId
+): Promise<CustomFieldDefinition[]> =>
+  CustomField.find({ userId })
+    .sort({ order: 1, createdAt: 1 })
+    .select('key name type options order')
+    .lean();
+
+/**
+ * Derive a storage key from a field name ("Display lighting" → display_lighting),
+ * suffixed with _2, _3… when the user already has a field with that key.
+ * Names without any latin letters or digits fall back to "field".
+ */
+export const customFieldKeyFromName = (name: string, takenKeys: string[] = []): string => {
+  let base = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[_0-9]+|_+$/g, '')
+    .slice(0, MAX_CUSTOM_FIELD_KEY_LENGTH - 3)
+    .replace(/_+$/, '');
+  if (!base) base = 'field';
+
+  const taken = new Set(takenKeys);
+  let key = base;
+  for (let n = 2; taken.has(key); n++) {
+    key = `${base}_${n}`;
+  }
+  return key;
+};
+
+const parseDate = (raw: unknown): Date | null => {
+  if (raw instanceof Date) return isNaN(raw.getTime()) ? null : raw;
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  const date = new Date(raw.trim());
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const parseNumber = (raw: unknown): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  const value = Number(raw.trim());
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Convert a submitted value to the stored form for the field's type.
+ */
+export const coerceCustomFieldValue = (
+  definition: CustomFieldDefinition,
+  raw: unknown
+): { value?: CustomFieldValue; error?: string } => {
+  const label = `Custom field "${definition.name}"`;
+
+  switch (definition.type) {
+    case 'text': {
+      if (typeof raw !== 'string') return { error: `${label} must be text` };
+      const value = raw.trim();
+      if (value.length > MAX_CUSTOM_TEXT_LENGTH) {
+        return { error: `${label} must be at most ${MAX_CUSTOM_TEXT_LENGTH} characters` };
+      }
+      return { value };
+    }
+    case 'number': {
+      const value = parseNumber(raw);
+      return value === null ? { error: `${label} must be a number` } : { value };
+    }
+    case 'date': {
+      const value = parseDate(raw);
+      return value === null ? { error: `${label} must be a date` } : { value };
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+      return { error: `${label} must be true or false` };
+    }
+    case 'enum': {
+      // Match options case-insensitively but store the option as defined
+      const options = definition.options || [];
+      const option = typeof raw === 'string'
+        ? options.find(o => o.toLowerCase() === raw.trim().toLowerCase())
+        : undefined;
+      return option === undefined
+        ? { error: `${label} must be one of: ${options.join(', ')}` }
+        : { value: option };
+    }
+    default:
+      return { error: `${label} has an unknown type` };
+  }
+};
+
+/**
+ * Merge submitted custom field values onto a figure's existing values.
+ * null or an empty string removes a value; keys the user has not defined
+ * are rejected.
+ */
+export const applyCustomFieldValues = (
+  definitions: CustomFieldDefinition[],
+  input: Record<string, unknown>,
+  existing: Record<string, CustomFieldValue> = {}
+): { values: Record<string, CustomFieldValue>; errors: string[] } => {
+  const byKey = new Map(definitions.map(d => [d.key, d]));
+  const values: Record<string, CustomFieldValue> = { ...existing };
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(input)) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+    if (raw === null || raw === undefined || raw === '') {
+      delete values[key];
+      continue;
+    }
+    const { value, error } = coerceCustomFieldValue(definition, raw);
+    if (error) {
+      errors.push(error);
+    } else {
+      values[key] = value!;
+    }
+  }
+
+  return { values, errors };
+};
+
+const splitValues = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const startOfDay = (date: Date) => new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+
+/**
+ * "5" (exact), "1..10", "..10" or "5.." for number and date filters.
+ * Date bounds are whole (UTC) days, so "2024-01-01..2024-01-31" includes the 31st.
+ */
+const buildRangeCondition = (
+  type: 'number' | 'date',
+  value: string
+): Record<string, unknown> | number | null => {
+  const [fromRaw, toRaw] = value.includes('..') ? value.split('..', 2) : [value, value];
+  const exact = !value.includes('..');
+  const condition: Record<string, unknown> = {};
+
+  if (type === 'number') {
+    const from = fromRaw ? parseNumber(fromRaw) : undefined;
+    const to = toRaw ? parseNumber(toRaw) : undefined;
+    if (from === null || to === null || (from === undefined && to === undefined)) return null;
+    if (exact) return from!;
+    if (from !== undefined) condition.$gte = from;
+    if (to !== undefined) condition.$lte = to;
+    return condition;
+  }
+
+  const from = fromRaw ? parseDate(fromRaw) : undefined;
+  const to = toRaw ? parseDate(toRaw) : undefined;
+  if (from === null || to === null || (from === undefined && to === undefined)) return null;
+  if (from) condition.$gte = startOfDay(from);
+  if (to) condition.$lt = new Date(startOfDay(to).getTime() + DAY_MS);
+  return condition;
+};
+
+/**
+ * Turn `cf.<key>` query parameters into conditions for buildFigureFilter:
+ * - text: case-insensitive "contains"
+ * - enum: comma-separated options (any of)
+ * - boolean: true / false (figures without a value count as false)
+ * - number, date: exact value or a min..max range
+ * "__unspecified__" matches figures without a value (text and enum fields).
+ */
+export const buildCustomFieldConditions = (
+  definitions: CustomFieldDefinition[],
+  params: Record<string, unknown>
+): { conditions: Record<string, any>[]; errors: string[] } => {
+  const byKey = new Map(definitions.map(d => [d.key, d]));
+  const conditions: Record<string, any>[] = [];
+  const errors: string[] = [];
+
+  for (const [param, rawValue] of Object.entries(params)) {
+    if (!param.startsWith(CUSTOM_FIELD_PARAM_PREFIX) || typeof rawValue !== 'string') continue;
+    const key = param.slice(CUSTOM_FIELD_PARAM_PREFIX.length);
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+
+    const path = `customFields.${key}`;
+    const value = rawValue.trim();
+
+    switch (definition.type) {
+      case 'text':
+        conditions.push(value === '__unspecified__'
+          ? { [path]: { $in: [null, ''] } }
+          : { [path]: { $regex: escapeRegex(value), $options: 'i' } });
+        break;
+      case 'enum': {
+        const values = splitValues(value);
+        const matched = values.filter(v => v !== '__unspecified__');
+        conditions.push({ [path]: { $in: values.includes('__unspecified__') ? [null, ...matched] : matched } });
+        break;
+      }
+      case 'boolean':
+        if (value === 'true') {
+          conditions.push({ [path]: true });
+        } else if (value === 'false') {
+          conditions.push({ [path]: { $ne: true } });
+        } else {
+          errors.push(`${param} must be true or false`);
+        }
+        break;
+      case 'number':
+      case 'date': {
+        const condition = buildRangeCondition(definition.type, value);
+        if (condition === null) {
+          errors.push(`${param} must be a ${definition.type} or a min..max range`);
+        } else {
+          conditions.push({ [path]: condition });
+        }
+        break;
+      }
+    }
+  }
+
+  return { conditions, errors };
+};
+
+/**
+ * Whether a query uses any custom field filter or sorts by a custom field,
+ * so callers only load the definitions when they are needed.
+ */
+export const usesCustomFields = (params: Record<string, unknown>): boolean =>
+  Object.keys(params).some(param => param.startsWith(CUSTOM_FIELD_PARAM_PREFIX)) ||
+  (typeof params.sortBy === 'string' && params.sortBy.split(',')
+    .some(key => key.trim().replace(/^-/, '').startsWith(CUSTOM_FIELD_PARAM_PREFIX)));
+
+/**
+ * Sort path for `sortBy=cf.<key>`, or null when the user has no such field.
+ */
+export const customFieldSortPath = (
+  definitions: CustomFieldDefinition[],
+  sortBy: string
+): string | null => {
+  if (!sortBy.startsWith(CUSTOM_FIELD_PARAM_PREFIX)) return null;
+  const key = sortBy.slice(CUSTOM_FIELD_PARAM_PREFIX.length);
+  return definitions.some(d => d.key === key) ? `customFields.${key}` : null;
+};
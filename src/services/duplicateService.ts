@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import { normalizeJan } from './janService';
+
+/**
+ * Likely duplicate figures in a collection: the same MFC item, a shared
+ * JAN barcode, or a near-identical name from the same manufacturer.
+ * Matching pairs are joined into groups, each with a confidence score.
+ */
+
+export type DuplicateReason = 'mfcId' | 'jan' | 'name';
+
+/** Fields of a figure duplicate detection reads (a lean Figure document). */
+export interface DuplicateFigure {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer: string;
+  scale?: string;
+  mfcId?: number;
+  jan?: string;
+  releases?: { jan?: string }[];
+  collectionStatus?: string;
+  imageUrl?: string;
+  createdAt?: Date;
+}
+
+export interface DuplicateGroup {
+  confidence: number;         // 0–1: how sure we are that the whole group is one figure
+  reasons: DuplicateReason[];
+  figures: DuplicateFigure[]; // Oldest first
+}
+
+// Identifiers are (nearly) conclusive; name matches never score above them
+export const MFC_ID_CONFIDENCE = 1;
+export const JAN_CONFIDENCE = 0.95;
+const NAME_SAME_SCALE_CONFIDENCE = 0.9;
+const NAME_UNKNOWN_SCALE_CONFIDENCE = 0.8;
+
+// Names less similar than this are never reported
+export const MIN_NAME_SIMILARITY = 0.8;
+
+interface DuplicatePair {
+  a: number;
+  b: number;
+  confidence: number;
+  reason: DuplicateReason;
+}
+
+/**
+ * Lowercase, without accents, punctuation or repeated whitespace, so
+ * "Saber (Alter Ver.)" and "saber alter ver" compare equal.
+ */
+export const normalizeForComparison = (value = ''): string => value
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+const bigrams = (value: string): Map<string, number> => {
+  const result = new Map<string, number>();
+  const compact = value.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    result.set(gram, (result.get(gram) || 0) + 1);
+  }
+  return result;
+};
+
+const diceCoefficient = (a: Map<string, number>, b: Map<string, number>): number => {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  a.forEach(count => { sizeA += count; });
+  b.forEach(count => { sizeB += count; });
+  a.forEach((count, gram) => { shared += Math.min(count, b.get(gram) || 0); });
+  return sizeA + sizeB === 0 ? 0 : (2 * shared) / (sizeA + sizeB);
+};
+
+const figureJans = (figure: DuplicateFigure): string[] => Array.from(new Set(
+  [figure.jan, ...(figure.releases || []).map(release => release.jan)]
+    .filter((jan): jan is string => Boolean(jan))
+    .map(normalizeJan)
+));
+
+// Pairs of indexes sharing a key
+const pairsByKey = (keysPerFigure: string[][]): [number, number][] => {
+  const byKey = new Map<string, number[]>();
+  keysPerFigure.forEach((keys, index) => keys.forEach(key => {
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(index);
+  }));
+
+  const pairs: [number, number][] = [];
+  byKey.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) pairs.push([indexes[i], indexes[j]]);
+    }
+  });
+  return pairs;
+};
+
+/**
+ * Pairs among `indexes` whose names may reach MIN_NAME_SIMILARITY, found
+ * without comparing every pair (prefix filtering). A Dice coefficient of t
+ * needs at least t·n/(2−t) of a name's n bigrams to be shared, so with the
+ * bigrams of every name ordered rarest first, two such names share one of
+ * their first n − that + 1 bigrams. Equal names always pair.
+ */
+const similarNamePairs = (
+  indexes: number[],
+  names: string[],
+  nameBigrams: Map<string, number>[]
+): [number, number][] => {
+  // The k-th repeat of a bigram is a token of its own, so shared tokens are the Dice overlap
+  const tokens = indexes.map(index => {
+    const list: string[] = [];
+    nameBigrams[index].forEach((count, gram) => {
+      for (let k = 0; k < count; k++) list.push(`${gram}#${k}`);
+    });
+    // Names too short for bigrams only pair with the same name
+    return list.length > 0 ? list : [`=${names[index]}`];
+  });
+  const frequency = new Map<string, number>();
+  tokens.forEach(list => list.forEach(token => frequency.set(token, (frequency.get(token) || 0) + 1)));
+  const rarestFirst = (x: string, y: string) =>
+    frequency.get(x)! - frequency.get(y)! || (x < y ? -1 : x > y ? 1 : 0);
+  const minShared = MIN_NAME_SIMILARITY / (2 - MIN_NAME_SIMILARITY);
+
+  const pairs: [number, number][] = [];
+  const seenByToken = new Map<string, number[]>();
+  tokens.forEach((list, position) => {
+    const sorted = [...list].sort(rarestFirst);
+    // The small epsilon keeps float error from shortening the prefix
+    const prefixLength = sorted.length - Math.ceil(minShared * sorted.length - 1e-9) + 1;
+    const partners = new Set<number>();
+    for (const token of sorted.slice(0, prefixLength)) {
+      if (!seenByToken.has(token)) seenByToken.set(token, []);
+      const seen = seenByToken.get(token)!;
+      seen.forEach(other => partners.add(other));
+      seen.push(position);
+    }
+    partners.forEach(other => pairs.push([indexes[other], indexes[position]]));
+  });
+  return pairs;
+};
+
+const findPairs = (figures: DuplicateFigure[]): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+
+  for (const [a, b] of pairsByKey(figures.map(figure => (figure.mfcId ? [String(figure.mfcId)] : [])))) {
+    pairs.push({ a, b, confidence: MFC_ID_CONFIDENCE, reason: 'mfcId' });
+  }
+  for (const [a, b] of pairsByKey(figures.map(figureJans))) {
+    pairs.push({ a, b, confidence: JAN_CONFIDENCE, reason: 'jan' });
+  }
+
+  // Names are only compared within the same manufacturer, and only for the
+  // candidate pairs similarNamePairs finds
+  const names = figures.map(figure => normalizeForComparison(figure.name));
+  const nameBigrams = names.map(bigrams);
+  const byManufacturer = new Map<string, number[]>();
+  figures.forEach((figure, index) => {
+    const key = normalizeForComparison(figure.manufacturer).replace(/ /g, '');
+    if (!key) return;
+    if (!byManufacturer.has(key)) byManufacturer.set(key, []);
+    byManufacturer.get(key)!.push(index);
+  });
+  const candidates = Array.from(byManufacturer.values())
+    .flatMap(indexes => similarNamePairs(indexes, names, nameBigrams));
+  for (const [a, b] of candidates) {
+    const left = figures[a];
+    const right = figures[b];
+    // Different MFC items or scales are different products, however similar the names
+    if (left.mfcId && right.mfcId && left.mfcId !== right.mfcId) continue;
+    const scaleA = normalizeForComparison(left.scale);
+    const scaleB = normalizeForComparison(right.scale);
+    if (scaleA && scaleB && scaleA !== scaleB) continue;
+
+    const similarity = names[a] === names[b] ? 1 : diceCoefficient(nameBigrams[a], nameBigrams[b]);
+    if (similarity < MIN_NAME_SIMILARITY) continue;
+
+    const weight = scaleA && scaleB ? NAME_SAME_SCALE_CONFIDENCE : NAME_UNKNOWN_SCALE_CONFIDENCE;
+    pairs.push({ a, b, confidence: similarity * weight, reason: 'name' });
+  }
+
+  return pairs;
+};
+
+/**
+ * Group likely duplicates. Pairs are joined strongest first, so a group's
+ * confidence is that of the weakest match holding it together.
+ */
+export const findDuplicateGroups = (
+  figures: DuplicateFigure[],
+  options: { minConfidence?: number } = {}
+): DuplicateGroup[] => {
+  const minConfidence = options.minConfidence ?? 0;
+  const pairs = findPairs(figures)
+    .filter(pair => pair.confidence >= minConfidence)
+    .sort((x, y) => y.confidence - x.confidence);
+
+  const parent = figures.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const groups = new Map<number, { confidence: number; reasons: Set<DuplicateReason> }>();
+  for (const { a, b, confidence, reason } of pairs) {
+    const rootA = root(a);
+    const rootB = root(b);
+    if (rootA === rootB) {
+      groups.get(rootA)!.reasons.add(reason);
+      continue;
+    }
+
+    const reasons = new Set([
+      ...(groups.get(rootA)?.reasons || []),
+      ...(groups.get(rootB)?.reasons || []),
+      reason
+    ]);
+    groups.delete(rootA);
+    groups.delete(rootB);
+    parent[rootB] = rootA;
+    // Pairs arrive strongest first, so the newest join is the weakest link
+    groups.set(rootA, { confidence, reasons });
+  }
+
+  const members = new Map<number, DuplicateFigure[]>();
+  figures.forEach((figure, index) => {
+    const groupRoot = root(index);
+    if (!groups.has(groupRoot)) return;
+    if (!members.has(groupRoot)) members.set(groupRoot, []);
+    members.get(groupRoot)!.push(figure);
+  });
+
+  const time = (figure: DuplicateFigure) => (figure.createdAt ? new Date(figure.createdAt).getTime() : 0);
+  return Array.from(groups, ([groupRoot, { confidence, reasons }]) => ({
+    confidence: Math.round(confidence * 100) / 100,
+    reasons: (['mfcId', 'jan', 'name'] as DuplicateReason[]).filter(reason => reasons.has(reason)),
+    figures: members.get(groupRoot)!.sort((x, y) => time(x) - time(y))
+  })).sort((x, y) => y.confidence - x.confidence || x.figures[0].name.localeCompare(y.figures[0].name));
+};
@@ -0,0 +1,174 @@
+/**
+ * Export Service
+ *
+ * Flattens figure documents into stable, spreadsheet-friendly records and
+ * serializes them as CSV. Nested data (releases, company/artist roles,
+ * purchase info, merchant, dimensions) is spread into fixed columns so the
+ * column set never depends on the contents of a particular collection; the
+ * user's custom fields follow as one column each.
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportValue = string | number | boolean | null;
+
+export type ExportRecord = Record<string, ExportValue>;
+
+export interface ExportColumn {
+  key: string;
+  get: (figure: any) => ExportValue;
+}
+
+// Separator used when a multi-valued field is collapsed into a single cell
+export const MULTI_VALUE_SEPARATOR = ' | ';
+
+const toIsoDate = (value: unknown): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const toDay = (value: unknown): string | null => {
+  const iso = toIsoDate(value);
+  return iso ? iso.slice(0, 10) : null;
+};
+
+const valueOrNull = (value: unknown): ExportValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+};
+
+// Join one property of every array entry, keeping positions aligned across columns
+const joinEach = (items: any[] | undefined, pick: (item: any) => unknown): string | null => {
+  if (!items || items.length === 0) return null;
+  return items
+    .map(item => {
+      const value = pick(item);
+      return value === undefined || value === null ? '' : String(value);
+    })
+    .join(MULTI_VALUE_SEPARATOR);
+};
+
+const formatRole = (name: string | undefined, role: string | undefined): string => {
+  if (!name) return '';
+  return role ? `${name} (${role})` : name;
+};
+
+/**
+ * Ordered export columns. Adding a column is safe; renaming or reordering one
+ * breaks spreadsheets that users have built on top of previous exports.
+ */
+export const FIGURE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', get: f => valueOrNull(f._id) },
+  { key: 'name', get: f => valueOrNull(f.name) },
+  { key: 'manufacturer', get: f => valueOrNull(f.manufacturer) },
+  { key: 'scale', get: f => valueOrNull(f.scale) },
+  { key: 'mfcId', get: f => valueOrNull(f.mfcId) },
+  { key: 'mfcLink', get: f => valueOrNull(f.mfcLink) },
+  { key: 'jan', get: f => valueOrNull(f.jan) },
+  { key: 'mfcTitle', get: f => valueOrNull(f.mfcTitle) },
+  { key: 'origin', get: f => valueOrNull(f.origin) },
+  { key: 'version', get: f => valueOrNull(f.version) },
+  { key: 'category', get: f => valueOrNull(f.category) },
+  { key: 'classification', get: f => valueOrNull(f.classification) },
+  { key: 'materials', get: f => valueOrNull(f.materials) },
+  { key: 'type', get: f => valueOrNull(f.type) },
+  { key: 'collectionStatus', get: f => valueOrNull(f.collectionStatus || 'owned') },
+  { key: 'quantity', get: f => valueOrNull(f.quantity) },
+  { key: 'rating', get: f => valueOrNull(f.rating) },
+  { key: 'wishRating', get: f => valueOrNull(f.wishRating) },
+  { key: 'location', get: f => valueOrNull(f.location) },
+  { key: 'storageDetail', get: f => valueOrNull(f.storageDetail) },
+  { key: 'boxNumber', get: f => valueOrNull(f.boxNumber) },
+  { key: 'tags', get: f => joinEach(f.tags, t => t) },
+  { key: 'imageUrl', get: f => valueOrNull(f.imageUrl) },
+
+  // Company/Artist roles: "Name (Role)" entries
+  { key: 'companies', get: f => joinEach(f.companyRoles, cr => formatRole(cr.companyName, cr.roleName)) },
+  { key: 'artists', get: f => joinEach(f.artistRoles, ar => formatRole(ar.artistName, ar.roleName)) },
+
+  // Releases: one position per release in every release* column
+  { key: 'releaseDates', get: f => joinEach(f.releases, r => toDay(r.date)) },
+  { key: 'releasePrices', get: f => joinEach(f.releases, r => r.price) },
+  { key: 'releaseCurrencies', get: f => joinEach(f.releases, r => r.currency) },
+  { key: 'releaseJans', get: f => joinEach(f.releases, r => r.jan) },
+  { key: 'releaseIsRerelease', get: f => joinEach(f.releases, r => Boolean(r.isRerelease)) },
+
+  // Purchase info and merchant
+  { key: 'purchaseDate', get: f => toDay(f.purchaseInfo?.date) },
+  { key: 'purchasePrice', get: f => valueOrNull(f.purchaseInfo?.price) },
+  { key: 'purchaseCurrency', get: f => valueOrNull(f.purchaseInfo?.currency) },
+  { key: 'purchaseSource', get: f => valueOrNull(f.purchaseInfo?.source) },
+  { key: 'merchantName', get: f => valueOrNull(f.merchant?.name) },
+  { key: 'merchantUrl', get: f => valueOrNull(f.merchant?.url) },
+
+  // Dimensions
+  { key: 'heightMm', get: f => valueOrNull(f.dimensions?.heightMm) },
+  { key: 'widthMm', get: f => valueOrNull(f.dimensions?.widthMm) },
+  { key: 'depthMm', get: f => valueOrNull(f.dimensions?.depthMm) },
+  { key: 'scaledHeight', get: f => valueOrNull(f.dimensions?.scaledHeight) },
+
+  // Condition
+  { key: 'figureCondition', get: f => valueOrNull(f.figureCondition) },
+  { key: 'figureConditionNotes', get: f => valueOrNull(f.figureConditionNotes) },
+  { key: 'boxCondition', get: f => valueOrNull(f.boxCondition) },
+  { key: 'boxConditionNotes', get: f => valueOrNull(f.boxConditionNotes) },
+
+  { key: 'note', get: f => valueOrNull(f.note) },
+  { key: 'description', get: f => valueOrNull(f.description) },
+  { key: 'createdAt', get: f => toIsoDate(f.createdAt) },
+  { key: 'updatedAt', get: f => toIsoDate(f.updatedAt) }
+];
+
+/**
+ * Columns for the user's custom fields ("cf.<key>"), appended after the
+ * fixed columns in the order the user arranged the fields.
+ */
+export const customFieldExportColumns = (
+  definitions: Array<{ key: string; type: string }>
+): ExportColumn[] =>
+  definitions.map(definition => ({
+    key: `cf.${definition.key}`,
+    get: f => {
+      const value = f.customFields?.[definition.key];
+      return definition.type === 'date' ? toDay(value) : valueOrNull(value);
+    }
+  }));
+
+/**
+ * Flatten a figure (document or lean object) into an export record.
+ */
+export const flattenFigure = (figure: any, columns: ExportColumn[] = FIGURE_EXPORT_COLUMNS): ExportRecord => {
+  const record: ExportRecord = {};
+  for (const column of columns) {
+    record[column.key] = column.get(figure);
+  }
+  return record;
+};
+
+/**
+ * Escape a single CSV cell (RFC 4180).
+ * Strings starting with a formula trigger are prefixed with an apostrophe so
+ * spreadsheet applications don't evaluate them (CSV injection).
+ */
+export const escapeCsvValue = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const toCsvRow = (values: ExportValue[]): string =>
+  values.map(escapeCsvValue).join(',') + '\r\n';
+
+export const csvHeaderRow = (columns: ExportColumn[] = FIGURE_EXPORT_COLUMNS): string =>
+  toCsvRow(columns.map(column => column.key));
+
+export const csvRecordRow = (record: ExportRecord, columns: ExportColumn[] = FIGURE_EXPORT_COLUMNS): string =>
+  toCsvRow(columns.map(column => record[column.key]));
@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import FigureHistory, {
+  FigureHistoryAction,
+  FigureHistorySource,
+  IFieldChange
+} from '../models/FigureHistory';
+import { recordStatusChanges } from './statusHistoryService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('HISTORY');
+
+export type FigureSnapshot = Record<string, any>;
+
+// Bookkeeping fields that are never reported as changes
+const IGNORED_FIELDS = new Set(['_id', '__v', 'userId', 'createdAt', 'updatedAt']);
+
+/**
+ * Plain JSON copy of a figure (document or lean object).
+ * ObjectIds and Dates become strings, so snapshots compare and store cleanly,
+ * and later in-place edits to the document do not leak into the copy.
+ */
+export const snapshotFigure = (figure: any): FigureSnapshot | null => {
+  if (!figure) return null;
+  const plain = typeof figure.toObject === 'function' ? figure.toObject() : figure;
+  return JSON.parse(JSON.stringify(plain));
+};
+
+// '', [], {} and null all mean "not set" (the forms send '' for cleared fields)
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+/**
+ * Field-level diff between two snapshots (null = figure did not exist).
+ * Top-level fields are compared as a whole, so a changed release shows the
+ * full old and new releases arrays.
+ */
+export const diffFigures = (before: FigureSnapshot | null, after: FigureSnapshot | null): IFieldChange[] => {
+  const oldValues = before || {};
+  const newValues = after || {};
+  const fields = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+  const changes: IFieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const oldValue = isEmpty(oldValues[field]) ? undefined : oldValues[field];
+    const newValue = isEmpty(newValues[field]) ? undefined : newValues[field];
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes.push({ field, oldValue, newValue });
+  }
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export interface FigureHistoryEntry {
+  figureId: string | mongoose.Types.ObjectId;
+  userId: string | mongoose.Types.ObjectId;
+  changedBy?: string | mongoose.Types.ObjectId;
+  action: FigureHistoryAction;
+  source?: FigureHistorySource;
+  before: FigureSnapshot | null;
+  after: FigureSnapshot | null;
+  statusNote?: string;  // Kept with the collectionStatus transition, if any
+}
+
+/**
+ * History for one change applied to many figures at once: each figure's
+ * copy from before the change is paired with its copy read back after it.
+ */
+export const recordBulkFigureHistory = async (
+  userId: string | mongoose.Types.ObjectId,
+  beforeDocs: any[],
+  afterDocs: any[],
+  source: FigureHistorySource = 'bulk'
+): Promise<void> => {
+  const after = new Map(afterDocs.map(figure => [String(figure._id), figure]));
+  await recordFigureHistory(beforeDocs.map(before => ({
+    figureId: before._id,
+    userId,
+    action: 'update' as const,
+    source,
+    before: snapshotFigure(before),
+    after: snapshotFigure(after.get(String(before._id)))
+  })));
+};
+
+/**
+ * Store history entries for one or more figure changes, and the
+ * collectionStatus transitions among them (see statusHistoryService).
+ * Updates that changed nothing are skipped. Failures are logged and never
+ * fail the request that made the change.
+ */
+export const recordFigureHistory = async (entries: FigureHistoryEntry | FigureHistoryEntry[]): Promise<void> => {
+  const list = Array.isArray(entries) ? entries : [entries];
+  await recordStatusChanges(list);
+
+  const docs = list
+    .map(entry => ({
+      figureId: entry.figureId,
+      userId: entry.userId,
+      changedBy: entry.changedBy ?? entry.userId,
+      action: entry.action,
+      source: entry.source || 'user',
+      changes: diffFigures(entry.before, entry.after)
+    }))
+    .filter(doc => doc.action !== 'update' || doc.changes.length > 0);
+
+  if (docs.length === 0) return;
+
+  try {
+    await FigureHistory.insertMany(docs);
+  } catch (error: any) {
+    logger.error('Failed to record figure history:', error.message);
+  }
+};
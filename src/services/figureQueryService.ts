@@ -0,0 +1,335 @@
+import mongoose from 'mongoose';
+
+/**
+ * Filter parameters accepted by the figure list endpoints.
+ * Multi-value filters are comma-separated (e.g. "Good Smile Company,Alter").
+ */
+export interface FigureFilterParams {
+  status?: string;
+  manufacturer?: string;
+  distributor?: string;
+  scale?: string;
+  location?: string;
+  boxNumber?: string;
+  figureCondition?: string;
+  origin?: string;
+  category?: string;
+}
+
+export const VALID_COLLECTION_STATUSES = ['owned', 'ordered', 'wished', 'sold', 'traded'];
+
+// Figures that have left the collection: kept as history, not counted as owned
+export const PARTED_STATUSES = ['sold', 'traded'];
+
+// Escape regex special characters in filter values (e.g., "1/7" contains "/")
+export const escapeRegex = (str: string) => str.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+
+/**
+ * Base match for a user's figures that are not in the trash.
+ * `deletedAt: null` also matches figures created before soft delete existed.
+ */
+export const activeFigureFilter = (userId: string | mongoose.Types.ObjectId): Record<string, any> => ({
+  userId,
+  deletedAt: null
+});
+
+const splitValues = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+/**
+ * Build an exact-match (case-insensitive) condition for a string field that
+ * supports the special "__unspecified__" value for null/empty entries.
+ */
+const buildOptionalFieldCondition = (value: string) => {
+  const values = splitValues(value);
+  const hasUnspecified = values.includes('__unspecified__');
+  const specifiedValues = values.filter(v => v !== '__unspecified__');
+
+  if (hasUnspecified && specifiedValues.length > 0) {
+    // Mix of unspecified and specified values
+    return {
+      $in: [null, '', ...specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'))]
+    };
+  }
+  if (hasUnspecified) {
+    // Only unspecified: match null or empty string
+    return { $in: [null, ''] };
+  }
+  // Only specified values
+  return specifiedValues.length > 1
+    ? { $in: specifiedValues.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) }
+    : { $regex: `^${escapeRegex(specifiedValues[0])}$`, $options: 'i' };
+};
+
+/**
+ * Build the MongoDB query used by filterFigures and every other endpoint that
+ * honors the same filters (export, reports, bulk operations).
+ * `extraConditions` are ANDed in (e.g. custom field filters).
+ */
+export const buildFigureFilter = (
+  userId: string | mongoose.Types.ObjectId,
+  params: FigureFilterParams,
+  extraConditions: Record<string, any>[] = []
+): Record<string, any> => {
+  const {
+    manufacturer, scale, location, boxNumber, figureCondition, status, origin, category, distributor
+  } = params;
+  const query: Record<string, any> = activeFigureFilter(userId);
+
+  // Collection status filter (owned/ordered/wished/sold/traded)
+  // Handle legacy figures: null/undefined collectionStatus treated as 'owned'
+  if (status && VALID_COLLECTION_STATUSES.includes(status)) {
+    if (status === 'owned') {
+      query.$or = [
+        { collectionStatus: 'owned' },
+        { collectionStatus: { $exists: false } },
+        { collectionStatus: null }
+      ];
+    } else {
+      query.collectionStatus = status;
+    }
+  }
+
+  // Support comma-separated values for multi-select faceted filtering
+  // e.g., manufacturer=Good+Smile+Company,Alter → matches either manufacturer
+  // Search BOTH legacy manufacturer field AND companyRoles with Manufacturer role
+  if (manufacturer) {
+    const values = splitValues(manufacturer);
+    const manufacturerPatterns = values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'));
+
+    // Match either legacy manufacturer OR companyRoles with Manufacturer role
+    query.$and = query.$and || [];
+    query.$and.push({
+      $or: [
+        // Legacy manufacturer field
+        { manufacturer: values.length > 1 ? { $in: manufacturerPatterns } : manufacturerPatterns[0] },
+        // v3 companyRoles with Manufacturer role
+        {
+          companyRoles: {
+            $elemMatch: {
+              roleName: 'Manufacturer',
+              companyName: values.length > 1 ? { $in: manufacturerPatterns } : manufacturerPatterns[0]
+            }
+          }
+        }
+      ]
+    });
+  }
+
+  // Filter by distributor (Schema v3 companyRoles with Distributor role)
+  if (distributor) {
+    const values = splitValues(distributor);
+    const distributorPatterns = values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i'));
+
+    query.$and = query.$and || [];
+    query.$and.push({
+      companyRoles: {
+        $elemMatch: {
+          roleName: 'Distributor',
+          companyName: values.length > 1 ? { $in: distributorPatterns } : distributorPatterns[0]
+        }
+      }
+    });
+  }
+
+  if (scale) {
+    query.scale = buildOptionalFieldCondition(scale);
+  }
+  // Location and condition also match individual copies of the figure
+  if (location) {
+    const values = splitValues(location);
+    const condition = values.length > 1
+      ? { $in: values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) }
+      : { $regex: values[0], $options: 'i' };
+    query.$and = query.$and || [];
+    query.$and.push({
+      $or: [{ location: condition }, { 'copies.location': condition }]
+    });
+  }
+  if (boxNumber) query.boxNumber = { $regex: boxNumber, $options: 'i' };
+  if (figureCondition) {
+    const values = splitValues(figureCondition);
+    query.$and = query.$and || [];
+    query.$and.push({
+      $or: [
+        { figureCondition: { $in: values } },
+        { 'copies.figureCondition': { $in: values } }
+      ]
+    });
+  }
+  if (origin) {
+    query.origin = buildOptionalFieldCondition(origin);
+  }
+  if (category) {
+    query.category = buildOptionalFieldCondition(category);
+  }
+  if (extraConditions.length > 0) {
+    query.$and = [...(query.$and || []), ...extraConditions];
+  }
+
+  return query;
+};
+
+/**
+ * Sort keys accepted by the figure list endpoints and the field each sorts
+ * on. `price` is the older name of `purchasePrice`.
+ */
+export const FIGURE_SORT_FIELDS: Record<string, string> = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  name: 'name',
+  manufacturer: 'manufacturer',
+  scale: 'scale',
+  origin: 'origin',
+  rating: 'rating',
+  wishRating: 'wishRating',
+  quantity: 'quantity',
+  releaseDate: 'firstReleaseDate',
+  purchaseDate: 'purchaseInfo.date',
+  purchasePrice: 'purchaseInfo.price',
+  price: 'purchaseInfo.price'
+};
+
+export const MAX_SORT_KEYS = 3;
+
+const CUSTOM_FIELD_SORT_PREFIX = 'cf.';
+
+/** One key of a figure sort: the requested key, the field it sorts on and the direction. */
+export interface FigureSortKey {
+  field: string;
+  path: string;
+  order: 1 | -1;
+}
+
+/**
+ * Parse `sortBy` (comma-separated keys, e.g. "manufacturer,-rating"; a "-"
+ * sorts that key descending) and `sortOrder` (the direction of keys without
+ * a prefix, descending by default). Without sortBy the list is sorted by
+ * createdAt. With allowCustomFields, `cf.<key>` keys sort on
+ * customFields.<key>; whether the user has that field is checked by the caller.
+ */
+export const parseFigureSort = (
+  sortBy: string | undefined,
+  sortOrder: string | undefined,
+  options: { allowCustomFields?: boolean } = {}
+): { keys: FigureSortKey[]; errors: string[] } => {
+  const defaultOrder = sortOrder === 'asc' ? 1 : -1;
+  const errors: string[] = [];
+  const keys: FigureSortKey[] = [];
+
+  for (const token of splitValues(sortBy || 'createdAt')) {
+    const descending = token.startsWith('-');
+    const field = descending ? token.slice(1) : token;
+    const order = descending ? -1 : defaultOrder;
+    const path = Object.prototype.hasOwnProperty.call(FIGURE_SORT_FIELDS, field)
+      ? FIGURE_SORT_FIELDS[field]
+      : options.allowCustomFields && /^cf\.[a-z][a-z0-9_]*$/.test(field)
+        ? `customFields.${field.slice(CUSTOM_FIELD_SORT_PREFIX.length)}`
+        : null;
+
+    if (!path) {
+      errors.push(`sortBy must be one of: ${Object.keys(FIGURE_SORT_FIELDS).join(', ')}` +
+        (options.allowCustomFields ? ' or cf.<custom field key>' : ''));
+    } else if (keys.some(key => key.path === path)) {
+      errors.push(`sortBy lists "${field}" more than once`);
+    } else {
+      keys.push({ field, path, order });
+    }
+  }
+  if (keys.length > MAX_SORT_KEYS) {
+    errors.push(`sortBy accepts at most ${MAX_SORT_KEYS} keys`);
+  }
+
+  return errors.length > 0 ? { keys: [], errors } : { keys, errors };
+};
+
+/**
+ * Mongo sort for the keys. `withId` adds _id (in the last key's direction)
+ * as the final tiebreaker, which cursor pagination needs for a total order.
+ */
+export const figureSortOptions = (keys: FigureSortKey[], withId = false): Record<string, 1 | -1> => {
+  const sort: Record<string, 1 | -1> = {};
+  for (const key of keys) sort[key.path] = key.order;
+  if (withId) sort._id = keys[keys.length - 1]?.order ?? -1;
+  return sort;
+};
+
+/**
+ * Position after the last figure of a page in cursor pagination: its value
+ * of each sort key and its _id. The sort is part of the cursor, so a cursor
+ * only continues the listing it came from.
+ */
+export interface FigureCursor {
+  keys: { path: string; order: 1 | -1; value: unknown }[];
+  id: string;
+}
+
+// Value of a (possibly nested) field of a document, lean object or aggregation result
+const fieldValue = (figure: any, path: string): unknown =>
+  typeof figure.get === 'function'
+    ? figure.get(path)
+    : path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), figure);
+
+/** Opaque cursor continuing after `figure`. */
+export const encodeFigureCursor = (keys: FigureSortKey[], figure: any): string => {
+  const payload = {
+    k: keys.map(({ path, order }) => {
+      const value = fieldValue(figure, path);
+      // Dates are flagged so they compare as dates again, not as strings
+      return { s: path, o: order, ...(value instanceof Date ? { v: value.toISOString(), d: 1 } : { v: value ?? null }) };
+    }),
+    id: String(figure._id)
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/** The decoded cursor, or null when it is not one we issued. */
+export const decodeFigureCursor = (cursor: string): FigureCursor | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(payload?.k) || payload.k.length === 0 || payload.k.length > MAX_SORT_KEYS ||
+      !mongoose.Types.ObjectId.isValid(payload.id)) {
+      return null;
+    }
+    const keys: FigureCursor['keys'] = [];
+    for (const key of payload.k) {
+      if (typeof key?.s !== 'string' || (key.o !== 1 && key.o !== -1)) return null;
+      const value = key.d ? new Date(key.v) : key.v;
+      if (value instanceof Date && Number.isNaN(value.getTime())) return null;
+      keys.push({ path: key.s, order: key.o, value });
+    }
+    return { keys, id: payload.id };
+  } catch {
+    return null;
+  }
+};
+
+/** Whether a cursor was issued for this sort. */
+export const cursorMatchesSort = (cursor: FigureCursor, keys: FigureSortKey[]): boolean =>
+  cursor.keys.length === keys.length &&
+  cursor.keys.every((key, i) => key.path === keys[i].path && key.order === keys[i].order);
+
+/**
+ * Condition matching the figures after the cursor in the order of its keys
+ * then _id: for each key, the figures equal on every earlier key and after
+ * the cursor on this one, and finally those equal on all keys with a later
+ * _id. MongoDB sorts missing/null values first, so they come before every
+ * value ascending and after every value descending.
+ */
+export const figureCursorCondition = (cursor: FigureCursor): Record<string, any> => {
+  const id = new mongoose.Types.ObjectId(cursor.id);
+  const lastOrder = cursor.keys[cursor.keys.length - 1].order;
+  const branches: Record<string, any>[] = [];
+  const equalSoFar: Record<string, unknown> = {};
+
+  for (const { path, order, value } of cursor.keys) {
+    // Nothing sorts after null descending
+    const after = value === null
+      ? (order === 1 ? [{ $ne: null }] : [])
+      : (order === 1 ? [{ $gt: value }] : [{ $lt: value }, null]);
+    branches.push(...after.map(condition => ({ ...equalSoFar, [path]: condition })));
+    equalSoFar[path] = value;
+  }
+  branches.push({ ...equalSoFar, _id: { [lastOrder === 1 ? '$gt' : '$lt']: id } });
+
+  return { $or: branches };
+};
@@ -0,0 +1,393 @@
+import mongoose from 'mongoose';
+import MFCItem, { IMFCItem, IMFCItemData } from '../models/MFCItem';
+import UserFigure from '../models/UserFigure';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Schema v3 transition from the combined Figure model to MFCItem (shared
+ * catalog data) + UserFigure (one per figure in a user's collection).
+ *
+ * FIGURE_MODEL_MODE selects where figures are written and read:
+ * - dual (default): writes go to Figure and are mirrored to MFCItem/UserFigure; reads use Figure
+ * - split: writes as in dual; the figure list and detail endpoints read MFCItem/UserFigure
+ * - legacy: Figure only, nothing is mirrored
+ *
+ * A UserFigure keeps the Figure's _id in figureId, so API IDs don't change.
+ * Catalog fields equal to the MFCItem's are left out of the UserFigure and
+ * read from the item; values the user changed are kept as overrides.
+ */
+
+const logger = createLogger('FIGURE_SPLIT');
+
+export type FigureModelMode = 'legacy' | 'dual' | 'split';
+
+export const getFigureModelMode = (): FigureModelMode => {
+  const mode = process.env.FIGURE_MODEL_MODE;
+  return mode === 'legacy' || mode === 'split' ? mode : 'dual';
+};
+
+export const isDualWriteEnabled = (): boolean => getFigureModelMode() !== 'legacy';
+
+// Only the list, filter and by-ID reads switch; other readers still use Figure
+export const readsFromSplitModels = (): boolean => getFigureModelMode() === 'split';
+
+// Figure fields that MFCItem holds, with the item field each is read from
+const CATALOG_FIELDS = {
+  mfcLink: 'mfcUrl',
+  name: 'name',
+  scale: 'scale',
+  imageUrls: 'imageUrls',
+  releases: 'releases',
+  dimensions: 'dimensions'
+} as const;
+
+type CatalogField = keyof typeof CATALOG_FIELDS;
+
+// UserFigure fields that aren't part of the figure's API shape
+const SPLIT_ONLY_FIELDS = [
+  'figureId', 'mfcItemId', 'mfcItem',
+  'notes', 'customTags', 'purchasePrice', 'purchaseCurrency', 'purchaseDate', 'condition'
+];
+
+const mfcItemUrl = (mfcId: number) => `https://myfigurecollection.net/item/${mfcId}`;
+
+// Drop undefined values, so equal data compares equal
+const compact = <T extends Record<string, any>>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** MFCItem data for a figure (a plain object), or null when it has no MFC ID. */
+export const catalogItemFromFigure = (figure: Record<string, any>): IMFCItemData | null => {
+  if (!figure.mfcId) return null;
+  return compact({
+    mfcId: figure.mfcId,
+    mfcUrl: figure.mfcLink || mfcItemUrl(figure.mfcId),
+    name: figure.name,
+    scale: figure.scale,
+    imageUrls: figure.imageUrls || [],
+    releases: (figure.releases || []).map((release: Record<string, any>) => compact({
+      date: release.date,
+      price: release.price,
+      currency: release.currency,
+      isRerelease: Boolean(release.isRerelease),
+      jan: release.jan
+    })),
+    dimensions: figure.dimensions,
+    // Only roles linked to Company/Artist documents; names stay on the UserFigure
+    companies: (figure.companyRoles || [])
+      .filter((role: Record<string, any>) => role.companyId && role.roleId)
+      .map((role: Record<string, any>) => ({ companyId: role.companyId, roleId: role.roleId })),
+    artists: (figure.artistRoles || [])
+      .filter((role: Record<string, any>) => role.artistId && role.roleId)
+      .map((role: Record<string, any>) => ({ artistId: role.artistId, roleId: role.roleId }))
+  });
+};
+
+/** A catalog item's values under the Figure field names. */
+export const catalogFieldsFromItem = (item: Record<string, any>): Record<CatalogField, unknown> =>
+  Object.fromEntries(
+    Object.entries(CATALOG_FIELDS).map(([field, itemField]) => [field, item[itemField]])
+  ) as Record<CatalogField, unknown>;
+
+/**
+ * The UserFigure document for a figure (a plain object). Catalog fields
+ * matching the item are left out; a field the item has but the figure
+ * doesn't is stored as null, so it stays unset.
+ */
+export const userFigureFromFigure = (
+  figure: Record<string, any>,
+  item: Record<string, any> | null
+): Record<string, any> => {
+  const { _id, __v, mfcId, ...fields } = figure;
+  const userFigure: Record<string, any> = { ...fields, figureId: _id, mfcItemId: item?._id ?? null };
+  if (!item) return userFigure;
+
+  const catalog = catalogFieldsFromItem(item);
+  for (const field of Object.keys(CATALOG_FIELDS) as CatalogField[]) {
+    if (sameValue(catalog[field], fields[field])) {
+      delete userFigure[field];
+    } else {
+      userFigure[field] = fields[field] ?? null;
+    }
+  }
+  return userFigure;
+};
+
+/**
+ * Write figures (plain objects) to MFCItem/UserFigure. Existing catalog
+ * items are only created here, never changed: they are shared between
+ * users and refreshed by MFC sync. Failures are logged, not thrown, so a
+ * Figure write never fails because of its mirror.
+ */
+export const mirrorFigures = async (figures: Record<string, any>[]): Promise<number> => {
+  let mirrored = 0;
+  for (const figure of figures) {
+    try {
+      const catalog = catalogItemFromFigure(figure);
+      const item = catalog
+        ? await MFCItem.findOneAndUpdate(
+          { mfcId: catalog.mfcId },
+          { $setOnInsert: catalog },
+          { upsert: true, new: true }
+        ).lean()
+        : null;
+
+      // Replaced as a whole so overrides the figure no longer needs are removed;
+      // the timestamps are the figure's, so sorting by createdAt works alike
+      await UserFigure.replaceOne(
+        { figureId: figure._id },
+        userFigureFromFigure(figure, item),
+        { upsert: true, timestamps: false }
+      );
+      mirrored++;
+    } catch (error: any) {
+      logger.error(`Mirror Figure ${figure._id} Error:`, error.message);
+    }
+  }
+  return mirrored;
+};
+
+/**
+ * Bring the mirrors of the given figures up to date: figures that still
+ * exist are mirrored again, those that don't lose their UserFigure.
+ */
+export const syncFigureMirrors = async (
+  figureModel: mongoose.Model<any>,
+  figureIds: mongoose.Types.ObjectId[]
+): Promise<void> => {
+  if (figureIds.length === 0) return;
+  try {
+    const figures = await figureModel.find({ _id: { $in: figureIds } }).lean();
+    await mirrorFigures(figures);
+
+    const remaining = new Set(figures.map((figure: any) => figure._id.toString()));
+    const removed = figureIds.filter(id => !remaining.has(id.toString()));
+    if (removed.length > 0) {
+      await UserFigure.deleteMany({ figureId: { $in: removed } });
+    }
+  } catch (error: any) {
+    logger.error('Sync Figure Mirrors Error:', error.message);
+  }
+};
+
+/**
+ * Mirror every figure and remove UserFigures whose Figure no longer exists.
+ * UserFigure's indexes are synced with the schema first: databases created
+ * before the mirror have a unique { userId, mfcItemId } index, which would
+ * reject a user's second figure of the same item. Safe to run more than
+ * once (see scripts/migrate-split-models.ts).
+ */
+export const backfillSplitModels = async (
+  batchSize = 500
+): Promise<{ figures: number; mirrored: number; removed: number; droppedIndexes: string[] }> => {
+  const droppedIndexes = await UserFigure.syncIndexes();
+  const figureModel = mongoose.model('Figure');
+  let figures = 0;
+  let mirrored = 0;
+  let batch: Record<string, any>[] = [];
+  for await (const figure of figureModel.find().lean().cursor()) {
+    batch.push(figure);
+    if (batch.length === batchSize) {
+      figures += batch.length;
+      mirrored += await mirrorFigures(batch);
+      batch = [];
+    }
+  }
+  figures += batch.length;
+  mirrored += await mirrorFigures(batch);
+
+  let removed = 0;
+  let figureIds: mongoose.Types.ObjectId[] = [];
+  const removeOrphans = async () => {
+    const existing = new Set(
+      (await figureModel.find({ _id: { $in: figureIds } }).distinct('_id')).map(String)
+    );
+    const orphans = figureIds.filter(id => !existing.has(String(id)));
+    if (orphans.length > 0) {
+      removed += (await UserFigure.deleteMany({ figureId: { $in: orphans } })).deletedCount;
+    }
+    figureIds = [];
+  };
+  for await (const userFigure of UserFigure.find({ figureId: { $exists: true } }).select('figureId').lean().cursor()) {
+    figureIds.push(userFigure.figureId!);
+    if (figureIds.length === batchSize) await removeOrphans();
+  }
+  await removeOrphans();
+
+  return { figures, mirrored, removed, droppedIndexes };
+};
+
+// MFCItem fields and the Figure field each is refreshed from
+const SCRAPED_SOURCE_FIELDS: Record<string, string> = {
+  mfcUrl: 'mfcLink',
+  name: 'name',
+  scale: 'scale',
+  imageUrls: 'imageUrls',
+  releases: 'releases',
+  dimensions: 'dimensions',
+  companies: 'companyRoles',
+  artists: 'artistRoles'
+};
+
+/**
+ * Update the shared catalog item from freshly scraped MFC data
+ * (Figure field names). Unlike mirroring, this overwrites the item.
+ */
+export const refreshCatalogItem = async (figureData: Record<string, any>): Promise<IMFCItem | null> => {
+  const catalog = catalogItemFromFigure(figureData);
+  if (!catalog || !isDualWriteEnabled()) return null;
+  try {
+    // Only what was scraped: a missing field doesn't clear the item's
+    const provided = Object.entries(SCRAPED_SOURCE_FIELDS)
+      .filter(([, figureField]) => figureData[figureField] !== undefined)
+      .map(([itemField]) => itemField);
+    const fields = Object.fromEntries(provided.map(itemField => [itemField, (catalog as any)[itemField]]));
+    // A new item still needs its required fields
+    const required = Object.fromEntries(
+      (['mfcUrl', 'name'] as const).filter(field => !provided.includes(field)).map(field => [field, catalog[field]])
+    );
+    return await MFCItem.findOneAndUpdate(
+      { mfcId: catalog.mfcId },
+      { $set: { ...fields, lastScrapedAt: new Date() }, $setOnInsert: required },
+      { upsert: true, new: true }
+    );
+  } catch (error: any) {
+    logger.error(`Refresh MFC Item ${catalog.mfcId} Error:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * Aggregation stages turning UserFigure documents into Figure-shaped ones:
+ * catalog fields come from the MFCItem unless the UserFigure overrides them.
+ */
+export const figureViewStages = (): mongoose.PipelineStage[] => [
+  {
+    $lookup: {
+      from: MFCItem.collection.name,
+      localField: 'mfcItemId',
+      foreignField: '_id',
+      as: 'mfcItem'
+    }
+  },
+  {
+    $replaceWith: {
+      $mergeObjects: [
+        {
+          $let: {
+            vars: { item: { $arrayElemAt: ['$mfcItem', 0] } },
+            in: {
+              mfcId: '$$item.mfcId',
+              ...Object.fromEntries(
+                Object.entries(CATALOG_FIELDS).map(([field, itemField]) => [field, `$$item.${itemField}`])
+              )
+            }
+          }
+        },
+        '$$ROOT',
+        { _id: '$figureId' }
+      ]
+    }
+  },
+  { $unset: SPLIT_ONLY_FIELDS }
+];
+
+// Figure filters use Figure types (string IDs, dates); aggregation doesn't cast them
+const castFigureFilter = (filter: Record<string, any>): Record<string, any> =>
+  mongoose.model('Figure').find(filter).cast();
+
+type SplitPageOptions = { sort?: Record<string, 1 | -1>; skip?: number; limit?: number };
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+
+// Figure fields whose value may come from the MFCItem, so only the joined view has it
+const VIEW_FIELDS = new Set(['mfcId', ...Object.keys(CATALOG_FIELDS)]);
+
+// Whether a filter clause (or sort key) only reads fields the UserFigure holds itself
+const readsUserFigureOnly = (key: string, value: unknown): boolean => {
+  if (LOGICAL_OPERATORS.includes(key)) {
+    return (value as Record<string, any>[]).every(clause =>
+      Object.entries(clause).every(([clauseKey, clauseValue]) => readsUserFigureOnly(clauseKey, clauseValue)));
+  }
+  return !key.startsWith('$') && !VIEW_FIELDS.has(key.split('.')[0]);
+};
+
+// A filter or sort under UserFigure names: the figure's _id is figureId there
+const onUserFigure = <T>(fields: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => (LOGICAL_OPERATORS.includes(key)
+    ? [key, (value as unknown as Record<string, any>[]).map(onUserFigure) as unknown as T]
+    : [key === '_id' ? 'figureId' : key, value])));
+
+/**
+ * A cast Figure filter split into the clauses the UserFigure can answer
+ * before the catalog join and those needing the joined view. Top-level
+ * $and clauses (e.g. a pagination cursor) are split one by one.
+ */
+const splitFigureFilter = (cast: Record<string, any>) => {
+  const own: Record<string, any> = {};
+  const joined: Record<string, any> = {};
+  for (const [key, value] of Object.entries(cast)) {
+    if (key === '$and') {
+      const ownClauses = value.filter((clause: Record<string, any>) => readsUserFigureOnly(key, [clause]));
+      const joinedClauses = value.filter((clause: Record<string, any>) => !ownClauses.includes(clause));
+      if (ownClauses.length > 0) own.$and = ownClauses;
+      if (joinedClauses.length > 0) joined.$and = joinedClauses;
+    } else {
+      (readsUserFigureOnly(key, value) ? own : joined)[key] = value;
+    }
+  }
+  return { own, joined };
+};
+
+const ownMatchStages = (own: Record<string, any>): mongoose.PipelineStage[] => [
+  { $match: onUserFigure(own) },
+  { $match: { figureId: { $exists: true } } }
+];
+
+const pageStages = (options: SplitPageOptions): mongoose.PipelineStage[] => [
+  ...(options.sort ? [{ $sort: options.sort }] : []),
+  ...(options.skip ? [{ $skip: options.skip }] : []),
+  ...(options.limit ? [{ $limit: options.limit }] : [])
+];
+
+/**
+ * Stages reading the page of figures matching a Figure filter. Clauses on
+ * the UserFigure's own fields run before the catalog join; so do the sort
+ * and paging when no clause or sort key needs the join, and only the page
+ * is joined.
+ */
+const userFigurePipeline = (filter: Record<string, any>, options: SplitPageOptions = {}): mongoose.PipelineStage[] => {
+  const { own, joined } = splitFigureFilter(castFigureFilter(filter));
+  const joinFirst = Object.keys(joined).length > 0 ||
+    Object.keys(options.sort || {}).some(key => !readsUserFigureOnly(key, undefined));
+  return joinFirst
+    ? [...ownMatchStages(own), ...figureViewStages(), { $match: joined }, ...pageStages(options)]
+    : [
+      ...ownMatchStages(own),
+      ...pageStages({ ...options, sort: options.sort && onUserFigure(options.sort) }),
+      ...figureViewStages()
+    ];
+};
+
+/** Number of figures matching a Figure filter, read from MFCItem/UserFigure. */
+export const countSplitFigures = async (filter: Record<string, any>): Promise<number> => {
+  const { own, joined } = splitFigureFilter(castFigureFilter(filter));
+  // Without clauses on catalog fields, counting needs no join
+  const stages = Object.keys(joined).length > 0 ? userFigurePipeline(filter) : ownMatchStages(own);
+  const [result] = await UserFigure.aggregate([...stages, { $count: 'total' }]);
+  return result?.total ?? 0;
+};
+
+/** Figures (plain objects) matching a Figure filter, read from MFCItem/UserFigure. */
+export const findSplitFigures = async (
+  filter: Record<string, any>,
+  options: SplitPageOptions = {}
+): Promise<Record<string, any>[]> => UserFigure.aggregate(userFigurePipeline(filter, options));
+
+/** The first figure matching a Figure filter, read from MFCItem/UserFigure. */
+export const findSplitFigure = async (filter: Record<string, any>): Promise<Record<string, any> | null> => {
+  const [figure] = await findSplitFigures(filter, { limit: 1 });
+  return figure ?? null;
+};
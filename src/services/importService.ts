@@ -0,0 +1,383 @@
+/**
+ * Import Service
+ *
+ * Generic CSV import for collections tracked in spreadsheets before adopting
+ * this backend. Unlike /sync/from-csv (MFC export format, needs the scraper),
+ * any CSV works: the caller maps its columns onto figure fields and gets a
+ * dry-run report before anything is written.
+ */
+
+import mongoose from 'mongoose';
+import Figure from '../models/Figure';
+import { schemas } from '../middleware/validationMiddleware';
+import { activeFigureFilter } from './figureQueryService';
+
+// Hard cap so a single request can't pin the event loop
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Figure fields a CSV column can be mapped to.
+ * These are the flat fields accepted by POST /figures (schemas.figureCreate).
+ */
+export const IMPORTABLE_FIELDS = [
+  'name', 'manufacturer', 'scale', 'mfcLink', 'mfcId', 'jan',
+  'mfcTitle', 'origin', 'version', 'category', 'classification', 'materials', 'tags',
+  'location', 'storageDetail', 'boxNumber', 'imageUrl',
+  'releaseDate', 'releasePrice', 'releaseCurrency',
+  'heightMm', 'widthMm', 'depthMm',
+  'collectionStatus', 'rating', 'wishRating', 'quantity', 'note',
+  'purchaseDate', 'purchasePrice', 'purchaseCurrency',
+  'merchantName', 'merchantUrl',
+  'figureCondition', 'figureConditionNotes', 'boxCondition', 'boxConditionNotes',
+  'type', 'description'
+] as const;
+
+export type ImportableField = typeof IMPORTABLE_FIELDS[number];
+
+/** CSV header → figure field ('' or missing = ignore column) */
+export type ImportMapping = Record<string, ImportableField | ''>;
+
+export type DuplicateReason = 'mfcId' | 'jan' | 'nameManufacturer';
+
+export interface ImportRowResult {
+  row: number;  // 1-based data row number (header excluded)
+  data: Record<string, any>;
+}
+
+export interface ImportInvalidRow {
+  row: number;
+  errors: string[];
+}
+
+export interface ImportDuplicateRow extends ImportRowResult {
+  matchedBy: DuplicateReason;
+  existingFigureId?: string;  // Set when the match is already in the collection
+  duplicateOfRow?: number;    // Set when the match is an earlier row of the same file
+}
+
+export interface ImportReport {
+  totalRows: number;
+  toCreate: ImportRowResult[];
+  invalid: ImportInvalidRow[];
+  duplicates: ImportDuplicateRow[];
+}
+
+// Common spreadsheet header spellings that don't normalize to a field name
+const HEADER_ALIASES: Record<string, ImportableField> = {
+  title: 'name',
+  figure: 'name',
+  figurename: 'name',
+  maker: 'manufacturer',
+  brand: 'manufacturer',
+  series: 'origin',
+  franchise: 'origin',
+  barcode: 'jan',
+  ean: 'jan',
+  upc: 'jan',
+  mfc: 'mfcLink',
+  mfcurl: 'mfcLink',
+  url: 'mfcLink',
+  status: 'collectionStatus',
+  qty: 'quantity',
+  notes: 'note',
+  comment: 'note',
+  comments: 'note',
+  price: 'purchasePrice',
+  paid: 'purchasePrice',
+  currency: 'purchaseCurrency',
+  bought: 'purchaseDate',
+  shop: 'merchantName',
+  store: 'merchantName',
+  merchant: 'merchantName',
+  box: 'boxNumber',
+  releasedate: 'releaseDate',
+  release: 'releaseDate',
+  height: 'heightMm',
+  condition: 'figureCondition'
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse CSV content (RFC 4180: quoted fields, escaped quotes, embedded
+ * newlines, CRLF or LF line endings, optional UTF-8 BOM).
+ * Blank lines are skipped.
+ */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Suggest a mapping by matching headers against field names and aliases.
+ */
+export const suggestMapping = (headers: string[]): ImportMapping => {
+  const byNormalizedField = new Map<string, ImportableField>(
+    IMPORTABLE_FIELDS.map(field => [normalizeHeader(field), field])
+  );
+  const mapping: ImportMapping = {};
+  const used = new Set<ImportableField>();
+
+  for (const header of headers) {
+    const key = normalizeHeader(header);
+    const field = byNormalizedField.get(key) || HEADER_ALIASES[key];
+    if (field && !used.has(field)) {
+      mapping[header] = field;
+      used.add(field);
+    } else {
+      mapping[header] = '';
+    }
+  }
+  return mapping;
+};
+
+// Undo the CSV-injection apostrophe added by our own export
+const unescapeCell = (value: string) => value.replace(/^'(?=[=+\-@])/, '').trim();
+
+/**
+ * Apply a column mapping to a parsed data row.
+ */
+export const applyMapping = (headers: string[], cells: string[], mapping: ImportMapping): Record<string, any> => {
+  const data: Record<string, any> = {};
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    const raw = cells[index];
+    if (!field || raw === undefined) return;
+    const value = unescapeCell(raw);
+    if (value === '') return;
+
+    if (field === 'tags') {
+      data.tags = value.split(/[|;,]/).map(tag => tag.trim()).filter(Boolean);
+    } else if (field === 'collectionStatus' || field === 'figureCondition' || field === 'boxCondition') {
+      data[field] = value.toLowerCase().replace(/\s+/g, '');
+    } else {
+      data[field] = value;
+    }
+  });
+  return data;
+};
+
+/**
+ * Build the Figure document for a validated import row.
+ * Mirrors the flat-field handling of createFigure, without MFC scraping.
+ */
+export const buildFigureFromRow = (data: Record<string, any>, userId: string) => {
+  const releases = (data.releaseDate || data.releasePrice !== undefined || data.releaseCurrency) ? [{
+    date: data.releaseDate ? new Date(data.releaseDate) : undefined,
+    price: data.releasePrice,
+    currency: data.releaseCurrency || 'JPY',
+    isRerelease: false,
+    jan: data.jan
+  }] : undefined;
+
+  const dimensions = (data.heightMm || data.widthMm || data.depthMm) ? {
+    heightMm: data.heightMm,
+    widthMm: data.widthMm,
+    depthMm: data.depthMm
+  } : undefined;
+
+  const purchaseInfo = (data.purchaseDate || data.purchasePrice !== undefined || data.purchaseCurrency) ? {
+    date: data.purchaseDate ? new Date(data.purchaseDate) : undefined,
+    price: data.purchasePrice,
+    currency: data.purchaseCurrency || 'USD'
+  } : undefined;
+
+  const merchant = (data.merchantName || data.merchantUrl) ? {
+    name: data.merchantName,
+    url: data.merchantUrl
+  } : undefined;
+
+  return {
+    manufacturer: data.manufacturer,
+    name: data.name,
+    scale: data.scale,
+    mfcLink: data.mfcLink,
+    mfcId: data.mfcId,
+    jan: data.jan,
+    mfcTitle: data.mfcTitle,
+    origin: data.origin,
+    version: data.version,
+    category: data.category,
+    classification: data.classification,
+    materials: data.materials,
+    tags: data.tags,
+    location: data.location,
+    storageDetail: data.storageDetail,
+    boxNumber: data.boxNumber,
+    imageUrl: data.imageUrl,
+    releases,
+    dimensions,
+    userId,
+    collectionStatus: data.collectionStatus || 'owned',
+    quantity: data.quantity || 1,
+    rating: data.rating,
+    wishRating: data.wishRating,
+    note: data.note,
+    purchaseInfo,
+    merchant,
+    figureCondition: data.figureCondition || undefined,
+    figureConditionNotes: data.figureConditionNotes,
+    boxCondition: data.boxCondition || undefined,
+    boxConditionNotes: data.boxConditionNotes,
+    type: data.type || 'action figure',
+    description: data.description
+  };
+};
+
+// Extract the numeric MFC id from an mfcId cell or an MFC URL/id in mfcLink
+const resolveMfcId = (data: Record<string, any>): number | undefined => {
+  if (data.mfcId) return Number(data.mfcId);
+  if (!data.mfcLink) return undefined;
+  const link = String(data.mfcLink).trim();
+  if (/^\d+$/.test(link)) return parseInt(link, 10);
+  const match = link.match(/myfigurecollection\.net\/item\/(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// Where an identifier was first seen: an existing figure or an earlier CSV row
+interface MatchRef {
+  figureId?: string;
+  row?: number;
+}
+
+const nameManufacturerKey = (name?: string, manufacturer?: string) =>
+  name && manufacturer ? `${name.trim().toLowerCase()}\u0000${manufacturer.trim().toLowerCase()}` : undefined;
+
+/**
+ * Validate and de-duplicate every row without writing anything.
+ * Duplicates are detected against the user's existing figures and against
+ * earlier rows of the same file, by mfcId, JAN, then name+manufacturer.
+ */
+export const analyzeImport = async (
+  csvContent: string,
+  mapping: ImportMapping,
+  userId: string
+): Promise<ImportReport> => {
+  const [headers = [], ...dataRows] = parseCsv(csvContent);
+  const report: ImportReport = {
+    totalRows: dataRows.length,
+    toCreate: [],
+    invalid: [],
+    duplicates: []
+  };
+
+  // Index the existing collection once
+  const existing = await Figure.find(activeFigureFilter(new mongoose.Types.ObjectId(userId)))
+    .select('_id mfcId jan releases.jan name manufacturer')
+    .lean();
+
+  const seenMfcIds = new Map<number, MatchRef>();
+  const seenJans = new Map<string, MatchRef>();
+  const seenNames = new Map<string, MatchRef>();
+
+  for (const figure of existing) {
+    const ref = { figureId: figure._id.toString() };
+    if (figure.mfcId) seenMfcIds.set(figure.mfcId, ref);
+    if (figure.jan) seenJans.set(figure.jan, ref);
+    for (const release of figure.releases || []) {
+      if (release.jan) seenJans.set(release.jan, ref);
+    }
+    const key = nameManufacturerKey(figure.name, figure.manufacturer);
+    if (key) seenNames.set(key, ref);
+  }
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 1;
+    const mapped = applyMapping(headers, cells, mapping);
+
+    const { error, value } = schemas.figureCreate.validate(mapped, { abortEarly: false, convert: true });
+    const errors = error ? error.details.map(detail => detail.message) : [];
+    // Imports never scrape MFC, so name and manufacturer are always required
+    if (!error && (!value.name || !value.manufacturer)) {
+      errors.push('Name and manufacturer are required for import');
+    }
+    if (errors.length > 0) {
+      report.invalid.push({ row, errors });
+      return;
+    }
+
+    const mfcId = resolveMfcId(value);
+    if (mfcId) value.mfcId = mfcId;
+    const nameKey = nameManufacturerKey(value.name, value.manufacturer);
+
+    let matchedBy: DuplicateReason | undefined;
+    let matchRef: MatchRef | undefined;
+    if (mfcId && seenMfcIds.has(mfcId)) {
+      matchedBy = 'mfcId';
+      matchRef = seenMfcIds.get(mfcId);
+    } else if (value.jan && seenJans.has(value.jan)) {
+      matchedBy = 'jan';
+      matchRef = seenJans.get(value.jan);
+    } else if (nameKey && seenNames.has(nameKey)) {
+      matchedBy = 'nameManufacturer';
+      matchRef = seenNames.get(nameKey);
+    }
+
+    if (matchedBy && matchRef) {
+      report.duplicates.push({
+        row,
+        data: value,
+        matchedBy,
+        existingFigureId: matchRef.figureId,
+        duplicateOfRow: matchRef.row
+      });
+      return;
+    }
+
+    const ref = { row };
+    if (mfcId) seenMfcIds.set(mfcId, ref);
+    if (value.jan) seenJans.set(value.jan, ref);
+    if (nameKey) seenNames.set(nameKey, ref);
+    report.toCreate.push({ row, data: value });
+  });
+
+  return report;
+};
@@ -0,0 +1,221 @@
+import mongoose from 'mongoose';
+import { IFigure, IPhoto } from '../models/Figure';
+import { figurePurchases, retailRelease, unitsPerPurchase, ValuationFigure } from './valuationService';
+
+/**
+ * Inventory report for insurers: one entry per figure with its picture,
+ * identification, purchase, condition and location, and the value of the
+ * whole list in one currency. The report is a single HTML page (images
+ * embedded) that prints cleanly to PDF.
+ */
+
+/** Fields of a figure the report reads (a lean Figure document). */
+export type InventoryFigure = ValuationFigure & Pick<IFigure,
+  'name' | 'scale' | 'jan' | 'imageUrl' | 'location' | 'storageDetail' |
+  'figureCondition' | 'boxCondition'
+> & {
+  _id: mongoose.Types.ObjectId;
+  photos?: Pick<IPhoto, 'storageKey' | 'contentType' | 'isPrimary' | 'order'>[];
+};
+
+export interface InventoryEntry {
+  name: string;
+  manufacturer: string | null;
+  scale: string | null;
+  jan: string | null;
+  quantity: number;
+  purchases: { price: number; currency: string; date: Date | null }[];
+  condition: string | null;
+  location: string | null;
+  purchaseValue: number;       // In the report currency
+  retailValue: number;         // In the report currency, every copy
+}
+
+export interface InventoryTotals {
+  count: number;
+  copies: number;
+  purchaseValue: number;
+  retailValue: number;
+}
+
+// Converts a price into the report currency (null when no rate is known)
+export type ReportConverter = (price: number, from: string | undefined, fallback: string, date?: Date) => number | null;
+
+const FIGURE_CONDITIONS: Record<string, string> = {
+  sealed: 'Sealed', likenew: 'Like new', verygood: 'Very good', good: 'Good', fair: 'Fair', poor: 'Poor'
+};
+const BOX_CONDITIONS: Record<string, string> = {
+  mint: 'Mint', verygood: 'Very good', good: 'Good', fair: 'Fair', poor: 'Poor'
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatMoney = (amount: number, currency: string) =>
+  `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const formatDate = (date: Date | null) => (date ? new Date(date).toISOString().slice(0, 10) : '');
+
+/** The photo shown for a figure: the primary one, else the first in order. */
+export const primaryPhoto = (figure: Pick<InventoryFigure, 'photos'>) => {
+  const photos = [...(figure.photos || [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  return photos.find(photo => photo.isPrimary) || photos[0] || null;
+};
+
+/**
+ * One report entry. Purchase and retail value both count every copy, as in
+ * valueCollection: the retail value is the original release price times the
+ * number of copies.
+ */
+export const buildInventoryEntry = (figure: InventoryFigure, convert: ReportConverter): InventoryEntry => {
+  const quantity = figure.copies?.length || figure.quantity || 1;
+  const units = unitsPerPurchase(figure);
+  const purchases = figurePurchases(figure).map(({ purchaseInfo }) => ({
+    price: purchaseInfo.price!,
+    currency: (purchaseInfo.currency || 'USD').toUpperCase(),
+    date: purchaseInfo.date ? new Date(purchaseInfo.date) : null
+  }));
+  const release = retailRelease(figure);
+  const conditions = [
+    figure.figureCondition && `Figure: ${FIGURE_CONDITIONS[figure.figureCondition] || figure.figureCondition}`,
+    figure.boxCondition && `Box: ${BOX_CONDITIONS[figure.boxCondition] || figure.boxCondition}`
+  ].filter(Boolean);
+  const locations = figure.copies?.length
+    ? Array.from(new Set(figure.copies.map(copy => copy.location).filter(Boolean)))
+    : [[figure.location, figure.storageDetail].filter(Boolean).join(' / ')].filter(Boolean);
+
+  return {
+    name: figure.name,
+    manufacturer: figure.manufacturer || figure.companyRoles?.find(role => role.roleName === 'Manufacturer')?.companyName || null,
+    scale: figure.scale || null,
+    jan: figure.jan || figure.releases?.find(r => r.jan)?.jan || null,
+    quantity,
+    purchases,
+    condition: conditions.join(', ') || null,
+    location: locations.join(', ') || null,
+    purchaseValue: round(purchases.reduce(
+      (sum, p) => sum + (convert(p.price, p.currency, 'USD', p.date || undefined) ?? 0) * units,
+      0
+    )),
+    retailValue: release
+      ? round((convert(release.price!, release.currency, 'JPY', release.date) ?? 0) * quantity)
+      : 0
+  };
+};
+
+/** Adds an entry to running totals. */
+export const addToTotals = (totals: InventoryTotals, entry: InventoryEntry): InventoryTotals => ({
+  count: totals.count + 1,
+  copies: totals.copies + entry.quantity,
+  purchaseValue: round(totals.purchaseValue + entry.purchaseValue),
+  retailValue: round(totals.retailValue + entry.retailValue)
+});
+
+/** Opening of the report page, up to the table header. */
+export const renderInventoryHeader = (options: {
+  title: string;
+  owner?: string;
+  currency: string;
+  generatedAt: Date;
+  filters: Record<string, string>;
+}): string => {
+  const filters = Object.entries(options.filters)
+    .map(([key, value]) => `${escapeHtml(key)}: ${escapeHtml(value)}`)
+    .join('; ');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(options.title)}</title>`,
+    '<style>',
+    '@page { size: A4; margin: 12mm; }',
+    'body { margin: 0; font-family: Helvetica, Arial, sans-serif; font-size: 9pt; color: #111; }',
+    'h1 { font-size: 16pt; margin: 0 0 2mm; }',
+    '.meta { color: #444; margin-bottom: 4mm; }',
+    'table { width: 100%; border-collapse: collapse; }',
+    'thead { display: table-header-group; }',
+    'tr { break-inside: avoid; }',
+    'th, td { border-bottom: 0.2mm solid #ccc; padding: 1.5mm; text-align: left; vertical-align: top; }',
+    'th { background: #f2f2f2; }',
+    'td.num, th.num { text-align: right; white-space: nowrap; }',
+    'td.image { width: 22mm; }',
+    'td.image img { max-width: 22mm; max-height: 28mm; }',
+    'tfoot td { font-weight: bold; border-top: 0.4mm solid #111; }',
+    '@media screen { body { margin: 12mm; } }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(options.title)}</h1>`,
+    '<div class="meta">',
+    options.owner ? `Owner: ${escapeHtml(options.owner)}<br>` : '',
+    `Generated: ${escapeHtml(options.generatedAt.toISOString().replace('T', ' ').slice(0, 16))} UTC<br>`,
+    `Values in ${escapeHtml(options.currency)}`,
+    filters ? `<br>Filters: ${filters}` : '',
+    '</div>',
+    '<table>',
+    '<thead><tr>',
+    '<th>#</th><th>Image</th><th>Figure</th><th>JAN</th><th>Purchase</th><th>Condition</th><th>Location</th>',
+    '<th class="num">Qty</th><th class="num">Purchase value</th><th class="num">Retail value</th>',
+    '</tr></thead>',
+    '<tbody>'
+  ].filter(Boolean).join('\n') + '\n';
+};
+
+/** One table row. `imageSrc` is a URL or a data: URI. */
+export const renderInventoryRow = (index: number, entry: InventoryEntry, currency: string, imageSrc?: string | null): string => {
+  const figure = [
+    `<strong>${escapeHtml(entry.name)}</strong>`,
+    entry.manufacturer && escapeHtml(entry.manufacturer),
+    entry.scale && `Scale ${escapeHtml(entry.scale)}`
+  ].filter(Boolean).join('<br>');
+  const purchases = entry.purchases
+    .map(p => `${escapeHtml(formatMoney(p.price, p.currency))}${p.date ? `<br>${formatDate(p.date)}` : ''}`)
+    .join('<br>');
+
+  return [
+    '<tr>',
+    `<td class="num">${index}</td>`,
+    `<td class="image">${imageSrc ? `<img src="${escapeHtml(imageSrc)}" alt="">` : ''}</td>`,
+    `<td>${figure}</td>`,
+    `<td>${escapeHtml(entry.jan || '')}</td>`,
+    `<td>${purchases}</td>`,
+    `<td>${escapeHtml(entry.condition || '')}</td>`,
+    `<td>${escapeHtml(entry.location || '')}</td>`,
+    `<td class="num">${entry.quantity}</td>`,
+    `<td class="num">${escapeHtml(formatMoney(entry.purchaseValue, currency))}</td>`,
+    `<td class="num">${escapeHtml(formatMoney(entry.retailValue, currency))}</td>`,
+    '</tr>'
+  ].join('') + '\n';
+};
+
+/**
+ * Totals row and the end of the page. Prices in currencies without an
+ * exchange rate are listed as left out of the totals.
+ */
+export const renderInventoryFooter = (
+  totals: InventoryTotals,
+  currency: string,
+  unconverted: { currency: string; count: number }[]
+): string => [
+  '</tbody>',
+  '<tfoot><tr>',
+  `<td colspan="7">Total: ${totals.count} ${totals.count === 1 ? 'figure' : 'figures'}</td>`,
+  `<td class="num">${totals.copies}</td>`,
+  `<td class="num">${escapeHtml(formatMoney(totals.purchaseValue, currency))}</td>`,
+  `<td class="num">${escapeHtml(formatMoney(totals.retailValue, currency))}</td>`,
+  '</tr></tfoot>',
+  '</table>',
+  unconverted.length > 0
+    ? `<p class="meta">Not included in the totals (no exchange rate): ${unconverted
+      .map(u => `${u.count} ${u.count === 1 ? 'price' : 'prices'} in ${escapeHtml(u.currency)}`).join(', ')}</p>`
+    : '',
+  '</body>',
+  '</html>'
+].filter(Boolean).join('\n') + '\n';
@@ -0,0 +1,177 @@
+import mongoose from 'mongoose';
+import Figure from '../models/Figure';
+import MFCItem from '../models/MFCItem';
+import { activeFigureFilter } from './figureQueryService';
+
+/**
+ * JAN (Japanese EAN) barcode lookup: checksum validation, matches in the
+ * user's collection, and catalog (MFCItem) matches a figure can be created from.
+ */
+
+type Id = mongoose.Types.ObjectId | string;
+
+/** A figure in the user's collection with the scanned barcode. */
+export interface OwnedJanMatch {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer: string;
+  scale?: string;
+  imageUrl?: string;
+  collectionStatus?: string;
+  matchedOn: 'jan' | 'release';
+}
+
+/** A catalog item with a release carrying the scanned barcode. */
+export interface JanCandidate {
+  mfcId: number;
+  mfcUrl: string;
+  name: string;
+  manufacturer?: string;
+  scale?: string;
+  imageUrl?: string;
+  release: {
+    date?: Date;
+    price?: number;
+    currency?: string;
+    isRerelease: boolean;
+    jan?: string;
+  };
+}
+
+// Scanners and people type barcodes with spaces and dashes
+export const normalizeJan = (value: string): string => value.replace(/[\s-]/g, '');
+
+/**
+ * GTIN check digit validation for EAN-8, UPC-A (12 digits), EAN-13/JAN and
+ * GTIN-14: digits are weighted 3, 1, 3, … from the right, excluding the
+ * check digit, and the total including it must be a multiple of 10.
+ */
+export const isValidJan = (code: string): boolean => {
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) return false;
+  const digits = Array.from(code, Number);
+  const check = digits.pop()!;
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (sum + check) % 10 === 0;
+};
+
+/**
+ * Spellings of the same barcode: a UPC-A code is the EAN-13 code with a
+ * leading 0, and catalogs store either.
+ */
+export const janVariants = (code: string): string[] => {
+  if (code.length === 12) return [code, `0${code}`];
+  if (code.length === 13 && code.startsWith('0')) return [code, code.slice(1)];
+  return [code];
+};
+
+/**
+ * The user's figures (not in the trash) with the barcode on the figure or one of its releases.
+ */
+export const findOwnedJanMatches = async (userId: Id, variants: string[]): Promise<OwnedJanMatch[]> => {
+  const figures = await Figure.find({
+    ...activeFigureFilter(userId),
+    $or: [{ jan: { $in: variants } }, { 'releases.jan': { $in: variants } }]
+  })
+    .select('name manufacturer scale imageUrl collectionStatus jan')
+    .sort({ name: 1 })
+    .lean();
+
+  return figures.map(figure => ({
+    _id: figure._id,
+    name: figure.name,
+    manufacturer: figure.manufacturer,
+    scale: figure.scale,
+    imageUrl: figure.imageUrl,
+    collectionStatus: figure.collectionStatus,
+    matchedOn: variants.includes(figure.jan || '') ? 'jan' : 'release'
+  }));
+};
+
+const catalogQuery = (variants: string[]) => MFCItem.find({ 'releases.jan': { $in: variants } })
+  .populate('companies.companyId', 'name')
+  .populate('companies.roleId', 'name')
+  .populate('artists.artistId', 'name')
+  .populate('artists.roleId', 'name')
+  .sort({ mfcId: 1 })
+  .lean();
+
+type CatalogItem = Awaited<ReturnType<typeof catalogQuery>>[number];
+
+// Populated company/artist roles as stored on a figure
+const catalogRoles = (item: CatalogItem) => ({
+  companyRoles: (item.companies || []).map((role: any) => ({
+    companyId: role.companyId?._id,
+    companyName: role.companyId?.name,
+    roleId: role.roleId?._id,
+    roleName: role.roleId?.name
+  })),
+  artistRoles: (item.artists || []).map((role: any) => ({
+    artistId: role.artistId?._id,
+    artistName: role.artistId?.name,
+    roleId: role.roleId?._id,
+    roleName: role.roleId?.name
+  }))
+});
+
+// The company with the Manufacturer role, or the first company
+const catalogManufacturer = (item: CatalogItem): string | undefined => {
+  const { companyRoles } = catalogRoles(item);
+  const manufacturer = companyRoles.find(role => role.roleName?.toLowerCase() === 'manufacturer');
+  return manufacturer?.companyName || companyRoles[0]?.companyName;
+};
+
+/**
+ * Catalog items with a release carrying the barcode.
+ */
+export const findCatalogJanMatches = async (variants: string[]): Promise<JanCandidate[]> => {
+  const items = await catalogQuery(variants);
+  return items.map(item => {
+    const release = item.releases.find(r => variants.includes(r.jan || ''))!;
+    return {
+      mfcId: item.mfcId,
+      mfcUrl: item.mfcUrl,
+      name: item.name,
+      manufacturer: catalogManufacturer(item),
+      scale: item.scale,
+      imageUrl: item.imageUrls?.[0],
+      release: {
+        date: release.date,
+        price: release.price,
+        currency: release.currency,
+        isRerelease: Boolean(release.isRerelease),
+        jan: release.jan
+      }
+    };
+  });
+};
+
+/**
+ * Figure fields from the catalog item `mfcId` with the barcode, or null
+ * when there is no such item.
+ */
+export const figureDataFromCatalog = async (variants: string[], mfcId: number) => {
+  const [item] = await catalogQuery(variants).where({ mfcId });
+  if (!item) return null;
+
+  const release = item.releases.find(r => variants.includes(r.jan || ''));
+  return {
+    manufacturer: catalogManufacturer(item) || '',
+    name: item.name,
+    scale: item.scale || '',
+    mfcId: item.mfcId,
+    mfcLink: `https://myfigurecollection.net/item/${item.mfcId}`,
+    jan: release?.jan,
+    imageUrl: item.imageUrls?.[0] || '',
+    imageUrls: item.imageUrls,
+    tags: item.tags && item.tags.length > 0 ? item.tags : undefined,
+    ...catalogRoles(item),
+    releases: item.releases.map(r => ({
+      date: r.date,
+      price: r.price,
+      currency: r.currency || 'JPY',
+      isRerelease: Boolean(r.isRerelease),
+      jan: r.jan
+    })),
+    dimensions: item.dimensions
+  };
+};
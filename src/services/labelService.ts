@@ -0,0 +1,143 @@
+import { encodeQrCode, qrCodeSvgPath } from '../utils/qrCode';
+
+/**
+ * Printable labels for storage boxes: the box's name, where it is, what is
+ * in it and a QR code linking to those figures in the app. Each label is an
+ * SVG; a sheet is an HTML page of labels laid out for printing.
+ */
+
+/** Fields of a figure a label lists (a lean Figure document). */
+export interface LabelFigure {
+  name: string;
+  manufacturer?: string;
+  scale?: string;
+}
+
+export interface BoxLabel {
+  title: string;
+  subtitle?: string;
+  figures: LabelFigure[];
+  url: string;   // Deep link encoded in the QR code
+}
+
+// Label size in millimetres (fits two columns on A4 and US Letter)
+export const LABEL_WIDTH_MM = 95;
+export const LABEL_HEIGHT_MM = 60;
+
+const PADDING = 4;
+const QR_SIZE = 30;
+const MAX_FIGURE_LINES = 9;
+
+// Roughly how many characters of each font size fit beside the QR code
+const TITLE_CHARS = 18;
+const SUBTITLE_CHARS = 32;
+const FIGURE_CHARS = 32;
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const truncate = (value: string, maxChars: number) => {
+  const chars = Array.from(value);
+  return chars.length > maxChars ? `${chars.slice(0, maxChars - 1).join('').trimEnd()}…` : value;
+};
+
+/**
+ * Link to the app's figure list filtered to one storage location or box number.
+ */
+export const boxLabelUrl = (appUrl: string, target: { storageNodeId?: string; boxNumber?: string }): string => {
+  const params = new URLSearchParams(
+    target.storageNodeId ? { storageNode: target.storageNodeId } : { boxNumber: target.boxNumber || '' }
+  );
+  return `${appUrl.replace(/\/+$/, '')}/figures?${params}`;
+};
+
+/**
+ * Contents lines: one per figure, with a "+ n more" line when they don't all fit.
+ */
+export const labelFigureLines = (figures: LabelFigure[], maxLines = MAX_FIGURE_LINES): string[] => {
+  const describe = (figure: LabelFigure) =>
+    [figure.name, figure.scale, figure.manufacturer && `(${figure.manufacturer})`].filter(Boolean).join(' ');
+
+  if (figures.length <= maxLines) return figures.map(describe);
+  return [
+    ...figures.slice(0, maxLines - 1).map(describe),
+    `+ ${figures.length - (maxLines - 1)} more`
+  ];
+};
+
+/**
+ * One label as an SVG document; `standalone: false` leaves out the XML
+ * declaration for embedding in HTML.
+ */
+export const renderLabelSvg = (label: BoxLabel, options: { standalone?: boolean } = {}): string => {
+  const { standalone = true } = options;
+  const qr = encodeQrCode(label.url);
+  const qrModules = qr.length + 8;
+  const qrX = LABEL_WIDTH_MM - PADDING - QR_SIZE;
+
+  const text: string[] = [
+    `<text x="${PADDING}" y="${PADDING + 5}" font-size="5" font-weight="bold">${escapeXml(truncate(label.title, TITLE_CHARS))}</text>`
+  ];
+  let y = PADDING + 5;
+  if (label.subtitle) {
+    y += 5;
+    text.push(`<text x="${PADDING}" y="${y}" font-size="3.2" fill="#444">${escapeXml(truncate(label.subtitle, SUBTITLE_CHARS))}</text>`);
+  }
+  y += 2;
+  for (const line of labelFigureLines(label.figures)) {
+    y += 4.2;
+    text.push(`<text x="${PADDING}" y="${y}" font-size="3.2">${escapeXml(truncate(line, FIGURE_CHARS))}</text>`);
+  }
+  if (label.figures.length === 0) {
+    text.push(`<text x="${PADDING}" y="${y + 4.2}" font-size="3.2" fill="#444">Empty</text>`);
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${LABEL_WIDTH_MM}mm" height="${LABEL_HEIGHT_MM}mm" viewBox="0 0 ${LABEL_WIDTH_MM} ${LABEL_HEIGHT_MM}" font-family="Helvetica, Arial, sans-serif">`,
+    `<title>${escapeXml(label.title)}</title>`,
+    `<rect width="${LABEL_WIDTH_MM}" height="${LABEL_HEIGHT_MM}" fill="#fff"/>`,
+    ...text,
+    `<svg x="${qrX}" y="${PADDING}" width="${QR_SIZE}" height="${QR_SIZE}" viewBox="0 0 ${qrModules} ${qrModules}" shape-rendering="crispEdges">`,
+    `<rect width="${qrModules}" height="${qrModules}" fill="#fff"/>`,
+    `<path d="${qrCodeSvgPath(qr)}" fill="#000"/>`,
+    '</svg>',
+    `<text x="${qrX + QR_SIZE / 2}" y="${PADDING + QR_SIZE + 4}" font-size="2.6" fill="#444" text-anchor="middle">${label.figures.length} ${label.figures.length === 1 ? 'figure' : 'figures'}</text>`,
+    '</svg>'
+  ].join('\n');
+
+  return standalone ? `<?xml version="1.0" encoding="UTF-8"?>\n${svg}\n` : svg;
+};
+
+/**
+ * An HTML page of labels laid out to print (and cut) on plain paper.
+ */
+export const renderLabelSheet = (labels: BoxLabel[], options: { title?: string } = {}): string => {
+  const title = escapeXml(options.title || 'Storage labels');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    '<style>',
+    '@page { margin: 10mm; }',
+    'body { margin: 0; font-family: Helvetica, Arial, sans-serif; }',
+    '.sheet { display: flex; flex-wrap: wrap; gap: 4mm; }',
+    `.label { width: ${LABEL_WIDTH_MM}mm; height: ${LABEL_HEIGHT_MM}mm; outline: 0.2mm dashed #999; break-inside: avoid; }`,
+    '.label svg { display: block; }',
+    '@media screen { body { margin: 10mm; } }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<main class="sheet">',
+    ...labels.map(label => `<div class="label">\n${renderLabelSvg(label, { standalone: false })}\n</div>`),
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
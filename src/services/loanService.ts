@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import { ILoan } from '../models/Figure';
+
+/**
+ * Figures lent out to friends or exhibitions: where they are while away,
+ * and which loans are outstanding or overdue across the collection.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Fields of a figure the loan helpers read (a lean Figure document). */
+export interface LoanFigure {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  loans?: Partial<ILoan>[];
+}
+
+export interface OutstandingLoan {
+  figureId: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  loanId?: mongoose.Types.ObjectId;
+  borrower?: string;
+  location?: string;
+  loanedAt?: Date;
+  expectedReturnAt?: Date;
+  note?: string;
+  overdue: boolean;
+  daysOverdue: number;  // Whole days past the expected return date; 0 when not overdue
+}
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/** The loan not returned yet, if any. */
+export const outstandingLoan = <T extends Partial<ILoan>>(loans: T[] | undefined): T | null =>
+  (loans || []).find(loan => !loan.returnedAt) || null;
+
+/** Location text of a figure while on loan, unless the loan names one. */
+export const loanLocation = (borrower: string, location?: string) =>
+  location?.trim() || `On loan: ${borrower}`;
+
+/**
+ * Outstanding loans by expected return date, so overdue ones come first;
+ * loans without one follow by loan date. A loan is overdue from the day
+ * after its expected return date.
+ */
+export const buildOutstandingLoans = (figures: LoanFigure[], now = new Date()): OutstandingLoan[] => {
+  const today = startOfDay(now);
+  const loans: OutstandingLoan[] = [];
+
+  for (const figure of figures) {
+    const loan = outstandingLoan(figure.loans);
+    if (!loan) continue;
+
+    const due = loan.expectedReturnAt ? startOfDay(new Date(loan.expectedReturnAt)) : null;
+    const daysOverdue = due && due < today ? Math.round((today.getTime() - due.getTime()) / DAY_MS) : 0;
+    loans.push({
+      figureId: figure._id,
+      name: figure.name,
+      manufacturer: figure.manufacturer,
+      imageUrl: figure.imageUrl,
+      loanId: loan._id,
+      borrower: loan.borrower,
+      location: loan.location,
+      loanedAt: loan.loanedAt,
+      expectedReturnAt: loan.expectedReturnAt,
+      note: loan.note,
+      overdue: daysOverdue > 0,
+      daysOverdue
+    });
+  }
+
+  const time = (date?: Date) => (date ? new Date(date).getTime() : Infinity);
+  return loans.sort((a, b) =>
+    time(a.expectedReturnAt) - time(b.expectedReturnAt) || time(a.loanedAt) - time(b.loanedAt)
+  );
+};
@@ -0,0 +1,117 @@
+import { IFigure } from '../models/Figure';
+import { seedCopiesFromFigure } from './copyService';
+
+/**
+ * Merging duplicate figures into one. Single-valued fields take one
+ * figure's value (the caller's choice, else the primary's, else the first
+ * secondary that has one); tags, photos, notes, quantities/copies, releases,
+ * roles, image URLs and custom field values are combined.
+ */
+
+// Fields whose value is taken from one of the merged figures
+export const MERGE_CHOICE_FIELDS = [
+  'manufacturer', 'name', 'scale', 'mfcId', 'jan',
+  'mfcTitle', 'origin', 'version', 'category', 'classification', 'materials',
+  'location', 'imageUrl', 'dimensions',
+  'collectionStatus', 'rating', 'wishRating',
+  'purchaseInfo', 'merchant', 'preorder', 'sale',
+  'figureCondition', 'figureConditionNotes', 'boxCondition', 'boxConditionNotes',
+  'type', 'description'
+] as const;
+
+export type MergeChoiceField = typeof MERGE_CHOICE_FIELDS[number];
+
+// Related fields move together: the MFC ID with its link, the storage place as a whole
+const FIELD_GROUPS: Partial<Record<MergeChoiceField, string[]>> = {
+  mfcId: ['mfcId', 'mfcLink'],
+  location: ['location', 'storageDetail', 'boxNumber', 'storageNodeId']
+};
+
+/** A figure as a plain object (`toObject()` of a document, or lean). */
+export type MergeFigure = Record<string, any>;
+
+// '', [], {} and null all mean "not set"
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value) &&
+    typeof (value as any).toHexString !== 'function' && Object.keys(value as object).length === 0);
+
+// Combine arrays, dropping entries equal (as JSON, without _id) to an earlier one
+const unionBy = <T>(arrays: (T[] | undefined)[], key: (item: T) => string = item => JSON.stringify(item)): T[] => {
+  const seen = new Set<string>();
+  const result: T[] = [];
+  for (const item of arrays.flatMap(array => array || [])) {
+    const itemKey = key(item);
+    if (seen.has(itemKey)) continue;
+    seen.add(itemKey);
+    result.push(item);
+  }
+  return result;
+};
+
+const withoutId = (item: Record<string, any>) => {
+  const { _id, ...rest } = item;
+  return JSON.stringify(rest);
+};
+
+/**
+ * Fields to set on the primary figure. `figures` lists the primary first;
+ * `choices` maps a field to the ID of the figure whose value wins.
+ */
+export const buildMergedFields = (
+  figures: MergeFigure[],
+  choices: Partial<Record<MergeChoiceField, string>> = {}
+): Record<string, any> => {
+  const [primary] = figures;
+  const merged: Record<string, any> = {};
+
+  for (const field of MERGE_CHOICE_FIELDS) {
+    const chosenId = choices[field];
+    const source = chosenId
+      ? figures.find(figure => String(figure._id) === chosenId)
+      : [primary, ...figures.slice(1)].find(figure => !isEmpty(figure[field]));
+    if (!source || source === primary) continue;
+    for (const groupField of FIELD_GROUPS[field] || [field]) {
+      merged[groupField] = source[groupField] ?? null;
+    }
+  }
+
+  merged.tags = unionBy(figures.map(figure => figure.tags), tag => String(tag).toLowerCase());
+  merged.imageUrls = unionBy(figures.map(figure => figure.imageUrls), String);
+  merged.releases = unionBy(figures.map(figure => figure.releases), withoutId);
+  merged.companyRoles = unionBy(figures.map(figure => figure.companyRoles), withoutId);
+  merged.artistRoles = unionBy(figures.map(figure => figure.artistRoles), withoutId);
+
+  const notes = unionBy(figures.map(figure => [figure.note].filter(note => note && String(note).trim())), String);
+  merged.note = notes.join('\n\n');
+
+  // Primary photo: the primary figure's, else the first one found
+  const photos = figures.flatMap(figure =>
+    [...(figure.photos || [])].sort((a, b) => a.order - b.order).map(photo => ({ ...photo }))
+  );
+  const primaryPhoto = photos.find(photo => photo.isPrimary) || photos[0];
+  photos.forEach((photo, index) => {
+    photo.order = index;
+    photo.isPrimary = photo === primaryPhoto;
+  });
+  merged.photos = photos;
+
+  // Custom field values: the primary's win, the others fill the gaps
+  const customFields = Object.assign({}, ...[...figures].reverse().map(figure => figure.customFields || {}));
+  merged.customFields = Object.keys(customFields).length > 0 ? customFields : undefined;
+
+  // Copies: once any figure tracks copies, every figure's holdings become copies
+  if (figures.some(figure => figure.copies && figure.copies.length > 0)) {
+    merged.copies = figures.flatMap(figure => (figure.copies && figure.copies.length > 0
+      ? figure.copies
+      : seedCopiesFromFigure(figure as IFigure).map(copy => ({ ...copy, addedAt: new Date() }))));
+    merged.quantity = merged.copies.length;
+  } else {
+    merged.quantity = figures.reduce((sum, figure) => sum + Math.max(figure.quantity || 1, 1), 0);
+  }
+
+  return merged;
+};
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Pluggable storage for user-uploaded figure photos.
+ *
+ * Figures only keep a storage key per photo; the bytes live in a backend
+ * selected by PHOTO_STORAGE_BACKEND. Only 'local' (filesystem) exists today;
+ * an object-store backend just needs to implement PhotoStorage.
+ */
+export interface PhotoStorage {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export class PhotoNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Photo not found in storage: ${key}`);
+    this.name = 'PhotoNotFoundError';
+  }
+}
+
+/**
+ * Stores photos as files under a base directory (PHOTO_STORAGE_DIR,
+ * default ./uploads/photos). Keys map to relative paths.
+ */
+export class LocalPhotoStorage implements PhotoStorage {
+  private readonly baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  // Keys are generated server-side, but never let one escape the base directory
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.baseDir, key);
+    if (!filePath.startsWith(this.baseDir + path.sep)) {
+      throw new Error(`Invalid photo storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  // The content type is kept on the figure's photo entry, so plain files suffice
+  async save(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new PhotoNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    // Already gone is fine: deletion is idempotent
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+}
+
+let photoStorage: PhotoStorage | null = null;
+
+const createPhotoStorage = (): PhotoStorage => {
+  const backend = process.env.PHOTO_STORAGE_BACKEND || 'local';
+  switch (backend) {
+    case 'local':
+      return new LocalPhotoStorage(process.env.PHOTO_STORAGE_DIR || path.join('uploads', 'photos'));
+    default:
+      throw new Error(`Unknown PHOTO_STORAGE_BACKEND: ${backend}`);
+  }
+};
+
+export const getPhotoStorage = (): PhotoStorage => {
+  if (!photoStorage) {
+    photoStorage = createPhotoStorage();
+  }
+  return photoStorage;
+};
+
+// Swap the backend (tests, or wiring a custom implementation at startup)
+export const setPhotoStorage = (storage: PhotoStorage | null): void => {
+  photoStorage = storage;
+};
+
+/**
+ * Detect the image type from the file's magic bytes rather than trusting
+ * the client-supplied MIME type. Returns null for unsupported files.
+ */
+export const detectImageType = (data: Buffer): { contentType: string; extension: string } | null => {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return { contentType: 'image/jpeg', extension: 'jpg' };
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { contentType: 'image/png', extension: 'png' };
+  }
+  if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('ascii'))) {
+    return { contentType: 'image/gif', extension: 'gif' };
+  }
+  if (data.length >= 12 && data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return { contentType: 'image/webp', extension: 'webp' };
+  }
+  return null;
+};
@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import { IPreorder, IPreorderPayment, IPurchaseInfo, IRelease } from '../models/Figure';
+
+/**
+ * Pre-order bookkeeping for figures with collectionStatus 'ordered':
+ * what has been paid, what is left, and the upcoming payment and arrival
+ * dates across the collection.
+ */
+
+/** Fields of a figure the pre-order helpers read (a lean Figure document). */
+export interface PreorderFigure {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  merchant?: { name?: string };
+  purchaseInfo?: IPurchaseInfo;
+  releases?: IRelease[];
+  preorder?: Omit<IPreorder, 'payments'> & { payments?: Partial<IPreorderPayment>[] };
+}
+
+export interface PreorderSummary {
+  totalPrice: number | null;
+  currency: string | null;
+  paid: number;
+  remaining: number | null;
+  nextPayment: Partial<IPreorderPayment> | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Paid and remaining amounts of a pre-order. Without a pre-order total the
+ * purchase price is used.
+ */
+export const summarizePreorder = (figure: Pick<PreorderFigure, 'preorder' | 'purchaseInfo'>): PreorderSummary => {
+  const preorder = figure.preorder;
+  const payments = preorder?.payments || [];
+  const totalPrice = preorder?.totalPrice ?? figure.purchaseInfo?.price ?? null;
+  const paid = round(payments.filter(p => p.paidAt).reduce((sum, p) => sum + (p.amount || 0), 0));
+
+  const outstanding = payments
+    .filter(p => !p.paidAt && p.dueDate)
+    .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime());
+
+  return {
+    totalPrice,
+    currency: preorder?.currency || figure.purchaseInfo?.currency || null,
+    paid,
+    remaining: totalPrice === null ? null : round(Math.max(totalPrice - paid, 0)),
+    nextPayment: outstanding[0] || null
+  };
+};
+
+export interface PreorderEvent {
+  type: 'payment' | 'arrival';
+  date: Date;
+  overdue: boolean;
+  figureId: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  merchant?: string;
+  orderNumber?: string;
+  // payment events
+  paymentId?: mongoose.Types.ObjectId;
+  kind?: IPreorderPayment['kind'];
+  amount?: number;
+  currency?: string;
+  // arrival events: the expected ship month, or the latest release date
+  source?: 'preorder' | 'release';
+}
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const expectedArrival = (figure: PreorderFigure): { date: Date; source: 'preorder' | 'release' } | null => {
+  const shipMonth = figure.preorder?.expectedShipMonth;
+  if (shipMonth) {
+    const [year, month] = shipMonth.split('-').map(Number);
+    return { date: new Date(Date.UTC(year, month - 1, 1)), source: 'preorder' };
+  }
+  const releaseDates = (figure.releases || [])
+    .filter(release => release.date)
+    .map(release => new Date(release.date!).getTime());
+  return releaseDates.length > 0
+    ? { date: startOfMonth(new Date(Math.max(...releaseDates))), source: 'release' }
+    : null;
+};
+
+/**
+ * Outstanding payments (by due date) and expected arrivals (by ship month)
+ * of ordered figures, merged in date order. Anything already past is kept
+ * and flagged overdue; `until` drops later events.
+ */
+export const buildPreorderTimeline = (
+  figures: PreorderFigure[],
+  options: { now?: Date; until?: Date } = {}
+): PreorderEvent[] => {
+  const now = options.now || new Date();
+  const today = startOfDay(now);
+  const thisMonth = startOfMonth(now);
+  const events: PreorderEvent[] = [];
+
+  for (const figure of figures) {
+    const common = {
+      figureId: figure._id,
+      name: figure.name,
+      manufacturer: figure.manufacturer,
+      imageUrl: figure.imageUrl,
+      merchant: figure.merchant?.name,
+      orderNumber: figure.preorder?.orderNumber
+    };
+    const summary = summarizePreorder(figure);
+
+    for (const payment of figure.preorder?.payments || []) {
+      if (payment.paidAt || !payment.dueDate) continue;
+      const date = new Date(payment.dueDate);
+      events.push({
+        type: 'payment',
+        date,
+        overdue: date < today,
+        ...common,
+        paymentId: payment._id,
+        kind: payment.kind,
+        amount: payment.amount,
+        currency: summary.currency || undefined
+      });
+    }
+
+    const arrival = expectedArrival(figure);
+    if (arrival) {
+      events.push({
+        type: 'arrival',
+        date: arrival.date,
+        overdue: arrival.date < thisMonth,
+        ...common,
+        source: arrival.source
+      });
+    }
+  }
+
+  return events
+    .filter(event => !options.until || event.date <= options.until)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || (a.type === b.type ? 0 : a.type === 'payment' ? -1 : 1));
+};
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { IPurchaseInfo, ISale } from '../models/Figure';
+
+/**
+ * Sold and traded figures: what each one brought in against what it cost,
+ * and the realized profit or loss across the collection's sales.
+ */
+
+/** Fields of a figure the sale helpers read (a lean Figure document). */
+export interface SaleFigure {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  manufacturer?: string;
+  imageUrl?: string;
+  collectionStatus?: string | null;
+  purchaseInfo?: IPurchaseInfo;
+  sale?: ISale;
+}
+
+export interface SaleResult {
+  currency: string | null;
+  proceeds: number | null;  // Sale price less fees and shipping
+  cost: number | null;      // purchaseInfo.price
+  profit: number | null;    // Negative for a loss
+}
+
+export interface SaleTotals {
+  currency: string;
+  count: number;
+  proceeds: number;
+  cost: number;
+  profit: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Realized profit of a sale against the purchase price. Unknown (null)
+ * without a sale price or purchase price, or when the sale and purchase
+ * currencies differ. Purchases default to USD like the schema.
+ */
+export const computeRealizedProfit = (
+  sale: ISale | undefined,
+  purchaseInfo: IPurchaseInfo | undefined
+): SaleResult => {
+  const proceeds = typeof sale?.price === 'number'
+    ? round(sale.price - (sale.fees || 0) - (sale.shipping || 0))
+    : null;
+  const cost = typeof purchaseInfo?.price === 'number' ? purchaseInfo.price : null;
+  const purchaseCurrency = (purchaseInfo?.currency || 'USD').toUpperCase();
+  const currency = sale?.currency?.toUpperCase() || (cost !== null ? purchaseCurrency : null);
+
+  const comparable = proceeds !== null && cost !== null && currency === purchaseCurrency;
+  return {
+    currency,
+    proceeds,
+    cost,
+    profit: comparable ? round(proceeds! - cost!) : null
+  };
+};
+
+/**
+ * Totals per sale currency over the sales whose profit is known; the rest
+ * are only counted in `unknownProfit`.
+ */
+export const summarizeSales = (figures: Pick<SaleFigure, 'sale' | 'purchaseInfo'>[]) => {
+  const byCurrency = new Map<string, SaleTotals>();
+  let unknownProfit = 0;
+
+  for (const figure of figures) {
+    const result = computeRealizedProfit(figure.sale, figure.purchaseInfo);
+    if (result.profit === null) {
+      unknownProfit += 1;
+      continue;
+    }
+    const currency = result.currency!;
+    if (!byCurrency.has(currency)) {
+      byCurrency.set(currency, { currency, count: 0, proceeds: 0, cost: 0, profit: 0 });
+    }
+    const totals = byCurrency.get(currency)!;
+    totals.count += 1;
+    totals.proceeds = round(totals.proceeds + result.proceeds!);
+    totals.cost = round(totals.cost + result.cost!);
+    totals.profit = round(totals.profit + result.profit);
+  }
+
+  return {
+    totals: Array.from(byCurrency.values()).sort((a, b) => b.count - a.count || a.currency.localeCompare(b.currency)),
+    unknownProfit
+  };
+};
@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import Figure, { IFigure } from '../models/Figure';
 import { createLogger } from '../utils/logger';
+import { activeFigureFilter } from './figureQueryService';
 
 const logger = createLogger('SEARCH');
 
@@ -90,7 +91,7 @@ export const wordWheelSearch = async (
     // Fetch more than limit to allow for re-ranking, but cap for performance
     const fetchLimit = Math.min(limit * 3, 50);
     const results = await Figure.find({
-      userId,
+      ...activeFigureFilter(userId),
       $or: [
         { name: { $regex: `(^|\\s)${escapedQuery}`, $options: 'i' } },
         { manufacturer: { $regex: `(^|\\s)${escapedQuery}`, $options: 'i' } },
@@ -149,9 +150,7 @@ export const wordWheelSearch = async (
         }
       },
       {
-        $match: {
-          userId
-        }
+        $match: activeFigureFilter(userId)
       },
       {
         $addFields: {
@@ -188,7 +187,7 @@ export const wordWheelSearch = async (
     // Fallback to regex if Atlas Search fails
     const fetchLimit = Math.min(limit * 3, 50);
     const results = await Figure.find({
-      userId,
+      ...activeFigureFilter(userId),
       $or: [
         { name: { $regex: `(^|\\s)${escapedQuery}`, $options: 'i' } },
         { manufacturer: { $regex: `(^|\\s)${escapedQuery}`, $options: 'i' } },
@@ -240,7 +239,7 @@ export const partialSearch = async (
     // Fetch more than needed to allow for re-ranking, but cap for performance
     const fetchLimit = Math.min((offset + limit) * 2, 100);
     const results = await Figure.find({
-      userId,
+      ...activeFigureFilter(userId),
       $or: [
         { name: { $regex: escapedQuery, $options: 'i' } },
         { manufacturer: { $regex: escapedQuery, $options: 'i' } },
@@ -292,9 +291,7 @@ export const partialSearch = async (
         }
       },
       {
-        $match: {
-          userId
-        }
+        $match: activeFigureFilter(userId)
       },
       {
         $addFields: {
@@ -334,7 +331,7 @@ export const partialSearch = async (
     // Fallback to regex if Atlas Search fails
     const fetchLimit = Math.min((offset + limit) * 2, 100);
     const results = await Figure.find({
-      userId,
+      ...activeFigureFilter(userId),
       $or: [
         { name: { $regex: escapedQuery, $options: 'i' } },
         { manufacturer: { $regex: escapedQuery, $options: 'i' } },
@@ -392,7 +389,7 @@ export const figureSearch = async (
 
     // Fetch with performance cap
     const results = await Figure.find({
-      userId,
+      ...activeFigureFilter(userId),
       $and: regexConditions
     })
       .limit(100)
@@ -443,9 +440,7 @@ export const figureSearch = async (
         }
       },
       {
-        $match: {
-          userId
-        }
+        $match: activeFigureFilter(userId)
       },
       {
         $addFields: {
@@ -490,7 +485,7 @@ export const figureSearch = async (
 
     // Fetch with performance cap
     const results = await Figure.find({
-      userId,
+      ...activeFigureFilter(userId),
       $and: regexConditions
     })
       .limit(100)
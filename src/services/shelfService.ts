@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+
+/**
+ * Shelves / display groups: display order within a shelf, capacity checks
+ * and the `shelf` filter of /figures/filter.
+ */
+
+export interface ShelfMembership {
+  _id: mongoose.Types.ObjectId | string;
+  name?: string;
+  capacity?: number | null;
+  figureIds: Array<mongoose.Types.ObjectId | string>;
+}
+
+/**
+ * Move (or add) a figure to `position` in the display order; without a
+ * position it goes to the end.
+ */
+export const placeFigure = (figureIds: string[], figureId: string, position?: number): string[] => {
+  const ids = figureIds.filter(id => id !== figureId);
+  const index = position === undefined ? ids.length : Math.max(0, Math.min(position, ids.length));
+  ids.splice(index, 0, figureId);
+  return ids;
+};
+
+/**
+ * Error message when `count` figures would not fit on the shelf, or null.
+ */
+export const capacityError = (shelf: Pick<ShelfMembership, 'name' | 'capacity'>, count: number): string | null =>
+  shelf.capacity && count > shelf.capacity
+    ? `Shelf "${shelf.name}" holds at most ${shelf.capacity} figures`
+    : null;
+
+/**
+ * Condition for `shelf=<id>[,<id>…]`: figures on any of the listed shelves.
+ * "__unspecified__" matches figures that are on none of the user's shelves.
+ */
+export const buildShelfCondition = (
+  shelves: ShelfMembership[],
+  value: string
+): { condition?: Record<string, any>; errors: string[] } => {
+  const values = value.split(',').map(v => v.trim()).filter(Boolean);
+  const byId = new Map(shelves.map(shelf => [String(shelf._id), shelf]));
+  const errors: string[] = [];
+  const onShelves = new Set<string>();
+
+  for (const id of values.filter(v => v !== '__unspecified__')) {
+    const shelf = byId.get(id);
+    if (!shelf) {
+      errors.push(`Unknown shelf "${id}"`);
+      continue;
+    }
+    shelf.figureIds.forEach(figureId => onShelves.add(String(figureId)));
+  }
+  if (errors.length > 0) return { errors };
+
+  const toObjectIds = (ids: Iterable<string>) => Array.from(ids, id => new mongoose.Types.ObjectId(id));
+  const matched = { _id: { $in: toObjectIds(onShelves) } };
+  if (!values.includes('__unspecified__')) return { condition: matched, errors };
+
+  const shelved = new Set(shelves.flatMap(shelf => shelf.figureIds.map(String)));
+  const unshelved = { _id: { $nin: toObjectIds(shelved) } };
+  return {
+    condition: values.length > 1 ? { $or: [matched, unshelved] } : unshelved,
+    errors
+  };
+};
@@ -0,0 +1,141 @@
+import {
+  createConverter,
+  ExchangeRateTable,
+  figurePurchases,
+  resolveManufacturer,
+  ValuationFigure
+} from './valuationService';
+
+/**
+ * Spending reports: purchase prices grouped by month of purchase, merchant,
+ * origin and manufacturer, converted into one currency and compared with
+ * the previous year.
+ */
+
+export interface SpendingTotals {
+  total: number;
+  count: number;
+  previousYearTotal: number;
+  previousYearCount: number;
+}
+
+export interface SpendingGroup extends SpendingTotals {
+  _id: string | null;
+}
+
+export interface SpendingMonth extends SpendingTotals {
+  month: string;  // YYYY-MM
+}
+
+export interface SpendingReport extends SpendingTotals {
+  currency: string;
+  year: number;
+  // Percentage change against the previous year (null when nothing was spent then)
+  changePercent: number | null;
+  byMonth: SpendingMonth[];
+  byMerchant: SpendingGroup[];
+  byOrigin: SpendingGroup[];
+  byManufacturer: SpendingGroup[];
+  byYear: { year: number; total: number; count: number }[];
+  // Purchases without a date, which no year can include
+  undated: { total: number; count: number };
+  unconverted: { currency: string; count: number }[];
+}
+
+const emptyTotals = (): SpendingTotals => ({ total: 0, count: 0, previousYearTotal: 0, previousYearCount: 0 });
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const roundTotals = <T extends SpendingTotals>(totals: T): T => ({
+  ...totals,
+  total: round(totals.total),
+  previousYearTotal: round(totals.previousYearTotal)
+});
+
+const bucketFor = (groups: Map<string | null, SpendingTotals>, key: string | null): SpendingTotals => {
+  if (!groups.has(key)) groups.set(key, emptyTotals());
+  return groups.get(key)!;
+};
+
+// Groups that had spending in either year, biggest spend this year first
+const toGroups = (groups: Map<string | null, SpendingTotals>): SpendingGroup[] =>
+  Array.from(groups, ([key, totals]) => roundTotals({ _id: key, ...totals }))
+    .sort((a, b) => b.total - a.total || b.previousYearTotal - a.previousYearTotal);
+
+/**
+ * Spending in `year` (UTC calendar year) against the year before.
+ */
+export const summarizeSpending = (
+  figures: ValuationFigure[],
+  table: ExchangeRateTable | null,
+  currency: string,
+  year: number
+): SpendingReport => {
+  const converter = createConverter(table, currency);
+  const totals = emptyTotals();
+  const months = Array.from({ length: 12 }, emptyTotals);
+  const byMerchant = new Map<string | null, SpendingTotals>();
+  const byOrigin = new Map<string | null, SpendingTotals>();
+  const byManufacturer = new Map<string | null, SpendingTotals>();
+  const byYear = new Map<number, { total: number; count: number }>();
+  const undated = { total: 0, count: 0 };
+
+  for (const figure of figures) {
+    for (const { purchaseInfo, merchant } of figurePurchases(figure)) {
+      const date = purchaseInfo.date ? new Date(purchaseInfo.date) : undefined;
+      const amount = converter.convert(purchaseInfo.price!, purchaseInfo.currency, 'USD', date);
+      if (amount === null) continue;
+
+      if (!date) {
+        undated.total += amount;
+        undated.count += 1;
+        continue;
+      }
+
+      const purchaseYear = date.getUTCFullYear();
+      const yearTotals = byYear.get(purchaseYear) || { total: 0, count: 0 };
+      yearTotals.total += amount;
+      yearTotals.count += 1;
+      byYear.set(purchaseYear, yearTotals);
+
+      if (purchaseYear !== year && purchaseYear !== year - 1) continue;
+      const current = purchaseYear === year;
+      const buckets = [
+        totals,
+        months[date.getUTCMonth()],
+        bucketFor(byMerchant, merchant?.name || null),
+        bucketFor(byOrigin, figure.origin || null),
+        bucketFor(byManufacturer, resolveManufacturer(figure))
+      ];
+      for (const bucket of buckets) {
+        if (current) {
+          bucket.total += amount;
+          bucket.count += 1;
+        } else {
+          bucket.previousYearTotal += amount;
+          bucket.previousYearCount += 1;
+        }
+      }
+    }
+  }
+
+  return {
+    currency: currency.toUpperCase(),
+    year,
+    ...roundTotals(totals),
+    changePercent: totals.previousYearTotal > 0
+      ? round(((totals.total - totals.previousYearTotal) / totals.previousYearTotal) * 100)
+      : null,
+    byMonth: months.map((month, index) => roundTotals({
+      month: `${year}-${String(index + 1).padStart(2, '0')}`,
+      ...month
+    })),
+    byMerchant: toGroups(byMerchant),
+    byOrigin: toGroups(byOrigin),
+    byManufacturer: toGroups(byManufacturer),
+    byYear: Array.from(byYear, ([key, value]) => ({ year: key, total: round(value.total), count: value.count }))
+      .sort((a, b) => a.year - b.year),
+    undated: { total: round(undated.total), count: undated.count },
+    unconverted: converter.unconverted()
+  };
+};
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import StatusChange from '../models/StatusChange';
+import type { FigureHistoryEntry, FigureSnapshot } from './figureHistoryService';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Collection status timelines: every collectionStatus transition of a
+ * figure, and how long figures take between two statuses (e.g. from
+ * pre-order to arrival).
+ */
+
+const logger = createLogger('STATUS_HISTORY');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Figure fields durations can be grouped by (merchant: the merchant's name)
+export const STATUS_DURATION_GROUPS = ['manufacturer', 'category', 'origin', 'scale', 'merchant'] as const;
+export type StatusDurationGroup = typeof STATUS_DURATION_GROUPS[number];
+
+export interface StatusChangeData {
+  figureId: string | mongoose.Types.ObjectId;
+  userId: string | mongoose.Types.ObjectId;
+  fromStatus: string | null;
+  toStatus: string;
+  changedAt: Date;
+  note?: string;
+}
+
+/** A timeline entry as returned by the API. */
+export interface StatusTimelineEntry {
+  _id: mongoose.Types.ObjectId;
+  fromStatus?: string | null;
+  toStatus: string;
+  changedAt: Date;
+  note?: string;
+  daysInPreviousStatus: number | null;  // Since the previous entry; null for the first
+}
+
+export interface TransitionDuration {
+  figureId: string;
+  fromAt: Date;
+  toAt: Date;
+  days: number;
+}
+
+export interface DurationSummary {
+  group: string | null;  // null: figures without a value for the grouping field
+  count: number;
+  averageDays: number;
+  minDays: number;
+  maxDays: number;
+}
+
+const roundDays = (days: number) => Math.round(days * 10) / 10;
+
+// Figures saved before collectionStatus existed count as owned
+const statusOf = (snapshot: FigureSnapshot | null): string | null =>
+  snapshot ? snapshot.collectionStatus || 'owned' : null;
+
+/** Status transitions made by figure changes (creates and updates). */
+export const statusChangesFromHistory = (entries: FigureHistoryEntry[], changedAt = new Date()): StatusChangeData[] =>
+  entries
+    .filter(entry => (entry.action === 'create' || entry.action === 'update') && entry.after)
+    .filter(entry => statusOf(entry.before) !== statusOf(entry.after))
+    .map(entry => ({
+      figureId: entry.figureId,
+      userId: entry.userId,
+      fromStatus: statusOf(entry.before),
+      toStatus: statusOf(entry.after)!,
+      changedAt,
+      ...(entry.statusNote ? { note: entry.statusNote } : {})
+    }));
+
+/**
+ * Store the status transitions of figure changes. Failures are logged and
+ * never fail the request that made the change.
+ */
+export const recordStatusChanges = async (entries: FigureHistoryEntry[]): Promise<void> => {
+  const changes = statusChangesFromHistory(entries);
+  if (changes.length === 0) return;
+
+  try {
+    await StatusChange.insertMany(changes);
+  } catch (error: any) {
+    logger.error('Failed to record status changes:', error.message);
+  }
+};
+
+/** A figure's status changes, oldest first, with the time spent in each status. */
+export const buildStatusTimeline = (
+  changes: { _id: mongoose.Types.ObjectId; fromStatus?: string | null; toStatus: string; changedAt: Date; note?: string }[]
+): StatusTimelineEntry[] => {
+  const sorted = [...changes].sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
+  return sorted.map((change, index) => ({
+    _id: change._id,
+    fromStatus: change.fromStatus ?? null,
+    toStatus: change.toStatus,
+    changedAt: change.changedAt,
+    ...(change.note ? { note: change.note } : {}),
+    daysInPreviousStatus: index === 0
+      ? null
+      : roundDays((new Date(change.changedAt).getTime() - new Date(sorted[index - 1].changedAt).getTime()) / DAY_MS)
+  }));
+};
+
+/**
+ * Time from entering `from` to next entering `to`, for each figure that
+ * made that move. A figure that moved back and forth counts from its most
+ * recent entry into `from` (e.g. the order that actually arrived).
+ */
+export const transitionDurations = (
+  changes: { figureId: string | mongoose.Types.ObjectId; toStatus: string; changedAt: Date }[],
+  from: string,
+  to: string
+): TransitionDuration[] => {
+  const byFigure = new Map<string, typeof changes>();
+  for (const change of changes) {
+    const key = String(change.figureId);
+    if (!byFigure.has(key)) byFigure.set(key, []);
+    byFigure.get(key)!.push(change);
+  }
+
+  const durations: TransitionDuration[] = [];
+  byFigure.forEach((figureChanges, figureId) => {
+    let fromAt: Date | null = null;
+    figureChanges
+      .sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime())
+      .forEach(change => {
+        if (change.toStatus === from) {
+          fromAt = new Date(change.changedAt);
+        } else if (change.toStatus === to && fromAt) {
+          const toAt = new Date(change.changedAt);
+          durations.push({ figureId, fromAt, toAt, days: roundDays((toAt.getTime() - fromAt.getTime()) / DAY_MS) });
+          fromAt = null;
+        }
+      });
+  });
+  return durations;
+};
+
+/** Average/min/max days per group, largest groups first. */
+export const summarizeDurations = (
+  durations: TransitionDuration[],
+  groupOf: (figureId: string) => string | null = () => null
+): DurationSummary[] => {
+  const groups = new Map<string | null, number[]>();
+  for (const { figureId, days } of durations) {
+    const group = groupOf(figureId);
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(days);
+  }
+
+  return Array.from(groups, ([group, days]) => ({
+    group,
+    count: days.length,
+    averageDays: roundDays(days.reduce((sum, d) => sum + d, 0) / days.length),
+    minDays: Math.min(...days),
+    maxDays: Math.max(...days)
+  })).sort((a, b) => b.count - a.count || String(a.group ?? '').localeCompare(String(b.group ?? '')));
+};
+
+/** The grouping value of a figure (a lean Figure document). */
+export const durationGroupValue = (figure: Record<string, any>, groupBy: StatusDurationGroup): string | null => {
+  const value = groupBy === 'merchant' ? figure.merchant?.name : figure[groupBy];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
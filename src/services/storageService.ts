@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import Figure from '../models/Figure';
+import StorageNode, { STORAGE_NODE_KINDS, StorageNodeKind } from '../models/StorageNode';
+import { recordBulkFigureHistory } from './figureHistoryService';
+
+/**
+ * Storage hierarchy (room → cabinet → shelf → box): paths, the location
+ * text derived from them, figure count roll-ups, and the migration from
+ * free-text `location` / `storageDetail` values.
+ */
+
+type Id = mongoose.Types.ObjectId | string;
+
+export interface StorageNodeLike {
+  _id: Id;
+  name: string;
+  kind: StorageNodeKind;
+  parentId?: Id | null;
+  ancestors: Id[];
+}
+
+export interface StorageTreeNode {
+  _id: string;
+  name: string;
+  kind: StorageNodeKind;
+  parentId: string | null;
+  count: number;   // Figures stored directly in this node
+  total: number;   // Figures in this node and everything below it
+  children: StorageTreeNode[];
+}
+
+// Separates the path below the top-level node in `storageDetail`
+export const STORAGE_PATH_SEPARATOR = ' / ';
+
+// Collapse the whitespace that makes "Closet" and "Closet " different places
+export const normalizeStorageName = (name: string): string => name.replace(/\s+/g, ' ').trim();
+
+const nameKey = (name: string) => normalizeStorageName(name).toLowerCase();
+
+/**
+ * Names from the top-level node down to `node`.
+ */
+export const storagePath = (node: StorageNodeLike, nodesById: Map<string, StorageNodeLike>): string[] => [
+  ...node.ancestors.map(id => nodesById.get(String(id))?.name).filter((name): name is string => Boolean(name)),
+  node.name
+];
+
+/**
+ * The figure fields derived from a path: the top-level node is the
+ * `location`, the rest of the path is the `storageDetail`.
+ */
+export const locationFieldsForPath = (path: string[]) => ({
+  location: path[0] || '',
+  storageDetail: path.slice(1).join(STORAGE_PATH_SEPARATOR)
+});
+
+// The figure fields storage changes write, all their history entries need
+const STORAGE_HISTORY_FIELDS = 'location storageDetail storageNodeId';
+
+/**
+ * Path for legacy free text: `location`, then `storageDetail` split on "/".
+ */
+export const storagePathFromText = (location?: string | null, storageDetail?: string | null): string[] => {
+  const root = normalizeStorageName(location || '');
+  if (!root) return [];
+  const rest = (storageDetail || '').split('/').map(normalizeStorageName).filter(Boolean);
+  return [root, ...rest];
+};
+
+// Kind of a node created by the migration, from its depth in the tree
+export const kindForDepth = (depth: number): StorageNodeKind =>
+  STORAGE_NODE_KINDS[Math.min(depth, STORAGE_NODE_KINDS.length - 1)];
+
+/**
+ * Nest nodes under their parents (siblings sorted by name) and roll the
+ * figure counts up through the hierarchy.
+ */
+export const buildStorageTree = (
+  nodes: StorageNodeLike[],
+  counts: Map<string, number>
+): StorageTreeNode[] => {
+  const treeNodes = new Map<string, StorageTreeNode>(nodes.map(node => [String(node._id), {
+    _id: String(node._id),
+    name: node.name,
+    kind: node.kind,
+    parentId: node.parentId ? String(node.parentId) : null,
+    count: counts.get(String(node._id)) || 0,
+    total: 0,
+    children: []
+  }]));
+
+  const roots: StorageTreeNode[] = [];
+  for (const treeNode of treeNodes.values()) {
+    const parent = treeNode.parentId ? treeNodes.get(treeNode.parentId) : undefined;
+    (parent ? parent.children : roots).push(treeNode);
+  }
+
+  const finish = (treeNode: StorageTreeNode): number => {
+    treeNode.children.sort((a, b) => a.name.localeCompare(b.name));
+    treeNode.total = treeNode.count + treeNode.children.reduce((sum, child) => sum + finish(child), 0);
+    return treeNode.total;
+  };
+  roots.sort((a, b) => a.name.localeCompare(b.name));
+  roots.forEach(finish);
+  return roots;
+};
+
+export const loadStorageNodes = async (userId: Id): Promise<StorageNodeLike[]> =>
+  StorageNode.find({ userId }).select('name kind parentId ancestors').lean();
+
+/**
+ * Figure fields for storing a figure in `nodeId`, or null when the user has
+ * no such node.
+ */
+export const resolveStorageLocation = async (userId: Id, nodeId: Id) => {
+  const node = await StorageNode.findOne({ _id: nodeId, userId }).lean(); // NOSONAR - Mongoose ODM (parameterized)
+  if (!node) return null;
+
+  const ancestors = await StorageNode.find({ _id: { $in: node.ancestors }, userId }).select('name').lean();
+  const path = storagePath(node, new Map(ancestors.map(a => [String(a._id), a as StorageNodeLike])));
+  return { storageNodeId: node._id, ...locationFieldsForPath(path) };
+};
+
+/**
+ * Re-derive the location text of every figure stored in `nodeId` or below
+ * it, after the node was renamed or moved. Returns the number of figures changed.
+ */
+export const syncFigureLocations = async (userId: Id, nodeId: Id): Promise<number> => {
+  const nodes = await loadStorageNodes(userId);
+  const byId = new Map(nodes.map(node => [String(node._id), node]));
+  const subtree = nodes.filter(node =>
+    String(node._id) === String(nodeId) || node.ancestors.some(id => String(id) === String(nodeId))
+  );
+  if (subtree.length === 0) return 0;
+
+  const stored = { userId, storageNodeId: { $in: subtree.map(node => node._id) } };
+  const beforeDocs = await Figure.find(stored).select(STORAGE_HISTORY_FIELDS).lean();
+  // updateMany per node rather than one bulkWrite: bulkWrite skips the query
+  // middleware that mirrors figure writes to UserFigure
+  let modified = 0;
+  for (const node of subtree) {
+    const result = await Figure.updateMany(
+      { userId, storageNodeId: node._id },
+      { $set: locationFieldsForPath(storagePath(node, byId)) }
+    );
+    modified += result.modifiedCount;
+  }
+  await recordBulkFigureHistory(userId, beforeDocs, await Figure.find(stored).select(STORAGE_HISTORY_FIELDS).lean());
+  return modified;
+};
+
+/**
+ * Storage tree with the number of figures matching `match` in each node.
+ */
+export const rollUpStorageStats = async (userId: Id, match: Record<string, any>): Promise<StorageTreeNode[]> => {
+  const [nodes, counts] = await Promise.all([
+    loadStorageNodes(userId),
+    Figure.aggregate([
+      { $match: { ...match, storageNodeId: { $ne: null } } },
+      { $group: { _id: '$storageNodeId', count: { $sum: 1 } } }
+    ])
+  ]);
+  return buildStorageTree(nodes, new Map(counts.map((c: { _id: Id; count: number }) => [String(c._id), c.count])));
+};
+
+/**
+ * Build the user's storage tree from the distinct free-text locations of
+ * figures not yet stored in a node, and link those figures to it.
+ * Names are matched case- and whitespace-insensitively (also against nodes
+ * that already exist), so "Closet" and "closet " end up in one node and
+ * the figures get the node's spelling. Safe to run more than once.
+ */
+export const migrateLocationsToStorageTree = async (userId: Id) => {
+  const nodes = await loadStorageNodes(userId);
+  const index = new Map<string, StorageNodeLike>(
+    nodes.map(node => [`${node.parentId || 'root'}:${nameKey(node.name)}`, node])
+  );
+
+  const figures = await Figure.find({ userId, storageNodeId: null, location: { $nin: [null, ''] } })
+    .select(STORAGE_HISTORY_FIELDS)
+    .lean();
+
+  const groups = new Map<string, { path: string[]; ids: mongoose.Types.ObjectId[] }>();
+  for (const figure of figures) {
+    const path = storagePathFromText(figure.location, figure.storageDetail);
+    if (path.length === 0) continue;
+    const key = path.map(nameKey).join('\u0000');
+    if (!groups.has(key)) groups.set(key, { path, ids: [] });
+    groups.get(key)!.ids.push(figure._id);
+  }
+
+  let nodesCreated = 0;
+  let figuresLinked = 0;
+  const linkedIds: mongoose.Types.ObjectId[] = [];
+
+  for (const { path, ids } of groups.values()) {
+    let parent: StorageNodeLike | null = null;
+    const names: string[] = [];
+
+    for (const [depth, name] of path.entries()) {
+      const key = `${parent ? parent._id : 'root'}:${nameKey(name)}`;
+      let node = index.get(key);
+      if (!node) {
+        node = (await StorageNode.create({
+          userId,
+          name,
+          kind: kindForDepth(depth),
+          parentId: parent ? parent._id : null,
+          ancestors: parent ? [...parent.ancestors, parent._id] : []
+        })).toObject() as StorageNodeLike;
+        index.set(key, node);
+        nodesCreated += 1;
+      }
+      names.push(node.name);
+      parent = node;
+    }
+
+    const result = await Figure.updateMany(
+      { _id: { $in: ids }, userId },
+      { $set: { storageNodeId: parent!._id, ...locationFieldsForPath(names) } }
+    );
+    figuresLinked += result.matchedCount;
+    linkedIds.push(...ids);
+  }
+
+  if (linkedIds.length > 0) {
+    const linkedSet = new Set(linkedIds.map(String));
+    await recordBulkFigureHistory(
+      userId,
+      figures.filter(figure => linkedSet.has(String(figure._id))),
+      await Figure.find({ _id: { $in: linkedIds }, userId }).select(STORAGE_HISTORY_FIELDS).lean()
+    );
+  }
+
+  return { nodesCreated, figuresLinked };
+};
+
+/**
+ * Figure condition matching everything stored in `nodeId` or below it, or
+ * null when the user has no such node.
+ */
+export const storageSubtreeCondition = async (userId: Id, nodeId: Id) => {
+  const nodeIds = await StorageNode.find({ userId, $or: [{ _id: nodeId }, { ancestors: nodeId }] }) // NOSONAR - Mongoose ODM (parameterized)
+    .distinct('_id');
+  return nodeIds.length > 0 ? { storageNodeId: { $in: nodeIds } } : null;
+};
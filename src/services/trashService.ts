@@ -0,0 +1,88 @@
+import Figure from '../models/Figure';
+import { getPhotoStorage } from './photoStorageService';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Trash retention settings and purging for soft-deleted figures.
+ *
+ * Deleted figures get a purgeAt date; a purge job removes them permanently
+ * once it passes, together with their photo files.
+ */
+
+const logger = createLogger('TRASH');
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const DEFAULT_TRASH_PURGE_INTERVAL_MINUTES = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention period in days, from TRASH_RETENTION_DAYS (default 30).
+ * Changing it only affects figures trashed afterwards.
+ */
+export const getTrashRetentionDays = (): number => {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const computePurgeAt = (deletedAt: Date, retentionDays: number = getTrashRetentionDays()): Date =>
+  new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+
+/**
+ * Purge job interval in minutes, from TRASH_PURGE_INTERVAL_MINUTES (default 60).
+ */
+export const getTrashPurgeIntervalMinutes = (): number => {
+  const minutes = parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '', 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TRASH_PURGE_INTERVAL_MINUTES;
+};
+
+/**
+ * Permanently delete trashed figures whose purgeAt has passed, then their
+ * photo files. Each figure is deleted on its own, only if still expired, so
+ * a figure restored meanwhile keeps its photos; files that can't be removed
+ * are logged by key.
+ */
+export const purgeExpiredFigures = async (now: Date = new Date()): Promise<{ purged: number; photosRemoved: number }> => {
+  const expired = { deletedAt: { $ne: null }, purgeAt: { $lte: now } };
+  const ids = await Figure.find(expired).distinct('_id');
+  let purged = 0;
+  let photosRemoved = 0;
+
+  for (const id of ids) {
+    const figure = await Figure.findOneAndDelete({ _id: id, ...expired }).lean();
+    if (!figure) continue;
+    purged += 1;
+
+    for (const photo of figure.photos || []) {
+      try {
+        await getPhotoStorage().remove(photo.storageKey);
+        photosRemoved += 1;
+      } catch (error: any) {
+        logger.error(`Failed to remove photo ${photo.storageKey} of purged figure ${id}:`, error.message);
+      }
+    }
+  }
+
+  return { purged, photosRemoved };
+};
+
+/**
+ * Run purgeExpiredFigures now and every interval. Returns a function that
+ * stops the job.
+ */
+export const startTrashPurgeJob = (intervalMinutes: number = getTrashPurgeIntervalMinutes()): (() => void) => {
+  const run = async () => {
+    try {
+      const { purged, photosRemoved } = await purgeExpiredFigures();
+      if (purged > 0) logger.info(`Purged ${purged} figures from the trash (${photosRemoved} photos removed)`);
+    } catch (error: any) {
+      logger.error('Trash purge failed:', error.message);
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  run();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,282 @@
+import SystemConfig from '../models/SystemConfig';
+import { ICopy, IMerchant, IPurchaseInfo, IRelease } from '../models/Figure';
+
+/**
+ * Collection valuation: what figures cost (purchase prices) and what they
+ * retailed for (release prices), converted into one currency.
+ *
+ * Exchange rates are maintained by admins as a `json` SystemConfig entry
+ * (key `exchange_rates`) with dated rates against a base currency:
+ *
+ *   { "base": "USD", "rates": [{ "date": "2024-01-01", "JPY": 141.2, "CNY": 7.1 }] }
+ *
+ * Each amount is converted with the latest rates on or before the date of
+ * the purchase or release (the earliest rates for older dates, the latest
+ * rates for undated amounts).
+ */
+
+export const EXCHANGE_RATES_CONFIG_KEY = 'exchange_rates';
+
+export interface ExchangeRateTable {
+  base: string;
+  // Sorted oldest first
+  rates: { date: Date; rates: Record<string, number> }[];
+}
+
+export class ExchangeRateConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid ${EXCHANGE_RATES_CONFIG_KEY} config: ${message}`);
+    this.name = 'ExchangeRateConfigError';
+  }
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Parse and validate the exchange_rates config value.
+ */
+export const parseExchangeRates = (value: string): ExchangeRateTable => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new ExchangeRateConfigError('value is not valid JSON');
+  }
+
+  const base = typeof parsed?.base === 'string' ? parsed.base.toUpperCase() : '';
+  if (!CURRENCY_PATTERN.test(base)) {
+    throw new ExchangeRateConfigError('"base" must be a 3-letter currency code');
+  }
+  if (!Array.isArray(parsed.rates)) {
+    throw new ExchangeRateConfigError('"rates" must be an array');
+  }
+
+  const rates = parsed.rates.map((entry: any, index: number) => {
+    const { date, ...currencies } = entry || {};
+    const parsedDate = new Date(date);
+    if (!date || Number.isNaN(parsedDate.getTime())) {
+      throw new ExchangeRateConfigError(`rates[${index}] needs a valid "date"`);
+    }
+    const entryRates: Record<string, number> = {};
+    for (const [currency, rate] of Object.entries(currencies)) {
+      const code = currency.toUpperCase();
+      if (!CURRENCY_PATTERN.test(code) || typeof rate !== 'number' || !(rate > 0)) {
+        throw new ExchangeRateConfigError(`rates[${index}].${currency} must be a positive number`);
+      }
+      entryRates[code] = rate;
+    }
+    return { date: parsedDate, rates: entryRates };
+  });
+
+  rates.sort((a: { date: Date }, b: { date: Date }) => a.date.getTime() - b.date.getTime());
+  return { base, rates };
+};
+
+/**
+ * Load the admin-maintained exchange rates, or null when none are configured.
+ */
+export const loadExchangeRates = async (): Promise<ExchangeRateTable | null> => {
+  const config = await SystemConfig.findOne({ key: EXCHANGE_RATES_CONFIG_KEY }).lean();
+  return config ? parseExchangeRates(config.value) : null;
+};
+
+// Units of `currency` per one unit of the base currency, as of `date`
+const rateFor = (table: ExchangeRateTable, currency: string, date?: Date): number | undefined => {
+  if (currency === table.base) return 1;
+  const candidates = table.rates.filter(entry => entry.rates[currency] !== undefined);
+  if (candidates.length === 0) return undefined;
+  if (!date) return candidates[candidates.length - 1].rates[currency];
+
+  let match = candidates[0];
+  for (const entry of candidates) {
+    if (entry.date.getTime() > date.getTime()) break;
+    match = entry;
+  }
+  return match.rates[currency];
+};
+
+/**
+ * Convert an amount between currencies. Returns null when no rate is known.
+ */
+export const convertAmount = (
+  table: ExchangeRateTable | null,
+  amount: number,
+  from: string,
+  to: string,
+  date?: Date
+): number | null => {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+  if (source === target) return amount;
+  if (!table) return null;
+
+  const sourceRate = rateFor(table, source, date);
+  const targetRate = rateFor(table, target, date);
+  if (sourceRate === undefined || targetRate === undefined) return null;
+  return (amount / sourceRate) * targetRate;
+};
+
+/** Fields of a figure the valuation reads (a lean Figure document). */
+export interface ValuationFigure {
+  collectionStatus?: string | null;
+  manufacturer?: string;
+  companyRoles?: { companyName?: string; roleName?: string }[];
+  origin?: string;
+  quantity?: number;
+  purchaseInfo?: IPurchaseInfo;
+  merchant?: IMerchant;
+  releases?: IRelease[];
+  copies?: Partial<ICopy>[];
+}
+
+export interface ValuationTotals {
+  count: number;
+  copies: number;
+  purchaseTotal: number;
+  retailTotal: number;
+}
+
+export interface ValuationGroup extends ValuationTotals {
+  _id: string | null;
+}
+
+export interface CollectionValuation {
+  currency: string;
+  ratesAsOf: Date | null;
+  totals: ValuationTotals;
+  byStatus: ValuationGroup[];
+  byManufacturer: ValuationGroup[];
+  byOrigin: ValuationGroup[];
+  // Prices left out of the totals because no rate converts them
+  unconverted: { currency: string; count: number }[];
+}
+
+const emptyTotals = (): ValuationTotals => ({ count: 0, copies: 0, purchaseTotal: 0, retailTotal: 0 });
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const roundTotals = <T extends ValuationTotals>(totals: T): T => ({
+  ...totals,
+  purchaseTotal: round(totals.purchaseTotal),
+  retailTotal: round(totals.retailTotal)
+});
+
+const toGroups = (groups: Map<string | null, ValuationTotals>): ValuationGroup[] =>
+  Array.from(groups, ([key, totals]) => roundTotals({ _id: key, ...totals }))
+    .sort((a, b) => b.purchaseTotal - a.purchaseTotal || b.retailTotal - a.retailTotal || b.count - a.count);
+
+const bucketFor = (groups: Map<string | null, ValuationTotals>, key: string | null): ValuationTotals => {
+  if (!groups.has(key)) groups.set(key, emptyTotals());
+  return groups.get(key)!;
+};
+
+export const resolveManufacturer = (figure: ValuationFigure): string | null =>
+  figure.manufacturer ||
+  figure.companyRoles?.find(role => role.roleName === 'Manufacturer')?.companyName ||
+  null;
+
+// The original release's price, falling back to the first priced rerelease
+export const retailRelease = (figure: ValuationFigure): IRelease | undefined => {
+  const priced = (figure.releases || []).filter(release => typeof release.price === 'number');
+  return priced.find(release => !release.isRerelease) || priced[0];
+};
+
+export interface FigurePurchase {
+  purchaseInfo: IPurchaseInfo;
+  merchant?: IMerchant;
+}
+
+/**
+ * Priced purchases of a figure: one per copy when it has copy records
+ * (each with the copy's merchant), otherwise the figure's own purchase.
+ */
+export const figurePurchases = (figure: ValuationFigure): FigurePurchase[] => {
+  const purchases: Partial<FigurePurchase>[] = figure.copies?.length
+    ? figure.copies.map(copy => ({ purchaseInfo: copy.purchaseInfo, merchant: copy.merchant }))
+    : [{ purchaseInfo: figure.purchaseInfo, merchant: figure.merchant }];
+  return purchases.filter((purchase): purchase is FigurePurchase =>
+    typeof purchase.purchaseInfo?.price === 'number');
+};
+
+/**
+ * Copies each of figurePurchases() stands for: a copy record is one copy,
+ * while the figure's own purchase price is per unit and covers its quantity.
+ */
+export const unitsPerPurchase = (figure: ValuationFigure): number =>
+  figure.copies?.length ? 1 : figure.quantity || 1;
+
+/**
+ * Converts amounts into `currency`, counting the ones it cannot convert
+ * per source currency. Missing currencies use the schema default.
+ */
+export const createConverter = (table: ExchangeRateTable | null, currency: string) => {
+  const target = currency.toUpperCase();
+  const unconverted = new Map<string, number>();
+
+  return {
+    convert: (price: number, from: string | undefined, fallback: string, date?: Date): number | null => {
+      const source = (from || fallback).toUpperCase();
+      const converted = convertAmount(table, price, source, target, date ? new Date(date) : undefined);
+      if (converted === null) unconverted.set(source, (unconverted.get(source) || 0) + 1);
+      return converted;
+    },
+    unconverted: () => Array.from(unconverted, ([code, count]) => ({ currency: code, count }))
+      .sort((a, b) => b.count - a.count)
+  };
+};
+
+/**
+ * Total purchase and retail value of figures in `currency`, overall and
+ * broken down by collection status, manufacturer and origin.
+ * Purchase and retail value both count every copy (see unitsPerPurchase);
+ * legacy null status counts as 'owned'.
+ */
+export const valueCollection = (
+  figures: ValuationFigure[],
+  table: ExchangeRateTable | null,
+  currency: string
+): CollectionValuation => {
+  const target = currency.toUpperCase();
+  const totals = emptyTotals();
+  const byStatus = new Map<string | null, ValuationTotals>();
+  const byManufacturer = new Map<string | null, ValuationTotals>();
+  const byOrigin = new Map<string | null, ValuationTotals>();
+  const converter = createConverter(table, target);
+  const convert = (price: number, from: string | undefined, fallback: string, date?: Date) =>
+    converter.convert(price, from, fallback, date) ?? 0;
+
+  for (const figure of figures) {
+    const copies = figure.copies?.length || figure.quantity || 1;
+    const units = unitsPerPurchase(figure);
+    // Schema defaults: purchases in USD, releases in JPY
+    const purchaseTotal = figurePurchases(figure).reduce((sum, { purchaseInfo }) =>
+      sum + convert(purchaseInfo.price!, purchaseInfo.currency, 'USD', purchaseInfo.date) * units, 0);
+    const release = retailRelease(figure);
+    const retailTotal = release
+      ? convert(release.price!, release.currency, 'JPY', release.date) * copies
+      : 0;
+
+    const buckets = [
+      totals,
+      bucketFor(byStatus, figure.collectionStatus || 'owned'),
+      bucketFor(byManufacturer, resolveManufacturer(figure)),
+      bucketFor(byOrigin, figure.origin || null)
+    ];
+    for (const bucket of buckets) {
+      bucket.count += 1;
+      bucket.copies += copies;
+      bucket.purchaseTotal += purchaseTotal;
+      bucket.retailTotal += retailTotal;
+    }
+  }
+
+  return {
+    currency: target,
+    ratesAsOf: table?.rates.length ? table.rates[table.rates.length - 1].date : null,
+    totals: roundTotals(totals),
+    byStatus: toGroups(byStatus),
+    byManufacturer: toGroups(byManufacturer),
+    byOrigin: toGroups(byOrigin),
+    unconverted: converter.unconverted()
+  };
+};
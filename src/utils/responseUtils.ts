@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import { sanitizeErrorMessage } from './errorUtils';
+import { createLogger } from './logger';
 
 /**
  * Handle error responses consistently across controllers
@@ -40,4 +41,35 @@ export const handleErrorResponse = (res: Response, error: any): Response => {
     message: 'Server Error',
     error: sanitizeErrorMessage(error)
   });
-};
\ No newline at end of file
+};
+
+/**
+ * 500 for an unexpected error in a controller, logged by the controller's
+ * logger as "<context> Error". The message sent is sanitized as above.
+ */
+export const serverError = (
+  res: Response,
+  logger: ReturnType<typeof createLogger>,
+  context: string,
+  error: any
+): Response => {
+  logger.error(`${context} Error:`, error.message);
+  return res.status(500).json({
+    success: false,
+    message: 'Server Error',
+    error: sanitizeErrorMessage(error)
+  });
+};
+
+/** 404 for a figure the user doesn't have (or has in the trash). */
+export const figureNotFound = (res: Response): Response => res.status(404).json({
+  success: false,
+  message: 'Figure not found or you do not have permission'
+});
+
+/** 422 listing what failed validation. */
+export const validationError = (res: Response, errors: string[]): Response => res.status(422).json({
+  success: false,
+  message: 'Validation Error',
+  errors
+});
\ No newline at end of file
@@ -488,6 +488,7 @@ describe('AuthController', () => {
         email: 'test@example.com',
         isAdmin: false,
         colorProfile: 'dark',
+        preferredCurrency: 'JPY',
         createdAt: new Date('2023-01-01'),
         updatedAt: new Date('2023-01-02')
       };
@@ -509,6 +510,7 @@ describe('AuthController', () => {
           email: 'test@example.com',
           isAdmin: false,
           colorProfile: 'dark',
+          preferredCurrency: 'JPY',
           createdAt: mockUser.createdAt,
           updatedAt: mockUser.updatedAt
         }
@@ -564,6 +566,7 @@ describe('AuthController', () => {
         email: 'test@example.com',
         isAdmin: false,
         colorProfile: 'terminal',
+        preferredCurrency: 'JPY',
         createdAt: new Date('2023-01-01'),
         updatedAt: new Date('2023-01-02')
       };
@@ -590,6 +593,7 @@ describe('AuthController', () => {
           email: 'test@example.com',
           isAdmin: false,
           colorProfile: 'terminal',
+          preferredCurrency: 'JPY',
           createdAt: mockUser.createdAt,
           updatedAt: mockUser.updatedAt
         }
@@ -622,6 +626,32 @@ describe('AuthController', () => {
       });
     });
 
+    it('should normalize the preferred currency to upper case', async () => {
+      mockRequest.user = { id: 'user123' } as any;
+      mockRequest.body = { preferredCurrency: 'jpy' };
+      MockedUser.findByIdAndUpdate = jest.fn().mockReturnValue({
+        select: jest.fn().mockResolvedValue({ _id: 'user123', preferredCurrency: 'JPY' })
+      });
+
+      await updateProfile(mockRequest as Request, mockResponse as Response);
+
+      expect(MockedUser.findByIdAndUpdate).toHaveBeenCalledWith(
+        'user123',
+        { preferredCurrency: 'JPY' },
+        { new: true, runValidators: true }
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 400 for invalid preferred currency', async () => {
+      mockRequest.user = { id: 'user123' } as any;
+      mockRequest.body = { preferredCurrency: 'dollars' };
+
+      await updateProfile(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
     it('should return 404 when user not found', async () => {
       mockRequest.user = { id: 'user123' } as any;
       mockRequest.body = { colorProfile: 'dark' };
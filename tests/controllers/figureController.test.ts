@@ -12,6 +12,18 @@ jest.mock('../../src/services/searchService', () => ({
 }));
 const mockedSearchService = jest.mocked(searchService);
 
+// History recording is covered by the figure history integration tests
+jest.mock('../../src/services/figureHistoryService', () => ({
+  recordFigureHistory: jest.fn(),
+  snapshotFigure: jest.fn()
+}));
+
+// Storage roll-ups are covered by the storage integration tests
+jest.mock('../../src/services/storageService', () => ({
+  ...jest.requireActual('../../src/services/storageService'),
+  rollUpStorageStats: jest.fn().mockResolvedValue([])
+}));
+
 // Comprehensive mocking for Figure model and external dependencies
 jest.mock('../../src/models/Figure', () => {
   return {
@@ -23,7 +35,8 @@ jest.mock('../../src/models/Figure', () => {
       countDocuments: jest.fn(),
       aggregate: jest.fn(),
       findByIdAndUpdate: jest.fn(),
-      deleteOne: jest.fn()
+      deleteOne: jest.fn(),
+      updateOne: jest.fn()
     },
     // Maintain mongoose-like behavior for ObjectId conversion
     Types: {
@@ -90,7 +103,7 @@ describe('FigureController', () => {
 
       await figureController.getFigures(mockRequest as Request, mockResponse as Response);
 
-      expect(MockedFigure.find).toHaveBeenCalledWith({ userId: '000000000000000000000123' });
+      expect(MockedFigure.find).toHaveBeenCalledWith({ userId: '000000000000000000000123', deletedAt: null });
       expect(mockFind.sort).toHaveBeenCalledWith({ createdAt: -1 });
       expect(mockFind.skip).toHaveBeenCalledWith(0);
       expect(mockFind.limit).toHaveBeenCalledWith(10);
@@ -130,6 +143,70 @@ describe('FigureController', () => {
       );
     });
 
+    it('should return a next cursor instead of page counts in cursor mode', async () => {
+      mockRequest.query = { cursor: '', limit: '2' };
+      const ids = ['000000000000000000000001', '000000000000000000000002', '000000000000000000000003'];
+      const mockFigures = ids.map((id, i) => ({ _id: id, name: `Figure ${i}`, createdAt: new Date(`2024-01-0${3 - i}`) }));
+
+      const mockFind = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue(mockFigures)
+      };
+      MockedFigure.find = jest.fn().mockReturnValue(mockFind);
+      MockedFigure.countDocuments = jest.fn();
+
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(MockedFigure.countDocuments).not.toHaveBeenCalled();
+      expect(mockFind.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+      expect(mockFind.limit).toHaveBeenCalledWith(3);
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(body).toEqual(expect.objectContaining({ success: true, count: 2, limit: 2, data: mockFigures.slice(0, 2) }));
+      expect(body).not.toHaveProperty('total');
+
+      // The next page continues after the last figure returned
+      mockRequest.query = { cursor: body.nextCursor, limit: '2' };
+      mockFind.limit.mockResolvedValue([mockFigures[2]]);
+
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(MockedFigure.find).toHaveBeenLastCalledWith(expect.objectContaining({
+        $and: [{
+          $or: [
+            { createdAt: { $lt: mockFigures[1].createdAt } },
+            { createdAt: null },
+            { createdAt: mockFigures[1].createdAt, _id: { $lt: new mongoose.Types.ObjectId(ids[1]) } }
+          ]
+        }]
+      }));
+      expect((mockResponse.json as jest.Mock).mock.calls[1][0]).toEqual(expect.objectContaining({
+        count: 1,
+        nextCursor: null
+      }));
+    });
+
+    it('should reject a cursor issued for another sort', async () => {
+      const mockFind = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue([
+          { _id: '000000000000000000000001', name: 'Miku' },
+          { _id: '000000000000000000000002', name: 'Rin' }
+        ])
+      };
+      MockedFigure.find = jest.fn().mockReturnValue(mockFind);
+      mockRequest.query = { cursor: '', limit: '1', sortBy: 'name', sortOrder: 'asc' };
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+      const { nextCursor } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+
+      mockRequest.query = { cursor: nextCursor, limit: '1' };
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(422);
+      expect(mockResponse.json).toHaveBeenLastCalledWith(expect.objectContaining({
+        errors: ['cursor does not match sortBy and sortOrder']
+      }));
+    });
+
     it('should handle server errors', async () => {
       MockedFigure.find = jest.fn().mockImplementation(() => {
         throw new Error('Database error');
@@ -162,7 +239,8 @@ describe('FigureController', () => {
 
       expect(MockedFigure.findOne).toHaveBeenCalledWith({
         _id: 'fig123',
-        userId: '000000000000000000000123'
+        userId: '000000000000000000000123',
+        deletedAt: null
       });
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith({
@@ -346,7 +424,8 @@ describe('FigureController', () => {
 
       expect(MockedFigure.findOne).toHaveBeenCalledWith({
         _id: 'fig123',
-        userId: '000000000000000000000123'
+        userId: '000000000000000000000123',
+        deletedAt: null
       });
       expect(MockedFigure.findByIdAndUpdate).toHaveBeenCalledWith(
         'fig123',
@@ -379,7 +458,7 @@ describe('FigureController', () => {
   });
 
   describe('deleteFigure', () => {
-    it('should delete figure successfully', async () => {
+    it('should move figure to trash', async () => {
       mockRequest.params = { id: 'fig123' };
 
       const mockFigure = {
@@ -390,19 +469,25 @@ describe('FigureController', () => {
       };
 
       MockedFigure.findOne = jest.fn().mockResolvedValue(mockFigure);
-      MockedFigure.deleteOne = jest.fn().mockResolvedValue({ deletedCount: 1 });
+      MockedFigure.updateOne = jest.fn().mockResolvedValue({ modifiedCount: 1 });
 
       await figureController.deleteFigure(mockRequest as Request, mockResponse as Response);
 
       expect(MockedFigure.findOne).toHaveBeenCalledWith({
         _id: 'fig123',
-        userId: '000000000000000000000123'
+        userId: '000000000000000000000123',
+        deletedAt: null
       });
-      expect(MockedFigure.deleteOne).toHaveBeenCalledWith({ _id: 'fig123' });
+      expect(MockedFigure.deleteOne).not.toHaveBeenCalled();
+      expect(MockedFigure.updateOne).toHaveBeenCalledWith(
+        { _id: 'fig123' },
+        { $set: { deletedAt: expect.any(Date), purgeAt: expect.any(Date) } }
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: true,
-        message: 'Figure removed successfully'
+        message: 'Figure moved to trash',
+        data: { deletedAt: expect.any(Date), purgeAt: expect.any(Date) }
       });
     });
 
@@ -697,10 +782,15 @@ describe('FigureController', () => {
                   })
                 })
               ])
-            })
+            }),
+            {
+              $or: [
+                { location: expect.objectContaining({ $regex: 'Shelf' }) },
+                { 'copies.location': expect.objectContaining({ $regex: 'Shelf' }) }
+              ]
+            }
           ]),
-          scale: expect.objectContaining({ $regex: expect.any(String) }),
-          location: expect.objectContaining({ $regex: 'Shelf' })
+          scale: expect.objectContaining({ $regex: expect.any(String) })
         })
       );
     });
@@ -713,8 +803,8 @@ describe('FigureController', () => {
         { _id: 'Alter', count: 3 }
       ];
       const mockStatusCounts = [
-        { _id: 'owned', count: 6 },
-        { _id: 'ordered', count: 2 }
+        { _id: 'owned', count: 6, copies: 7 },
+        { _id: 'ordered', count: 2, copies: 2 }
       ];
       const mockV3ManufacturerStats = [{ _id: 'GSC', count: 5 }];
       const mockDistributorStats = [{ _id: 'Native', count: 2 }];
@@ -738,12 +828,14 @@ describe('FigureController', () => {
         success: true,
         data: {
           totalCount: 8,
-          statusCounts: { owned: 6, ordered: 2, wished: 0 },
+          totalCopies: 9,
+          statusCounts: { owned: 6, ordered: 2, wished: 0, sold: 0, traded: 0 },
           manufacturerStats: mockManufacturerStats,
           v3ManufacturerStats: mockV3ManufacturerStats,
           distributorStats: mockDistributorStats,
           scaleStats: [{ _id: '1/8', count: 6 }],
           locationStats: [{ _id: 'Shelf A', count: 4 }],
+          storageStats: [],
           originStats: [{ _id: 'Fate', count: 3 }],
           categoryStats: [{ _id: 'Scale', count: 5 }],
           activeStatus: null
@@ -751,6 +843,29 @@ describe('FigureController', () => {
       });
     });
 
+    it('should leave sold and traded figures out of the unfiltered totals', async () => {
+      MockedFigure.countDocuments = jest.fn().mockResolvedValue(6);
+      MockedFigure.aggregate = jest.fn()
+        .mockResolvedValueOnce([
+          { _id: 'owned', count: 6, copies: 6 },
+          { _id: 'sold', count: 3, copies: 3 },
+          { _id: 'traded', count: 1, copies: 1 }
+        ])
+        .mockResolvedValue([]);
+
+      await figureController.getFigureStats(mockRequest as Request, mockResponse as Response);
+
+      expect(MockedFigure.countDocuments).toHaveBeenCalledWith(expect.objectContaining({
+        collectionStatus: { $nin: ['sold', 'traded'] }
+      }));
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          totalCopies: 6,
+          statusCounts: { owned: 6, ordered: 0, wished: 0, sold: 3, traded: 1 }
+        })
+      }));
+    });
+
     it('should handle invalid user ID during stats retrieval', async () => {
       mockRequest.user = { id: 'INVALID_USER_ID' };
 
@@ -1466,6 +1581,50 @@ describe('FigureController', () => {
       );
     });
 
+    it('should sort by several keys, each in its own direction', async () => {
+      mockRequest.query = { sortBy: 'manufacturer,-rating,releaseDate', sortOrder: 'asc' };
+
+      const mockFind = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue([])
+      };
+      MockedFigure.find = jest.fn().mockReturnValue(mockFind);
+      MockedFigure.countDocuments = jest.fn().mockResolvedValue(0);
+
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockFind.sort).toHaveBeenCalledWith({ manufacturer: 1, rating: -1, firstReleaseDate: 1 });
+    });
+
+    it('should sort the legacy price key by purchase price', async () => {
+      mockRequest.query = { sortBy: 'price' };
+
+      const mockFind = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue([])
+      };
+      MockedFigure.find = jest.fn().mockReturnValue(mockFind);
+      MockedFigure.countDocuments = jest.fn().mockResolvedValue(0);
+
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(mockFind.sort).toHaveBeenCalledWith({ 'purchaseInfo.price': -1 });
+    });
+
+    it('should return 422 for a sort key listed twice', async () => {
+      mockRequest.query = { sortBy: 'name,-name' };
+
+      await figureController.getFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(422);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        errors: ['sortBy lists "name" more than once']
+      }));
+    });
+
     it('should return 422 for invalid sortOrder parameter', async () => {
       mockRequest.query = { sortOrder: 'invalid' };
 
@@ -2229,7 +2388,37 @@ describe('FigureController', () => {
 
       expect(MockedFigure.find).toHaveBeenCalledWith(
         expect.objectContaining({
-          location: expect.objectContaining({ $in: expect.any(Array) })
+          $and: [{
+            $or: [
+              { location: expect.objectContaining({ $in: expect.any(Array) }) },
+              { 'copies.location': expect.objectContaining({ $in: expect.any(Array) }) }
+            ]
+          }]
+        })
+      );
+    });
+
+    it('should filter by figure condition on the figure or any copy', async () => {
+      mockRequest.query = { figureCondition: 'sealed,likenew' };
+
+      const mockFind = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue([])
+      };
+      MockedFigure.find = jest.fn().mockReturnValue(mockFind);
+      MockedFigure.countDocuments = jest.fn().mockResolvedValue(0);
+
+      await figureController.filterFigures(mockRequest as Request, mockResponse as Response);
+
+      expect(MockedFigure.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          $and: [{
+            $or: [
+              { figureCondition: { $in: ['sealed', 'likenew'] } },
+              { 'copies.figureCondition': { $in: ['sealed', 'likenew'] } }
+            ]
+          }]
         })
       );
     });
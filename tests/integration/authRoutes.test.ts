@@ -613,6 +613,7 @@ describe('Auth Routes Integration', () => {
         email: 'profile@example.com',
         isAdmin: false,
         colorProfile: 'dark',
+        preferredCurrency: 'USD',
         createdAt: expect.any(String),
         updatedAt: expect.any(String)
       });
@@ -244,7 +244,7 @@ describe('End-to-End Workflow Tests', () => {
       
       // Get initial counts
       const initialUserCount = await db.collection('users').countDocuments();
-      const initialFigureCount = await db.collection('figures').countDocuments();
+      const initialFigureCount = await db.collection('figures').countDocuments({ deletedAt: null });
       
       console.log(`   📊 Initial state: ${initialUserCount} users, ${initialFigureCount} figures`);
 
@@ -300,11 +300,11 @@ describe('End-to-End Workflow Tests', () => {
       const deleteResponse = await user1API.delete(`/figures/${figureId}`);
       expect(deleteResponse.status).toBe(200);
 
-      // Verify deletion in database
+      // Verify the figure was moved to the trash in the database
       const deletedDbFigure = await db.collection('figures').findOne({ _id: new ObjectId(figureId) });
-      expect(deletedDbFigure).toBeNull();
+      expect(deletedDbFigure?.deletedAt).toBeInstanceOf(Date);
 
-      const finalFigureCount = await db.collection('figures').countDocuments();
+      const finalFigureCount = await db.collection('figures').countDocuments({ deletedAt: null });
       expect(finalFigureCount).toBe(initialFigureCount);
 
       console.log('   ✅ Delete operations maintain database consistency');
@@ -0,0 +1,188 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { MAX_BULK_FIGURES } from '../../src/controllers/bulkController';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('PATCH /figures/bulk', () => {
+  let testUser: any;
+  let authToken: string;
+  let figures: any[];
+  let otherUsersFigure: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'bulkuser',
+      email: 'bulk@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    figures = await Figure.insertMany([
+      {
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        location: 'Closet',
+        tags: ['vocaloid', 'boxed'],
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Kagamine Rin',
+        location: 'Closet',
+        tags: ['vocaloid'],
+        collectionStatus: 'ordered',
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Saber',
+        location: 'Living Room',
+        userId: testUser._id
+      }
+    ]);
+
+    otherUsersFigure = await Figure.create({
+      manufacturer: 'Alter',
+      name: 'Not Mine',
+      location: 'Elsewhere',
+      userId: new mongoose.Types.ObjectId()
+    });
+  });
+
+  it('should update the listed figures and report per-ID results', async () => {
+    const ids = [figures[0]._id.toString(), figures[1]._id.toString()];
+
+    const response = await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        ids,
+        update: { location: 'Glass Case 2', storageDetail: 'Top shelf', figureCondition: 'likenew' }
+      })
+      .expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.data.matched).toBe(2);
+    expect(response.body.data.results).toEqual([
+      { id: ids[0], status: 'updated' },
+      { id: ids[1], status: 'updated' }
+    ]);
+
+    const updated = await Figure.find({ _id: { $in: ids } });
+    updated.forEach(figure => {
+      expect(figure.location).toBe('Glass Case 2');
+      expect(figure.storageDetail).toBe('Top shelf');
+      expect(figure.figureCondition).toBe('likenew');
+    });
+
+    const untouched = await Figure.findById(figures[2]._id);
+    expect(untouched?.location).toBe('Living Room');
+  });
+
+  it('should add and remove tags in one request without duplicating', async () => {
+    const ids = [figures[0]._id.toString(), figures[1]._id.toString()];
+
+    await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids, update: { addTags: ['displayed', 'vocaloid'], removeTags: ['boxed'] } })
+      .expect(200);
+
+    const miku = await Figure.findById(figures[0]._id);
+    const rin = await Figure.findById(figures[1]._id);
+    expect(miku?.tags).toEqual(['vocaloid', 'displayed']);
+    expect(rin?.tags).toEqual(['vocaloid', 'displayed']);
+  });
+
+  it('should not touch figures owned by another user', async () => {
+    const ids = [figures[0]._id.toString(), otherUsersFigure._id.toString()];
+
+    const response = await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids, update: { collectionStatus: 'wished' } })
+      .expect(200);
+
+    expect(response.body.data.results).toEqual([
+      { id: ids[0], status: 'updated' },
+      { id: ids[1], status: 'not_found' }
+    ]);
+
+    const other = await Figure.findById(otherUsersFigure._id);
+    expect(other?.collectionStatus).toBe('owned');
+  });
+
+  it('should target figures with a filterFigures-style filter', async () => {
+    const response = await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ filter: { location: 'Closet' }, update: { location: 'Shelf A' } })
+      .expect(200);
+
+    expect(response.body.data.results).toHaveLength(2);
+    expect(await Figure.countDocuments({ userId: testUser._id, location: 'Shelf A' })).toBe(2);
+    expect(await Figure.countDocuments({ location: 'Elsewhere' })).toBe(1);
+  });
+
+  it('should refuse a filter that matches more than the bulk limit', async () => {
+    await Figure.insertMany(Array.from({ length: MAX_BULK_FIGURES }, (_, i) => ({
+      manufacturer: 'Kotobukiya',
+      name: `Figure ${i}`,
+      userId: testUser._id
+    })));
+
+    const response = await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ filter: { status: 'owned' }, update: { location: 'Shelf A' } })
+      .expect(422);
+
+    expect(response.body.errors[0]).toContain(`more than ${MAX_BULK_FIGURES} figures`);
+    expect(await Figure.countDocuments({ location: 'Shelf A' })).toBe(0);
+  });
+
+  it('should store values starting with $ literally', async () => {
+    await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids: [figures[2]._id.toString()], update: { location: '$name' } })
+      .expect(200);
+
+    const saber = await Figure.findById(figures[2]._id);
+    expect(saber?.location).toBe('$name');
+  });
+
+  it('should reject requests with both ids and filter', async () => {
+    await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids: [figures[0]._id.toString()], filter: { status: 'owned' }, update: { location: 'X' } })
+      .expect(422);
+  });
+
+  it('should reject tags that are both added and removed', async () => {
+    const response = await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids: [figures[0]._id.toString()], update: { addTags: ['a'], removeTags: ['a'] } })
+      .expect(422);
+
+    expect(response.body.errors[0].message).toContain('both added and removed');
+  });
+
+  it('should reject an empty update', async () => {
+    await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids: [figures[0]._id.toString()], update: {} })
+      .expect(422);
+  });
+});
@@ -0,0 +1,134 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure release calendar', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'calendaruser',
+      email: 'calendar@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await Figure.create([
+      {
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        collectionStatus: 'ordered',
+        releases: [
+          { date: new Date('2024-03-15'), price: 18000, isRerelease: false },
+          { date: new Date('2025-01-20'), price: 19800, isRerelease: true }
+        ],
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Saber',
+        collectionStatus: 'wished',
+        releases: [{ date: new Date('2024-03-15') }],
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Already Owned',
+        collectionStatus: 'owned',
+        releases: [{ date: new Date('2024-03-15') }],
+        userId: testUser._id
+      }
+    ]);
+  });
+
+  describe('GET /figures/calendar', () => {
+    it('should group releases of ordered and wished figures by day', async () => {
+      const response = await request(app)
+        .get('/figures/calendar')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.count).toBe(3);
+      expect(response.body.data.map((day: any) => day.date)).toEqual(['2024-03-15', '2025-01-20']);
+      expect(response.body.data[0].releases.map((r: any) => r.name)).toEqual(['Hatsune Miku', 'Saber']);
+      expect(response.body.data[1].releases[0]).toEqual(expect.objectContaining({
+        name: 'Hatsune Miku',
+        isRerelease: true,
+        collectionStatus: 'ordered'
+      }));
+    });
+
+    it('should filter by date range and status', async () => {
+      const response = await request(app)
+        .get('/figures/calendar?from=2024-01-01&to=2024-12-31&status=ordered')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].releases.map((r: any) => r.name)).toEqual(['Hatsune Miku']);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await request(app)
+        .get('/figures/calendar?from=2025-01-01&to=2024-01-01')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(422);
+    });
+  });
+
+  describe('calendar feed', () => {
+    const createFeed = () => request(app)
+      .post('/figures/calendar/feed')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(201);
+
+    const feedPath = (url: string) => new URL(url).pathname;
+
+    it('should serve an iCalendar feed without other authentication', async () => {
+      const created = await createFeed();
+
+      const response = await request(app)
+        .get(feedPath(created.body.data.url))
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.text).toContain('BEGIN:VCALENDAR');
+      expect(response.text.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+      expect(response.text).toContain('SUMMARY:Rerelease: Hatsune Miku (Good Smile Company)');
+      expect(response.text).not.toContain('Already Owned');
+    });
+
+    it('should stop serving the old URL after rotation or revocation', async () => {
+      const first = await createFeed();
+      const second = await createFeed();
+
+      await request(app).get(feedPath(first.body.data.url)).expect(404);
+      await request(app).get(feedPath(second.body.data.url)).expect(200);
+
+      await request(app)
+        .delete('/figures/calendar/feed')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app).get(feedPath(second.body.data.url)).expect(404);
+    });
+
+    it('should not store the token itself', async () => {
+      const created = await createFeed();
+      const token = feedPath(created.body.data.url).split('/').pop()!.replace('.ics', '');
+
+      const stored = await User.findById(testUser._id).select('+calendarFeedTokenHash');
+      expect(stored?.calendarFeedTokenHash).toBeDefined();
+      expect(stored?.calendarFeedTokenHash).not.toBe(token);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure copies', () => {
+  let testUser: any;
+  let authToken: string;
+  let figure: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'copyuser',
+      email: 'copy@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    figure = await Figure.create({
+      manufacturer: 'Good Smile Company',
+      name: 'Hatsune Miku',
+      location: 'Shelf A',
+      figureCondition: 'sealed',
+      quantity: 2,
+      purchaseInfo: { price: 150, currency: 'USD' },
+      userId: testUser._id
+    });
+  });
+
+  const addCopy = (body: Record<string, unknown>) => request(app)
+    .post(`/figures/${figure._id}/copies`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  describe('POST /figures/:id/copies', () => {
+    it('should turn the existing quantity into copies before adding the new one', async () => {
+      const response = await addCopy({
+        location: 'Storage Closet',
+        figureCondition: 'good',
+        boxCondition: 'fair',
+        purchasePrice: 90,
+        merchantName: 'Mandarake'
+      }).expect(201);
+
+      expect(response.body.quantity).toBe(3);
+      expect(response.body.data).toEqual(expect.objectContaining({
+        location: 'Storage Closet',
+        figureCondition: 'good',
+        boxCondition: 'fair',
+        purchaseInfo: expect.objectContaining({ price: 90 }),
+        merchant: expect.objectContaining({ name: 'Mandarake' })
+      }));
+
+      const stored = await Figure.findById(figure._id);
+      expect(stored?.quantity).toBe(3);
+      expect(stored?.copies?.map(c => c.location)).toEqual(['Shelf A', 'Shelf A', 'Storage Closet']);
+      expect(stored?.copies?.[0].purchaseInfo?.price).toBe(150);
+      expect(stored?.copies?.[1].purchaseInfo?.price).toBeUndefined();
+    });
+
+    it('should reject an invalid condition', async () => {
+      await addCopy({ figureCondition: 'destroyed' }).expect(422);
+    });
+
+    it('should return 404 for a trashed figure', async () => {
+      await Figure.updateOne({ _id: figure._id }, { $set: { deletedAt: new Date() } });
+      await addCopy({ location: 'Shelf B' }).expect(404);
+    });
+  });
+
+  describe('PATCH /figures/:id/copies/:copyId', () => {
+    it('should update a single copy', async () => {
+      await addCopy({ location: 'Shelf B' }).expect(201);
+      const stored = await Figure.findById(figure._id);
+      const copyId = stored!.copies![1]._id;
+
+      const response = await request(app)
+        .patch(`/figures/${figure._id}/copies/${copyId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ boxCondition: 'poor', boxConditionNotes: 'Crushed corner' })
+        .expect(200);
+
+      expect(response.body.data).toEqual(expect.objectContaining({
+        location: 'Shelf A',
+        boxCondition: 'poor',
+        boxConditionNotes: 'Crushed corner'
+      }));
+    });
+
+    it('should return 404 for an unknown copy', async () => {
+      await request(app)
+        .patch(`/figures/${figure._id}/copies/${new mongoose.Types.ObjectId()}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ location: 'Shelf B' })
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /figures/:id/copies/:copyId', () => {
+    it('should remove a copy and lower the quantity', async () => {
+      await addCopy({ location: 'Shelf B' }).expect(201);
+      const stored = await Figure.findById(figure._id);
+
+      const response = await request(app)
+        .delete(`/figures/${figure._id}/copies/${stored!.copies![0]._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.quantity).toBe(2);
+      expect(response.body.data).toHaveLength(2);
+    });
+
+    it('should not remove the only copy', async () => {
+      const single = await Figure.create({
+        manufacturer: 'Alter',
+        name: 'Saber',
+        userId: testUser._id,
+        copies: [{ location: 'Display' }]
+      });
+
+      await request(app)
+        .delete(`/figures/${single._id}/copies/${single.copies![0]._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(422);
+    });
+  });
+
+  describe('filters and stats', () => {
+    beforeEach(async () => {
+      await addCopy({ location: 'Storage Closet', figureCondition: 'fair' }).expect(201);
+    });
+
+    it('should match figures by the location or condition of any copy', async () => {
+      const byLocation = await request(app)
+        .get('/figures/filter?location=Storage Closet')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(byLocation.body.data.map((f: any) => f.name)).toEqual(['Hatsune Miku']);
+
+      const byCondition = await request(app)
+        .get('/figures/filter?figureCondition=fair')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(byCondition.body.total).toBe(1);
+    });
+
+    it('should count copies in the stats', async () => {
+      await Figure.create({
+        manufacturer: 'Alter',
+        name: 'Saber',
+        location: 'Shelf A',
+        quantity: 2,
+        userId: testUser._id
+      });
+
+      const response = await request(app)
+        .get('/figures/stats')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalCount).toBe(2);
+      expect(response.body.data.totalCopies).toBe(5);
+      expect(response.body.data.locationStats).toEqual(expect.arrayContaining([
+        { _id: 'Shelf A', count: 3 },
+        { _id: 'Storage Closet', count: 1 }
+      ]));
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Cursor pagination', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'cursoruser',
+      email: 'cursor@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await Figure.insertMany(['1/7', '1/8', null, '1/7', '1/4', null, '1/6'].map((scale, i) => ({
+      manufacturer: 'Alter',
+      name: `Figure ${i}`,
+      ...(scale ? { scale } : {}),
+      userId: testUser._id
+    })));
+  });
+
+  // Follows nextCursor until the last page
+  const collectPages = async (path: string) => {
+    const names: string[] = [];
+    let cursor = '';
+    for (let pages = 0; pages < 20; pages++) {
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await request(app)
+        .get(`${path}${separator}limit=3&cursor=${cursor}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      names.push(...response.body.data.map((figure: any) => figure.name));
+      if (!response.body.nextCursor) break;
+      cursor = response.body.nextCursor;
+    }
+    return names;
+  };
+
+  it('should page through every figure exactly once', async () => {
+    const names = await collectPages('/figures');
+
+    expect(names).toHaveLength(7);
+    expect(new Set(names).size).toBe(7);
+  });
+
+  it('should keep figures without the sort field in order', async () => {
+    for (const order of [1, -1] as const) {
+      const expected = (await Figure.find({ userId: testUser._id }).sort({ scale: order, _id: order }))
+        .map(figure => figure.name);
+
+      expect(await collectPages(`/figures?sortBy=scale&sortOrder=${order === 1 ? 'asc' : 'desc'}`)).toEqual(expected);
+    }
+  });
+
+  it('should not shift pages when figures are added mid-scroll', async () => {
+    const first = await request(app)
+      .get('/figures?limit=3&cursor=')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    // Newest first: a figure added now sorts before the current position
+    await Figure.create({ manufacturer: 'Alter', name: 'Added later', userId: testUser._id });
+
+    const second = await request(app)
+      .get(`/figures?limit=3&cursor=${first.body.nextCursor}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const seen = [...first.body.data, ...second.body.data].map((figure: any) => figure.name);
+    expect(new Set(seen).size).toBe(6);
+    expect(seen).not.toContain('Added later');
+  });
+
+  it('should reject malformed cursors', async () => {
+    await request(app)
+      .get('/figures/filter?cursor=not-a-cursor')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+
+  it('should keep page-number mode without a cursor', async () => {
+    const response = await request(app)
+      .get('/figures?limit=3&page=2')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body).toEqual(expect.objectContaining({ page: 2, pages: 3, total: 7 }));
+  });
+});
@@ -0,0 +1,173 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import FigureHistory from '../../src/models/FigureHistory';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure custom fields', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'customfielduser',
+      email: 'customfields@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+  });
+
+  const defineField = (body: Record<string, unknown>) => request(app)
+    .post('/figures/custom-fields')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  const createFigure = (body: Record<string, unknown>) => request(app)
+    .post('/figures')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ manufacturer: 'Alter', ...body });
+
+  describe('field definitions', () => {
+    it('should create and list fields with keys derived from their names', async () => {
+      const created = await defineField({ name: 'Display lighting', type: 'enum', options: ['LED', 'None'] })
+        .expect(201);
+      expect(created.body.data).toEqual(expect.objectContaining({
+        key: 'display_lighting',
+        type: 'enum',
+        options: ['LED', 'None']
+      }));
+
+      await defineField({ name: 'Signed', type: 'boolean' }).expect(201);
+
+      const response = await request(app)
+        .get('/figures/custom-fields')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(response.body.data.map((f: any) => f.key)).toEqual(['display_lighting', 'signed']);
+    });
+
+    it('should reject duplicate names, enums without options and type changes', async () => {
+      const created = await defineField({ name: 'Signed', type: 'boolean' }).expect(201);
+
+      await defineField({ name: 'signed', type: 'text' }).expect(409);
+      await defineField({ name: 'Lighting', type: 'enum' }).expect(422);
+      await request(app)
+        .patch(`/figures/custom-fields/${created.body.data._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ type: 'text' })
+        .expect(422);
+    });
+
+    it('should keep options that figures still use', async () => {
+      const created = await defineField({ name: 'Lighting', type: 'enum', options: ['LED', 'None'] }).expect(201);
+      await createFigure({ name: 'Saber', customFields: { lighting: 'LED' } }).expect(201);
+
+      await request(app)
+        .patch(`/figures/custom-fields/${created.body.data._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ options: ['None'] })
+        .expect(409);
+
+      const renamed = await request(app)
+        .patch(`/figures/custom-fields/${created.body.data._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Display lighting', options: ['LED', 'None', 'Spotlight'] })
+        .expect(200);
+      expect(renamed.body.data).toEqual(expect.objectContaining({ key: 'lighting', name: 'Display lighting' }));
+    });
+
+    it('should remove the values of a deleted field from figures', async () => {
+      const created = await defineField({ name: 'Signed', type: 'boolean' }).expect(201);
+      await createFigure({ name: 'Saber', customFields: { signed: true } }).expect(201);
+
+      const response = await request(app)
+        .delete(`/figures/custom-fields/${created.body.data._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(response.body.data.figuresUpdated).toBe(1);
+
+      const figure = await Figure.findOne({ name: 'Saber' }).lean();
+      expect(figure?.customFields?.signed).toBeUndefined();
+
+      const history = await FigureHistory.findOne({ figureId: figure!._id, action: 'update' }).lean();
+      expect(history?.source).toBe('bulk');
+      expect(history?.changes).toEqual([
+        expect.objectContaining({ field: 'customFields', oldValue: { signed: true } })
+      ]);
+    });
+  });
+
+  describe('values on figures', () => {
+    beforeEach(async () => {
+      await defineField({ name: 'Shelf height', type: 'number' }).expect(201);
+      await defineField({ name: 'Signed', type: 'boolean' }).expect(201);
+      await defineField({ name: 'Displayed since', type: 'date' }).expect(201);
+    });
+
+    it('should validate values on create and update', async () => {
+      await createFigure({ name: 'Saber', customFields: { shelf_height: 'tall' } }).expect(422);
+      await createFigure({ name: 'Saber', customFields: { colour: 'red' } }).expect(422);
+
+      const created = await createFigure({ name: 'Saber', customFields: { shelf_height: 30, signed: true } })
+        .expect(201);
+      expect(created.body.data.customFields).toEqual({ shelf_height: 30, signed: true });
+
+      const updated = await request(app)
+        .put(`/figures/${created.body.data._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Saber', manufacturer: 'Alter', customFields: { signed: null, displayed_since: '2024-05-01' } })
+        .expect(200);
+      expect(updated.body.data.customFields).toEqual({
+        shelf_height: 30,
+        displayed_since: '2024-05-01T00:00:00.000Z'
+      });
+    });
+
+    it('should filter and sort by custom fields', async () => {
+      await createFigure({ name: 'Saber', customFields: { shelf_height: 30, signed: true } }).expect(201);
+      await createFigure({ name: 'Rin', customFields: { shelf_height: 12 } }).expect(201);
+      await createFigure({ name: 'Miku', customFields: { shelf_height: 20, signed: true } }).expect(201);
+
+      const signed = await request(app)
+        .get('/figures/filter?cf.signed=true&sortBy=cf.shelf_height&sortOrder=asc')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(signed.body.data.map((f: any) => f.name)).toEqual(['Miku', 'Saber']);
+
+      const short = await request(app)
+        .get('/figures/filter?cf.shelf_height=..20')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(short.body.data.map((f: any) => f.name).sort()).toEqual(['Miku', 'Rin']);
+
+      await request(app)
+        .get('/figures/filter?cf.colour=red')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+    });
+
+    it('should export custom fields as extra columns', async () => {
+      await createFigure({ name: 'Saber', customFields: { shelf_height: 30, displayed_since: '2024-05-01' } })
+        .expect(201);
+
+      const response = await request(app)
+        .get('/figures/export?format=json')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const [record] = JSON.parse(response.text);
+      expect(record).toEqual(expect.objectContaining({
+        'cf.shelf_height': 30,
+        'cf.signed': null,
+        'cf.displayed_since': '2024-05-01'
+      }));
+    });
+  });
+});
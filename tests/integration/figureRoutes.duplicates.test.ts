@@ -0,0 +1,65 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Duplicate figure report', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'duplicateuser',
+      email: 'duplicates@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await Figure.create([
+      { manufacturer: 'Alter', name: 'Saber', mfcId: 1001, userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Saber (synced)', mfcId: 1001, userId: testUser._id },
+      { manufacturer: 'Good Smile Company', name: 'Hatsune Miku', scale: '1/7', userId: testUser._id },
+      { manufacturer: 'good smile company', name: 'Hatsune Miku.', scale: '1/7', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Rin', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Saber', mfcId: 1001, userId: testUser._id, deletedAt: new Date() }
+    ]);
+  });
+
+  it('should group likely duplicates with a confidence score', async () => {
+    const response = await request(app)
+      .get('/figures/duplicates')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.total).toBe(2);
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ confidence: 1, reasons: ['mfcId'] }),
+      expect.objectContaining({ confidence: 0.9, reasons: ['name'] })
+    ]);
+    // Trashed figures are not reported
+    expect(response.body.data[0].figures.map((f: any) => f.name)).toEqual(['Saber', 'Saber (synced)']);
+  });
+
+  it('should leave out groups below minConfidence', async () => {
+    const response = await request(app)
+      .get('/figures/duplicates?minConfidence=0.95')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.map((group: any) => group.reasons)).toEqual([['mfcId']]);
+  });
+
+  it('should reject an out-of-range minConfidence', async () => {
+    await request(app)
+      .get('/figures/duplicates?minConfidence=2')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(422);
+  });
+});
@@ -0,0 +1,148 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import Shelf from '../../src/models/Shelf';
+import StorageNode from '../../src/models/StorageNode';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('GET /figures/export', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'exportuser',
+      email: 'export@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    const otherUserId = new mongoose.Types.ObjectId();
+
+    await Figure.insertMany([
+      {
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        scale: '1/8',
+        collectionStatus: 'owned',
+        releases: [{ date: new Date('2024-03-01'), price: 18000, currency: 'JPY' }],
+        purchaseInfo: { price: 120, currency: 'USD' },
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Saber, Lily',
+        scale: '1/7',
+        collectionStatus: 'wished',
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Someone Else',
+        userId: otherUserId
+      }
+    ]);
+  });
+
+  it('should export the whole collection as CSV by default', async () => {
+    const response = await request(app)
+      .get('/figures/export')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toMatch(/attachment; filename="figures-.*\.csv"/);
+
+    const lines = response.text.replace(/^\uFEFF/, '').trim().split('\r\n');
+    expect(lines).toHaveLength(3); // header + 2 figures
+    expect(lines[0].startsWith('id,name,manufacturer')).toBe(true);
+    expect(response.text).toContain('"Saber, Lily"');
+    expect(response.text).not.toContain('Someone Else');
+  });
+
+  it('should export flattened JSON records', async () => {
+    const response = await request(app)
+      .get('/figures/export?format=json')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('application/json');
+
+    const records = JSON.parse(response.text);
+    expect(records).toHaveLength(2);
+    const miku = records.find((r: any) => r.name === 'Hatsune Miku');
+    expect(miku.releasePrices).toBe('18000');
+    expect(miku.purchasePrice).toBe(120);
+    expect(miku.purchaseCurrency).toBe('USD');
+  });
+
+  it('should honor filterFigures filters', async () => {
+    const response = await request(app)
+      .get('/figures/export?format=json&status=wished&manufacturer=Alter')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const records = JSON.parse(response.text);
+    expect(records).toHaveLength(1);
+    expect(records[0].name).toBe('Saber, Lily');
+  });
+
+  it('should honor the shelf and storage location filters', async () => {
+    const miku = await Figure.findOne({ name: 'Hatsune Miku' });
+    const saber = await Figure.findOne({ name: 'Saber, Lily' });
+    const shelf = await Shelf.create({ userId: testUser._id, name: 'Display', figureIds: [miku!._id] });
+    const room = await StorageNode.create({ userId: testUser._id, name: 'Study', kind: 'room' });
+    const box = await StorageNode.create({
+      userId: testUser._id, name: 'Box 1', kind: 'box', parentId: room._id, ancestors: [room._id]
+    });
+    await Figure.updateOne({ _id: saber!._id }, { $set: { storageNodeId: box._id } });
+
+    const onShelf = await request(app)
+      .get(`/figures/export?format=json&shelf=${shelf._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(JSON.parse(onShelf.text).map((r: any) => r.name)).toEqual(['Hatsune Miku']);
+
+    const inRoom = await request(app)
+      .get(`/figures/export?format=json&storageNode=${room._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(JSON.parse(inRoom.text).map((r: any) => r.name)).toEqual(['Saber, Lily']);
+
+    await request(app)
+      .get(`/figures/export?storageNode=${new mongoose.Types.ObjectId()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+
+  it('should return an empty JSON array when nothing matches', async () => {
+    const response = await request(app)
+      .get('/figures/export?format=json&status=ordered')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(JSON.parse(response.text)).toEqual([]);
+  });
+
+  it('should reject an unknown format', async () => {
+    const response = await request(app)
+      .get('/figures/export?format=xml')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(422);
+
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should require authentication', async () => {
+    await request(app)
+      .get('/figures/export')
+      .expect(401);
+  });
+});
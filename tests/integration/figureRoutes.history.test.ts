@@ -0,0 +1,159 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import FigureHistory from '../../src/models/FigureHistory';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure history', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'historyuser',
+      email: 'history@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+  });
+
+  const createFigure = async () => {
+    const response = await request(app)
+      .post('/figures')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        scale: '1/8',
+        location: 'Closet',
+        collectionStatus: 'ordered'
+      })
+      .expect(201);
+    return response.body.data._id as string;
+  };
+
+  const getHistory = (figureId: string, query = '') => request(app)
+    .get(`/figures/${figureId}/history${query}`)
+    .set('Authorization', `Bearer ${authToken}`);
+
+  it('should record the initial values on create', async () => {
+    const figureId = await createFigure();
+
+    const response = await getHistory(figureId).expect(200);
+
+    expect(response.body.total).toBe(1);
+    const [entry] = response.body.data;
+    expect(entry.action).toBe('create');
+    expect(entry.source).toBe('user');
+    expect(entry.changedBy).toBe(testUser._id.toString());
+    expect(entry.changes).toEqual(expect.arrayContaining([
+      { field: 'name', newValue: 'Hatsune Miku' },
+      { field: 'collectionStatus', newValue: 'ordered' }
+    ]));
+  });
+
+  it('should record changed fields with old and new values on update', async () => {
+    const figureId = await createFigure();
+
+    await request(app)
+      .put(`/figures/${figureId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        scale: '1/8',
+        location: 'Shelf A',
+        collectionStatus: 'owned'
+      })
+      .expect(200);
+
+    const response = await getHistory(figureId).expect(200);
+
+    expect(response.body.total).toBe(2);
+    const [latest] = response.body.data;
+    expect(latest.action).toBe('update');
+    expect(latest.changes).toEqual([
+      { field: 'collectionStatus', oldValue: 'ordered', newValue: 'owned' },
+      { field: 'location', oldValue: 'Closet', newValue: 'Shelf A' }
+    ]);
+  });
+
+  it('should filter entries by changed field', async () => {
+    const figureId = await createFigure();
+
+    await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids: [figureId], update: { location: 'Shelf B' } })
+      .expect(200);
+
+    await request(app)
+      .patch('/figures/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ids: [figureId], update: { addTags: ['vocaloid'] } })
+      .expect(200);
+
+    const response = await getHistory(figureId, '?field=location').expect(200);
+
+    expect(response.body.total).toBe(2);
+    expect(response.body.data[0].source).toBe('bulk');
+    expect(response.body.data[0].changes).toEqual([
+      { field: 'location', oldValue: 'Closet', newValue: 'Shelf B' }
+    ]);
+    expect(response.body.data[1].action).toBe('create');
+  });
+
+  it('should record trash and restore', async () => {
+    const figureId = await createFigure();
+
+    await request(app)
+      .delete(`/figures/${figureId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    await request(app)
+      .post(`/figures/${figureId}/restore`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const response = await getHistory(figureId).expect(200);
+
+    expect(response.body.data.map((e: any) => e.action)).toEqual(['restore', 'delete', 'create']);
+    expect(response.body.data[1].changes.map((c: any) => c.field)).toEqual(['deletedAt', 'purgeAt']);
+  });
+
+  it('should keep history after the figure is purged', async () => {
+    const figureId = await createFigure();
+    await Figure.deleteOne({ _id: figureId });
+
+    const response = await getHistory(figureId).expect(200);
+    expect(response.body.total).toBe(1);
+  });
+
+  it('should return 404 for another user\'s figure', async () => {
+    const other = await Figure.create({
+      manufacturer: 'Alter',
+      name: 'Not Mine',
+      userId: new mongoose.Types.ObjectId()
+    });
+    await FigureHistory.create({
+      figureId: other._id,
+      userId: other.userId,
+      action: 'create',
+      changes: [{ field: 'name', newValue: 'Not Mine' }]
+    });
+
+    await getHistory(other._id.toString()).expect(404);
+  });
+
+  it('should reject an invalid field name', async () => {
+    const figureId = await createFigure();
+    await getHistory(figureId, '?field=$where').expect(422);
+  });
+});
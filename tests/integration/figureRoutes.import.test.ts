@@ -0,0 +1,181 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Generic CSV import', () => {
+  let testUser: any;
+  let authToken: string;
+
+  const csvContent = [
+    'Title,Maker,Scale,Barcode,Paid,Status',
+    'Hatsune Miku,Good Smile Company,1/8,4580416940001,120,owned',
+    'Kagamine Rin,Alter,1/7,,95.5,ordered',
+    ',Alter,1/7,,,owned',
+    'Megumin,Kadokawa,1/7,,,wished',
+    'Kagamine Rin,Alter,1/7,,,owned'
+  ].join('\n');
+
+  const mapping = {
+    Title: 'name',
+    Maker: 'manufacturer',
+    Scale: 'scale',
+    Barcode: 'jan',
+    Paid: 'purchasePrice',
+    Status: 'collectionStatus'
+  };
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'importuser',
+      email: 'import@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    // Already in the collection: matches the Megumin row by name + manufacturer
+    await Figure.create({
+      manufacturer: 'Kadokawa',
+      name: 'megumin',
+      userId: testUser._id
+    });
+  });
+
+  describe('POST /figures/import/headers', () => {
+    it('should return headers, sample rows and a suggested mapping', async () => {
+      const response = await request(app)
+        .post('/figures/import/headers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.headers).toEqual(['Title', 'Maker', 'Scale', 'Barcode', 'Paid', 'Status']);
+      expect(response.body.data.rowCount).toBe(5);
+      expect(response.body.data.sampleRows).toHaveLength(5);
+      expect(response.body.data.suggestedMapping).toEqual(mapping);
+    });
+
+    it('should reject a CSV without data rows', async () => {
+      const response = await request(app)
+        .post('/figures/import/headers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent: 'Title,Maker' })
+        .expect(422);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('POST /figures/import/preview', () => {
+    it('should report rows to create, invalid rows and duplicates without writing', async () => {
+      const response = await request(app)
+        .post('/figures/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent, mapping })
+        .expect(200);
+
+      const { summary, toCreate, invalid, duplicates } = response.body.data;
+      expect(summary).toEqual({ totalRows: 5, toCreate: 2, invalid: 1, duplicates: 2 });
+      expect(toCreate.map((r: any) => r.row)).toEqual([1, 2]);
+      expect(invalid[0].row).toBe(3);
+
+      const existingDuplicate = duplicates.find((d: any) => d.row === 4);
+      expect(existingDuplicate.matchedBy).toBe('nameManufacturer');
+      expect(existingDuplicate.existingFigureId).toBeDefined();
+
+      const inFileDuplicate = duplicates.find((d: any) => d.row === 5);
+      expect(inFileDuplicate.duplicateOfRow).toBe(2);
+
+      expect(await Figure.countDocuments({ userId: testUser._id })).toBe(1);
+    });
+
+    it('should flag rows that fail figureCreate validation', async () => {
+      const response = await request(app)
+        .post('/figures/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          csvContent: 'Title,Maker,Rating\nMiku,GSC,42',
+          mapping: { Title: 'name', Maker: 'manufacturer', Rating: 'rating' }
+        })
+        .expect(200);
+
+      expect(response.body.data.invalid).toHaveLength(1);
+      expect(response.body.data.invalid[0].errors[0]).toContain('rating');
+    });
+
+    it('should reject mappings to unknown fields', async () => {
+      const response = await request(app)
+        .post('/figures/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent, mapping: { Title: 'userId' } })
+        .expect(422);
+
+      expect(response.body.errors[0]).toContain('userId');
+    });
+  });
+
+  describe('POST /figures/import/commit', () => {
+    it('should create only valid, non-duplicate rows', async () => {
+      const response = await request(app)
+        .post('/figures/import/commit')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent, mapping })
+        .expect(201);
+
+      expect(response.body.data.created).toBe(2);
+      expect(response.body.data.skippedInvalid).toBe(1);
+      expect(response.body.data.skippedDuplicates).toBe(2);
+      expect(response.body.data.failedRows).toEqual([]);
+
+      const miku = await Figure.findOne({ userId: testUser._id, name: 'Hatsune Miku' });
+      expect(miku?.jan).toBe('4580416940001');
+      expect(miku?.purchaseInfo?.price).toBe(120);
+      expect(miku?.collectionStatus).toBe('owned');
+
+      const rin = await Figure.findOne({ userId: testUser._id, name: 'Kagamine Rin' });
+      expect(rin?.collectionStatus).toBe('ordered');
+    });
+
+    it('should also create duplicates when includeDuplicates is set', async () => {
+      const response = await request(app)
+        .post('/figures/import/commit')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent, mapping, includeDuplicates: true })
+        .expect(201);
+
+      expect(response.body.data.created).toBe(4);
+      expect(await Figure.countDocuments({ userId: testUser._id })).toBe(5);
+    });
+
+    it('should report rows the database rejects and keep the rest', async () => {
+      const insertMany = Figure.insertMany.bind(Figure);
+      const spy = jest.spyOn(Figure, 'insertMany').mockImplementationOnce((async (docs: any[]) => {
+        const [first] = await insertMany([docs[0]]);
+        throw Object.assign(new Error('E11000 duplicate key error'), {
+          writeErrors: [{ index: 1, err: { errmsg: 'E11000 duplicate key error' } }],
+          insertedDocs: [first]
+        });
+      }) as any);
+
+      const response = await request(app)
+        .post('/figures/import/commit')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csvContent, mapping })
+        .expect(201);
+      spy.mockRestore();
+
+      expect(response.body.data.created).toBe(1);
+      expect(response.body.data.failed).toBe(1);
+      expect(response.body.data.failedRows).toEqual([{ row: 2, errors: ['E11000 duplicate key error'] }]);
+      expect(await Figure.countDocuments({ userId: testUser._id, name: 'Hatsune Miku' })).toBe(1);
+    });
+  });
+});
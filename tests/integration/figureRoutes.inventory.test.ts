@@ -0,0 +1,105 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import Shelf from '../../src/models/Shelf';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('GET /figures/export/inventory', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'inventoryuser',
+      email: 'inventory@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await Figure.insertMany([
+      {
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        scale: '1/8',
+        jan: '4580416940123',
+        imageUrl: 'https://static.myfigurecollection.net/pics/figure/big/1.jpg',
+        purchaseInfo: { price: 120, currency: 'USD', date: new Date('2024-03-01') },
+        figureCondition: 'sealed',
+        location: 'Closet',
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Saber',
+        scale: '1/7',
+        purchaseInfo: { price: 80, currency: 'USD' },
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Wished Rin',
+        collectionStatus: 'wished',
+        userId: testUser._id
+      }
+    ]);
+  });
+
+  it('should render owned figures with a value total', async () => {
+    const response = await request(app)
+      .get('/figures/export/inventory?currency=USD')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.text).toContain('Hatsune Miku');
+    expect(response.text).toContain('4580416940123');
+    expect(response.text).toContain('Figure: Sealed');
+    expect(response.text).toContain('<img src="https://static.myfigurecollection.net/pics/figure/big/1.jpg"');
+    expect(response.text).not.toContain('Wished Rin');
+    expect(response.text).toContain('Total: 2 figures');
+    expect(response.text).toContain('200.00 USD');
+  });
+
+  it('should honor the filterFigures filters', async () => {
+    const response = await request(app)
+      .get('/figures/export/inventory?manufacturer=Alter&images=false')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.text).toContain('Saber');
+    expect(response.text).not.toContain('Hatsune Miku');
+    expect(response.text).not.toContain('<img');
+    expect(response.text).toContain('Total: 1 figure');
+  });
+
+  it('should honor the shelf and storage location filters', async () => {
+    const miku = await Figure.findOne({ name: 'Hatsune Miku' });
+    const shelf = await Shelf.create({ userId: testUser._id, name: 'Display', figureIds: [miku!._id] });
+
+    const response = await request(app)
+      .get(`/figures/export/inventory?shelf=${shelf._id}&images=false`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(response.text).toContain('Hatsune Miku');
+    expect(response.text).toContain('Total: 1 figure');
+
+    await request(app)
+      .get(`/figures/export/inventory?storageNode=${new mongoose.Types.ObjectId()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+
+  it('should reject unknown parameters', async () => {
+    await request(app)
+      .get('/figures/export/inventory?format=pdf')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(422);
+  });
+});
@@ -0,0 +1,145 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import MFCItem from '../../src/models/MFCItem';
+import Company from '../../src/models/Company';
+import RoleType from '../../src/models/RoleType';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('JAN barcode lookup', () => {
+  const SABER_JAN = '4580416940283';
+  const RIN_JAN = '4571245296085';
+  const SHARED_JAN = '4582642123454';
+
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'januser',
+      email: 'jan@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    const [manufacturerRole, distributorRole] = await RoleType.create([
+      { name: 'Manufacturer', kind: 'company' },
+      { name: 'Distributor', kind: 'company' }
+    ]);
+    const [alter, amiami] = await Company.create([
+      { name: 'Alter', category: 'company', subType: manufacturerRole._id },
+      { name: 'AmiAmi', category: 'company', subType: distributorRole._id }
+    ]);
+
+    await MFCItem.create([
+      {
+        mfcId: 1001,
+        mfcUrl: 'https://myfigurecollection.net/item/1001',
+        name: 'Saber',
+        scale: '1/7',
+        imageUrls: ['https://static.myfigurecollection.net/1001.jpg'],
+        companies: [
+          { companyId: amiami._id, roleId: distributorRole._id },
+          { companyId: alter._id, roleId: manufacturerRole._id }
+        ],
+        releases: [
+          { date: new Date('2024-05-01'), price: 18000, currency: 'JPY', isRerelease: false, jan: SABER_JAN },
+          { date: new Date('2025-02-01'), price: 19800, currency: 'JPY', isRerelease: true, jan: SHARED_JAN }
+        ]
+      },
+      {
+        mfcId: 1002,
+        mfcUrl: 'https://myfigurecollection.net/item/1002',
+        name: 'Saber (Alter Ver.)',
+        companies: [{ companyId: alter._id, roleId: manufacturerRole._id }],
+        releases: [{ isRerelease: false, jan: SHARED_JAN }]
+      }
+    ]);
+
+    await Figure.create({
+      manufacturer: 'Alter', name: 'Rin', userId: testUser._id, releases: [{ isRerelease: false, jan: RIN_JAN }]
+    });
+  });
+
+  const lookup = (jan: string) => request(app)
+    .get(`/figures/lookup/jan/${jan}`)
+    .set('Authorization', `Bearer ${authToken}`);
+
+  const fromJan = (body: Record<string, unknown>) => request(app)
+    .post('/figures/from-jan')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  it('should find catalog items by the JAN of one of their releases', async () => {
+    const response = await lookup(SABER_JAN).expect(200);
+
+    expect(response.body.data.owned).toEqual([]);
+    expect(response.body.data.catalog).toEqual([
+      expect.objectContaining({
+        mfcId: 1001,
+        name: 'Saber',
+        manufacturer: 'Alter',
+        release: expect.objectContaining({ price: 18000, jan: SABER_JAN })
+      })
+    ]);
+  });
+
+  it('should find figures already in the collection', async () => {
+    const response = await lookup(RIN_JAN).expect(200);
+
+    expect(response.body.data.owned).toEqual([
+      expect.objectContaining({ name: 'Rin', matchedOn: 'release' })
+    ]);
+  });
+
+  it('should reject a barcode with a wrong check digit', async () => {
+    await lookup('4580416940284').expect(422);
+    await fromJan({ jan: '4580416940284' }).expect(422);
+  });
+
+  it('should create a figure from the only catalog match', async () => {
+    const response = await fromJan({ jan: SABER_JAN, collectionStatus: 'ordered' }).expect(201);
+
+    expect(response.body.created).toBe(true);
+    expect(response.body.data).toEqual(expect.objectContaining({
+      name: 'Saber',
+      manufacturer: 'Alter',
+      scale: '1/7',
+      mfcId: 1001,
+      mfcLink: 'https://myfigurecollection.net/item/1001',
+      jan: SABER_JAN,
+      collectionStatus: 'ordered',
+      imageUrl: 'https://static.myfigurecollection.net/1001.jpg'
+    }));
+    expect(response.body.data.releases).toHaveLength(2);
+    expect(response.body.data.companyRoles).toEqual(expect.arrayContaining([
+      expect.objectContaining({ companyName: 'Alter', roleName: 'Manufacturer' })
+    ]));
+
+    // Scanning the same box again points at the figure already added
+    const again = await fromJan({ jan: SABER_JAN }).expect(409);
+    expect(again.body.data.owned).toEqual([expect.objectContaining({ name: 'Saber', matchedOn: 'jan' })]);
+  });
+
+  it('should return candidates when several catalog items match', async () => {
+    const response = await fromJan({ jan: SHARED_JAN }).expect(200);
+
+    expect(response.body.created).toBe(false);
+    expect(response.body.data.candidates.map((c: any) => c.mfcId)).toEqual([1001, 1002]);
+
+    const chosen = await fromJan({ jan: SHARED_JAN, mfcId: 1002 }).expect(201);
+    expect(chosen.body.data.name).toBe('Saber (Alter Ver.)');
+  });
+
+  it('should return 404 when no catalog item matches', async () => {
+    const response = await fromJan({ jan: '49012347' }).expect(404);
+    expect(response.body.data.candidates).toEqual([]);
+  });
+});
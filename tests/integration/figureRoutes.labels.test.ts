@@ -0,0 +1,108 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import StorageNode from '../../src/models/StorageNode';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Storage box labels', () => {
+  let testUser: any;
+  let authToken: string;
+  let closet: any;
+  let box: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'labeluser',
+      email: 'labels@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    closet = await StorageNode.create({ userId: testUser._id, name: 'Closet', kind: 'room' });
+    box = await StorageNode.create({
+      userId: testUser._id, name: 'Box 3', kind: 'box', parentId: closet._id, ancestors: [closet._id]
+    });
+
+    await Figure.create([
+      { manufacturer: 'Alter', name: 'Saber', storageNodeId: box._id, location: 'Closet', storageDetail: 'Box 3', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Rin', boxNumber: 'B-12', location: 'Attic', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Sakura', boxNumber: 'B-12', location: 'Attic', userId: testUser._id }
+    ]);
+  });
+
+  it('should render an SVG label listing a storage box\'s contents', async () => {
+    const response = await request(app)
+      .get(`/figures/labels/storage/${box._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^image\/svg\+xml/);
+    const svg = response.body.toString();
+    expect(svg).toContain('>Box 3</text>');
+    expect(svg).toContain('>Closet</text>');
+    expect(svg).toContain('>Saber (Alter)</text>');
+  });
+
+  it('should render an SVG label for a box number', async () => {
+    const response = await request(app)
+      .get('/figures/labels/box-number/B-12')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const svg = response.body.toString();
+    expect(svg).toContain('>B-12</text>');
+    expect(svg).toContain('>Attic</text>');
+    expect(svg).toContain('>2 figures</text>');
+  });
+
+  it('should return 404 for unknown boxes', async () => {
+    await request(app)
+      .get('/figures/labels/box-number/B-99')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(404);
+
+    await request(app)
+      .get(`/figures/labels/storage/${new mongoose.Types.ObjectId()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(404);
+  });
+
+  it('should print a sheet with every storage box and box number', async () => {
+    const response = await request(app)
+      .get('/figures/labels')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/html/);
+    expect(response.text.match(/<div class="label">/g)).toHaveLength(2);
+    expect(response.text).toContain('>Box 3</text>');
+    expect(response.text).toContain('>B-12</text>');
+    expect(response.text).not.toContain('>Closet</title>');
+  });
+
+  it('should print only the selected labels', async () => {
+    const response = await request(app)
+      .get(`/figures/labels?storageNodeId=${closet._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.text.match(/<div class="label">/g)).toHaveLength(1);
+    expect(response.text).toContain('<title>Closet</title>');
+  });
+
+  it('should filter figures by storage location for the QR code link', async () => {
+    const response = await request(app)
+      .get(`/figures/filter?storageNode=${closet._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.map((figure: any) => figure.name)).toEqual(['Saber']);
+  });
+});
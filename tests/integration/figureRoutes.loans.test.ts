@@ -0,0 +1,126 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure loans', () => {
+  let testUser: any;
+  let authToken: string;
+  let figure: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'loanuser',
+      email: 'loan@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    figure = await Figure.create({
+      manufacturer: 'Alter',
+      name: 'Saber',
+      location: 'Living room',
+      storageDetail: 'Cabinet A',
+      userId: testUser._id
+    });
+  });
+
+  const lend = (figureId: unknown, body: Record<string, unknown>) => request(app)
+    .post(`/figures/${figureId}/loans`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  describe('POST /figures/:id/loans', () => {
+    it('should lend the figure and move it to the loan location', async () => {
+      const response = await lend(figure._id, {
+        borrower: 'Anime club',
+        location: 'Wonder Festival display',
+        expectedReturnAt: '2099-02-15'
+      }).expect(201);
+
+      expect(response.body.data).toEqual(expect.objectContaining({
+        borrower: 'Anime club',
+        previousLocation: expect.objectContaining({ location: 'Living room', storageDetail: 'Cabinet A' })
+      }));
+
+      const lent = await Figure.findById(figure._id);
+      expect(lent!.location).toBe('Wonder Festival display');
+      expect(lent!.storageDetail).toBeUndefined();
+    });
+
+    it('should not lend a figure that is already on loan', async () => {
+      await lend(figure._id, { borrower: 'Aki' }).expect(201);
+
+      await lend(figure._id, { borrower: 'Mei' }).expect(409);
+    });
+
+    it('should reject figures that are not owned', async () => {
+      const wished = await Figure.create({
+        manufacturer: 'Max Factory',
+        name: 'Rem',
+        collectionStatus: 'wished',
+        userId: testUser._id
+      });
+
+      await lend(wished._id, { borrower: 'Aki' }).expect(422);
+    });
+
+    it('should require a borrower', async () => {
+      await lend(figure._id, {}).expect(422);
+    });
+  });
+
+  describe('POST /figures/:id/loans/:loanId/return', () => {
+    it('should restore the previous location', async () => {
+      const lent = await lend(figure._id, { borrower: 'Aki' }).expect(201);
+
+      const response = await request(app)
+        .post(`/figures/${figure._id}/loans/${lent.body.data._id}/return`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual(expect.objectContaining({
+        location: 'Living room',
+        storageDetail: 'Cabinet A'
+      }));
+      expect(response.body.data.loans[0].returnedAt).toBeDefined();
+
+      await request(app)
+        .post(`/figures/${figure._id}/loans/${lent.body.data._id}/return`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(422);
+    });
+  });
+
+  describe('GET /figures/loans', () => {
+    it('should list outstanding loans and flag overdue ones', async () => {
+      const other = await Figure.create({ manufacturer: 'Alter', name: 'Rin', userId: testUser._id });
+      await Figure.updateOne({ _id: other._id }, {
+        $push: { loans: { borrower: 'Mei', loanedAt: new Date('2024-01-01'), expectedReturnAt: new Date('2024-02-01') } }
+      });
+      await lend(figure._id, { borrower: 'Aki', expectedReturnAt: '2099-01-01' }).expect(201);
+
+      const response = await request(app)
+        .get('/figures/loans')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.count).toBe(2);
+      expect(response.body.overdueCount).toBe(1);
+      expect(response.body.data[0]).toEqual(expect.objectContaining({ name: 'Rin', overdue: true }));
+
+      const overdue = await request(app)
+        .get('/figures/loans?overdue=true')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(overdue.body.data.map((loan: any) => loan.borrower)).toEqual(['Mei']);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import Shelf from '../../src/models/Shelf';
+import FigureHistory from '../../src/models/FigureHistory';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure merge', () => {
+  let testUser: any;
+  let authToken: string;
+  let primary: any;
+  let secondary: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'mergeuser',
+      email: 'merge@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    [primary, secondary] = await Figure.create([
+      {
+        manufacturer: 'Alter', name: 'Saber', userId: testUser._id,
+        tags: ['fate'], note: 'Bought at WonFes', location: 'Cabinet A'
+      },
+      {
+        manufacturer: 'Alter', name: 'Saber (Alter Ver.)', scale: '1/7', mfcId: 1001, userId: testUser._id,
+        tags: ['Fate', 'alter'], note: 'Synced from MFC', quantity: 2, location: 'Closet'
+      }
+    ]);
+  });
+
+  const merge = (body: Record<string, unknown>) => request(app)
+    .post('/figures/merge')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  it('should merge the secondary into the primary and move it to the trash', async () => {
+    const shelf = await Shelf.create({ userId: testUser._id, name: 'Display', figureIds: [secondary._id, primary._id] });
+
+    const response = await merge({
+      primaryId: primary._id.toString(),
+      secondaryIds: [secondary._id.toString()],
+      fields: { name: secondary._id.toString() }
+    }).expect(200);
+
+    expect(response.body.merged).toBe(1);
+    expect(response.body.data).toEqual(expect.objectContaining({
+      name: 'Saber (Alter Ver.)',
+      scale: '1/7',
+      mfcId: 1001,
+      location: 'Cabinet A',
+      tags: ['fate', 'alter'],
+      note: 'Bought at WonFes\n\nSynced from MFC',
+      quantity: 3
+    }));
+
+    const trashed = await Figure.findById(secondary._id).lean();
+    expect(trashed!.deletedAt).toBeInstanceOf(Date);
+    expect(trashed!.purgeAt).toBeInstanceOf(Date);
+
+    const updatedShelf = await Shelf.findById(shelf._id).lean();
+    expect(updatedShelf!.figureIds.map(String)).toEqual([primary._id.toString()]);
+
+    const history = await FigureHistory.find({ userId: testUser._id }).lean();
+    expect(history.map(entry => entry.action).sort()).toEqual(['delete', 'update']);
+  });
+
+  it('should reject a chosen value from a figure outside the merge', async () => {
+    const response = await merge({
+      primaryId: primary._id.toString(),
+      secondaryIds: [secondary._id.toString()],
+      fields: { name: new mongoose.Types.ObjectId().toString() }
+    }).expect(422);
+
+    expect(response.body.errors).toEqual(['fields.name must be one of the merged figures']);
+  });
+
+  it('should reject the primary listed as a secondary and unknown fields', async () => {
+    await merge({ primaryId: primary._id.toString(), secondaryIds: [primary._id.toString()] }).expect(422);
+    await merge({
+      primaryId: primary._id.toString(),
+      secondaryIds: [secondary._id.toString()],
+      fields: { userId: secondary._id.toString() }
+    }).expect(422);
+  });
+
+  it('should return 404 for figures that are not in the collection', async () => {
+    await Figure.updateOne({ _id: secondary._id }, { $set: { deletedAt: new Date() } });
+
+    await merge({ primaryId: primary._id.toString(), secondaryIds: [secondary._id.toString()] }).expect(404);
+    expect((await Figure.findById(primary._id).lean())!.name).toBe('Saber');
+  });
+
+  it('should refuse to merge a secondary that is on loan', async () => {
+    await Figure.updateOne({ _id: secondary._id }, { $push: { loans: { borrower: 'Rin' } } });
+
+    const response = await merge({ primaryId: primary._id.toString(), secondaryIds: [secondary._id.toString()] })
+      .expect(409);
+
+    expect(response.body.figureIds).toEqual([secondary._id.toString()]);
+    expect((await Figure.findById(secondary._id).lean())!.deletedAt).toBeUndefined();
+    expect((await Figure.findById(primary._id).lean())!.quantity).toBe(1);
+  });
+
+  it('should put the secondaries back when the primary cannot be saved, so a retry merges once', async () => {
+    await Figure.updateOne({ _id: secondary._id }, {
+      $set: { photos: [{ storageKey: 'a.jpg', contentType: 'image/jpeg', size: 1, order: 0, isPrimary: true }] }
+    });
+    const save = jest.spyOn(Figure.prototype, 'save').mockRejectedValueOnce(new Error('connection lost'));
+    const body = { primaryId: primary._id.toString(), secondaryIds: [secondary._id.toString()] };
+
+    await merge(body).expect(500);
+    save.mockRestore();
+
+    const restored = await Figure.findById(secondary._id).lean();
+    expect(restored!.deletedAt).toBeUndefined();
+    expect(restored!.photos).toHaveLength(1);
+    expect((await Figure.findById(primary._id).lean())!.quantity).toBe(1);
+
+    const response = await merge(body).expect(200);
+    expect(response.body.data.quantity).toBe(3);
+    await merge(body).expect(404);
+  });
+});
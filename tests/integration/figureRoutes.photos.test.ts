@@ -0,0 +1,191 @@
+import request from 'supertest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { LocalPhotoStorage, setPhotoStorage } from '../../src/services/photoStorageService';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)]);
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(32)]);
+
+describe('Figure photos', () => {
+  let testUser: any;
+  let authToken: string;
+  let figure: any;
+  let storageDir: string;
+
+  beforeEach(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'figure-photos-'));
+    setPhotoStorage(new LocalPhotoStorage(storageDir));
+
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'photouser',
+      email: 'photo@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    figure = await Figure.create({
+      manufacturer: 'Good Smile Company',
+      name: 'Hatsune Miku',
+      userId: testUser._id
+    });
+  });
+
+  afterEach(async () => {
+    setPhotoStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  const upload = () => request(app)
+    .post(`/figures/${figure._id}/photos`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .attach('photos', PNG, 'box-front.png')
+    .field('caption', 'Dent on the box corner')
+    .attach('photos', JPEG, 'display.jpg')
+    .field('caption', '');
+
+  describe('POST /figures/:id/photos', () => {
+    it('should store uploaded photos with captions, order and a primary photo', async () => {
+      const response = await upload().expect(201);
+
+      const photos = response.body.data;
+      expect(photos).toHaveLength(2);
+      expect(photos[0]).toEqual(expect.objectContaining({
+        contentType: 'image/png',
+        originalName: 'box-front.png',
+        caption: 'Dent on the box corner',
+        isPrimary: true,
+        order: 0
+      }));
+      expect(photos[1]).toEqual(expect.objectContaining({
+        contentType: 'image/jpeg',
+        isPrimary: false,
+        order: 1
+      }));
+      expect(photos[1].caption).toBeUndefined();
+
+      const stored = await fs.readFile(path.join(storageDir, photos[0].storageKey));
+      expect(stored.equals(PNG)).toBe(true);
+    });
+
+    it('should reject files that are not images', async () => {
+      const response = await request(app)
+        .post(`/figures/${figure._id}/photos`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .attach('photos', Buffer.from('<svg></svg>'), 'fake.png')
+        .expect(422);
+
+      expect(response.body.errors[0]).toContain('fake.png');
+      expect((await Figure.findById(figure._id))?.photos).toHaveLength(0);
+    });
+
+    it('should require at least one file', async () => {
+      await request(app)
+        .post(`/figures/${figure._id}/photos`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('caption', 'no file')
+        .expect(422);
+    });
+
+    it('should return 404 for another user\'s figure', async () => {
+      const other = await Figure.create({
+        manufacturer: 'Alter',
+        name: 'Not Mine',
+        userId: new mongoose.Types.ObjectId()
+      });
+
+      await request(app)
+        .post(`/figures/${other._id}/photos`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .attach('photos', PNG, 'x.png')
+        .expect(404);
+    });
+  });
+
+  describe('GET /figures/:id/photos/:photoId/file', () => {
+    it('should serve the stored image', async () => {
+      const uploaded = await upload().expect(201);
+      const photoId = uploaded.body.data[1]._id;
+
+      const response = await request(app)
+        .get(`/figures/${figure._id}/photos/${photoId}/file`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/jpeg');
+      expect(Buffer.from(response.body).equals(JPEG)).toBe(true);
+    });
+  });
+
+  describe('PATCH /figures/:id/photos/:photoId', () => {
+    it('should update the caption and move the primary flag', async () => {
+      const uploaded = await upload().expect(201);
+      const photoId = uploaded.body.data[1]._id;
+
+      await request(app)
+        .patch(`/figures/${figure._id}/photos/${photoId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ caption: 'On the shelf', isPrimary: true })
+        .expect(200);
+
+      const list = await request(app)
+        .get(`/figures/${figure._id}/photos`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(list.body.data.map((p: any) => p.isPrimary)).toEqual([false, true]);
+      expect(list.body.data[1].caption).toBe('On the shelf');
+    });
+  });
+
+  describe('PUT /figures/:id/photos/order', () => {
+    it('should reorder photos', async () => {
+      const uploaded = await upload().expect(201);
+      const [first, second] = uploaded.body.data.map((p: any) => p._id);
+
+      const response = await request(app)
+        .put(`/figures/${figure._id}/photos/order`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ photoIds: [second, first] })
+        .expect(200);
+
+      expect(response.body.data.map((p: any) => p._id)).toEqual([second, first]);
+    });
+
+    it('should reject an incomplete list', async () => {
+      const uploaded = await upload().expect(201);
+
+      await request(app)
+        .put(`/figures/${figure._id}/photos/order`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ photoIds: [uploaded.body.data[0]._id] })
+        .expect(422);
+    });
+  });
+
+  describe('DELETE /figures/:id/photos/:photoId', () => {
+    it('should delete the photo and its file and promote the next photo', async () => {
+      const uploaded = await upload().expect(201);
+      const [primary, other] = uploaded.body.data;
+
+      const response = await request(app)
+        .delete(`/figures/${figure._id}/photos/${primary._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toEqual(expect.objectContaining({ _id: other._id, isPrimary: true, order: 0 }));
+      await expect(fs.access(path.join(storageDir, primary.storageKey))).rejects.toThrow();
+    });
+  });
+});
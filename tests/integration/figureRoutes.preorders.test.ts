@@ -0,0 +1,132 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure pre-orders', () => {
+  let testUser: any;
+  let authToken: string;
+  let ordered: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'preorderuser',
+      email: 'preorder@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    ordered = await Figure.create({
+      manufacturer: 'Good Smile Company',
+      name: 'Hatsune Miku',
+      collectionStatus: 'ordered',
+      merchant: { name: 'AmiAmi' },
+      userId: testUser._id
+    });
+  });
+
+  const putPreorder = (figureId: unknown, body: Record<string, unknown>) => request(app)
+    .put(`/figures/${figureId}/preorder`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  const preorder = {
+    orderNumber: 'AMI-2024-0042',
+    totalPrice: 24000,
+    currency: 'jpy',
+    expectedShipMonth: '2099-03',
+    payments: [
+      { kind: 'deposit', amount: 4000, paidAt: '2024-01-05' },
+      { kind: 'balance', amount: 20000, dueDate: '2099-02-20' }
+    ]
+  };
+
+  describe('PUT /figures/:id/preorder', () => {
+    it('should store pre-order details and report the remaining balance', async () => {
+      const response = await putPreorder(ordered._id, preorder).expect(200);
+
+      expect(response.body.data.preorder).toEqual(expect.objectContaining({
+        orderNumber: 'AMI-2024-0042',
+        currency: 'JPY',
+        expectedShipMonth: '2099-03'
+      }));
+      expect(response.body.data.preorder.payments).toHaveLength(2);
+      expect(response.body.data.summary).toEqual(expect.objectContaining({
+        paid: 4000,
+        remaining: 20000
+      }));
+    });
+
+    it('should keep payment ids when payments are sent back', async () => {
+      const first = await putPreorder(ordered._id, preorder).expect(200);
+      const payments = first.body.data.preorder.payments;
+      payments[1].paidAt = '2099-02-18';
+
+      const second = await putPreorder(ordered._id, { ...preorder, payments }).expect(200);
+
+      expect(second.body.data.preorder.payments[1]._id).toBe(payments[1]._id);
+      expect(second.body.data.summary.remaining).toBe(0);
+    });
+
+    it('should reject figures that are not on order', async () => {
+      const owned = await Figure.create({
+        manufacturer: 'Alter',
+        name: 'Saber',
+        userId: testUser._id
+      });
+
+      await putPreorder(owned._id, preorder).expect(422);
+    });
+
+    it('should reject a malformed ship month', async () => {
+      await putPreorder(ordered._id, { expectedShipMonth: 'March 2099' }).expect(422);
+    });
+  });
+
+  describe('GET /figures/preorders/upcoming', () => {
+    it('should list outstanding payments and expected arrivals in date order', async () => {
+      await putPreorder(ordered._id, preorder).expect(200);
+
+      const response = await request(app)
+        .get('/figures/preorders/upcoming')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.count).toBe(2);
+      expect(response.body.data[0]).toEqual(expect.objectContaining({
+        type: 'payment',
+        name: 'Hatsune Miku',
+        kind: 'balance',
+        amount: 20000,
+        currency: 'JPY',
+        merchant: 'AmiAmi',
+        orderNumber: 'AMI-2024-0042',
+        overdue: false
+      }));
+      expect(response.body.data[1]).toEqual(expect.objectContaining({
+        type: 'arrival',
+        date: '2099-03-01T00:00:00.000Z',
+        source: 'preorder'
+      }));
+    });
+
+    it('should skip figures that are no longer on order', async () => {
+      await putPreorder(ordered._id, preorder).expect(200);
+      await Figure.updateOne({ _id: ordered._id }, { $set: { collectionStatus: 'owned' } });
+
+      const response = await request(app)
+        .get('/figures/preorders/upcoming')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import StatusChange from '../../src/models/StatusChange';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure sales', () => {
+  let testUser: any;
+  let authToken: string;
+  let owned: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'saleuser',
+      email: 'sale@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    owned = await Figure.create({
+      manufacturer: 'Alter',
+      name: 'Saber Alter',
+      collectionStatus: 'owned',
+      purchaseInfo: { price: 150, currency: 'USD' },
+      userId: testUser._id
+    });
+  });
+
+  const putSale = (figureId: unknown, body: Record<string, unknown>) => request(app)
+    .put(`/figures/${figureId}/sale`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  describe('PUT /figures/:id/sale', () => {
+    it('should mark the figure sold and report the realized profit', async () => {
+      const response = await putSale(owned._id, {
+        price: 200,
+        date: '2024-05-01',
+        platform: 'eBay',
+        fees: 26,
+        shipping: 14
+      }).expect(200);
+
+      expect(response.body.data.collectionStatus).toBe('sold');
+      expect(response.body.data.sale).toEqual(expect.objectContaining({ currency: 'USD', platform: 'eBay' }));
+      expect(response.body.data.realized).toEqual({ currency: 'USD', proceeds: 160, cost: 150, profit: 10 });
+
+      const changes = await StatusChange.find({ figureId: owned._id });
+      expect(changes.map(change => change.toStatus)).toEqual(['sold']);
+    });
+
+    it('should record trades', async () => {
+      const response = await putSale(owned._id, { status: 'traded', tradedFor: 'Rin Tohsaka 1/7' }).expect(200);
+
+      expect(response.body.data.collectionStatus).toBe('traded');
+      expect(response.body.data.realized.profit).toBeNull();
+    });
+
+    it('should reject wished figures', async () => {
+      const wished = await Figure.create({
+        manufacturer: 'Max Factory',
+        name: 'Rem',
+        collectionStatus: 'wished',
+        userId: testUser._id
+      });
+
+      await putSale(wished._id, { price: 100 }).expect(422);
+    });
+  });
+
+  describe('DELETE /figures/:id/sale', () => {
+    it('should make the figure owned again', async () => {
+      await putSale(owned._id, { price: 200 }).expect(200);
+
+      const response = await request(app)
+        .delete(`/figures/${owned._id}/sale`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.collectionStatus).toBe('owned');
+      expect(response.body.data.sale).toBeUndefined();
+    });
+
+    it('should reject figures that were not sold', async () => {
+      await request(app)
+        .delete(`/figures/${owned._id}/sale`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(422);
+    });
+  });
+
+  describe('GET /figures/sales', () => {
+    it('should list sales with profit totals', async () => {
+      await putSale(owned._id, { price: 120, date: '2024-05-01' }).expect(200);
+
+      const response = await request(app)
+        .get('/figures/sales?year=2024')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0].realized.profit).toBe(-30);
+      expect(response.body.summary.totals).toEqual([
+        { currency: 'USD', count: 1, proceeds: 120, cost: 150, profit: -30 }
+      ]);
+    });
+  });
+
+  describe('GET /figures/stats', () => {
+    it('should count sold figures separately from owned ones', async () => {
+      await putSale(owned._id, { price: 200 }).expect(200);
+      await Figure.create({
+        manufacturer: 'Alter',
+        name: 'Rin Tohsaka',
+        userId: testUser._id
+      });
+
+      const response = await request(app)
+        .get('/figures/stats')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalCount).toBe(1);
+      expect(response.body.data.statusCounts).toEqual(expect.objectContaining({ owned: 1, sold: 1 }));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure shelves', () => {
+  let testUser: any;
+  let authToken: string;
+  let miku: any;
+  let saber: any;
+  let rin: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'shelfuser',
+      email: 'shelves@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    [miku, saber, rin] = await Figure.create([
+      { manufacturer: 'Good Smile Company', name: 'Hatsune Miku', location: 'Living room', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Saber', location: 'Living room', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Rin', location: 'Closet', userId: testUser._id }
+    ]);
+  });
+
+  const createShelf = (body: Record<string, unknown>) => request(app)
+    .post('/figures/shelves')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body)
+    .expect(201);
+
+  const addFigure = (shelfId: string, body: Record<string, unknown>) => request(app)
+    .post(`/figures/shelves/${shelfId}/figures`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  it('should create shelves and list them with their figure counts', async () => {
+    const shelf = await createShelf({ name: 'Glass case 2, top shelf', capacity: 5 });
+    await addFigure(shelf.body.data._id, { figureId: miku._id.toString() }).expect(201);
+
+    const response = await request(app)
+      .get('/figures/shelves')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ name: 'Glass case 2, top shelf', capacity: 5, figureCount: 1 })
+    ]);
+  });
+
+  it('should reject a second shelf with the same name', async () => {
+    await createShelf({ name: 'Top shelf' });
+    await request(app)
+      .post('/figures/shelves')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'top shelf' })
+      .expect(409);
+  });
+
+  it('should keep figures in display order and allow them on several shelves', async () => {
+    const top = await createShelf({ name: 'Top shelf' });
+    const themed = await createShelf({ name: 'Fate display' });
+    const topId = top.body.data._id;
+
+    await addFigure(topId, { figureId: saber._id.toString() }).expect(201);
+    await addFigure(topId, { figureId: miku._id.toString(), position: 0 }).expect(201);
+    await addFigure(themed.body.data._id, { figureId: saber._id.toString() }).expect(201);
+
+    const response = await request(app)
+      .get(`/figures/shelves/${topId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(response.body.data.figures.map((f: any) => f.name)).toEqual(['Hatsune Miku', 'Saber']);
+
+    // Moving a figure that is already on the shelf
+    await addFigure(topId, { figureId: miku._id.toString() }).expect(200);
+    const reordered = await request(app)
+      .get(`/figures/shelves/${topId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(reordered.body.data.figures.map((f: any) => f.name)).toEqual(['Saber', 'Hatsune Miku']);
+  });
+
+  it('should enforce the capacity', async () => {
+    const shelf = await createShelf({ name: 'Small shelf', capacity: 1 });
+    const shelfId = shelf.body.data._id;
+
+    await addFigure(shelfId, { figureId: miku._id.toString() }).expect(201);
+    await addFigure(shelfId, { figureId: saber._id.toString() }).expect(422);
+
+    await request(app)
+      .put(`/figures/shelves/${shelfId}/figures`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ figureIds: [saber._id.toString(), rin._id.toString()] })
+      .expect(422);
+  });
+
+  it('should replace and remove a shelf\'s figures', async () => {
+    const shelf = await createShelf({ name: 'Top shelf' });
+    const shelfId = shelf.body.data._id;
+
+    const replaced = await request(app)
+      .put(`/figures/shelves/${shelfId}/figures`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ figureIds: [rin._id.toString(), miku._id.toString()] })
+      .expect(200);
+    expect(replaced.body.data.figureIds).toEqual([rin._id.toString(), miku._id.toString()]);
+
+    await request(app)
+      .delete(`/figures/shelves/${shelfId}/figures/${rin._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    await request(app)
+      .delete(`/figures/shelves/${shelfId}/figures/${rin._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(404);
+  });
+
+  it('should filter figures by shelf', async () => {
+    const shelf = await createShelf({ name: 'Top shelf' });
+    await addFigure(shelf.body.data._id, { figureId: saber._id.toString() }).expect(201);
+
+    const onShelf = await request(app)
+      .get(`/figures/filter?shelf=${shelf.body.data._id}&location=Living%20room`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(onShelf.body.data.map((f: any) => f.name)).toEqual(['Saber']);
+
+    const unshelved = await request(app)
+      .get('/figures/filter?shelf=__unspecified__&sortBy=name&sortOrder=asc')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(unshelved.body.data.map((f: any) => f.name)).toEqual(['Hatsune Miku', 'Rin']);
+  });
+
+  it('should not touch the figures when a shelf is deleted', async () => {
+    const shelf = await createShelf({ name: 'Top shelf' });
+    await addFigure(shelf.body.data._id, { figureId: saber._id.toString() }).expect(201);
+
+    await request(app)
+      .delete(`/figures/shelves/${shelf.body.data._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(await Figure.countDocuments({ userId: testUser._id })).toBe(3);
+  });
+});
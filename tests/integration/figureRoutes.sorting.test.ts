@@ -0,0 +1,91 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure list sorting', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'sortinguser',
+      email: 'sorting@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await Figure.insertMany([
+      { manufacturer: 'Alter', name: 'Saber', rating: 7, releases: [{ date: new Date('2020-03-01') }], userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Rin', rating: 9, releases: [{ date: new Date('2022-01-01') }, { date: new Date('2019-06-01') }], userId: testUser._id },
+      { manufacturer: 'Good Smile Company', name: 'Miku', rating: 8, userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Sakura', userId: testUser._id },
+      { manufacturer: 'Good Smile Company', name: 'Rem', rating: 8, releases: [{ date: new Date('2021-09-01') }], userId: testUser._id }
+    ]);
+  });
+
+  const names = async (path: string) => {
+    const response = await request(app)
+      .get(path)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    return response.body.data.map((figure: any) => figure.name);
+  };
+
+  it('should sort by several keys', async () => {
+    expect(await names('/figures?sortBy=manufacturer,-rating,name&sortOrder=asc')).toEqual([
+      'Rin', 'Saber', 'Sakura', 'Miku', 'Rem'
+    ]);
+  });
+
+  it('should sort by the earliest release date', async () => {
+    // Figures without a release date come last
+    expect((await names('/figures/filter?sortBy=-releaseDate')).slice(0, 3)).toEqual(['Rem', 'Saber', 'Rin']);
+  });
+
+  it('should keep the release date in sync when releases change', async () => {
+    const miku = await Figure.findOne({ name: 'Miku' });
+    await Figure.updateOne({ _id: miku!._id }, { $set: { releases: [{ date: new Date('2018-01-01') }] } });
+
+    const updated = await Figure.findById(miku!._id);
+    expect(updated!.firstReleaseDate).toEqual(new Date('2018-01-01'));
+
+    updated!.releases = [];
+    await updated!.save();
+    expect((await Figure.findById(miku!._id))!.firstReleaseDate).toBeUndefined();
+  });
+
+  it('should page through a multi-key sort with cursors', async () => {
+    const expected = (await Figure.find({ userId: testUser._id })
+      .sort({ manufacturer: 1, rating: -1, _id: -1 }))
+      .map(figure => figure.name);
+
+    const seen: string[] = [];
+    let cursor = '';
+    for (let pages = 0; pages < 10; pages++) {
+      const response = await request(app)
+        .get(`/figures?sortBy=manufacturer,-rating&sortOrder=asc&limit=2&cursor=${cursor}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      seen.push(...response.body.data.map((figure: any) => figure.name));
+      if (!response.body.nextCursor) break;
+      cursor = response.body.nextCursor;
+    }
+
+    expect(seen).toEqual(expected);
+  });
+
+  it('should reject unknown sort keys', async () => {
+    await request(app)
+      .get('/figures?sortBy=name,weight')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(422);
+  });
+});
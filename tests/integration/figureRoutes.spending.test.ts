@@ -0,0 +1,108 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import SystemConfig from '../../src/models/SystemConfig';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('GET /figures/stats/spending', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'spendinguser',
+      email: 'spending@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await SystemConfig.create({
+      key: 'exchange_rates',
+      type: 'json',
+      value: JSON.stringify({ base: 'USD', rates: [{ date: '2020-01-01', JPY: 100 }] })
+    });
+
+    await Figure.create([
+      {
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        origin: 'Vocaloid',
+        purchaseInfo: { price: 15000, currency: 'JPY', date: new Date('2024-02-14') },
+        merchant: { name: 'AmiAmi' },
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Saber',
+        origin: 'Fate',
+        purchaseInfo: { price: 200, currency: 'USD', date: new Date('2023-02-01') },
+        merchant: { name: 'AmiAmi' },
+        userId: testUser._id
+      }
+    ]);
+  });
+
+  it('should report spending for the year with a year-over-year comparison', async () => {
+    const response = await request(app)
+      .get('/figures/stats/spending?year=2024')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const report = response.body.data;
+    expect(report).toEqual(expect.objectContaining({
+      currency: 'USD',
+      year: 2024,
+      total: 150,
+      previousYearTotal: 200,
+      changePercent: -25
+    }));
+    expect(report.byMonth[1]).toEqual({ month: '2024-02', total: 150, count: 1, previousYearTotal: 200, previousYearCount: 1 });
+    expect(report.byMerchant).toEqual([
+      { _id: 'AmiAmi', total: 150, count: 1, previousYearTotal: 200, previousYearCount: 1 }
+    ]);
+    expect(report.byOrigin.map((g: any) => g._id)).toEqual(['Vocaloid', 'Fate']);
+  });
+
+  it('should accept a currency and the /figures/filter filters', async () => {
+    const response = await request(app)
+      .get('/figures/stats/spending?year=2023&currency=JPY&manufacturer=Alter')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.total).toBe(20000);
+    expect(response.body.data.byYear).toEqual([{ year: 2023, total: 20000, count: 1 }]);
+  });
+
+  it('should still count the purchase of a figure that was sold since', async () => {
+    await Figure.create({
+      manufacturer: 'Kotobukiya',
+      name: 'Asuna',
+      collectionStatus: 'sold',
+      purchaseInfo: { price: 50, currency: 'USD', date: new Date('2024-03-01') },
+      sale: { price: 80, currency: 'USD', date: new Date('2024-06-01') },
+      userId: testUser._id
+    });
+
+    const response = await request(app)
+      .get('/figures/stats/spending?year=2024')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.total).toBe(200);
+    expect(response.body.data.byMonth[2]).toEqual(expect.objectContaining({ month: '2024-03', total: 50, count: 1 }));
+  });
+
+  it('should reject an invalid year', async () => {
+    await request(app)
+      .get('/figures/stats/spending?year=twenty')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(422);
+  });
+});
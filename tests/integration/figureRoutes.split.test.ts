@@ -0,0 +1,143 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import MFCItem from '../../src/models/MFCItem';
+import UserFigure from '../../src/models/UserFigure';
+import { backfillSplitModels } from '../../src/services/figureSplitService';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure → MFCItem + UserFigure dual write', () => {
+  const originalMode = process.env.FIGURE_MODEL_MODE;
+  let testUser: any;
+  let authToken: string;
+  let synced: any;
+  let manual: any;
+
+  beforeEach(async () => {
+    delete process.env.FIGURE_MODEL_MODE;
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'splituser',
+      email: 'split@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    synced = await Figure.create({
+      manufacturer: 'Alter', name: 'Saber', scale: '1/7', mfcId: 1001,
+      mfcLink: 'https://myfigurecollection.net/item/1001',
+      userId: testUser._id, location: 'Cabinet A', tags: ['fate'], rating: 9
+    });
+    manual = await Figure.create({
+      manufacturer: 'Garage Kit Shop', name: 'Custom Rin', userId: testUser._id, collectionStatus: 'wished'
+    });
+  });
+
+  afterEach(() => {
+    process.env.FIGURE_MODEL_MODE = originalMode;
+  });
+
+  const get = (path: string) => request(app)
+    .get(path)
+    .set('Authorization', `Bearer ${authToken}`)
+    .expect(200);
+
+  it('should mirror created figures to the catalog and the user collection', async () => {
+    const item = await MFCItem.findOne({ mfcId: 1001 }).lean();
+    expect(item).toEqual(expect.objectContaining({ name: 'Saber', scale: '1/7' }));
+
+    const userFigures = await UserFigure.find({ userId: testUser._id }).lean();
+    expect(userFigures).toHaveLength(2);
+    expect(userFigures.find(uf => String(uf.figureId) === String(synced._id))).toEqual(expect.objectContaining({
+      mfcItemId: item!._id,
+      location: 'Cabinet A',
+      rating: 9
+    }));
+    expect(userFigures.find(uf => String(uf.figureId) === String(manual._id))).toEqual(expect.objectContaining({
+      mfcItemId: null,
+      name: 'Custom Rin'
+    }));
+  });
+
+  it('should mirror updates and deletes made through the API', async () => {
+    await request(app)
+      .put(`/figures/${synced._id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ manufacturer: 'Alter', name: 'Saber (renamed)', location: 'Closet' })
+      .expect(200);
+
+    const userFigure = await UserFigure.findOne({ figureId: synced._id }).lean();
+    expect(userFigure).toEqual(expect.objectContaining({ name: 'Saber (renamed)', location: 'Closet' }));
+    // The shared catalog item keeps its name; the user's differs
+    expect((await MFCItem.findOne({ mfcId: 1001 }).lean())!.name).toBe('Saber');
+
+    await Figure.deleteOne({ _id: manual._id });
+    expect(await UserFigure.countDocuments({ figureId: manual._id })).toBe(0);
+  });
+
+  it('should not mirror in legacy mode', async () => {
+    process.env.FIGURE_MODEL_MODE = 'legacy';
+    const figure = await Figure.create({ manufacturer: 'Alter', name: 'Rin', userId: testUser._id });
+
+    expect(await UserFigure.countDocuments({ figureId: figure._id })).toBe(0);
+  });
+
+  it('should replace the baseline unique { userId, mfcItemId } index when backfilling', async () => {
+    await UserFigure.collection.dropIndexes();
+    await UserFigure.collection.createIndex({ userId: 1, mfcItemId: 1 }, { unique: true });
+
+    // A second figure of the same item: its mirror fails on the baseline index
+    await Figure.create({ manufacturer: 'Alter', name: 'Saber (2nd)', mfcId: 1001, userId: testUser._id });
+    expect(await UserFigure.countDocuments({ userId: testUser._id })).toBe(2);
+
+    const result = await backfillSplitModels();
+
+    expect(result).toEqual(expect.objectContaining({ figures: 3, mirrored: 3, droppedIndexes: ['userId_1_mfcItemId_1'] }));
+    expect(await UserFigure.countDocuments({ userId: testUser._id })).toBe(3);
+    const indexes = await UserFigure.collection.indexes();
+    expect(indexes.find(index => index.name === 'userId_1_mfcItemId_1')?.unique).toBeUndefined();
+    expect(indexes.find(index => index.name === 'figureId_1')?.unique).toBe(true);
+  });
+
+  it('should return the same figures when reading from the split models', async () => {
+    const fromFigure = await get('/figures?sortBy=name&sortOrder=asc');
+    const oneFromFigure = await get(`/figures/${synced._id}`);
+
+    process.env.FIGURE_MODEL_MODE = 'split';
+    const fromSplit = await get('/figures?sortBy=name&sortOrder=asc');
+    const oneFromSplit = await get(`/figures/${synced._id}`);
+
+    expect(fromSplit.body.total).toBe(2);
+    expect(fromSplit.body.data.map((f: any) => f._id)).toEqual(fromFigure.body.data.map((f: any) => f._id));
+    const pick = ({ _id, name, manufacturer, scale, mfcId, mfcLink, collectionStatus, location, tags, rating }: any) =>
+      ({ _id, name, manufacturer, scale, mfcId, mfcLink, collectionStatus, location, tags, rating });
+    expect(fromSplit.body.data.map(pick)).toEqual(fromFigure.body.data.map(pick));
+    expect(pick(oneFromSplit.body.data)).toEqual(pick(oneFromFigure.body.data));
+    expect(oneFromSplit.body.data).not.toHaveProperty('figureId');
+
+    const filtered = await get('/figures/filter?status=wished');
+    expect(filtered.body.data.map((f: any) => f.name)).toEqual(['Custom Rin']);
+  });
+
+  it('should join the catalog after paging unless the sort needs catalog fields', async () => {
+    process.env.FIGURE_MODEL_MODE = 'split';
+    const aggregate = jest.spyOn(UserFigure, 'aggregate');
+    const stageIndex = (name: string) =>
+      aggregate.mock.calls[aggregate.mock.calls.length - 1][0]!.findIndex(stage => name in stage);
+
+    const byRating = await get('/figures?sortBy=-rating&limit=1&page=2');
+    expect(byRating.body.data.map((f: any) => f.name)).toEqual(['Custom Rin']);
+    expect(stageIndex('$limit')).toBeLessThan(stageIndex('$lookup'));
+
+    const byName = await get('/figures?sortBy=name&limit=1');
+    expect(byName.body.data.map((f: any) => f.name)).toEqual(['Custom Rin']);
+    expect(stageIndex('$limit')).toBeGreaterThan(stageIndex('$lookup'));
+    aggregate.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import StatusChange from '../../src/models/StatusChange';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Collection status timeline', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'statususer',
+      email: 'status@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+  });
+
+  const api = (method: 'get' | 'post' | 'put' | 'patch', path: string) =>
+    request(app)[method](path).set('Authorization', `Bearer ${authToken}`);
+
+  const createFigure = async (fields: Record<string, unknown>) =>
+    (await api('post', '/figures').send({ manufacturer: 'Alter', name: 'Saber', ...fields }).expect(201)).body.data;
+
+  it('should record each status change with its note', async () => {
+    const figure = await createFigure({ collectionStatus: 'wished' });
+    await api('put', `/figures/${figure._id}`)
+      .send({ manufacturer: 'Alter', name: 'Saber', collectionStatus: 'ordered', statusNote: 'AmiAmi pre-order' })
+      .expect(200);
+    // Unrelated edits add nothing
+    await api('put', `/figures/${figure._id}`)
+      .send({ manufacturer: 'Alter', name: 'Saber', collectionStatus: 'ordered', note: 'Deposit paid' })
+      .expect(200);
+
+    const response = await api('get', `/figures/${figure._id}/status-history`).expect(200);
+
+    expect(response.body.data.currentStatus).toBe('ordered');
+    expect(response.body.data.timeline).toEqual([
+      expect.objectContaining({ fromStatus: null, toStatus: 'wished', daysInPreviousStatus: null }),
+      expect.objectContaining({ fromStatus: 'wished', toStatus: 'ordered', note: 'AmiAmi pre-order' })
+    ]);
+  });
+
+  it('should offer or fill in the purchase date when a figure arrives', async () => {
+    const offered = await createFigure({ collectionStatus: 'ordered' });
+    const offer = await api('put', `/figures/${offered._id}`)
+      .send({ manufacturer: 'Alter', name: 'Saber', collectionStatus: 'owned' })
+      .expect(200);
+    expect(offer.body.suggestedPurchaseDate).toBeDefined();
+    expect(offer.body.data.purchaseInfo?.date).toBeUndefined();
+
+    const filled = await createFigure({ collectionStatus: 'ordered' });
+    const fill = await api('put', `/figures/${filled._id}`)
+      .send({ manufacturer: 'Alter', name: 'Saber', collectionStatus: 'owned', fillPurchaseDate: true })
+      .expect(200);
+    expect(fill.body.suggestedPurchaseDate).toBeUndefined();
+    expect(new Date(fill.body.data.purchaseInfo.date).toDateString()).toBe(new Date().toDateString());
+  });
+
+  it('should correct when a change happened', async () => {
+    const figure = await createFigure({ collectionStatus: 'ordered' });
+    const [change] = (await api('get', `/figures/${figure._id}/status-history`).expect(200)).body.data.timeline;
+
+    const response = await api('patch', `/figures/${figure._id}/status-history/${change._id}`)
+      .send({ changedAt: '2024-01-15T00:00:00.000Z', note: 'Ordered at WonFes' })
+      .expect(200);
+
+    expect(response.body.data).toEqual(expect.objectContaining({
+      changedAt: '2024-01-15T00:00:00.000Z',
+      note: 'Ordered at WonFes'
+    }));
+    await api('patch', `/figures/${figure._id}/status-history/${change._id}`)
+      .send({ changedAt: '2999-01-01T00:00:00.000Z' })
+      .expect(422);
+  });
+
+  it('should average the days from pre-order to arrival per manufacturer', async () => {
+    const [alter, gsc, gscSlow] = await Figure.create([
+      { manufacturer: 'Alter', name: 'Saber', userId: testUser._id, collectionStatus: 'owned' },
+      { manufacturer: 'Good Smile Company', name: 'Miku', userId: testUser._id, collectionStatus: 'owned' },
+      { manufacturer: 'Good Smile Company', name: 'Rin', userId: testUser._id, collectionStatus: 'owned' }
+    ]);
+    const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n));
+    await StatusChange.create([
+      { figureId: alter._id, userId: testUser._id, toStatus: 'ordered', changedAt: day(0) },
+      { figureId: alter._id, userId: testUser._id, fromStatus: 'ordered', toStatus: 'owned', changedAt: day(300) },
+      { figureId: gsc._id, userId: testUser._id, toStatus: 'ordered', changedAt: day(0) },
+      { figureId: gsc._id, userId: testUser._id, fromStatus: 'ordered', toStatus: 'owned', changedAt: day(100) },
+      { figureId: gscSlow._id, userId: testUser._id, toStatus: 'ordered', changedAt: day(0) },
+      { figureId: gscSlow._id, userId: testUser._id, fromStatus: 'ordered', toStatus: 'owned', changedAt: day(200) }
+    ]);
+
+    const response = await api('get', '/figures/status-history/durations?groupBy=manufacturer').expect(200);
+
+    expect(response.body.data).toEqual(expect.objectContaining({ from: 'ordered', to: 'owned', count: 3, averageDays: 200 }));
+    expect(response.body.data.groups).toEqual([
+      { group: 'Good Smile Company', count: 2, averageDays: 150, minDays: 100, maxDays: 200 },
+      { group: 'Alter', count: 1, averageDays: 300, minDays: 300, maxDays: 300 }
+    ]);
+
+    await api('get', '/figures/status-history/durations?from=owned&to=owned').expect(422);
+  });
+});
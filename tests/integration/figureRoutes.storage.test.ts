@@ -0,0 +1,190 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import StorageNode from '../../src/models/StorageNode';
+import FigureHistory from '../../src/models/FigureHistory';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure storage hierarchy', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'storageuser',
+      email: 'storage@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+  });
+
+  const createNode = async (body: Record<string, unknown>) => {
+    const response = await request(app)
+      .post('/figures/storage')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(body)
+      .expect(201);
+    return response.body.data._id as string;
+  };
+
+  const createFigure = async (storageNodeId: string) => {
+    const response = await request(app)
+      .post('/figures')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ manufacturer: 'Alter', name: 'Saber', storageNodeId })
+      .expect(201);
+    return response.body.data;
+  };
+
+  it('should derive a figure\'s location text from its storage location', async () => {
+    const room = await createNode({ name: 'Living room', kind: 'room' });
+    const cabinet = await createNode({ name: 'Cabinet A', kind: 'cabinet', parentId: room });
+    const box = await createNode({ name: 'Box 3', kind: 'box', parentId: cabinet });
+
+    const figure = await createFigure(box);
+
+    expect(figure).toEqual(expect.objectContaining({
+      storageNodeId: box,
+      location: 'Living room',
+      storageDetail: 'Cabinet A / Box 3'
+    }));
+  });
+
+  it('should reject a storage location the user does not have', async () => {
+    const response = await request(app)
+      .post('/figures')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ manufacturer: 'Alter', name: 'Saber', storageNodeId: new mongoose.Types.ObjectId().toString() })
+      .expect(422);
+
+    expect(response.body.errors).toContain('Storage location not found');
+  });
+
+  it('should reject duplicate sibling names', async () => {
+    await createNode({ name: 'Closet', kind: 'room' });
+
+    await request(app)
+      .post('/figures/storage')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'closet', kind: 'room' })
+      .expect(409);
+  });
+
+  it('should update stored figures when a location is renamed', async () => {
+    const room = await createNode({ name: 'Living room', kind: 'room' });
+    const shelf = await createNode({ name: 'Top shelf', kind: 'shelf', parentId: room });
+    const figure = await createFigure(shelf);
+
+    const response = await request(app)
+      .patch(`/figures/storage/${room}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Study' })
+      .expect(200);
+
+    expect(response.body.figuresUpdated).toBe(1);
+    const updated = await Figure.findById(figure._id).lean();
+    expect(updated?.location).toBe('Study');
+    expect(updated?.storageDetail).toBe('Top shelf');
+
+    const history = await FigureHistory.findOne({ figureId: figure._id, source: 'bulk' }).lean();
+    expect(history?.changes).toEqual([{ field: 'location', oldValue: 'Living room', newValue: 'Study' }]);
+  });
+
+  it('should move a box with its contents to another location', async () => {
+    const livingRoom = await createNode({ name: 'Living room', kind: 'room' });
+    const closet = await createNode({ name: 'Closet', kind: 'room' });
+    const box = await createNode({ name: 'Box 3', kind: 'box', parentId: livingRoom });
+    const inner = await createNode({ name: 'Small box', kind: 'box', parentId: box });
+    const figure = await createFigure(inner);
+
+    const response = await request(app)
+      .post(`/figures/storage/${box}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ parentId: closet })
+      .expect(200);
+
+    expect(response.body.nodesMoved).toBe(2);
+    expect(response.body.figuresUpdated).toBe(1);
+
+    const moved = await StorageNode.findById(inner).lean();
+    expect(moved?.ancestors.map(String)).toEqual([closet, box]);
+    const updated = await Figure.findById(figure._id).lean();
+    expect(updated?.location).toBe('Closet');
+    expect(updated?.storageDetail).toBe('Box 3 / Small box');
+  });
+
+  it('should not move a location into itself or a location inside it', async () => {
+    const room = await createNode({ name: 'Living room', kind: 'room' });
+    const cabinet = await createNode({ name: 'Cabinet A', kind: 'cabinet', parentId: room });
+
+    await request(app)
+      .post(`/figures/storage/${room}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ parentId: cabinet })
+      .expect(422);
+  });
+
+  it('should only delete empty locations', async () => {
+    const room = await createNode({ name: 'Living room', kind: 'room' });
+    const shelf = await createNode({ name: 'Top shelf', kind: 'shelf', parentId: room });
+    const figure = await createFigure(shelf);
+
+    await request(app)
+      .delete(`/figures/storage/${room}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(409);
+
+    await Figure.updateOne({ _id: figure._id }, { $set: { storageNodeId: null } });
+    await request(app)
+      .delete(`/figures/storage/${shelf}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+  });
+
+  it('should build the tree from free-text locations and roll up counts', async () => {
+    await Figure.create([
+      { manufacturer: 'Alter', name: 'Saber', location: 'Closet', storageDetail: 'Shelf 2 / Box 1', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Rin', location: 'closet ', storageDetail: 'shelf 2/box 1', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Sakura', location: 'Closet', userId: testUser._id },
+      { manufacturer: 'Alter', name: 'Shirou', userId: testUser._id }
+    ]);
+
+    const migration = await request(app)
+      .post('/figures/storage/migrate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(migration.body.data).toEqual({ nodesCreated: 3, figuresLinked: 3 });
+
+    const rin = await Figure.findOne({ name: 'Rin' }).lean();
+    expect(rin?.location).toBe('Closet');
+    expect(rin?.storageDetail).toBe('Shelf 2 / Box 1');
+    expect(await FigureHistory.countDocuments({ figureId: rin!._id, source: 'bulk' })).toBe(1);
+
+    const tree = await request(app)
+      .get('/figures/storage')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(tree.body.data).toEqual([
+      expect.objectContaining({ name: 'Closet', kind: 'room', count: 1, total: 3 })
+    ]);
+    expect(tree.body.data[0].children[0].children[0]).toEqual(
+      expect.objectContaining({ name: 'Box 1', kind: 'shelf', count: 2, total: 2 })
+    );
+
+    const stats = await request(app)
+      .get('/figures/stats')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(stats.body.data.storageStats[0]).toEqual(expect.objectContaining({ name: 'Closet', total: 3 }));
+  });
+});
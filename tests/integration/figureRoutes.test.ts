@@ -645,7 +645,7 @@ describe('Figure Routes Integration', () => {
       });
     });
 
-    it('should delete figure successfully', async () => {
+    it('should move figure to trash successfully', async () => {
       const response = await request(app)
         .delete(`/figures/${testFigure._id}`)
         .set('Authorization', `Bearer ${authToken}`)
@@ -653,12 +653,16 @@ describe('Figure Routes Integration', () => {
 
       expect(response.body).toEqual({
         success: true,
-        message: 'Figure removed successfully'
+        message: 'Figure moved to trash',
+        data: {
+          deletedAt: expect.any(String),
+          purgeAt: expect.any(String)
+        }
       });
 
-      // Verify figure was deleted
+      // Verify figure was soft deleted
       const deletedFigure = await Figure.findById(testFigure._id);
-      expect(deletedFigure).toBeNull();
+      expect(deletedFigure?.deletedAt).toBeInstanceOf(Date);
     });
 
     it('should return 404 for non-existent figure', async () => {
@@ -0,0 +1,245 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import { generateTestToken } from '../setup';
+import { purgeExpiredFigures } from '../../src/services/trashService';
+import { setPhotoStorage } from '../../src/services/photoStorageService';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('Figure trash (soft delete)', () => {
+  let testUser: any;
+  let authToken: string;
+  let miku: any;
+  let rin: any;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'trashuser',
+      email: 'trash@example.com',
+      password: 'password123'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    miku = await Figure.create({
+      manufacturer: 'Good Smile Company',
+      name: 'Hatsune Miku',
+      scale: '1/8',
+      location: 'Shelf A',
+      note: 'Bought at WonFes',
+      userId: testUser._id
+    });
+    rin = await Figure.create({
+      manufacturer: 'Alter',
+      name: 'Kagamine Rin',
+      scale: '1/7',
+      location: 'Shelf A',
+      userId: testUser._id
+    });
+  });
+
+  const trashMiku = () => request(app)
+    .delete(`/figures/${miku._id}`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .expect(200);
+
+  describe('DELETE /figures/:id', () => {
+    it('should move the figure to the trash instead of deleting it', async () => {
+      const response = await trashMiku();
+
+      expect(response.body.message).toBe('Figure moved to trash');
+      expect(response.body.data.purgeAt).toBeDefined();
+
+      const stored = await Figure.findById(miku._id);
+      expect(stored).not.toBeNull();
+      expect(stored?.deletedAt).toBeInstanceOf(Date);
+      expect(stored?.note).toBe('Bought at WonFes');
+
+      const days = (stored!.purgeAt!.getTime() - stored!.deletedAt!.getTime()) / (24 * 60 * 60 * 1000);
+      expect(days).toBe(30);
+    });
+
+    it('should return 404 when the figure is already in the trash', async () => {
+      await trashMiku();
+
+      await request(app)
+        .delete(`/figures/${miku._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('trashed figures are hidden from the collection', () => {
+    beforeEach(async () => {
+      await trashMiku();
+    });
+
+    it('should exclude them from GET /figures', async () => {
+      const response = await request(app)
+        .get('/figures')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.data[0].name).toBe('Kagamine Rin');
+    });
+
+    it('should exclude them from GET /figures/filter', async () => {
+      const response = await request(app)
+        .get('/figures/filter?location=Shelf A')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+    });
+
+    it('should exclude them from GET /figures/search', async () => {
+      const response = await request(app)
+        .get('/figures/search?query=Miku')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.count).toBe(0);
+    });
+
+    it('should exclude them from GET /figures/stats', async () => {
+      const response = await request(app)
+        .get('/figures/stats')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalCount).toBe(1);
+      expect(response.body.data.statusCounts.owned).toBe(1);
+    });
+
+    it('should return 404 from GET /figures/:id', async () => {
+      await request(app)
+        .get(`/figures/${miku._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+
+    it('should not edit them through PUT /figures/:id', async () => {
+      await request(app)
+        .put(`/figures/${miku._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ manufacturer: 'Good Smile Company', name: 'Renamed Miku' })
+        .expect(404);
+
+      const stored = await Figure.findById(miku._id);
+      expect(stored?.name).toBe('Hatsune Miku');
+      expect(stored?.deletedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('GET /figures/trash', () => {
+    it('should list only trashed figures with the retention period', async () => {
+      await trashMiku();
+
+      const response = await request(app)
+        .get('/figures/trash')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.retentionDays).toBe(30);
+      expect(response.body.data[0]._id).toBe(miku._id.toString());
+      expect(response.body.data[0].deletedAt).toBeDefined();
+    });
+
+    it('should not list other users\' trash', async () => {
+      await Figure.create({
+        manufacturer: 'Alter',
+        name: 'Someone Else',
+        userId: new mongoose.Types.ObjectId(),
+        deletedAt: new Date()
+      });
+
+      const response = await request(app)
+        .get('/figures/trash')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(0);
+    });
+  });
+
+  describe('POST /figures/:id/restore', () => {
+    it('should restore a trashed figure into the collection', async () => {
+      await trashMiku();
+
+      const response = await request(app)
+        .post(`/figures/${miku._id}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.name).toBe('Hatsune Miku');
+      expect(response.body.data.deletedAt).toBeUndefined();
+
+      const list = await request(app)
+        .get('/figures')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(list.body.total).toBe(2);
+    });
+
+    it('should return 404 for a figure that is not in the trash', async () => {
+      await request(app)
+        .post(`/figures/${rin._id}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('purgeExpiredFigures', () => {
+    const removed: string[] = [];
+
+    beforeEach(() => {
+      removed.length = 0;
+      setPhotoStorage({
+        save: async () => undefined,
+        read: async () => Buffer.alloc(0),
+        remove: async (key: string) => { removed.push(key); }
+      });
+    });
+
+    afterEach(() => {
+      setPhotoStorage(null);
+    });
+
+    it('should delete only the figures whose purgeAt has passed', async () => {
+      await Figure.updateOne({ _id: miku._id }, {
+        $set: { deletedAt: new Date('2024-01-01'), purgeAt: new Date('2024-01-31') }
+      });
+      await Figure.updateOne({ _id: rin._id }, {
+        $set: { deletedAt: new Date(), purgeAt: new Date(Date.now() + 24 * 60 * 60 * 1000) }
+      });
+
+      const result = await purgeExpiredFigures();
+
+      expect(result).toEqual({ purged: 1, photosRemoved: 0 });
+      expect(await Figure.findById(miku._id)).toBeNull();
+      expect(await Figure.findById(rin._id)).not.toBeNull();
+    });
+
+    it('should remove the photo files of purged figures', async () => {
+      await Figure.updateOne({ _id: miku._id }, {
+        $set: {
+          deletedAt: new Date('2024-01-01'),
+          purgeAt: new Date('2024-01-31'),
+          photos: [{ storageKey: 'photos/miku-1.jpg', contentType: 'image/jpeg', size: 10, isPrimary: true, order: 0 }]
+        }
+      });
+
+      const result = await purgeExpiredFigures();
+
+      expect(result).toEqual({ purged: 1, photosRemoved: 1 });
+      expect(removed).toEqual(['photos/miku-1.jpg']);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import User from '../../src/models/User';
+import Figure from '../../src/models/Figure';
+import SystemConfig from '../../src/models/SystemConfig';
+import { generateTestToken } from '../setup';
+import mongoose from 'mongoose';
+
+const app = createTestApp();
+
+describe('GET /figures/stats/value', () => {
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    const fixedUserId = new mongoose.Types.ObjectId('000000000000000000000123');
+    testUser = new User({
+      _id: fixedUserId,
+      username: 'valueuser',
+      email: 'value@example.com',
+      password: 'password123',
+      preferredCurrency: 'JPY'
+    });
+    await testUser.save();
+    authToken = generateTestToken(testUser._id.toString());
+
+    await SystemConfig.create({
+      key: 'exchange_rates',
+      type: 'json',
+      value: JSON.stringify({ base: 'USD', rates: [{ date: '2024-01-01', JPY: 150, CNY: 7.5 }] })
+    });
+
+    await Figure.create([
+      {
+        manufacturer: 'Good Smile Company',
+        name: 'Hatsune Miku',
+        origin: 'Vocaloid',
+        purchaseInfo: { price: 100, currency: 'USD' },
+        releases: [{ price: 18000, currency: 'JPY' }],
+        userId: testUser._id
+      },
+      {
+        manufacturer: 'Alter',
+        name: 'Saber',
+        origin: 'Fate',
+        collectionStatus: 'ordered',
+        purchaseInfo: { price: 750, currency: 'CNY' },
+        userId: testUser._id
+      }
+    ]);
+  });
+
+  it('should value the collection in the user\'s preferred currency', async () => {
+    const response = await request(app)
+      .get('/figures/stats/value')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const valuation = response.body.data;
+    expect(valuation.currency).toBe('JPY');
+    expect(valuation.totals).toEqual({ count: 2, copies: 2, purchaseTotal: 30000, retailTotal: 18000 });
+    expect(valuation.byStatus).toEqual([
+      { _id: 'owned', count: 1, copies: 1, purchaseTotal: 15000, retailTotal: 18000 },
+      { _id: 'ordered', count: 1, copies: 1, purchaseTotal: 15000, retailTotal: 0 }
+    ]);
+    expect(valuation.unconverted).toEqual([]);
+  });
+
+  it('should accept a currency and the /figures/filter filters', async () => {
+    const response = await request(app)
+      .get('/figures/stats/value?currency=usd&status=owned')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.currency).toBe('USD');
+    expect(response.body.data.totals).toEqual({ count: 1, copies: 1, purchaseTotal: 100, retailTotal: 120 });
+    expect(response.body.data.byManufacturer.map((g: any) => g._id)).toEqual(['Good Smile Company']);
+  });
+
+  it('should report prices it cannot convert without exchange rates', async () => {
+    await SystemConfig.deleteMany({});
+
+    const response = await request(app)
+      .get('/figures/stats/value?currency=USD')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.totals.purchaseTotal).toBe(100);
+    expect(response.body.data.unconverted).toEqual(expect.arrayContaining([
+      { currency: 'CNY', count: 1 },
+      { currency: 'JPY', count: 1 }
+    ]));
+  });
+
+  it('should leave sold figures out unless asked for by status', async () => {
+    await Figure.create({
+      manufacturer: 'Kotobukiya',
+      name: 'Asuna',
+      collectionStatus: 'sold',
+      purchaseInfo: { price: 50, currency: 'USD' },
+      userId: testUser._id
+    });
+
+    const all = await request(app)
+      .get('/figures/stats/value?currency=USD')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(all.body.data.totals.count).toBe(2);
+    expect(all.body.data.byStatus.map((g: any) => g._id)).not.toContain('sold');
+
+    const sold = await request(app)
+      .get('/figures/stats/value?currency=USD&status=sold')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(sold.body.data.totals).toEqual({ count: 1, copies: 1, purchaseTotal: 50, retailTotal: 0 });
+  });
+
+  it('should reject an invalid currency code', async () => {
+    await request(app)
+      .get('/figures/stats/value?currency=dollars')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(422);
+  });
+});
@@ -394,6 +394,95 @@ describe('Sync Routes - Webhook Item Complete', () => {
       expect(figures[0].scale).toBe('1/6');
     });
 
+    it('should update a trashed Figure without taking it out of the trash', async () => {
+      const trashed = await Figure.create({
+        userId: testUserId,
+        mfcId: 88888,
+        name: 'Trashed Name',
+        manufacturer: 'Alter',
+        collectionStatus: 'owned',
+        deletedAt: new Date(),
+        purgeAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+      });
+
+      await SyncJob.create({
+        userId: testUserId,
+        sessionId: testSessionId,
+        phase: 'enriching',
+        items: [
+          {
+            mfcId: '88888',
+            name: 'Trashed Figure',
+            status: 'processing',
+            collectionStatus: 'owned',
+            retryCount: 0
+          }
+        ]
+      });
+
+      const webhookBody = {
+        sessionId: testSessionId,
+        mfcId: '88888',
+        status: 'completed',
+        scrapedData: { name: 'Synced Name', manufacturer: 'Alter' }
+      };
+
+      await request(app)
+        .post('/sync/webhook/item-complete')
+        .set('x-webhook-signature', generateWebhookSignature(webhookBody))
+        .send(webhookBody)
+        .expect(200);
+
+      const figures = await Figure.find({ userId: testUserId, mfcId: 88888 });
+      expect(figures).toHaveLength(1);
+      expect(figures[0]._id).toEqual(trashed._id);
+      expect(figures[0].name).toBe('Synced Name');
+      expect(figures[0].deletedAt).toBeInstanceOf(Date);
+      expect(figures[0].purgeAt).toEqual(trashed.purgeAt);
+    });
+
+    it('should update the Figure in the collection rather than a trashed copy', async () => {
+      const trashed = await Figure.create({
+        userId: testUserId,
+        mfcId: 77777,
+        name: 'Trashed Copy',
+        manufacturer: 'Alter',
+        deletedAt: new Date(),
+        purgeAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+      });
+      const active = await Figure.create({
+        userId: testUserId,
+        mfcId: 77777,
+        name: 'Active Copy',
+        manufacturer: 'Alter'
+      });
+
+      await SyncJob.create({
+        userId: testUserId,
+        sessionId: testSessionId,
+        phase: 'enriching',
+        items: [
+          { mfcId: '77777', name: 'Active Copy', status: 'processing', collectionStatus: 'owned', retryCount: 0 }
+        ]
+      });
+
+      const webhookBody = {
+        sessionId: testSessionId,
+        mfcId: '77777',
+        status: 'completed',
+        scrapedData: { name: 'Synced Name', manufacturer: 'Alter' }
+      };
+
+      await request(app)
+        .post('/sync/webhook/item-complete')
+        .set('x-webhook-signature', generateWebhookSignature(webhookBody))
+        .send(webhookBody)
+        .expect(200);
+
+      expect((await Figure.findById(active._id))?.name).toBe('Synced Name');
+      expect((await Figure.findById(trashed._id))?.name).toBe('Trashed Copy');
+    });
+
     it('should convert mfcId string to number when saving Figure', async () => {
       await SyncJob.create({
         userId: testUserId,
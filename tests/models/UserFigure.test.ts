@@ -36,7 +36,7 @@ describe('UserFigure Model', () => {
       const userFigure = await UserFigure.create(userFigureData);
 
       expect(userFigure.userId.toString()).toBe(userId.toString());
-      expect(userFigure.mfcItemId.toString()).toBe(mfcItemId.toString());
+      expect(userFigure.mfcItemId!.toString()).toBe(mfcItemId.toString());
       expect(userFigure.collectionStatus).toBe('owned');
       expect(userFigure._id).toBeDefined();
     });
@@ -50,13 +50,15 @@ describe('UserFigure Model', () => {
       await expect(UserFigure.create(userFigureData)).rejects.toThrow();
     });
 
-    it('should require mfcItemId field', async () => {
-      const userFigureData = {
+    it('should allow figures without a catalog item', async () => {
+      const userFigure = await UserFigure.create({
         userId,
-        collectionStatus: 'owned'
-      };
+        collectionStatus: 'owned',
+        name: 'Custom Garage Kit'
+      });
 
-      await expect(UserFigure.create(userFigureData)).rejects.toThrow();
+      expect(userFigure.mfcItemId).toBeUndefined();
+      expect(userFigure.name).toBe('Custom Garage Kit');
     });
 
     it('should require collectionStatus field', async () => {
@@ -78,10 +80,11 @@ describe('UserFigure Model', () => {
       await expect(UserFigure.create(userFigureData)).rejects.toThrow();
     });
 
-    it('should enforce unique userId+mfcItemId combination', async () => {
+    it('should enforce one entry per mirrored figure', async () => {
       const userFigureData: Partial<IUserFigureData> = {
         userId,
         mfcItemId,
+        figureId: new mongoose.Types.ObjectId(),
         collectionStatus: 'owned'
       };
 
@@ -90,6 +93,12 @@ describe('UserFigure Model', () => {
         ...userFigureData,
         collectionStatus: 'wished'
       })).rejects.toThrow();
+
+      // The same item may be held in several entries
+      await expect(UserFigure.create({
+        ...userFigureData,
+        figureId: new mongoose.Types.ObjectId()
+      })).resolves.toBeDefined();
     });
   });
 
@@ -316,7 +325,7 @@ describe('UserFigure Model', () => {
       })).rejects.toThrow();
     });
 
-    it('should reject rating above 5', async () => {
+    it('should reject rating above 10', async () => {
       const mfcItem = await MFCItem.create({
         mfcId: 50003,
         mfcUrl: 'https://myfigurecollection.net/item/50003',
@@ -327,7 +336,7 @@ describe('UserFigure Model', () => {
         userId,
         mfcItemId: mfcItem._id,
         collectionStatus: 'owned',
-        rating: 6
+        rating: 11
       })).rejects.toThrow();
     });
 
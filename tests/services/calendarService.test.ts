@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import {
+  buildReleaseCalendar,
+  generateCalendarFeedToken,
+  hashCalendarFeedToken,
+  renderICalendar
+} from '../../src/services/calendarService';
+
+describe('Calendar Service', () => {
+  const mikuId = new mongoose.Types.ObjectId();
+  const figures = [
+    {
+      _id: mikuId,
+      name: 'Hatsune Miku',
+      manufacturer: 'Good Smile Company',
+      collectionStatus: 'ordered',
+      mfcLink: 'https://myfigurecollection.net/item/287844',
+      releases: [
+        { date: new Date('2024-03-15'), price: 18000, currency: 'JPY', isRerelease: false },
+        { date: new Date('2025-01-20'), price: 19800, currency: 'JPY', isRerelease: true, variant: 'Rerelease; Japan, China' },
+        { price: 20000, currency: 'JPY' }
+      ]
+    },
+    {
+      _id: new mongoose.Types.ObjectId(),
+      name: 'Akagi',
+      collectionStatus: 'wished',
+      releases: [{ date: new Date('2024-03-15') }]
+    }
+  ];
+
+  describe('buildReleaseCalendar', () => {
+    it('should group dated releases by day', () => {
+      const days = buildReleaseCalendar(figures);
+
+      expect(days.map(day => day.date)).toEqual(['2024-03-15', '2025-01-20']);
+      expect(days[0].releases.map(r => r.name)).toEqual(['Akagi', 'Hatsune Miku']);
+      expect(days[1].releases[0]).toEqual(expect.objectContaining({
+        figureId: mikuId,
+        isRerelease: true,
+        price: 19800
+      }));
+    });
+
+    it('should only include releases within the range', () => {
+      const days = buildReleaseCalendar(figures, { from: new Date('2024-06-01'), to: new Date('2025-12-31') });
+
+      expect(days.map(day => day.date)).toEqual(['2025-01-20']);
+    });
+  });
+
+  describe('renderICalendar', () => {
+    const ics = renderICalendar(buildReleaseCalendar(figures), { now: new Date('2024-01-01T10:00:00Z') });
+
+    it('should render one all-day event per release with CRLF line endings', () => {
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+      expect(ics).toContain('DTSTART;VALUE=DATE:20240315\r\nDTEND;VALUE=DATE:20240316');
+      expect(ics).toContain(`UID:${mikuId}-20250120@figure-collector`);
+      expect(ics).toContain('DTSTAMP:20240101T100000Z');
+    });
+
+    it('should label rereleases and escape text values', () => {
+      expect(ics).toContain('SUMMARY:Rerelease: Hatsune Miku (Good Smile Company)');
+      expect(ics).toContain('DESCRIPTION:Rerelease\\; Japan\\, China\\n19800 JPY\\nStatus: ordered');
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      const long = renderICalendar([{
+        date: '2024-03-15',
+        releases: [{ figureId: mikuId, name: 'A'.repeat(120), isRerelease: false }]
+      }]);
+
+      const lines = long.split('\r\n');
+      expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(long.replace(/\r\n /g, '')).toContain(`SUMMARY:Release: ${'A'.repeat(120)}`);
+    });
+  });
+
+  describe('feed tokens', () => {
+    it('should generate random tokens and hash them deterministically', () => {
+      const token = generateCalendarFeedToken();
+
+      expect(token).toMatch(/^[a-f0-9]{48}$/);
+      expect(generateCalendarFeedToken()).not.toBe(token);
+      expect(hashCalendarFeedToken(token)).toBe(hashCalendarFeedToken(token));
+      expect(hashCalendarFeedToken(token)).not.toContain(token);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { applyCopyFields, seedCopiesFromFigure } from '../../src/services/copyService';
+
+describe('Copy Service', () => {
+  describe('applyCopyFields', () => {
+    it('should map flat purchase and merchant fields', () => {
+      const copy = applyCopyFields({
+        location: 'Shelf A',
+        figureCondition: 'sealed',
+        purchaseDate: '2024-03-01',
+        purchasePrice: 120,
+        merchantName: 'AmiAmi'
+      });
+
+      expect(copy).toEqual(expect.objectContaining({
+        location: 'Shelf A',
+        figureCondition: 'sealed',
+        purchaseInfo: { date: new Date('2024-03-01'), price: 120, currency: 'USD', source: undefined },
+        merchant: { name: 'AmiAmi', url: undefined }
+      }));
+    });
+
+    it('should only change the fields that are given', () => {
+      const existing = {
+        location: 'Shelf A',
+        boxCondition: 'mint' as const,
+        purchaseInfo: { date: new Date('2024-03-01'), price: 120, currency: 'JPY' }
+      };
+
+      const copy = applyCopyFields({ purchasePrice: 99 }, existing);
+
+      expect(copy.location).toBe('Shelf A');
+      expect(copy.boxCondition).toBe('mint');
+      expect(copy.purchaseInfo).toEqual(expect.objectContaining({
+        date: new Date('2024-03-01'),
+        price: 99,
+        currency: 'JPY'
+      }));
+    });
+
+    it('should clear values given as empty strings', () => {
+      const copy = applyCopyFields(
+        { location: '', figureCondition: '', merchantName: '' },
+        { location: 'Shelf A', figureCondition: 'good', merchant: { name: 'AmiAmi', url: 'https://amiami.com' } }
+      );
+
+      expect(copy.location).toBeUndefined();
+      expect(copy.figureCondition).toBeUndefined();
+      expect(copy.merchant).toEqual({ name: undefined, url: 'https://amiami.com' });
+    });
+  });
+
+  describe('seedCopiesFromFigure', () => {
+    it('should create one copy per unit of quantity', () => {
+      const copies = seedCopiesFromFigure({
+        quantity: 3,
+        location: 'Display',
+        figureCondition: 'likenew',
+        purchaseInfo: { price: 150, currency: 'USD' },
+        merchant: { name: 'Solaris' }
+      } as any);
+
+      expect(copies).toHaveLength(3);
+      expect(copies.every(copy => copy.location === 'Display' && copy.figureCondition === 'likenew')).toBe(true);
+      expect(copies[0].purchaseInfo).toEqual({ price: 150, currency: 'USD' });
+      expect(copies[0].merchant).toEqual({ name: 'Solaris' });
+      expect(copies[1].purchaseInfo).toBeUndefined();
+      expect(copies[2].merchant).toBeUndefined();
+    });
+
+    it('should create a single copy for figures without a quantity', () => {
+      expect(seedCopiesFromFigure({ location: '' } as any)).toEqual([
+        expect.objectContaining({ location: undefined })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  applyCustomFieldValues,
+  buildCustomFieldConditions,
+  customFieldKeyFromName,
+  customFieldSortPath,
+  CustomFieldDefinition,
+  usesCustomFields
+} from '../../src/services/customFieldService';
+
+describe('Custom Field Service', () => {
+  const definitions: CustomFieldDefinition[] = [
+    { key: 'signed', name: 'Signed', type: 'boolean' },
+    { key: 'shelf_height', name: 'Shelf height', type: 'number' },
+    { key: 'displayed_since', name: 'Displayed since', type: 'date' },
+    { key: 'lighting', name: 'Lighting', type: 'enum', options: ['LED', 'None'] },
+    { key: 'notes', name: 'Notes', type: 'text' }
+  ];
+
+  describe('customFieldKeyFromName', () => {
+    it('should derive a lowercase key from the name', () => {
+      expect(customFieldKeyFromName('Display lighting')).toBe('display_lighting');
+      expect(customFieldKeyFromName('Café Édition #2')).toBe('cafe_edition_2');
+      expect(customFieldKeyFromName('2nd box')).toBe('nd_box');
+    });
+
+    it('should fall back to "field" and avoid keys that are taken', () => {
+      expect(customFieldKeyFromName('展示')).toBe('field');
+      expect(customFieldKeyFromName('Signed', ['signed', 'signed_2'])).toBe('signed_3');
+    });
+  });
+
+  describe('applyCustomFieldValues', () => {
+    it('should coerce values to the field types', () => {
+      const { values, errors } = applyCustomFieldValues(definitions, {
+        signed: 'true',
+        shelf_height: '42.5',
+        displayed_since: '2024-05-01',
+        lighting: 'led',
+        notes: '  behind glass '
+      });
+
+      expect(errors).toEqual([]);
+      expect(values).toEqual({
+        signed: true,
+        shelf_height: 42.5,
+        displayed_since: new Date('2024-05-01'),
+        lighting: 'LED',
+        notes: 'behind glass'
+      });
+    });
+
+    it('should merge onto existing values and remove cleared ones', () => {
+      const { values } = applyCustomFieldValues(
+        definitions,
+        { notes: null, shelf_height: 10 },
+        { notes: 'old', signed: false }
+      );
+      expect(values).toEqual({ signed: false, shelf_height: 10 });
+    });
+
+    it('should report invalid values and unknown fields', () => {
+      const { errors } = applyCustomFieldValues(definitions, {
+        shelf_height: 'tall',
+        lighting: 'Neon',
+        signed: 'yes',
+        colour: 'red'
+      });
+
+      expect(errors).toEqual([
+        'Custom field "Shelf height" must be a number',
+        'Custom field "Lighting" must be one of: LED, None',
+        'Custom field "Signed" must be true or false',
+        'Unknown custom field "colour"'
+      ]);
+    });
+  });
+
+  describe('buildCustomFieldConditions', () => {
+    it('should build a condition per cf.<key> parameter', () => {
+      const { conditions, errors } = buildCustomFieldConditions(definitions, {
+        manufacturer: 'Alter',
+        'cf.notes': 'glass',
+        'cf.lighting': 'LED,__unspecified__',
+        'cf.signed': 'false',
+        'cf.shelf_height': '10..',
+        'cf.displayed_since': '2024-01-01..2024-01-31'
+      });
+
+      expect(errors).toEqual([]);
+      expect(conditions).toEqual([
+        { 'customFields.notes': { $regex: 'glass', $options: 'i' } },
+        { 'customFields.lighting': { $in: [null, 'LED'] } },
+        { 'customFields.signed': { $ne: true } },
+        { 'customFields.shelf_height': { $gte: 10 } },
+        {
+          'customFields.displayed_since': {
+            $gte: new Date('2024-01-01T00:00:00Z'),
+            $lt: new Date('2024-02-01T00:00:00Z')
+          }
+        }
+      ]);
+    });
+
+    it('should match an exact number', () => {
+      const { conditions } = buildCustomFieldConditions(definitions, { 'cf.shelf_height': '25' });
+      expect(conditions).toEqual([{ 'customFields.shelf_height': 25 }]);
+    });
+
+    it('should reject unknown fields and malformed values', () => {
+      const { errors } = buildCustomFieldConditions(definitions, {
+        'cf.colour': 'red',
+        'cf.signed': 'maybe',
+        'cf.shelf_height': 'a..b'
+      });
+
+      expect(errors).toEqual([
+        'Unknown custom field "colour"',
+        'cf.signed must be true or false',
+        'cf.shelf_height must be a number or a min..max range'
+      ]);
+    });
+  });
+
+  describe('sorting', () => {
+    it('should detect queries that use custom fields', () => {
+      expect(usesCustomFields({ manufacturer: 'Alter' })).toBe(false);
+      expect(usesCustomFields({ sortBy: 'cf.signed' })).toBe(true);
+      expect(usesCustomFields({ sortBy: 'name,-cf.signed' })).toBe(true);
+      expect(usesCustomFields({ sortBy: 'name,-rating' })).toBe(false);
+      expect(usesCustomFields({ 'cf.signed': 'true' })).toBe(true);
+    });
+
+    it('should sort by a defined custom field only', () => {
+      expect(customFieldSortPath(definitions, 'cf.shelf_height')).toBe('customFields.shelf_height');
+      expect(customFieldSortPath(definitions, 'cf.colour')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import { DuplicateFigure, findDuplicateGroups, normalizeForComparison } from '../../src/services/duplicateService';
+
+describe('Duplicate Service', () => {
+  let created = 0;
+  const figure = (fields: Partial<DuplicateFigure>): DuplicateFigure => ({
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Saber',
+    manufacturer: 'Alter',
+    createdAt: new Date(Date.UTC(2024, 0, ++created)),
+    ...fields
+  });
+
+  describe('normalizeForComparison', () => {
+    it('should ignore case, accents, punctuation and spacing', () => {
+      expect(normalizeForComparison('  Saber (Alter Ver.) ')).toBe('saber alter ver');
+      expect(normalizeForComparison('Pokémon')).toBe('pokemon');
+      expect(normalizeForComparison('初音ミク')).toBe('初音ミク');
+    });
+  });
+
+  describe('findDuplicateGroups', () => {
+    it('should group figures with the same MFC item or barcode', () => {
+      const synced = figure({ name: 'Saber', mfcId: 1001 });
+      const manual = figure({ name: 'Saber - Fate/stay night', mfcId: 1001 });
+      const imported = figure({ name: 'Altria Pendragon', manufacturer: 'Alter Co.', releases: [{ jan: '4580416940283' }] });
+      const scanned = figure({ name: 'Saber Lily', manufacturer: 'Other', jan: '4580-4169-4028-3' });
+
+      const groups = findDuplicateGroups([synced, imported, manual, scanned]);
+
+      expect(groups).toEqual([
+        { confidence: 1, reasons: ['mfcId'], figures: [synced, manual] },
+        { confidence: 0.95, reasons: ['jan'], figures: [imported, scanned] }
+      ]);
+    });
+
+    it('should match near-identical names from the same manufacturer', () => {
+      const a = figure({ name: 'Saber (Alter Ver.)', manufacturer: 'Good Smile Company', scale: '1/7' });
+      const b = figure({ name: 'saber alter ver', manufacturer: 'GOOD SMILE COMPANY', scale: '1/7' });
+      const c = figure({ name: 'Saber Alter Ver', manufacturer: 'Good Smile Company' });
+
+      const [group] = findDuplicateGroups([a, b, c]);
+
+      expect(group.reasons).toEqual(['name']);
+      expect(group.figures).toEqual([a, b, c]);
+      // Held together by the match without a known scale
+      expect(group.confidence).toBe(0.8);
+    });
+
+    it('should score fuzzy name matches below identifier matches', () => {
+      const groups = findDuplicateGroups([
+        figure({ name: 'Hatsune Miku Racing 2024', scale: '1/7' }),
+        figure({ name: 'Hatsune Miku Racing 2024 Ver', scale: '1/7' })
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].confidence).toBeGreaterThanOrEqual(0.72);
+      expect(groups[0].confidence).toBeLessThan(0.9);
+    });
+
+    it('should not match different scales, MFC items, manufacturers or dissimilar names', () => {
+      expect(findDuplicateGroups([
+        figure({ name: 'Saber', scale: '1/7' }),
+        figure({ name: 'Saber', scale: '1/4' })
+      ])).toEqual([]);
+      expect(findDuplicateGroups([
+        figure({ name: 'Saber', mfcId: 1 }),
+        figure({ name: 'Saber', mfcId: 2 })
+      ])).toEqual([]);
+      expect(findDuplicateGroups([
+        figure({ name: 'Saber', manufacturer: 'Alter' }),
+        figure({ name: 'Saber', manufacturer: 'Max Factory' })
+      ])).toEqual([]);
+      expect(findDuplicateGroups([
+        figure({ name: 'Saber' }),
+        figure({ name: 'Rin Tohsaka' })
+      ])).toEqual([]);
+    });
+
+    it('should leave out matches below minConfidence', () => {
+      const figures = [
+        figure({ name: 'Saber', mfcId: 7 }),
+        figure({ name: 'Saber', mfcId: 7 }),
+        figure({ name: 'Rin' }),
+        figure({ name: 'rin' })
+      ];
+
+      expect(findDuplicateGroups(figures, { minConfidence: 0.9 }).map(group => group.reasons)).toEqual([['mfcId']]);
+    });
+
+    it('should find name matches in a large collection from one manufacturer', () => {
+      let seed = 42;
+      const letter = () => {
+        seed = (seed * 48271) % 2147483647;
+        return String.fromCharCode(97 + Math.floor((seed / 2147483647) * 26));
+      };
+      const figures = Array.from({ length: 3000 }, () =>
+        figure({ name: Array.from({ length: 8 }, letter).join('') }));
+      const a = figure({ name: 'Saber (Alter Ver.)' });
+      const b = figure({ name: 'Saber Alter Ver' });
+
+      const groups = findDuplicateGroups([...figures.slice(0, 1500), a, ...figures.slice(1500), b]);
+
+      expect(groups).toEqual([{ confidence: 0.8, reasons: ['name'], figures: [a, b] }]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import mongoose from 'mongoose';
+import {
+  FIGURE_EXPORT_COLUMNS,
+  customFieldExportColumns,
+  flattenFigure,
+  escapeCsvValue,
+  csvHeaderRow,
+  csvRecordRow
+} from '../../src/services/exportService';
+
+describe('Export Service', () => {
+  const fullFigure = {
+    _id: new mongoose.Types.ObjectId('000000000000000000000abc'),
+    name: 'Hatsune Miku',
+    manufacturer: 'Good Smile Company',
+    scale: '1/8',
+    mfcId: 12345,
+    collectionStatus: 'ordered',
+    quantity: 2,
+    tags: ['vocaloid', 'miku'],
+    companyRoles: [
+      { companyName: 'Good Smile Company', roleName: 'Manufacturer' },
+      { companyName: 'Max Factory', roleName: 'Distributor' }
+    ],
+    artistRoles: [{ artistName: 'Sculptor A', roleName: 'Sculptor' }],
+    releases: [
+      { date: new Date('2024-03-01T00:00:00Z'), price: 18000, currency: 'JPY', isRerelease: false, jan: '4580416940000' },
+      { date: new Date('2025-06-01T00:00:00Z'), price: 19500, currency: 'JPY', isRerelease: true }
+    ],
+    purchaseInfo: { date: new Date('2024-01-15T00:00:00Z'), price: 120.5, currency: 'USD', source: 'AmiAmi' },
+    merchant: { name: 'AmiAmi', url: 'https://amiami.com' },
+    dimensions: { heightMm: 250, scaledHeight: '1/8' },
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-02-01T00:00:00Z')
+  };
+
+  describe('flattenFigure', () => {
+    it('should produce a value for every export column', () => {
+      const record = flattenFigure(fullFigure);
+      expect(Object.keys(record)).toEqual(FIGURE_EXPORT_COLUMNS.map(c => c.key));
+    });
+
+    it('should flatten nested subdocuments into stable columns', () => {
+      const record = flattenFigure(fullFigure);
+
+      expect(record.id).toBe('000000000000000000000abc');
+      expect(record.tags).toBe('vocaloid | miku');
+      expect(record.companies).toBe('Good Smile Company (Manufacturer) | Max Factory (Distributor)');
+      expect(record.artists).toBe('Sculptor A (Sculptor)');
+      expect(record.releaseDates).toBe('2024-03-01 | 2025-06-01');
+      expect(record.releasePrices).toBe('18000 | 19500');
+      expect(record.releaseJans).toBe('4580416940000 | ');
+      expect(record.releaseIsRerelease).toBe('false | true');
+      expect(record.purchaseDate).toBe('2024-01-15');
+      expect(record.purchasePrice).toBe(120.5);
+      expect(record.merchantName).toBe('AmiAmi');
+      expect(record.heightMm).toBe(250);
+      expect(record.widthMm).toBeNull();
+      expect(record.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should treat legacy figures without collectionStatus as owned', () => {
+      const record = flattenFigure({ name: 'Legacy', manufacturer: 'Alter' });
+      expect(record.collectionStatus).toBe('owned');
+      expect(record.releaseDates).toBeNull();
+      expect(record.purchaseDate).toBeNull();
+    });
+  });
+
+  describe('escapeCsvValue', () => {
+    it('should leave plain values untouched', () => {
+      expect(escapeCsvValue('Alter')).toBe('Alter');
+      expect(escapeCsvValue(42)).toBe('42');
+      expect(escapeCsvValue(null)).toBe('');
+    });
+
+    it('should quote values containing separators, quotes or newlines', () => {
+      expect(escapeCsvValue('Saber, Lily')).toBe('"Saber, Lily"');
+      expect(escapeCsvValue('The "Best" One')).toBe('"The ""Best"" One"');
+      expect(escapeCsvValue('line1\nline2')).toBe('"line1\nline2"');
+    });
+
+    it('should neutralize spreadsheet formulas in strings', () => {
+      expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+      expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    });
+
+    it('should not alter negative numbers', () => {
+      expect(escapeCsvValue(-5)).toBe('-5');
+    });
+  });
+
+  describe('CSV rows', () => {
+    it('should build a header row from the column keys', () => {
+      const header = csvHeaderRow();
+      expect(header.startsWith('id,name,manufacturer,scale')).toBe(true);
+      expect(header.endsWith('\r\n')).toBe(true);
+    });
+
+    it('should build a record row with one cell per column', () => {
+      const row = csvRecordRow(flattenFigure({ name: 'Rin', manufacturer: 'Alter' }));
+      expect(row.split(',').length).toBe(FIGURE_EXPORT_COLUMNS.length);
+    });
+
+    it('should append one column per custom field', () => {
+      const columns = [
+        ...FIGURE_EXPORT_COLUMNS,
+        ...customFieldExportColumns([
+          { key: 'signed', type: 'boolean' },
+          { key: 'displayed_since', type: 'date' }
+        ])
+      ];
+      const record = flattenFigure({
+        name: 'Rin',
+        customFields: { signed: true, displayed_since: new Date('2024-05-01T12:00:00Z') }
+      }, columns);
+
+      expect(csvHeaderRow(columns).trimEnd().endsWith('updatedAt,cf.signed,cf.displayed_since')).toBe(true);
+      expect(csvRecordRow(record, columns).trimEnd().endsWith(',true,2024-05-01')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import mongoose from 'mongoose';
+import { diffFigures, snapshotFigure } from '../../src/services/figureHistoryService';
+
+describe('Figure History Service', () => {
+  describe('snapshotFigure', () => {
+    it('should return null for a missing figure', () => {
+      expect(snapshotFigure(null)).toBeNull();
+    });
+
+    it('should convert ObjectIds and Dates to strings', () => {
+      const id = new mongoose.Types.ObjectId();
+      const snapshot = snapshotFigure({
+        _id: id,
+        purchaseInfo: { date: new Date('2024-03-01T00:00:00Z') }
+      });
+
+      expect(snapshot).toEqual({
+        _id: id.toString(),
+        purchaseInfo: { date: '2024-03-01T00:00:00.000Z' }
+      });
+    });
+
+    it('should not be affected by later edits to the source', () => {
+      const figure = { releases: [{ price: 100 }] };
+      const snapshot = snapshotFigure(figure);
+      figure.releases[0].price = 200;
+      expect(snapshot?.releases[0].price).toBe(100);
+    });
+  });
+
+  describe('diffFigures', () => {
+    it('should list changed fields with old and new values', () => {
+      const changes = diffFigures(
+        { name: 'Miku', collectionStatus: 'ordered', location: 'Closet' },
+        { name: 'Miku', collectionStatus: 'owned', location: 'Shelf A' }
+      );
+
+      expect(changes).toEqual([
+        { field: 'collectionStatus', oldValue: 'ordered', newValue: 'owned' },
+        { field: 'location', oldValue: 'Closet', newValue: 'Shelf A' }
+      ]);
+    });
+
+    it('should report every set field for a new figure', () => {
+      const changes = diffFigures(null, { _id: 'x', name: 'Miku', tags: [], note: '' });
+      expect(changes).toEqual([{ field: 'name', oldValue: undefined, newValue: 'Miku' }]);
+    });
+
+    it('should treat empty strings, empty arrays and missing values alike', () => {
+      expect(diffFigures({ note: '', tags: [] }, { imageUrls: [] })).toEqual([]);
+    });
+
+    it('should ignore bookkeeping fields', () => {
+      const changes = diffFigures(
+        { _id: 'a', __v: 0, updatedAt: '2024-01-01', userId: 'u' },
+        { _id: 'a', __v: 1, updatedAt: '2024-02-01', userId: 'u' }
+      );
+      expect(changes).toEqual([]);
+    });
+
+    it('should compare nested values structurally', () => {
+      const before = { releases: [{ price: 100, currency: 'JPY' }] };
+      expect(diffFigures(before, { releases: [{ price: 100, currency: 'JPY' }] })).toEqual([]);
+      expect(diffFigures(before, { releases: [{ price: 120, currency: 'JPY' }] })).toEqual([
+        {
+          field: 'releases',
+          oldValue: [{ price: 100, currency: 'JPY' }],
+          newValue: [{ price: 120, currency: 'JPY' }]
+        }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import {
+  cursorMatchesSort,
+  decodeFigureCursor,
+  encodeFigureCursor,
+  figureCursorCondition,
+  figureSortOptions,
+  parseFigureSort
+} from '../../src/services/figureQueryService';
+
+describe('Figure Query Service', () => {
+  describe('parseFigureSort', () => {
+    it('should default to newest first', () => {
+      expect(parseFigureSort(undefined, undefined).keys).toEqual([
+        { field: 'createdAt', path: 'createdAt', order: -1 }
+      ]);
+    });
+
+    it('should apply sortOrder to keys without a "-" prefix', () => {
+      const { keys, errors } = parseFigureSort('manufacturer, -rating,purchaseDate', 'asc');
+
+      expect(errors).toEqual([]);
+      expect(keys).toEqual([
+        { field: 'manufacturer', path: 'manufacturer', order: 1 },
+        { field: 'rating', path: 'rating', order: -1 },
+        { field: 'purchaseDate', path: 'purchaseInfo.date', order: 1 }
+      ]);
+    });
+
+    it('should only accept custom fields when allowed', () => {
+      expect(parseFigureSort('-cf.shelf_height', 'asc', { allowCustomFields: true }).keys).toEqual([
+        { field: 'cf.shelf_height', path: 'customFields.shelf_height', order: -1 }
+      ]);
+      expect(parseFigureSort('cf.shelf_height', 'asc').errors).toEqual([
+        expect.stringContaining('sortBy must be one of')
+      ]);
+    });
+
+    it('should reject repeated keys and more than three keys', () => {
+      expect(parseFigureSort('price,-purchasePrice', undefined).errors).toEqual([
+        'sortBy lists "purchasePrice" more than once'
+      ]);
+      expect(parseFigureSort('name,scale,origin,quantity', undefined).errors).toEqual([
+        'sortBy accepts at most 3 keys'
+      ]);
+    });
+  });
+
+  describe('figureSortOptions', () => {
+    it('should break ties by _id in the last key\'s direction when asked', () => {
+      const { keys } = parseFigureSort('-rating,name', 'asc');
+
+      expect(figureSortOptions(keys)).toEqual({ rating: -1, name: 1 });
+      expect(figureSortOptions(keys, true)).toEqual({ rating: -1, name: 1, _id: 1 });
+    });
+  });
+
+  describe('cursors', () => {
+    const { keys } = parseFigureSort('manufacturer,-releaseDate', 'asc');
+    const figure = {
+      _id: new mongoose.Types.ObjectId(),
+      manufacturer: 'Alter',
+      firstReleaseDate: new Date('2021-05-01')
+    };
+
+    it('should round-trip the sort values of the last figure', () => {
+      const cursor = decodeFigureCursor(encodeFigureCursor(keys, figure));
+
+      expect(cursor).toEqual({
+        keys: [
+          { path: 'manufacturer', order: 1, value: 'Alter' },
+          { path: 'firstReleaseDate', order: -1, value: new Date('2021-05-01') }
+        ],
+        id: String(figure._id)
+      });
+      expect(cursorMatchesSort(cursor!, keys)).toBe(true);
+      expect(cursorMatchesSort(cursor!, parseFigureSort('manufacturer,releaseDate', 'asc').keys)).toBe(false);
+      expect(decodeFigureCursor('not-a-cursor')).toBeNull();
+    });
+
+    it('should match the figures after the cursor key by key', () => {
+      const cursor = decodeFigureCursor(encodeFigureCursor(keys, figure))!;
+
+      expect(figureCursorCondition(cursor)).toEqual({
+        $or: [
+          { manufacturer: { $gt: 'Alter' } },
+          { manufacturer: 'Alter', firstReleaseDate: { $lt: new Date('2021-05-01') } },
+          { manufacturer: 'Alter', firstReleaseDate: null },
+          { manufacturer: 'Alter', firstReleaseDate: new Date('2021-05-01'), _id: { $lt: figure._id } }
+        ]
+      });
+    });
+
+    it('should place missing values first ascending and last descending', () => {
+      const missing = { _id: figure._id };
+      const ascending = decodeFigureCursor(encodeFigureCursor(parseFigureSort('rating', 'asc').keys, missing))!;
+      const descending = decodeFigureCursor(encodeFigureCursor(parseFigureSort('-rating', undefined).keys, missing))!;
+
+      expect(figureCursorCondition(ascending)).toEqual({
+        $or: [{ rating: { $ne: null } }, { rating: null, _id: { $gt: figure._id } }]
+      });
+      expect(figureCursorCondition(descending)).toEqual({
+        $or: [{ rating: null, _id: { $lt: figure._id } }]
+      });
+    });
+  });
+});
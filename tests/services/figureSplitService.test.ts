@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import {
+  catalogItemFromFigure,
+  getFigureModelMode,
+  userFigureFromFigure
+} from '../../src/services/figureSplitService';
+
+describe('Figure Split Service', () => {
+  const companyId = new mongoose.Types.ObjectId();
+  const roleId = new mongoose.Types.ObjectId();
+  const figure = (fields: Record<string, any> = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    __v: 0,
+    userId: new mongoose.Types.ObjectId(),
+    manufacturer: 'Alter',
+    name: 'Saber',
+    scale: '1/7',
+    mfcId: 1001,
+    mfcLink: 'https://myfigurecollection.net/item/1001',
+    imageUrls: ['https://static.myfigurecollection.net/1001.jpg'],
+    releases: [{ date: new Date('2024-05-01'), price: 18000, currency: 'JPY', isRerelease: false, variant: 'Standard' }],
+    companyRoles: [
+      { companyId, companyName: 'Alter', roleId, roleName: 'Manufacturer' },
+      { companyName: 'Unknown Shop', roleName: 'Retailer' }
+    ],
+    collectionStatus: 'owned',
+    location: 'Cabinet A',
+    tags: ['fate'],
+    ...fields
+  });
+
+  describe('getFigureModelMode', () => {
+    const original = process.env.FIGURE_MODEL_MODE;
+    afterEach(() => {
+      process.env.FIGURE_MODEL_MODE = original;
+    });
+
+    it('should default to dual writes with Figure reads', () => {
+      delete process.env.FIGURE_MODEL_MODE;
+      expect(getFigureModelMode()).toBe('dual');
+      process.env.FIGURE_MODEL_MODE = 'unknown';
+      expect(getFigureModelMode()).toBe('dual');
+      process.env.FIGURE_MODEL_MODE = 'split';
+      expect(getFigureModelMode()).toBe('split');
+    });
+  });
+
+  describe('catalogItemFromFigure', () => {
+    it('should take the shared catalog data of a figure', () => {
+      expect(catalogItemFromFigure(figure())).toEqual({
+        mfcId: 1001,
+        mfcUrl: 'https://myfigurecollection.net/item/1001',
+        name: 'Saber',
+        scale: '1/7',
+        imageUrls: ['https://static.myfigurecollection.net/1001.jpg'],
+        releases: [{ date: new Date('2024-05-01'), price: 18000, currency: 'JPY', isRerelease: false }],
+        companies: [{ companyId, roleId }],
+        artists: []
+      });
+    });
+
+    it('should have no catalog item for figures without an MFC ID', () => {
+      expect(catalogItemFromFigure(figure({ mfcId: undefined }))).toBeNull();
+    });
+  });
+
+  describe('userFigureFromFigure', () => {
+    it('should keep per-user data and only catalog values that differ from the item', () => {
+      const source = figure({ name: 'Saber (my name)' });
+      const item = {
+        _id: new mongoose.Types.ObjectId(),
+        ...catalogItemFromFigure(figure({ scale: undefined }))
+      };
+
+      const userFigure = userFigureFromFigure(source, item);
+
+      expect(userFigure).toEqual(expect.objectContaining({
+        figureId: source._id,
+        mfcItemId: item._id,
+        userId: source.userId,
+        manufacturer: 'Alter',
+        location: 'Cabinet A',
+        tags: ['fate'],
+        companyRoles: source.companyRoles,
+        name: 'Saber (my name)',
+        scale: '1/7',
+        releases: source.releases
+      }));
+      expect(userFigure).not.toHaveProperty('_id');
+      expect(userFigure).not.toHaveProperty('mfcId');
+      expect(userFigure).not.toHaveProperty('imageUrls');
+      expect(userFigure).not.toHaveProperty('mfcLink');
+    });
+
+    it('should store a value the figure lacks as null so the item value does not apply', () => {
+      const item = { _id: new mongoose.Types.ObjectId(), ...catalogItemFromFigure(figure()) };
+
+      expect(userFigureFromFigure(figure({ scale: undefined }), item).scale).toBeNull();
+    });
+
+    it('should keep every field of figures without a catalog item', () => {
+      const source = figure({ mfcId: undefined });
+
+      expect(userFigureFromFigure(source, null)).toEqual(expect.objectContaining({
+        name: 'Saber',
+        scale: '1/7',
+        imageUrls: source.imageUrls,
+        mfcItemId: null
+      }));
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { parseCsv, suggestMapping, applyMapping, buildFigureFromRow } from '../../src/services/importService';
+
+describe('Import Service', () => {
+  describe('parseCsv', () => {
+    it('should parse simple rows', () => {
+      expect(parseCsv('name,maker\nMiku,GSC\nRin,Alter')).toEqual([
+        ['name', 'maker'],
+        ['Miku', 'GSC'],
+        ['Rin', 'Alter']
+      ]);
+    });
+
+    it('should handle quoted fields, escaped quotes and embedded newlines', () => {
+      const csv = 'name,note\r\n"Saber, Lily","She said ""hi""\nto me"\r\n';
+      expect(parseCsv(csv)).toEqual([
+        ['name', 'note'],
+        ['Saber, Lily', 'She said "hi"\nto me']
+      ]);
+    });
+
+    it('should strip a UTF-8 BOM and skip blank lines', () => {
+      expect(parseCsv('\uFEFFname\n\nMiku\n\n')).toEqual([['name'], ['Miku']]);
+    });
+
+    it('should keep empty trailing cells', () => {
+      expect(parseCsv('a,b,c\n1,,')).toEqual([['a', 'b', 'c'], ['1', '', '']]);
+    });
+  });
+
+  describe('suggestMapping', () => {
+    it('should match field names regardless of case and punctuation', () => {
+      expect(suggestMapping(['Name', 'Purchase Price', 'storage_detail'])).toEqual({
+        'Name': 'name',
+        'Purchase Price': 'purchasePrice',
+        'storage_detail': 'storageDetail'
+      });
+    });
+
+    it('should use common aliases and leave unknown headers unmapped', () => {
+      expect(suggestMapping(['Title', 'Maker', 'Barcode', 'Shelf colour'])).toEqual({
+        'Title': 'name',
+        'Maker': 'manufacturer',
+        'Barcode': 'jan',
+        'Shelf colour': ''
+      });
+    });
+
+    it('should not map two columns to the same field', () => {
+      const mapping = suggestMapping(['Name', 'Title']);
+      expect(mapping).toEqual({ 'Name': 'name', 'Title': '' });
+    });
+  });
+
+  describe('applyMapping', () => {
+    const headers = ['Title', 'Maker', 'Tags', 'Status', 'Ignored'];
+    const mapping = {
+      Title: 'name' as const,
+      Maker: 'manufacturer' as const,
+      Tags: 'tags' as const,
+      Status: 'collectionStatus' as const,
+      Ignored: '' as const
+    };
+
+    it('should map cells onto figure fields', () => {
+      const data = applyMapping(headers, ['Miku', 'GSC', 'vocaloid; miku', 'Owned', 'x'], mapping);
+      expect(data).toEqual({
+        name: 'Miku',
+        manufacturer: 'GSC',
+        tags: ['vocaloid', 'miku'],
+        collectionStatus: 'owned'
+      });
+    });
+
+    it('should omit empty cells', () => {
+      const data = applyMapping(headers, ['Miku', '', '', '', ''], mapping);
+      expect(data).toEqual({ name: 'Miku' });
+    });
+
+    it('should undo the formula-escaping apostrophe added by export', () => {
+      const data = applyMapping(['Title'], ["'-Kuroko-"], { Title: 'name' });
+      expect(data.name).toBe('-Kuroko-');
+    });
+  });
+
+  describe('buildFigureFromRow', () => {
+    it('should nest flat purchase, merchant and release fields', () => {
+      const figure = buildFigureFromRow({
+        name: 'Miku',
+        manufacturer: 'GSC',
+        jan: '4580416940000',
+        releasePrice: 18000,
+        purchasePrice: 120,
+        merchantName: 'AmiAmi'
+      }, '000000000000000000000123');
+
+      expect(figure.releases).toEqual([
+        expect.objectContaining({ price: 18000, currency: 'JPY', jan: '4580416940000' })
+      ]);
+      expect(figure.purchaseInfo).toEqual(expect.objectContaining({ price: 120, currency: 'USD' }));
+      expect(figure.merchant).toEqual({ name: 'AmiAmi', url: undefined });
+      expect(figure.collectionStatus).toBe('owned');
+      expect(figure.quantity).toBe(1);
+    });
+
+    it('should leave optional subdocuments unset', () => {
+      const figure = buildFigureFromRow({ name: 'Miku', manufacturer: 'GSC' }, '000000000000000000000123');
+      expect(figure.releases).toBeUndefined();
+      expect(figure.purchaseInfo).toBeUndefined();
+      expect(figure.dimensions).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import mongoose from 'mongoose';
+import {
+  addToTotals,
+  buildInventoryEntry,
+  escapeHtml,
+  primaryPhoto,
+  renderInventoryFooter,
+  renderInventoryHeader,
+  renderInventoryRow
+} from '../../src/services/inventoryReportService';
+import { createConverter } from '../../src/services/valuationService';
+
+describe('Inventory Report Service', () => {
+  const figure = {
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Saber <Alter>',
+    manufacturer: 'Alter',
+    scale: '1/7',
+    purchaseInfo: { price: 150, currency: 'usd', date: new Date('2023-04-02') },
+    releases: [{ price: 18000, currency: 'JPY', jan: '4560228201234', isRerelease: false }],
+    figureCondition: 'likenew' as const,
+    boxCondition: 'good' as const,
+    location: 'Living room',
+    storageDetail: 'Cabinet A'
+  };
+
+  describe('buildInventoryEntry', () => {
+    it('should describe the figure and value it in the report currency', () => {
+      const converter = createConverter({ base: 'USD', rates: [{ date: new Date('2020-01-01'), rates: { JPY: 150 } }] }, 'USD');
+
+      const entry = buildInventoryEntry(figure, converter.convert);
+
+      expect(entry).toEqual({
+        name: 'Saber <Alter>',
+        manufacturer: 'Alter',
+        scale: '1/7',
+        jan: '4560228201234',
+        quantity: 1,
+        purchases: [{ price: 150, currency: 'USD', date: new Date('2023-04-02') }],
+        condition: 'Figure: Like new, Box: Good',
+        location: 'Living room / Cabinet A',
+        purchaseValue: 150,
+        retailValue: 120
+      });
+    });
+
+    it('should count each copy and list the copies\' locations', () => {
+      const converter = createConverter(null, 'USD');
+      const entry = buildInventoryEntry({
+        ...figure,
+        releases: [],
+        copies: [
+          { location: 'Closet', purchaseInfo: { price: 100, currency: 'USD' } },
+          { location: 'Display', purchaseInfo: { price: 120, currency: 'USD' } }
+        ]
+      }, converter.convert);
+
+      expect(entry).toEqual(expect.objectContaining({
+        quantity: 2,
+        location: 'Closet, Display',
+        purchaseValue: 220,
+        retailValue: 0
+      }));
+    });
+
+    it('should value a per-unit purchase for every unit without copy records', () => {
+      const converter = createConverter({ base: 'USD', rates: [{ date: new Date('2020-01-01'), rates: { JPY: 150 } }] }, 'USD');
+
+      expect(buildInventoryEntry({ ...figure, quantity: 2 }, converter.convert)).toEqual(expect.objectContaining({
+        quantity: 2,
+        purchaseValue: 300,
+        retailValue: 240
+      }));
+    });
+
+    it('should leave unconvertible prices out of the value', () => {
+      const converter = createConverter(null, 'EUR');
+
+      expect(buildInventoryEntry(figure, converter.convert).purchaseValue).toBe(0);
+      expect(converter.unconverted()).toEqual(expect.arrayContaining([{ currency: 'USD', count: 1 }]));
+    });
+  });
+
+  describe('primaryPhoto', () => {
+    it('should prefer the primary photo, then the first by order', () => {
+      const photos = [
+        { storageKey: 'b', contentType: 'image/jpeg', isPrimary: false, order: 1 },
+        { storageKey: 'a', contentType: 'image/jpeg', isPrimary: false, order: 0 }
+      ];
+
+      expect(primaryPhoto({ photos })?.storageKey).toBe('a');
+      expect(primaryPhoto({ photos: [...photos, { storageKey: 'c', contentType: 'image/png', isPrimary: true, order: 2 }] })?.storageKey).toBe('c');
+      expect(primaryPhoto({})).toBeNull();
+    });
+  });
+
+  describe('rendering', () => {
+    it('should produce an escaped, complete HTML document with totals', () => {
+      const entry = buildInventoryEntry(figure, createConverter(null, 'USD').convert);
+      const totals = addToTotals({ count: 0, copies: 0, purchaseValue: 0, retailValue: 0 }, entry);
+
+      const html = renderInventoryHeader({
+        title: 'Inventory',
+        owner: 'collector',
+        currency: 'USD',
+        generatedAt: new Date('2024-06-15T10:30:00Z'),
+        filters: { status: 'owned' }
+      }) + renderInventoryRow(1, entry, 'USD', 'data:image/png;base64,AAAA') + renderInventoryFooter(totals, 'USD', []);
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('Saber &lt;Alter&gt;');
+      expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="">');
+      expect(html).toContain('Filters: status: owned');
+      expect(html).toContain('Total: 1 figure');
+      expect(html).toContain('150.00 USD');
+      expect(html.trimEnd().endsWith('</html>')).toBe(true);
+    });
+
+    it('should list prices left out of the totals', () => {
+      const html = renderInventoryFooter({ count: 2, copies: 2, purchaseValue: 0, retailValue: 0 }, 'EUR', [{ currency: 'CNY', count: 2 }]);
+
+      expect(html).toContain('2 prices in CNY');
+    });
+  });
+
+  it('should escape HTML special characters', () => {
+    expect(escapeHtml('<a href="x">Tom & Jerry\'s</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+});
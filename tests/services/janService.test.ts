@@ -0,0 +1,38 @@
+import { isValidJan, janVariants, normalizeJan } from '../../src/services/janService';
+
+describe('JAN Service', () => {
+  describe('normalizeJan', () => {
+    it('should strip the spaces and dashes printed under barcodes', () => {
+      expect(normalizeJan('4 580416 940283')).toBe('4580416940283');
+      expect(normalizeJan('4580-4169-4028-3')).toBe('4580416940283');
+    });
+  });
+
+  describe('isValidJan', () => {
+    it('should accept EAN-13/JAN, EAN-8 and UPC-A codes with a valid check digit', () => {
+      expect(isValidJan('4580416940283')).toBe(true);
+      expect(isValidJan('49012347')).toBe(true);
+      expect(isValidJan('042100005264')).toBe(true);
+    });
+
+    it('should reject a wrong check digit', () => {
+      expect(isValidJan('4580416940284')).toBe(false);
+      expect(isValidJan('49012348')).toBe(false);
+    });
+
+    it('should reject other lengths and non-digits', () => {
+      expect(isValidJan('4580416')).toBe(false);
+      expect(isValidJan('45804169402')).toBe(false);
+      expect(isValidJan('458041694028X')).toBe(false);
+      expect(isValidJan('')).toBe(false);
+    });
+  });
+
+  describe('janVariants', () => {
+    it('should match UPC-A codes with and without the EAN-13 leading zero', () => {
+      expect(janVariants('042100005264')).toEqual(['042100005264', '0042100005264']);
+      expect(janVariants('0042100005264')).toEqual(['0042100005264', '042100005264']);
+      expect(janVariants('4580416940283')).toEqual(['4580416940283']);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  boxLabelUrl,
+  labelFigureLines,
+  renderLabelSheet,
+  renderLabelSvg
+} from '../../src/services/labelService';
+
+describe('Label Service', () => {
+  const label = {
+    title: 'Box 3',
+    subtitle: 'Closet / Shelf 2',
+    figures: [
+      { name: 'Saber', manufacturer: 'Alter', scale: '1/7' },
+      { name: 'Rin & Sakura <Duo>' }
+    ],
+    url: 'https://figures.example.com/figures?storageNode=65f1c0ffee0123456789abcd'
+  };
+
+  describe('boxLabelUrl', () => {
+    it('should link to the figures in a storage location or box number', () => {
+      expect(boxLabelUrl('https://figures.example.com/', { storageNodeId: '65f1c0ffee0123456789abcd' }))
+        .toBe('https://figures.example.com/figures?storageNode=65f1c0ffee0123456789abcd');
+      expect(boxLabelUrl('https://figures.example.com', { boxNumber: 'B-12 #2' }))
+        .toBe('https://figures.example.com/figures?boxNumber=B-12+%232');
+    });
+  });
+
+  describe('labelFigureLines', () => {
+    it('should describe each figure', () => {
+      expect(labelFigureLines(label.figures)).toEqual(['Saber 1/7 (Alter)', 'Rin & Sakura <Duo>']);
+    });
+
+    it('should summarize the figures that do not fit', () => {
+      const figures = Array.from({ length: 12 }, (_, i) => ({ name: `Figure ${i + 1}` }));
+      const lines = labelFigureLines(figures, 5);
+      expect(lines).toEqual(['Figure 1', 'Figure 2', 'Figure 3', 'Figure 4', '+ 8 more']);
+    });
+  });
+
+  describe('renderLabelSvg', () => {
+    it('should render a standalone SVG with escaped text and a QR code', () => {
+      const svg = renderLabelSvg(label);
+
+      expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+      expect(svg).toContain('>Box 3</text>');
+      expect(svg).toContain('>Closet / Shelf 2</text>');
+      expect(svg).toContain('>Rin &amp; Sakura &lt;Duo&gt;</text>');
+      expect(svg).toContain('>2 figures</text>');
+      expect(svg).toMatch(/<path d="(M\d+,\d+h1v1h-1z)+" fill="#000"\/>/);
+    });
+
+    it('should shorten text that does not fit', () => {
+      const svg = renderLabelSvg({ ...label, title: 'A very long storage box name indeed' });
+      expect(svg).toContain('>A very long stora…</text>');
+    });
+  });
+
+  describe('renderLabelSheet', () => {
+    it('should embed every label in a printable HTML page', () => {
+      const html = renderLabelSheet([label, { ...label, title: 'Box 4', figures: [] }]);
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html.match(/<div class="label">/g)).toHaveLength(2);
+      expect(html).not.toContain('<?xml');
+      expect(html).toContain('>Empty</text>');
+    });
+  });
+});
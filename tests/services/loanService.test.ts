@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { buildOutstandingLoans, loanLocation, outstandingLoan } from '../../src/services/loanService';
+
+describe('Loan Service', () => {
+  describe('outstandingLoan', () => {
+    it('should return the loan not returned yet', () => {
+      const loans = [
+        { borrower: 'Aki', returnedAt: new Date('2024-02-01') },
+        { borrower: 'Comiket display' }
+      ];
+
+      expect(outstandingLoan(loans)?.borrower).toBe('Comiket display');
+      expect(outstandingLoan([loans[0]])).toBeNull();
+      expect(outstandingLoan(undefined)).toBeNull();
+    });
+  });
+
+  describe('loanLocation', () => {
+    it('should name the borrower unless the loan has a location', () => {
+      expect(loanLocation('Aki')).toBe('On loan: Aki');
+      expect(loanLocation('Club', ' Wonder Festival booth ')).toBe('Wonder Festival booth');
+    });
+  });
+
+  describe('buildOutstandingLoans', () => {
+    const now = new Date('2024-06-15T12:00:00Z');
+    const figure = (name: string, loans: Record<string, unknown>[]) => ({
+      _id: new mongoose.Types.ObjectId(),
+      name,
+      loans
+    });
+
+    it('should list overdue loans first and skip returned ones', () => {
+      const loans = buildOutstandingLoans([
+        figure('No date', [{ borrower: 'Aki', loanedAt: new Date('2024-06-01') }]),
+        figure('Due later', [{ borrower: 'Club', expectedReturnAt: new Date('2024-07-01') }]),
+        figure('Overdue', [{ borrower: 'Mei', expectedReturnAt: new Date('2024-06-12') }]),
+        figure('Returned', [{ borrower: 'Yui', expectedReturnAt: new Date('2024-01-01'), returnedAt: new Date('2024-01-02') }])
+      ], now);
+
+      expect(loans.map(loan => loan.name)).toEqual(['Overdue', 'Due later', 'No date']);
+      expect(loans[0]).toEqual(expect.objectContaining({ borrower: 'Mei', overdue: true, daysOverdue: 3 }));
+      expect(loans[1].overdue).toBe(false);
+    });
+
+    it('should not flag loans due today', () => {
+      const [loan] = buildOutstandingLoans([
+        figure('Due today', [{ borrower: 'Aki', expectedReturnAt: new Date('2024-06-15T00:00:00Z') }])
+      ], now);
+
+      expect(loan).toEqual(expect.objectContaining({ overdue: false, daysOverdue: 0 }));
+    });
+  });
+});
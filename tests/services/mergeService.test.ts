@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { MergeFigure, buildMergedFields } from '../../src/services/mergeService';
+
+describe('Merge Service', () => {
+  const figure = (fields: MergeFigure): MergeFigure => ({
+    _id: new mongoose.Types.ObjectId(),
+    manufacturer: 'Alter',
+    name: 'Saber',
+    quantity: 1,
+    tags: [],
+    photos: [],
+    copies: [],
+    ...fields
+  });
+
+  it('should keep the primary values and fill gaps from the secondaries', () => {
+    const primary = figure({ scale: '', location: 'Cabinet A', storageDetail: 'Shelf 1' });
+    const secondary = figure({ name: 'Saber (synced)', scale: '1/7', mfcId: 1001, mfcLink: 'https://myfigurecollection.net/item/1001' });
+
+    const merged = buildMergedFields([primary, secondary]);
+
+    expect(merged.name).toBeUndefined();
+    expect(merged.location).toBeUndefined();
+    expect(merged.scale).toBe('1/7');
+    expect(merged.mfcId).toBe(1001);
+    expect(merged.mfcLink).toBe('https://myfigurecollection.net/item/1001');
+  });
+
+  it('should take chosen fields, with their related fields, from the chosen figure', () => {
+    const primary = figure({ location: 'Cabinet A', storageDetail: 'Shelf 1', boxNumber: 'B1' });
+    const secondary = figure({ name: 'Saber (Alter Ver.)', location: 'Closet', storageDetail: '' });
+
+    const merged = buildMergedFields([primary, secondary], {
+      name: String(secondary._id),
+      location: String(secondary._id)
+    });
+
+    expect(merged.name).toBe('Saber (Alter Ver.)');
+    expect(merged).toEqual(expect.objectContaining({ location: 'Closet', storageDetail: '', boxNumber: null }));
+  });
+
+  it('should combine tags, notes and quantities', () => {
+    const merged = buildMergedFields([
+      figure({ tags: ['fate', 'Alter'], note: 'Bought at WonFes', quantity: 2 }),
+      figure({ tags: ['alter', 'nendoroid'], note: '  ' }),
+      figure({ tags: [], note: 'Box slightly dented' })
+    ]);
+
+    expect(merged.tags).toEqual(['fate', 'Alter', 'nendoroid']);
+    expect(merged.note).toBe('Bought at WonFes\n\nBox slightly dented');
+    expect(merged.quantity).toBe(4);
+  });
+
+  it('should append secondary photos after the primary photos with one primary photo', () => {
+    const photo = (storageKey: string, order: number, isPrimary = false) => ({
+      _id: new mongoose.Types.ObjectId(), storageKey, contentType: 'image/jpeg', size: 1, order, isPrimary
+    });
+
+    const merged = buildMergedFields([
+      figure({ photos: [photo('a2', 1), photo('a1', 0)] }),
+      figure({ photos: [photo('b1', 0, true)] })
+    ]);
+
+    expect(merged.photos.map((p: any) => [p.storageKey, p.order, p.isPrimary])).toEqual([
+      ['a1', 0, false],
+      ['a2', 1, false],
+      ['b1', 2, true]
+    ]);
+  });
+
+  it('should turn every holding into copies once a figure tracks copies', () => {
+    const copy = { _id: new mongoose.Types.ObjectId(), location: 'Shelf', figureCondition: 'sealed' };
+
+    const merged = buildMergedFields([
+      figure({ copies: [copy] }),
+      figure({ quantity: 2, location: 'Closet' })
+    ]);
+
+    expect(merged.quantity).toBe(3);
+    expect(merged.copies).toHaveLength(3);
+    expect(merged.copies[0]).toBe(copy);
+    expect(merged.copies[1]).toEqual(expect.objectContaining({ location: 'Closet' }));
+  });
+
+  it('should union releases and roles without repeating entries', () => {
+    const release = { date: new Date('2024-05-01'), price: 18000, isRerelease: false, jan: '4580416940283' };
+
+    const merged = buildMergedFields([
+      figure({ releases: [{ _id: new mongoose.Types.ObjectId(), ...release }] }),
+      figure({ releases: [{ _id: new mongoose.Types.ObjectId(), ...release }, { isRerelease: true }] })
+    ]);
+
+    expect(merged.releases).toHaveLength(2);
+  });
+});
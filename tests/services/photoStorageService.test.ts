@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  LocalPhotoStorage,
+  PhotoNotFoundError,
+  detectImageType,
+  getPhotoStorage,
+  setPhotoStorage
+} from '../../src/services/photoStorageService';
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe('Photo Storage Service', () => {
+  describe('LocalPhotoStorage', () => {
+    let baseDir: string;
+    let storage: LocalPhotoStorage;
+
+    beforeEach(async () => {
+      baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'photo-storage-'));
+      storage = new LocalPhotoStorage(baseDir);
+    });
+
+    afterEach(async () => {
+      await fs.rm(baseDir, { recursive: true, force: true });
+    });
+
+    it('should save, read and remove files by key', async () => {
+      await storage.save('user1/fig1/photo1.png', PNG_HEADER, 'image/png');
+
+      expect(await storage.read('user1/fig1/photo1.png')).toEqual(PNG_HEADER);
+
+      await storage.remove('user1/fig1/photo1.png');
+      await expect(storage.read('user1/fig1/photo1.png')).rejects.toBeInstanceOf(PhotoNotFoundError);
+    });
+
+    it('should ignore removing a missing file', async () => {
+      await expect(storage.remove('user1/missing.png')).resolves.toBeUndefined();
+    });
+
+    it('should reject keys outside the base directory', async () => {
+      await expect(storage.save('../escape.png', PNG_HEADER, 'image/png')).rejects.toThrow('Invalid photo storage key');
+      await expect(storage.read('/etc/passwd')).rejects.toThrow('Invalid photo storage key');
+    });
+  });
+
+  describe('getPhotoStorage', () => {
+    const originalBackend = process.env.PHOTO_STORAGE_BACKEND;
+
+    afterEach(() => {
+      setPhotoStorage(null);
+      if (originalBackend === undefined) {
+        delete process.env.PHOTO_STORAGE_BACKEND;
+      } else {
+        process.env.PHOTO_STORAGE_BACKEND = originalBackend;
+      }
+    });
+
+    it('should default to the local backend', () => {
+      delete process.env.PHOTO_STORAGE_BACKEND;
+      expect(getPhotoStorage()).toBeInstanceOf(LocalPhotoStorage);
+    });
+
+    it('should reject unknown backends', () => {
+      process.env.PHOTO_STORAGE_BACKEND = 'floppy';
+      expect(() => getPhotoStorage()).toThrow('Unknown PHOTO_STORAGE_BACKEND');
+    });
+
+    it('should use a backend set with setPhotoStorage', () => {
+      const custom = { save: jest.fn(), read: jest.fn(), remove: jest.fn() };
+      setPhotoStorage(custom);
+      expect(getPhotoStorage()).toBe(custom);
+    });
+  });
+
+  describe('detectImageType', () => {
+    it('should recognize supported image formats by magic bytes', () => {
+      expect(detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))?.contentType).toBe('image/jpeg');
+      expect(detectImageType(PNG_HEADER)?.extension).toBe('png');
+      expect(detectImageType(Buffer.from('GIF89a...'))?.contentType).toBe('image/gif');
+      expect(detectImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))?.contentType).toBe('image/webp');
+    });
+
+    it('should reject other content regardless of file name', () => {
+      expect(detectImageType(Buffer.from('<svg onload="alert(1)"></svg>'))).toBeNull();
+      expect(detectImageType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import { buildPreorderTimeline, summarizePreorder } from '../../src/services/preorderService';
+
+describe('Pre-order Service', () => {
+  describe('summarizePreorder', () => {
+    it('should compute paid and remaining amounts and the next due payment', () => {
+      const summary = summarizePreorder({
+        preorder: {
+          totalPrice: 25000,
+          currency: 'JPY',
+          payments: [
+            { kind: 'deposit', amount: 5000, paidAt: new Date('2024-01-10') },
+            { kind: 'balance', amount: 20000, dueDate: new Date('2024-09-01') },
+            { kind: 'shipping', amount: 1500, dueDate: new Date('2024-08-15') }
+          ]
+        }
+      });
+
+      expect(summary).toEqual(expect.objectContaining({
+        totalPrice: 25000,
+        currency: 'JPY',
+        paid: 5000,
+        remaining: 20000
+      }));
+      expect(summary.nextPayment?.kind).toBe('shipping');
+    });
+
+    it('should fall back to the purchase price', () => {
+      const summary = summarizePreorder({ purchaseInfo: { price: 180, currency: 'USD' } });
+
+      expect(summary).toEqual({ totalPrice: 180, currency: 'USD', paid: 0, remaining: 180, nextPayment: null });
+    });
+
+    it('should leave remaining unknown without any price', () => {
+      expect(summarizePreorder({}).remaining).toBeNull();
+    });
+  });
+
+  describe('buildPreorderTimeline', () => {
+    const now = new Date('2024-06-15T12:00:00Z');
+    const miku = {
+      _id: new mongoose.Types.ObjectId(),
+      name: 'Hatsune Miku',
+      preorder: {
+        orderNumber: 'AMI-123',
+        currency: 'JPY',
+        expectedShipMonth: '2024-08',
+        payments: [
+          { _id: new mongoose.Types.ObjectId(), kind: 'deposit' as const, amount: 3000, paidAt: new Date('2024-01-01') },
+          { _id: new mongoose.Types.ObjectId(), kind: 'balance' as const, amount: 17000, dueDate: new Date('2024-07-20') },
+          { _id: new mongoose.Types.ObjectId(), kind: 'other' as const, amount: 500 }
+        ]
+      }
+    };
+    const saber = {
+      _id: new mongoose.Types.ObjectId(),
+      name: 'Saber',
+      releases: [
+        { date: new Date('2023-03-01') },
+        { date: new Date('2024-05-10'), isRerelease: true }
+      ],
+      preorder: {
+        payments: [{ _id: new mongoose.Types.ObjectId(), kind: 'balance' as const, amount: 100, dueDate: new Date('2024-06-01') }]
+      }
+    };
+
+    it('should merge outstanding payments and arrivals in date order', () => {
+      const events = buildPreorderTimeline([miku, saber], { now });
+
+      expect(events.map(e => [e.type, e.name, e.date.toISOString().slice(0, 10), e.overdue])).toEqual([
+        ['arrival', 'Saber', '2024-05-01', true],
+        ['payment', 'Saber', '2024-06-01', true],
+        ['payment', 'Hatsune Miku', '2024-07-20', false],
+        ['arrival', 'Hatsune Miku', '2024-08-01', false]
+      ]);
+      expect(events[1]).toEqual(expect.objectContaining({ kind: 'balance', amount: 100 }));
+      expect(events[2]).toEqual(expect.objectContaining({ orderNumber: 'AMI-123', currency: 'JPY', amount: 17000 }));
+      expect(events[0].source).toBe('release');
+      expect(events[3].source).toBe('preorder');
+    });
+
+    it('should drop events after `until`', () => {
+      const events = buildPreorderTimeline([miku, saber], { now, until: new Date('2024-07-01') });
+
+      expect(events.map(e => e.name)).toEqual(['Saber', 'Saber']);
+    });
+  });
+});
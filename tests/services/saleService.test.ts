@@ -0,0 +1,45 @@
+import { computeRealizedProfit, summarizeSales } from '../../src/services/saleService';
+
+describe('Sale Service', () => {
+  describe('computeRealizedProfit', () => {
+    it('should subtract fees, shipping and the purchase price', () => {
+      expect(computeRealizedProfit(
+        { price: 200, currency: 'USD', fees: 26.1, shipping: 14 },
+        { price: 150, currency: 'USD' }
+      )).toEqual({ currency: 'USD', proceeds: 159.9, cost: 150, profit: 9.9 });
+    });
+
+    it('should report losses as negative profit', () => {
+      expect(computeRealizedProfit({ price: 9000, currency: 'jpy' }, { price: 12000, currency: 'JPY' }).profit).toBe(-3000);
+    });
+
+    it('should leave profit unknown when the currencies differ', () => {
+      const result = computeRealizedProfit({ price: 100, currency: 'EUR' }, { price: 150 });
+
+      expect(result.proceeds).toBe(100);
+      expect(result.profit).toBeNull();
+    });
+
+    it('should leave profit unknown without a sale or purchase price', () => {
+      expect(computeRealizedProfit({ tradedFor: 'Rin' }, { price: 150 }).profit).toBeNull();
+      expect(computeRealizedProfit({ price: 150, currency: 'USD' }, undefined).profit).toBeNull();
+    });
+  });
+
+  describe('summarizeSales', () => {
+    it('should total sales per currency and count the unknown ones', () => {
+      const summary = summarizeSales([
+        { sale: { price: 200, currency: 'USD' }, purchaseInfo: { price: 150, currency: 'USD' } },
+        { sale: { price: 80, currency: 'USD', fees: 10 }, purchaseInfo: { price: 100, currency: 'USD' } },
+        { sale: { price: 9000, currency: 'JPY' }, purchaseInfo: { price: 8000, currency: 'JPY' } },
+        { sale: { tradedFor: 'Rin' } }
+      ]);
+
+      expect(summary.totals).toEqual([
+        { currency: 'USD', count: 2, proceeds: 270, cost: 250, profit: 20 },
+        { currency: 'JPY', count: 1, proceeds: 9000, cost: 8000, profit: 1000 }
+      ]);
+      expect(summary.unknownProfit).toBe(1);
+    });
+  });
+});
@@ -565,7 +565,7 @@ describe('Search Service - Atlas Search Path', () => {
               })
             })
           }),
-          expect.objectContaining({ $match: { userId: testUserId } }),
+          expect.objectContaining({ $match: { userId: testUserId, deletedAt: null } }),
           expect.objectContaining({ $addFields: { searchScore: { $meta: 'searchScore' } } }),
           expect.objectContaining({ $sort: { searchScore: -1 } }),
           expect.objectContaining({ $limit: 15 })
@@ -841,7 +841,7 @@ describe('Search Service - Atlas Search Path', () => {
       expect(aggregateSpy).toHaveBeenCalledWith(
         expect.arrayContaining([
           expect.objectContaining({
-            $match: { userId: testUserId }
+            $match: { userId: testUserId, deletedAt: null }
           })
         ])
       );
@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { buildShelfCondition, capacityError, placeFigure } from '../../src/services/shelfService';
+
+describe('Shelf Service', () => {
+  describe('placeFigure', () => {
+    it('should append a new figure or insert it at a position', () => {
+      expect(placeFigure(['a', 'b'], 'c')).toEqual(['a', 'b', 'c']);
+      expect(placeFigure(['a', 'b'], 'c', 0)).toEqual(['c', 'a', 'b']);
+      expect(placeFigure(['a', 'b'], 'c', 10)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should move a figure that is already on the shelf', () => {
+      expect(placeFigure(['a', 'b', 'c'], 'c', 1)).toEqual(['a', 'c', 'b']);
+      expect(placeFigure(['a', 'b', 'c'], 'a')).toEqual(['b', 'c', 'a']);
+    });
+  });
+
+  describe('capacityError', () => {
+    it('should only complain when a capacity is exceeded', () => {
+      expect(capacityError({ name: 'Top shelf', capacity: 2 }, 2)).toBeNull();
+      expect(capacityError({ name: 'Top shelf', capacity: null }, 50)).toBeNull();
+      expect(capacityError({ name: 'Top shelf', capacity: 2 }, 3)).toBe('Shelf "Top shelf" holds at most 2 figures');
+    });
+  });
+
+  describe('buildShelfCondition', () => {
+    const figureA = new mongoose.Types.ObjectId();
+    const figureB = new mongoose.Types.ObjectId();
+    const figureC = new mongoose.Types.ObjectId();
+    const top = { _id: new mongoose.Types.ObjectId(), figureIds: [figureA, figureB] };
+    const bottom = { _id: new mongoose.Types.ObjectId(), figureIds: [figureB, figureC] };
+    const shelves = [top, bottom];
+
+    it('should match figures on any of the listed shelves', () => {
+      const { condition, errors } = buildShelfCondition(shelves, `${top._id},${bottom._id}`);
+      expect(errors).toEqual([]);
+      expect(condition).toEqual({ _id: { $in: [figureA, figureB, figureC] } });
+    });
+
+    it('should match figures on no shelf', () => {
+      const { condition } = buildShelfCondition(shelves, '__unspecified__');
+      expect(condition).toEqual({ _id: { $nin: [figureA, figureB, figureC] } });
+
+      const mixed = buildShelfCondition(shelves, `${top._id},__unspecified__`);
+      expect(mixed.condition).toEqual({
+        $or: [{ _id: { $in: [figureA, figureB] } }, { _id: { $nin: [figureA, figureB, figureC] } }]
+      });
+    });
+
+    it('should reject shelves the user does not have', () => {
+      const unknown = new mongoose.Types.ObjectId().toString();
+      const { condition, errors } = buildShelfCondition(shelves, unknown);
+      expect(condition).toBeUndefined();
+      expect(errors).toEqual([`Unknown shelf "${unknown}"`]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { summarizeSpending } from '../../src/services/spendingService';
+import { parseExchangeRates } from '../../src/services/valuationService';
+
+describe('Spending Service', () => {
+  const table = parseExchangeRates(JSON.stringify({
+    base: 'USD',
+    rates: [{ date: '2023-01-01', JPY: 100 }]
+  }));
+
+  const figures = [
+    {
+      manufacturer: 'Good Smile Company',
+      origin: 'Vocaloid',
+      purchaseInfo: { price: 150, currency: 'USD', date: new Date('2024-03-10') },
+      merchant: { name: 'AmiAmi' }
+    },
+    {
+      manufacturer: 'Alter',
+      origin: 'Fate',
+      copies: [
+        { purchaseInfo: { price: 20000, currency: 'JPY', date: new Date('2024-03-25') }, merchant: { name: 'Mandarake' } },
+        { purchaseInfo: { price: 10000, currency: 'JPY', date: new Date('2023-11-02') }, merchant: { name: 'AmiAmi' } }
+      ]
+    },
+    {
+      manufacturer: 'Alter',
+      purchaseInfo: { price: 80, currency: 'USD' }
+    },
+    {
+      manufacturer: 'Kotobukiya',
+      purchaseInfo: { price: 60, currency: 'EUR', date: new Date('2024-05-01') }
+    }
+  ];
+
+  const report = summarizeSpending(figures, table, 'USD', 2024);
+
+  it('should total the year and compare it with the previous year', () => {
+    expect(report).toEqual(expect.objectContaining({
+      currency: 'USD',
+      year: 2024,
+      total: 350,
+      count: 2,
+      previousYearTotal: 100,
+      previousYearCount: 1,
+      changePercent: 250
+    }));
+  });
+
+  it('should break the year down by month with last year\'s month alongside', () => {
+    expect(report.byMonth).toHaveLength(12);
+    expect(report.byMonth[2]).toEqual({ month: '2024-03', total: 350, count: 2, previousYearTotal: 0, previousYearCount: 0 });
+    expect(report.byMonth[10]).toEqual({ month: '2024-11', total: 0, count: 0, previousYearTotal: 100, previousYearCount: 1 });
+  });
+
+  it('should group by merchant (per copy), origin and manufacturer', () => {
+    expect(report.byMerchant).toEqual([
+      { _id: 'Mandarake', total: 200, count: 1, previousYearTotal: 0, previousYearCount: 0 },
+      { _id: 'AmiAmi', total: 150, count: 1, previousYearTotal: 100, previousYearCount: 1 }
+    ]);
+    expect(report.byOrigin.map(group => group._id)).toEqual(['Fate', 'Vocaloid']);
+    expect(report.byManufacturer[0]).toEqual(expect.objectContaining({ _id: 'Alter', total: 200, previousYearTotal: 100 }));
+  });
+
+  it('should list every year plus undated and unconvertible purchases', () => {
+    expect(report.byYear).toEqual([
+      { year: 2023, total: 100, count: 1 },
+      { year: 2024, total: 350, count: 2 }
+    ]);
+    expect(report.undated).toEqual({ total: 80, count: 1 });
+    expect(report.unconverted).toEqual([{ currency: 'EUR', count: 1 }]);
+  });
+
+  it('should leave the change unknown when nothing was spent the year before', () => {
+    expect(summarizeSpending(figures, table, 'USD', 2023).changePercent).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import {
+  buildStatusTimeline,
+  durationGroupValue,
+  statusChangesFromHistory,
+  summarizeDurations,
+  transitionDurations
+} from '../../src/services/statusHistoryService';
+
+describe('Status History Service', () => {
+  const figureId = new mongoose.Types.ObjectId();
+  const userId = new mongoose.Types.ObjectId();
+  const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n));
+
+  describe('statusChangesFromHistory', () => {
+    const changedAt = day(0);
+
+    it('should record the status a figure is added with and later transitions', () => {
+      const changes = statusChangesFromHistory([
+        { figureId, userId, action: 'create', before: null, after: { collectionStatus: 'wished' } },
+        {
+          figureId, userId, action: 'update',
+          before: { collectionStatus: 'wished' }, after: { collectionStatus: 'ordered' },
+          statusNote: 'AmiAmi pre-order'
+        }
+      ], changedAt);
+
+      expect(changes).toEqual([
+        { figureId, userId, fromStatus: null, toStatus: 'wished', changedAt },
+        { figureId, userId, fromStatus: 'wished', toStatus: 'ordered', changedAt, note: 'AmiAmi pre-order' }
+      ]);
+    });
+
+    it('should skip changes that keep the status, deletes and restores', () => {
+      expect(statusChangesFromHistory([
+        { figureId, userId, action: 'update', before: { collectionStatus: 'owned', name: 'A' }, after: { collectionStatus: 'owned', name: 'B' } },
+        // Figures without a status count as owned
+        { figureId, userId, action: 'update', before: { name: 'A' }, after: { collectionStatus: 'owned' } },
+        { figureId, userId, action: 'delete', before: { collectionStatus: 'owned' }, after: { collectionStatus: 'owned' } },
+        { figureId, userId, action: 'restore', before: null, after: { collectionStatus: 'owned' } }
+      ], changedAt)).toEqual([]);
+    });
+  });
+
+  describe('buildStatusTimeline', () => {
+    it('should order changes and count the days spent in the previous status', () => {
+      const ordered = { _id: new mongoose.Types.ObjectId(), fromStatus: 'wished', toStatus: 'ordered', changedAt: day(10) };
+      const added = { _id: new mongoose.Types.ObjectId(), fromStatus: null, toStatus: 'wished', changedAt: day(0) };
+
+      expect(buildStatusTimeline([ordered, added])).toEqual([
+        { ...added, daysInPreviousStatus: null },
+        { ...ordered, daysInPreviousStatus: 10 }
+      ]);
+    });
+  });
+
+  describe('transitionDurations', () => {
+    it('should measure from the latest entry into the start status', () => {
+      const other = new mongoose.Types.ObjectId();
+      const durations = transitionDurations([
+        { figureId, toStatus: 'ordered', changedAt: day(0) },
+        { figureId, toStatus: 'wished', changedAt: day(5) },
+        { figureId, toStatus: 'ordered', changedAt: day(20) },
+        { figureId, toStatus: 'owned', changedAt: day(80) },
+        { figureId: other, toStatus: 'owned', changedAt: day(3) },
+        { figureId: other, toStatus: 'ordered', changedAt: day(4) }
+      ], 'ordered', 'owned');
+
+      expect(durations).toEqual([
+        { figureId: String(figureId), fromAt: day(20), toAt: day(80), days: 60 }
+      ]);
+    });
+  });
+
+  describe('summarizeDurations', () => {
+    it('should average durations per group, largest groups first', () => {
+      const durations = [10, 20, 40].map((days, i) => ({ figureId: `f${i}`, fromAt: day(0), toAt: day(days), days }));
+      const group = (id: string) => (id === 'f2' ? 'Alter' : 'Good Smile Company');
+
+      expect(summarizeDurations(durations)).toEqual([
+        { group: null, count: 3, averageDays: 23.3, minDays: 10, maxDays: 40 }
+      ]);
+      expect(summarizeDurations(durations, group)).toEqual([
+        { group: 'Good Smile Company', count: 2, averageDays: 15, minDays: 10, maxDays: 20 },
+        { group: 'Alter', count: 1, averageDays: 40, minDays: 40, maxDays: 40 }
+      ]);
+    });
+  });
+
+  describe('durationGroupValue', () => {
+    it('should read the grouping field, using the merchant name', () => {
+      expect(durationGroupValue({ manufacturer: ' Alter ' }, 'manufacturer')).toBe('Alter');
+      expect(durationGroupValue({ merchant: { name: 'AmiAmi' } }, 'merchant')).toBe('AmiAmi');
+      expect(durationGroupValue({ scale: '' }, 'scale')).toBeNull();
+    });
+  });
+});
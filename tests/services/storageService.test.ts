@@ -0,0 +1,60 @@
+import {
+  buildStorageTree,
+  kindForDepth,
+  locationFieldsForPath,
+  normalizeStorageName,
+  storagePath,
+  storagePathFromText,
+  StorageNodeLike
+} from '../../src/services/storageService';
+
+describe('Storage Service', () => {
+  const room: StorageNodeLike = { _id: 'room', name: 'Living room', kind: 'room', parentId: null, ancestors: [] };
+  const cabinet: StorageNodeLike = { _id: 'cabinet', name: 'Cabinet A', kind: 'cabinet', parentId: 'room', ancestors: ['room'] };
+  const shelf: StorageNodeLike = { _id: 'shelf', name: 'Top shelf', kind: 'shelf', parentId: 'cabinet', ancestors: ['room', 'cabinet'] };
+  const box: StorageNodeLike = { _id: 'box', name: 'Box 3', kind: 'box', parentId: 'cabinet', ancestors: ['room', 'cabinet'] };
+  const closet: StorageNodeLike = { _id: 'closet', name: 'Closet', kind: 'room', parentId: null, ancestors: [] };
+  const nodes = [shelf, room, box, closet, cabinet];
+
+  describe('paths', () => {
+    it('should list names from the top-level location down', () => {
+      const byId = new Map(nodes.map(node => [String(node._id), node]));
+      expect(storagePath(shelf, byId)).toEqual(['Living room', 'Cabinet A', 'Top shelf']);
+      expect(storagePath(room, byId)).toEqual(['Living room']);
+    });
+
+    it('should derive location and storageDetail from a path', () => {
+      expect(locationFieldsForPath(['Living room', 'Cabinet A', 'Top shelf'])).toEqual({
+        location: 'Living room',
+        storageDetail: 'Cabinet A / Top shelf'
+      });
+      expect(locationFieldsForPath(['Closet'])).toEqual({ location: 'Closet', storageDetail: '' });
+    });
+
+    it('should turn legacy free text into a normalized path', () => {
+      expect(normalizeStorageName('  Closet   A ')).toBe('Closet A');
+      expect(storagePathFromText('closet ', 'Shelf 2 / Box 1')).toEqual(['closet', 'Shelf 2', 'Box 1']);
+      expect(storagePathFromText('Closet', '')).toEqual(['Closet']);
+      expect(storagePathFromText('  ', 'Shelf 2')).toEqual([]);
+    });
+
+    it('should pick deeper kinds for deeper nodes', () => {
+      expect([0, 1, 2, 3, 4].map(kindForDepth)).toEqual(['room', 'cabinet', 'shelf', 'box', 'box']);
+    });
+  });
+
+  describe('buildStorageTree', () => {
+    it('should nest nodes and roll figure counts up through the hierarchy', () => {
+      const tree = buildStorageTree(nodes, new Map([['room', 1], ['shelf', 4], ['box', 2], ['closet', 3]]));
+
+      expect(tree.map(node => node.name)).toEqual(['Closet', 'Living room']);
+      const [closetNode, roomNode] = tree;
+      expect(closetNode).toEqual(expect.objectContaining({ count: 3, total: 3, children: [] }));
+      expect(roomNode).toEqual(expect.objectContaining({ count: 1, total: 7 }));
+
+      const cabinetNode = roomNode.children[0];
+      expect(cabinetNode).toEqual(expect.objectContaining({ name: 'Cabinet A', parentId: 'room', count: 0, total: 6 }));
+      expect(cabinetNode.children.map(child => [child.name, child.total])).toEqual([['Box 3', 2], ['Top shelf', 4]]);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { computePurgeAt, getTrashRetentionDays, DEFAULT_TRASH_RETENTION_DAYS } from '../../src/services/trashService';
+
+describe('Trash Service', () => {
+  const originalRetention = process.env.TRASH_RETENTION_DAYS;
+
+  afterEach(() => {
+    if (originalRetention === undefined) {
+      delete process.env.TRASH_RETENTION_DAYS;
+    } else {
+      process.env.TRASH_RETENTION_DAYS = originalRetention;
+    }
+  });
+
+  describe('getTrashRetentionDays', () => {
+    it('should default to 30 days', () => {
+      delete process.env.TRASH_RETENTION_DAYS;
+      expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+
+    it('should read TRASH_RETENTION_DAYS', () => {
+      process.env.TRASH_RETENTION_DAYS = '7';
+      expect(getTrashRetentionDays()).toBe(7);
+    });
+
+    it('should ignore invalid values', () => {
+      process.env.TRASH_RETENTION_DAYS = '0';
+      expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      process.env.TRASH_RETENTION_DAYS = 'forever';
+      expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+  });
+
+  describe('computePurgeAt', () => {
+    it('should add the retention period to the deletion time', () => {
+      const deletedAt = new Date('2024-01-01T00:00:00Z');
+      expect(computePurgeAt(deletedAt, 14).toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  convertAmount,
+  ExchangeRateConfigError,
+  parseExchangeRates,
+  valueCollection
+} from '../../src/services/valuationService';
+
+describe('Valuation Service', () => {
+  const table = parseExchangeRates(JSON.stringify({
+    base: 'USD',
+    rates: [
+      { date: '2024-01-01', JPY: 100, CNY: 5 },
+      { date: '2020-01-01', JPY: 200 }
+    ]
+  }));
+
+  describe('parseExchangeRates', () => {
+    it('should sort dated rates oldest first', () => {
+      expect(table.base).toBe('USD');
+      expect(table.rates.map(r => r.date.toISOString().slice(0, 10))).toEqual(['2020-01-01', '2024-01-01']);
+    });
+
+    it('should reject malformed configs', () => {
+      expect(() => parseExchangeRates('not json')).toThrow(ExchangeRateConfigError);
+      expect(() => parseExchangeRates('{"base":"dollars","rates":[]}')).toThrow(/base/);
+      expect(() => parseExchangeRates('{"base":"USD","rates":[{"JPY":100}]}')).toThrow(/date/);
+      expect(() => parseExchangeRates('{"base":"USD","rates":[{"date":"2024-01-01","JPY":-1}]}')).toThrow(/JPY/);
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should use the latest rates on or before the date', () => {
+      expect(convertAmount(table, 1000, 'JPY', 'USD', new Date('2022-06-01'))).toBe(5);
+      expect(convertAmount(table, 1000, 'JPY', 'USD', new Date('2024-06-01'))).toBe(10);
+    });
+
+    it('should use the earliest rates for older dates and the latest for undated amounts', () => {
+      expect(convertAmount(table, 1000, 'JPY', 'USD', new Date('2010-01-01'))).toBe(5);
+      expect(convertAmount(table, 1000, 'JPY', 'USD')).toBe(10);
+    });
+
+    it('should convert between two non-base currencies', () => {
+      expect(convertAmount(table, 1000, 'JPY', 'CNY', new Date('2024-06-01'))).toBe(50);
+    });
+
+    it('should return null without a rate', () => {
+      expect(convertAmount(table, 10, 'EUR', 'USD')).toBeNull();
+      expect(convertAmount(null, 10, 'JPY', 'USD')).toBeNull();
+      expect(convertAmount(null, 10, 'usd', 'USD')).toBe(10);
+    });
+  });
+
+  describe('valueCollection', () => {
+    const figures = [
+      {
+        collectionStatus: 'owned',
+        manufacturer: 'Good Smile Company',
+        origin: 'Vocaloid',
+        quantity: 2,
+        purchaseInfo: { price: 30, currency: 'USD' },
+        releases: [
+          { price: 3000, currency: 'JPY', isRerelease: true },
+          { price: 2000, currency: 'JPY', isRerelease: false, date: new Date('2024-03-01') }
+        ]
+      },
+      {
+        companyRoles: [{ companyName: 'Alter', roleName: 'Manufacturer' }],
+        copies: [
+          { purchaseInfo: { price: 1000, currency: 'JPY', date: new Date('2024-02-01') } },
+          { purchaseInfo: { price: 50, currency: 'CNY', date: new Date('2024-02-01') } }
+        ]
+      },
+      {
+        collectionStatus: 'wished',
+        manufacturer: 'Alter',
+        purchaseInfo: { price: 40, currency: 'EUR' }
+      }
+    ];
+
+    it('should total purchase and retail value in the target currency', () => {
+      const valuation = valueCollection(figures, table, 'usd');
+
+      expect(valuation.currency).toBe('USD');
+      expect(valuation.totals).toEqual({ count: 3, copies: 5, purchaseTotal: 80, retailTotal: 40 });
+      expect(valuation.unconverted).toEqual([{ currency: 'EUR', count: 1 }]);
+    });
+
+    it('should break totals down by status, manufacturer and origin', () => {
+      const valuation = valueCollection(figures, table, 'USD');
+
+      expect(valuation.byStatus).toEqual([
+        { _id: 'owned', count: 2, copies: 4, purchaseTotal: 80, retailTotal: 40 },
+        { _id: 'wished', count: 1, copies: 1, purchaseTotal: 0, retailTotal: 0 }
+      ]);
+      expect(valuation.byManufacturer).toEqual([
+        { _id: 'Good Smile Company', count: 1, copies: 2, purchaseTotal: 60, retailTotal: 40 },
+        { _id: 'Alter', count: 2, copies: 3, purchaseTotal: 20, retailTotal: 0 }
+      ]);
+      expect(valuation.byOrigin.map(group => group._id)).toEqual(['Vocaloid', null]);
+    });
+
+    it('should count the purchase price per unit when there are no copy records', () => {
+      const valuation = valueCollection([{
+        quantity: 2,
+        purchaseInfo: { price: 30, currency: 'USD' },
+        releases: [{ price: 2000, currency: 'JPY', date: new Date('2024-03-01') }]
+      }], table, 'USD');
+
+      expect(valuation.totals).toEqual({ count: 1, copies: 2, purchaseTotal: 60, retailTotal: 40 });
+    });
+  });
+});
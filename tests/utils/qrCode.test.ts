@@ -0,0 +1,82 @@
+import {
+  encodeDataCodewords,
+  encodeQrCode,
+  formatBits,
+  qrCodeSvgPath,
+  reedSolomonDivisor,
+  reedSolomonRemainder,
+  versionBits
+} from '../../src/utils/qrCode';
+
+describe('QR Code', () => {
+  describe('building blocks', () => {
+    it('should compute Reed-Solomon error correction codewords', () => {
+      // "HELLO WORLD", version 1-M (ISO/IEC 18004 worked example)
+      const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+      expect(reedSolomonRemainder(data, reedSolomonDivisor(10))).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+
+    it('should produce the standard format and version information', () => {
+      expect(formatBits(0).toString(2).padStart(15, '0')).toBe('101010000010010');
+      expect(formatBits(5).toString(2).padStart(15, '0')).toBe('100000011001110');
+      expect(versionBits(7).toString(2).padStart(18, '0')).toBe('000111110010010100');
+    });
+
+    it('should pad data codewords to the version capacity', () => {
+      const codewords = encodeDataCodewords(new TextEncoder().encode('ab'), 1);
+      expect(codewords).toHaveLength(16);
+      // Byte mode, length 2, "a", "b", terminator, then alternating pad bytes
+      expect(codewords.slice(0, 5)).toEqual([0x40, 0x26, 0x16, 0x20, 0xec]);
+      expect(codewords.slice(-2)).toEqual([0xec, 0x11]);
+      expect(encodeDataCodewords(new TextEncoder().encode('ab'), 10)).toHaveLength(216);
+    });
+  });
+
+  describe('encodeQrCode', () => {
+    const finderAt = (modules: boolean[][], x: number, y: number) =>
+      [0, 6].every(d => modules[y + d].slice(x, x + 7).every(Boolean)) &&
+      modules[y + 2].slice(x, x + 7).join() === [true, false, true, true, true, false, true].join();
+
+    it('should use the smallest version that fits', () => {
+      expect(encodeQrCode('Box 12')).toHaveLength(21);
+      expect(encodeQrCode('https://figures.example.com/figures?storageNode=65f1c0ffee0123456789abcd')).toHaveLength(37);
+      expect(encodeQrCode('x'.repeat(300))).toHaveLength(4 * 13 + 17);
+    });
+
+    it('should draw the finder patterns, timing patterns and dark module', () => {
+      const modules = encodeQrCode('https://figures.example.com/figures?boxNumber=B-7');
+      const size = modules.length;
+
+      expect(finderAt(modules, 0, 0)).toBe(true);
+      expect(finderAt(modules, size - 7, 0)).toBe(true);
+      expect(finderAt(modules, 0, size - 7)).toBe(true);
+      for (let i = 8; i < size - 8; i++) {
+        expect(modules[6][i]).toBe(i % 2 === 0);
+        expect(modules[i][6]).toBe(i % 2 === 0);
+      }
+      expect(modules[size - 8][8]).toBe(true);
+    });
+
+    it('should write both copies of the format information', () => {
+      const modules = encodeQrCode('Box 12');
+      const size = modules.length;
+      const bit = (value: boolean, i: number) => (value ? 1 << i : 0);
+
+      let first = 0;
+      for (let i = 0; i <= 5; i++) first |= bit(modules[i][8], i);
+      first |= bit(modules[7][8], 6) | bit(modules[8][8], 7) | bit(modules[8][7], 8);
+      for (let i = 9; i < 15; i++) first |= bit(modules[8][14 - i], i);
+
+      let second = 0;
+      for (let i = 0; i < 8; i++) second |= bit(modules[8][size - 1 - i], i);
+      for (let i = 8; i < 15; i++) second |= bit(modules[size - 15 + i][8], i);
+
+      expect(second).toBe(first);
+      expect(Array.from({ length: 8 }, (_, mask) => formatBits(mask))).toContain(first);
+    });
+  });
+
+  it('should draw dark modules as an SVG path inside the quiet zone', () => {
+    expect(qrCodeSvgPath([[true, false], [false, true]])).toBe('M4,4h1v1h-1zM5,5h1v1h-1z');
+  });
+});
@@ -1,5 +1,5 @@
 import { Response } from 'express';
-import { handleErrorResponse } from '../../src/utils/responseUtils';
+import { figureNotFound, handleErrorResponse, serverError, validationError } from '../../src/utils/responseUtils';
 
 describe('Response Utils', () => {
   describe('handleErrorResponse', () => {
@@ -120,4 +120,78 @@ describe('Response Utils', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('serverError', () => {
+    let mockResponse: Partial<Response>;
+    const logger = { error: jest.fn() } as any;
+
+    beforeEach(() => {
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+    });
+
+    it('should log the error with its context', () => {
+      serverError(mockResponse as Response, logger, 'Export Figures', new Error('Database down'));
+
+      expect(logger.error).toHaveBeenCalledWith('Export Figures Error:', 'Database down');
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: 'Server Error',
+        error: 'Database down'
+      });
+    });
+
+    it('should not send the error message in production', () => {
+      const originalEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+
+      serverError(mockResponse as Response, logger, 'Export Figures', new Error('Database down'));
+
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: 'Server Error',
+        error: 'An error occurred'
+      });
+
+      process.env.NODE_ENV = originalEnv;
+    });
+  });
+
+  describe('validationError', () => {
+    it('should answer 422 with the errors', () => {
+      const mockResponse: Partial<Response> = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+
+      validationError(mockResponse as Response, ['name is required']);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(422);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: 'Validation Error',
+        errors: ['name is required']
+      });
+    });
+  });
+
+  describe('figureNotFound', () => {
+    it('should answer 404', () => {
+      const mockResponse: Partial<Response> = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+
+      figureNotFound(mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: 'Figure not found or you do not have permission'
+      });
+    });
+  });
+});